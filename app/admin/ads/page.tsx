@@ -0,0 +1,505 @@
+'use client'
+import { useState, useEffect } from 'react'
+import { PencilIcon, TrashIcon, PlusIcon } from '@heroicons/react/24/outline'
+import toast, { Toaster } from 'react-hot-toast'
+import ConfirmDialogAdmin from '@/components/ConfirmDialogAdmin'
+import { useLanguage } from '@/context/LanguageContext'
+
+const PAGE_SIZE = 10
+
+type AdStatus = 'active' | 'scheduled' | 'expired' | 'inactive'
+
+interface City {
+  name: string
+  nameAr: string
+}
+
+interface Ad {
+  id: string
+  title: string | null
+  imageUrl: string
+  url: string
+  description: string | null
+  tripId: string | null
+  isActive: boolean
+  startsAt: string | null
+  endsAt: string | null
+  impressions: number
+  clicks: number
+  status: AdStatus
+  trip: {
+    id: string
+    departureTime: string
+    route: { departureCity: City, arrivalCity: City }
+  } | null
+}
+
+interface TripOption {
+  id: string
+  departureTime: string
+  route: { departureCity: City, arrivalCity: City }
+}
+
+interface AdForm {
+  title: string
+  url: string
+  description: string
+  tripId: string
+  isActive: boolean
+  startsAt: string
+  endsAt: string
+  image: File | null
+}
+
+const EMPTY_FORM: AdForm = {
+  title: '',
+  url: '',
+  description: '',
+  tripId: '',
+  isActive: true,
+  startsAt: '',
+  endsAt: '',
+  image: null
+}
+
+// <input type="datetime-local"> wants local time without seconds or zone
+const toLocalInput = (value: string | null) => {
+  if (!value) return ''
+  const date = new Date(value)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+const STATUS_COLORS: Record<AdStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  expired: 'bg-gray-100 text-gray-800',
+  inactive: 'bg-red-100 text-red-800'
+}
+
+export default function AdsPage() {
+  const { language, translations } = useLanguage()
+  const t = translations.dashboard.ads
+  const [ads, setAds] = useState<Ad[]>([])
+  const [trips, setTrips] = useState<TripOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [status, setStatus] = useState<'' | AdStatus>('')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [editingAd, setEditingAd] = useState<Ad | null>(null)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [form, setForm] = useState<AdForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [adToDelete, setAdToDelete] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchAds()
+  }, [status, page])
+
+  useEffect(() => {
+    fetchTrips()
+  }, [])
+
+  const authHeaders = () => ({
+    'Authorization': `Bearer ${localStorage.getItem('token')}`
+  })
+
+  const fetchAds = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+      if (status) params.append('status', status)
+
+      const response = await fetch(`/api/admin/ads?${params.toString()}`, {
+        headers: authHeaders()
+      })
+
+      const data = await response.json()
+      setAds(Array.isArray(data.data) ? data.data : [])
+      setTotalPages(data.pagination?.totalPages || 1)
+    } catch (error) {
+      console.error('Error fetching ads:', error)
+      toast.error(t.errors.loadFailed)
+      setAds([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Only upcoming trips can be promoted
+  const fetchTrips = async () => {
+    try {
+      const response = await fetch('/api/admin/trips?status=scheduled&limit=100', {
+        headers: authHeaders()
+      })
+
+      const data = await response.json()
+      setTrips(Array.isArray(data.data) ? data.data : [])
+    } catch (error) {
+      console.error('Error fetching trips:', error)
+    }
+  }
+
+  const cityName = (city: City) => language === 'ar' ? city.nameAr : city.name
+
+  const tripLabel = (trip: TripOption) =>
+    `${cityName(trip.route.departureCity)} → ${cityName(trip.route.arrivalCity)} · ${new Date(trip.departureTime).toLocaleString()}`
+
+  const openCreate = () => {
+    setEditingAd(null)
+    setForm(EMPTY_FORM)
+    setIsFormOpen(true)
+  }
+
+  const openEdit = (ad: Ad) => {
+    setEditingAd(ad)
+    setForm({
+      title: ad.title || '',
+      url: ad.url,
+      description: ad.description || '',
+      tripId: ad.tripId || '',
+      isActive: ad.isActive,
+      startsAt: toLocalInput(ad.startsAt),
+      endsAt: toLocalInput(ad.endsAt),
+      image: null
+    })
+    setIsFormOpen(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!editingAd && !form.image) {
+      toast.error(t.errors.imageRequired)
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const formData = new FormData()
+      formData.append('title', form.title)
+      formData.append('url', form.url)
+      formData.append('description', form.description)
+      formData.append('tripId', form.tripId)
+      formData.append('isActive', String(form.isActive))
+      formData.append('startsAt', form.startsAt ? new Date(form.startsAt).toISOString() : '')
+      formData.append('endsAt', form.endsAt ? new Date(form.endsAt).toISOString() : '')
+      if (form.image) {
+        formData.append('image', form.image)
+      }
+
+      const response = await fetch(editingAd ? `/api/admin/ads/${editingAd.id}` : '/api/admin/ads', {
+        method: editingAd ? 'PUT' : 'POST',
+        headers: authHeaders(),
+        body: formData
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || t.errors.saveFailed)
+      }
+
+      toast.success(editingAd ? t.success.updated : t.success.created)
+      setIsFormOpen(false)
+      fetchAds()
+    } catch (error: any) {
+      toast.error(error.message || t.errors.saveFailed)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!adToDelete) return
+
+    try {
+      const response = await fetch(`/api/admin/ads/${adToDelete}`, {
+        method: 'DELETE',
+        headers: authHeaders()
+      })
+
+      if (!response.ok) {
+        throw new Error(t.errors.deleteFailed)
+      }
+
+      setAds(ads.filter(ad => ad.id !== adToDelete))
+      toast.success(t.success.deleted)
+    } catch (error: any) {
+      toast.error(error.message || t.errors.deleteFailed)
+    } finally {
+      setAdToDelete(null)
+    }
+  }
+
+  const clickRate = (ad: Ad) =>
+    ad.impressions > 0 ? `${((ad.clicks / ad.impressions) * 100).toFixed(1)}%` : '—'
+
+  return (
+    <div className="p-6">
+      <Toaster position="top-right" />
+
+      <ConfirmDialogAdmin
+        isOpen={adToDelete !== null}
+        onClose={() => setAdToDelete(null)}
+        onConfirm={handleDelete}
+        title={t.delete.title}
+        message={t.delete.message}
+        confirmText={t.delete.confirm}
+        cancelText={t.form.cancel}
+      />
+
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center overflow-y-auto">
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white rounded-xl w-full max-w-lg mx-4 my-8 p-6 shadow-xl space-y-4 text-black"
+          >
+            <h3 className="text-lg font-semibold text-gray-900">
+              {editingAd ? t.form.editTitle : t.form.createTitle}
+            </h3>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.image}</label>
+              {editingAd && !form.image && (
+                <img src={editingAd.imageUrl} alt="" className="h-24 w-full object-cover rounded mb-2" />
+              )}
+              <input
+                type="file"
+                accept="image/*"
+                onChange={(e) => setForm({ ...form, image: e.target.files?.[0] || null })}
+                className="w-full text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.title}</label>
+              <input
+                type="text"
+                value={form.title}
+                maxLength={150}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.url}</label>
+              <input
+                type="text"
+                value={form.url}
+                maxLength={255}
+                placeholder="https://… or /trips"
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                dir="ltr"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.description}</label>
+              <textarea
+                value={form.description}
+                rows={3}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.trip}</label>
+              <select
+                value={form.tripId}
+                onChange={(e) => setForm({ ...form, tripId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="">{t.form.noTrip}</option>
+                {editingAd?.trip && !trips.some(trip => trip.id === editingAd.trip?.id) && (
+                  <option value={editingAd.trip.id}>{tripLabel(editingAd.trip)}</option>
+                )}
+                {trips.map(trip => (
+                  <option key={trip.id} value={trip.id}>{tripLabel(trip)}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.startsAt}</label>
+                <input
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.endsAt}</label>
+                <input
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">{t.form.scheduleHint}</p>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              />
+              {t.form.isActive}
+            </label>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                type="button"
+                onClick={() => setIsFormOpen(false)}
+                className="px-4 py-2 rounded-lg text-gray-700 bg-gray-100 hover:bg-gray-200"
+              >
+                {t.form.cancel}
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {saving ? t.form.saving : t.form.save}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="max-w-7xl mx-auto">
+        <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">{t.title}</h1>
+
+          <div className="flex items-center gap-4">
+            <select
+              value={status}
+              onChange={(e) => {
+                setStatus(e.target.value as '' | AdStatus)
+                setPage(1)
+              }}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">{t.filters.all}</option>
+              <option value="active">{t.status.active}</option>
+              <option value="scheduled">{t.status.scheduled}</option>
+              <option value="expired">{t.status.expired}</option>
+              <option value="inactive">{t.status.inactive}</option>
+            </select>
+            <button
+              onClick={openCreate}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              <PlusIcon className="h-5 w-5" />
+              {t.add}
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="animate-pulse space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : ads.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">{t.empty}</div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.ad}</th>
+                    <th className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.schedule}</th>
+                    <th className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.status}</th>
+                    <th className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.impressions}</th>
+                    <th className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.clicks}</th>
+                    <th className="px-6 py-3 text-end text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.actions}</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {ads.map(ad => (
+                    <tr key={ad.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4">
+                        <div className="flex items-center gap-3">
+                          <img src={ad.imageUrl} alt="" className="h-12 w-20 object-cover rounded" />
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">{ad.title || ad.url}</div>
+                            <div className="text-sm text-gray-500">
+                              {ad.trip ? tripLabel(ad.trip) : ad.url}
+                            </div>
+                          </div>
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{ad.startsAt ? new Date(ad.startsAt).toLocaleString() : t.schedule.now}</div>
+                        <div className="text-gray-500">{ad.endsAt ? new Date(ad.endsAt).toLocaleString() : t.schedule.noEnd}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_COLORS[ad.status]}`}>
+                          {t.status[ad.status]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{ad.impressions}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {ad.clicks}
+                        <span className="text-gray-500"> ({clickRate(ad)})</span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-end text-sm font-medium">
+                        <div className="flex justify-end gap-3">
+                          <button
+                            onClick={() => openEdit(ad)}
+                            className="text-indigo-600 hover:text-indigo-900 p-1 hover:bg-indigo-50 rounded-full transition-all"
+                            title={t.edit}
+                          >
+                            <PencilIcon className="h-5 w-5" />
+                          </button>
+                          <button
+                            onClick={() => setAdToDelete(ad.id)}
+                            className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded-full transition-all"
+                            title={t.delete.confirm}
+                          >
+                            <TrashIcon className="h-5 w-5" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex justify-center items-center gap-4 mt-6">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 disabled:opacity-50"
+            >
+              {t.previous}
+            </button>
+            <span className="text-sm text-gray-600">{page} / {totalPages}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= totalPages}
+              className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 disabled:opacity-50"
+            >
+              {t.next}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,9 @@
 'use client'
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import toast, { Toaster } from 'react-hot-toast'
 import { useLanguage } from '@/context/LanguageContext'
+import { useSeatUpdates, mergeSeatUpdates, SeatUpdate } from '@/hooks/useSeatUpdates'
 
 interface Trip {
   id: string
@@ -17,7 +18,7 @@ interface Trip {
 interface Seat {
   id: string
   seatNumber: string
-  status: 'available' | 'booked' | 'blocked' | 'blocked'
+  status: 'available' | 'booked' | 'blocked' | 'reserved'
 }
 
 export default function AdminBlockSeats() {
@@ -147,6 +148,20 @@ export default function AdminBlockSeats() {
     }
   }, [selectedTrip])
 
+  // Keep the seat grid in sync with bookings and locks made elsewhere
+  const handleSeatUpdates = useCallback((updates: SeatUpdate[]) => {
+    setSeats(prev => mergeSeatUpdates(prev, updates))
+
+    const takenSeatIds = updates
+      .filter(update => update.status !== 'available')
+      .map(update => update.id)
+    if (takenSeatIds.length > 0) {
+      setSelectedSeats(prev => prev.filter(id => !takenSeatIds.includes(id)))
+    }
+  }, [])
+
+  useSeatUpdates(selectedTrip || null, handleSeatUpdates)
+
   const handleSeatClick = (seatId: string) => {
     setSelectedSeats(prev => 
       prev.includes(seatId) 
@@ -159,7 +174,8 @@ export default function AdminBlockSeats() {
     if (selectedSeats.includes(seat.id)) return 'bg-blue-500 text-white'
     switch (seat.status) {
       case 'blocked': return 'bg-red-300 text-red-800'
-      case 'booked': return 'bg-gray-300 text-gray-800'
+      case 'booked':
+      case 'reserved': return 'bg-gray-300 text-gray-800'
       default: return 'bg-white text-gray-800 hover:bg-gray-50'
     }
   }
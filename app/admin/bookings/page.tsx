@@ -10,9 +10,11 @@ import {
   CheckIcon,
   XMarkIcon,
   ArrowPathIcon,
-  ArrowPathRoundedSquareIcon
+  ArrowPathRoundedSquareIcon,
+  BanknotesIcon
 } from '@heroicons/react/24/outline'
 import ConfirmDialogAdmin from '@/components/ConfirmDialogAdmin'
+import BookingDetailsDialog from '@/components/admin/BookingDetailsDialog'
 import { useLanguage } from '@/context/LanguageContext'
 
 // First, update the Booking interface to match the API response
@@ -30,6 +32,7 @@ interface Booking {
     bookingId: string
     seatId: string
     price: string
+    seatClass: string
     seat: {
       id: string
       tripId: string
@@ -39,7 +42,7 @@ interface Booking {
   }[]
   user: {
     name: string
-    email: string
+    email: string | null
     phone: string
   }
   trip: {
@@ -62,7 +65,8 @@ interface Booking {
   bill?: {
     id: string
     amount: string | number
-    status: 'paid' | 'unpaid'
+    status: 'paid' | 'partially_paid' | 'unpaid' | 'cancelled' | 'refunded'
+    balanceDueAt?: string | null
     payments: {
       id: string
       amount: string | number
@@ -85,6 +89,7 @@ export default function BookingsPage() {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [bookingToDelete, setBookingToDelete] = useState<string | null>(null)
   const [refresh, setRefresh] = useState(true)
+  const [bookingToView, setBookingToView] = useState<Booking | null>(null)
   const token = localStorage.getItem('token')
   const fetchBookings = async () => {
     try {
@@ -120,6 +125,7 @@ export default function BookingsPage() {
   const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false)
   const [bookingToAction, setBookingToAction] = useState<string | null>(null)
   const [actionType, setActionType] = useState<'confirm' | 'cancel' | null>(null)
+  const [bookingToCollect, setBookingToCollect] = useState<string | null>(null)
   
   // Handle confirm click
   const handleConfirmClick = (bookingId: string) => {
@@ -202,6 +208,36 @@ export default function BookingsPage() {
     }
   }
 
+  // Record the remaining cash of a deposit booking, handed over at boarding
+  const handleCollectBalance = async () => {
+    if (!bookingToCollect) return
+
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/admin/bookings/${bookingToCollect}/balance`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({})
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || t.collectBalance.error)
+      }
+
+      await fetchBookings()
+      toast.success(data.data.message || t.collectBalance.success)
+    } catch (error: any) {
+      console.error('Balance collection error:', error)
+      toast.error(error.message || t.collectBalance.error)
+    } finally {
+      setBookingToCollect(null)
+    }
+  }
+
   const handleDeleteClick = (bookingId: string) => {
     setBookingToDelete(bookingId)
     setIsDeleteDialogOpen(true)
@@ -246,6 +282,7 @@ export default function BookingsPage() {
   const getBillStatusColor = (status: string) => {
     switch (status) {
       case 'paid': return 'bg-green-100 text-green-800'
+      case 'partially_paid': return 'bg-yellow-100 text-yellow-800'
       case 'unpaid': return 'bg-red-100 text-red-800'
       default: return 'bg-gray-100 text-gray-800'
     }
@@ -262,13 +299,18 @@ export default function BookingsPage() {
 
   const filteredBookings = bookings.filter(booking => 
     booking.user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    booking.user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (booking.user.email || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
     booking.id.toLowerCase().includes(searchTerm.toLowerCase())
   )
 
   return (
     <div className={`min-h-screen bg-gray-50 p-4 ${language === 'ar' ? 'rtl' : 'ltr'}`}>
       <Toaster />
+      <BookingDetailsDialog
+        isOpen={bookingToView !== null}
+        onClose={() => setBookingToView(null)}
+        booking={bookingToView}
+      />
       <ConfirmDialogAdmin
         isOpen={isDeleteDialogOpen}
         onClose={() => setIsDeleteDialogOpen(false)}
@@ -289,6 +331,17 @@ export default function BookingsPage() {
         cancelText="Cancel"
       />
 
+      {/* Collect Balance Dialog */}
+      <ConfirmDialogAdmin
+        isOpen={bookingToCollect !== null}
+        onClose={() => setBookingToCollect(null)}
+        onConfirm={handleCollectBalance}
+        title={t.collectBalance.title}
+        message={t.collectBalance.message}
+        confirmText={t.collectBalance.confirm}
+        cancelText={t.collectBalance.cancel}
+      />
+
       {/* Cancel Booking Dialog */}
       <ConfirmDialogAdmin
         isOpen={isCancelDialogOpen}
@@ -409,8 +462,13 @@ export default function BookingsPage() {
                       {booking.bill ? (
                         <div className="space-y-1">
                           <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getBillStatusColor(booking.bill.status)}`}>
-                            {booking.bill.status === 'paid' ? 'Paid' : 'Unpaid'}
+                            {t.billStatus[booking.bill.status] ?? t.billStatus.unpaid}
                           </span>
+                          {booking.bill.status === 'partially_paid' && booking.bill.balanceDueAt && (
+                            <div className={`text-xs ${new Date(booking.bill.balanceDueAt) < new Date() ? 'text-red-600' : 'text-gray-500'}`}>
+                              {t.balanceDue} {new Date(booking.bill.balanceDueAt).toLocaleString()}
+                            </div>
+                          )}
                           {booking.bill.payments && booking.bill.payments.length > 0 && (
                             <div className="text-xs text-gray-500">
                               {booking.bill.payments.filter(p => p.status === 'pending').length > 0 && (
@@ -437,18 +495,35 @@ export default function BookingsPage() {
                     </td> */}
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium sticky right-0 bg-white z-10">
                       <div className="flex justify-end gap-3">
+                        <button
+                          onClick={() => setBookingToView(booking)}
+                          className="text-indigo-600 hover:text-indigo-900 p-1 hover:bg-indigo-50 rounded-full transition-all cursor-pointer"
+                          title="View Details"
+                        >
+                          <EyeIcon className="h-5 w-5" />
+                        </button>
                         {(booking.status === 'pending' || (booking.status === 'confirmed' && booking.bill?.status !== 'paid')) && (
                           <>
-                            {/* Show confirm button for cash payments (pending or confirmed with unpaid bill) */}
-                            {booking.bill?.payments?.some(p => p.method === 'cash') && (
+                            {/* Show confirm button for pending cash payments */}
+                            {booking.status === 'pending' && booking.bill?.payments?.some(p => p.method === 'cash') && (
                               <button
                                 onClick={() => handleConfirmClick(booking.id)}
                                 className="text-green-600 hover:text-green-900 p-1 hover:bg-green-50 rounded-full transition-all cursor-pointer"
-                                title={booking.status === 'pending' ? "Confirm Booking (Cash Payment)" : "Mark Bill as Paid"}
+                                title="Confirm Booking (Cash Payment)"
                               >
                                 <CheckIcon className="h-5 w-5" />
                               </button>
                             )}
+                            {/* Collect the remaining cash of a deposit at boarding */}
+                            {booking.status === 'confirmed' && booking.bill?.status === 'partially_paid' && (
+                              <button
+                                onClick={() => setBookingToCollect(booking.id)}
+                                className="text-green-600 hover:text-green-900 p-1 hover:bg-green-50 rounded-full transition-all cursor-pointer"
+                                title={t.collectBalance.title}
+                              >
+                                <BanknotesIcon className="h-5 w-5" />
+                              </button>
+                            )}
                             {/* Show message for online payments */}
                             {booking.bill?.payments?.some(p => p.method === 'online_payment') && !booking.bill?.payments?.some(p => p.method === 'cash') && (
                               <span className="text-blue-600 text-xs px-2 py-1 bg-blue-50 rounded-full">
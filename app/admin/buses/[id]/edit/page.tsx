@@ -3,6 +3,7 @@ import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import toast, { Toaster } from 'react-hot-toast'
 import { useLanguage } from '@/context/LanguageContext'
+import SeatLayoutEditor from '@/components/admin/SeatLayoutEditor'
 
 interface PageParams {
   id: string
@@ -17,6 +18,7 @@ export default function EditBusPage({ params }: EditBusPageProps) {
   const { language, translations } = useLanguage()
   const t = translations.dashboard.buses.form
   const [loading, setLoading] = useState(false)
+  const [hasCustomLayout, setHasCustomLayout] = useState(false)
   const [formData, setFormData] = useState({
     plateNumber: '',
     capacity: '',
@@ -132,11 +134,15 @@ export default function EditBusPage({ params }: EditBusPageProps) {
             required
             min="1"
             value={formData.capacity}
+            disabled={hasCustomLayout}
             onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
-            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:bg-gray-100"
             placeholder={t.placeholders.capacity}
             dir="ltr"
           />
+          {hasCustomLayout && (
+            <p className="mt-1 text-sm text-gray-500">{t.layout.capacityFromLayout}</p>
+          )}
         </div>
 
         <div>
@@ -173,6 +179,18 @@ export default function EditBusPage({ params }: EditBusPageProps) {
           </button>
         </div>
       </form>
+
+      <div className="mt-6 bg-white p-6 rounded-lg shadow">
+        <h2 className="text-lg font-semibold text-gray-800 mb-4">{t.layout.title}</h2>
+        <SeatLayoutEditor
+          busId={params.id}
+          onLoaded={(isDefault) => setHasCustomLayout(!isDefault)}
+          onSaved={(seatCount) => {
+            setHasCustomLayout(true)
+            setFormData(prev => ({ ...prev, capacity: seatCount.toString() }))
+          }}
+        />
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,265 @@
+'use client'
+import { useState, useEffect } from 'react'
+import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline'
+import toast, { Toaster } from 'react-hot-toast'
+import { useLanguage } from '@/context/LanguageContext'
+import { useAuth } from '@/context/AuthContext'
+import { hasPermission } from '@/lib/permissions'
+
+const PAGE_SIZE = 10
+
+interface Feedback {
+  id: string
+  message: string
+  hidden: boolean
+  hiddenAt: string | null
+  hiddenReason: string | null
+  createdAt: string
+  user: {
+    id: string
+    name: string
+    email: string | null
+    phone: string | null
+  }
+  booking: {
+    id: string
+    rating: { rating: number } | null
+  }
+  trip: {
+    id: string
+    departureTime: string
+    route: {
+      departureCity: { name: string, nameAr: string }
+      arrivalCity: { name: string, nameAr: string }
+    }
+  }
+}
+
+type StatusFilter = '' | 'visible' | 'hidden'
+
+export default function FeedbackPage() {
+  const { language, translations } = useLanguage()
+  const t = translations.dashboard.feedback
+  const { user: currentUser } = useAuth()
+  const canManage = hasPermission(currentUser?.role, 'feedback:manage')
+  const [feedback, setFeedback] = useState<Feedback[]>([])
+  const [loading, setLoading] = useState(true)
+  const [status, setStatus] = useState<StatusFilter>('')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [feedbackToHide, setFeedbackToHide] = useState<Feedback | null>(null)
+  const [hideReason, setHideReason] = useState('')
+
+  useEffect(() => {
+    fetchFeedback()
+  }, [status, page])
+
+  const fetchFeedback = async () => {
+    setLoading(true)
+    try {
+      const token = localStorage.getItem('token')
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+      if (status) params.append('status', status)
+
+      const response = await fetch(`/api/admin/feedback?${params.toString()}`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+
+      const data = await response.json()
+      setFeedback(Array.isArray(data.data) ? data.data : [])
+      setTotalPages(data.pagination?.totalPages || 1)
+    } catch (error) {
+      console.error('Error fetching feedback:', error)
+      toast.error(t.loadError)
+      setFeedback([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateVisibility = async (item: Feedback, hidden: boolean, reason?: string) => {
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/admin/feedback/${item.id}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ hidden, reason: reason || undefined })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || t.updateError)
+      }
+
+      setFeedback(feedback.map(entry => entry.id === item.id ? { ...entry, ...data.data } : entry))
+      toast.success(hidden ? t.hiddenSuccess : t.shownSuccess)
+    } catch (error: any) {
+      toast.error(error.message || t.updateError)
+    }
+  }
+
+  const handleHide = async () => {
+    if (!feedbackToHide) return
+
+    await updateVisibility(feedbackToHide, true, hideReason.trim())
+    setFeedbackToHide(null)
+    setHideReason('')
+  }
+
+  const cityName = (city: { name: string, nameAr: string }) => language === 'ar' ? city.nameAr : city.name
+
+  return (
+    <div className="p-6">
+      <Toaster position="top-right" />
+
+      {feedbackToHide && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center">
+          <div className="bg-white rounded-xl w-full max-w-md mx-4 p-6 shadow-xl">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">{t.hideTitle}</h3>
+            <p className="text-sm text-gray-600 mb-4">{t.hideMessage}</p>
+            <textarea
+              value={hideReason}
+              onChange={(e) => setHideReason(e.target.value)}
+              placeholder={t.reasonPlaceholder}
+              maxLength={500}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <div className="flex justify-end gap-3 mt-4">
+              <button
+                onClick={() => {
+                  setFeedbackToHide(null)
+                  setHideReason('')
+                }}
+                className="px-4 py-2 rounded-lg text-gray-700 bg-gray-100 hover:bg-gray-200"
+              >
+                {t.cancel}
+              </button>
+              <button
+                onClick={handleHide}
+                className="px-4 py-2 rounded-lg text-white bg-red-600 hover:bg-red-700"
+              >
+                {t.hide}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="max-w-7xl mx-auto">
+        <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">{t.title}</h1>
+
+          <select
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value as StatusFilter)
+              setPage(1)
+            }}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-black focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+          >
+            <option value="">{t.filters.all}</option>
+            <option value="visible">{t.filters.visible}</option>
+            <option value="hidden">{t.filters.hidden}</option>
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="animate-pulse space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-20 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : feedback.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">{t.empty}</div>
+        ) : (
+          <div className="space-y-4">
+            {feedback.map((item) => (
+              <div
+                key={item.id}
+                className={`bg-white rounded-lg shadow-md p-5 ${item.hidden ? 'opacity-60' : ''}`}
+              >
+                <div className="flex justify-between items-start gap-4">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{item.user.name}</div>
+                    <div className="text-sm text-gray-500">
+                      {cityName(item.trip.route.departureCity)} → {cityName(item.trip.route.arrivalCity)}
+                      {' · '}
+                      {new Date(item.trip.departureTime).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {item.booking.rating && (
+                      <span className="text-sm text-gray-700">
+                        <span className="text-yellow-500">★</span> {item.booking.rating.rating}
+                      </span>
+                    )}
+                    {item.hidden && (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                        {t.hiddenBadge}
+                      </span>
+                    )}
+                    {canManage && (
+                      item.hidden ? (
+                        <button
+                          onClick={() => updateVisibility(item, false)}
+                          className="text-indigo-600 hover:text-indigo-900 p-1 hover:bg-indigo-50 rounded-full transition-all"
+                          title={t.show}
+                        >
+                          <EyeIcon className="h-5 w-5" />
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => setFeedbackToHide(item)}
+                          className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded-full transition-all"
+                          title={t.hide}
+                        >
+                          <EyeSlashIcon className="h-5 w-5" />
+                        </button>
+                      )
+                    )}
+                  </div>
+                </div>
+
+                <p className="mt-3 text-sm text-gray-800 whitespace-pre-line">{item.message}</p>
+
+                <div className="mt-3 text-xs text-gray-400">
+                  {new Date(item.createdAt).toLocaleString()}
+                  {item.hidden && item.hiddenReason && (
+                    <span> · {t.reason}: {item.hiddenReason}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex justify-center items-center gap-4 mt-6">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 disabled:opacity-50"
+            >
+              {t.previous}
+            </button>
+            <span className="text-sm text-gray-600">{page} / {totalPages}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= totalPages}
+              className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 disabled:opacity-50"
+            >
+              {t.next}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
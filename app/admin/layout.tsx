@@ -1,7 +1,8 @@
 'use client'
 import { useEffect, useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { useRouter, usePathname } from 'next/navigation'
 import { useAuth } from '@/context/AuthContext'
+import { canViewAdminPage } from '@/lib/permissions'
 import AdminSidebar from '@/components/admin/AdminSidebar'
 
 export default function AdminLayout({
@@ -9,8 +10,9 @@ export default function AdminLayout({
 }: {
   children: React.ReactNode
 }) {
-  const { isAuthenticated, user, loading } = useAuth()
+  const { isAuthenticated, user, loading, isStaff } = useAuth()
   const router = useRouter()
+  const pathname = usePathname()
   const [isChecking, setIsChecking] = useState(true)
 
   useEffect(() => {
@@ -20,14 +22,21 @@ export default function AdminLayout({
         return
       }
       
-      if (user?.role !== 'ADMIN') {
+      if (!isStaff) {
         router.push('/')
         return
       }
 
+      // Staff roles only see the pages their permissions cover
+      if (!canViewAdminPage(user?.role, pathname)) {
+        setIsChecking(true)
+        router.push('/admin')
+        return
+      }
+
       setIsChecking(false)
     }
-  }, [isAuthenticated, loading, user, router])
+  }, [isAuthenticated, loading, user, isStaff, pathname, router])
 
   if (loading || isChecking) {
     return (
@@ -37,7 +46,7 @@ export default function AdminLayout({
     )
   }
 
-  if (isAuthenticated && user?.role === 'ADMIN') {
+  if (isAuthenticated && isStaff) {
     return (
       <div className="min-h-screen flex flex-col md:flex-row bg-gray-50">
         <AdminSidebar />
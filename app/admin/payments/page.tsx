@@ -26,7 +26,7 @@ interface Payment {
   bill: {
     id: string
     amount: string | number
-    status: 'paid' | 'unpaid'
+    status: 'paid' | 'unpaid' | 'refunded'
     booking: {
       id: string
       userId: string
@@ -34,7 +34,7 @@ interface Payment {
       totalPrice: string | number
       user: {
         name: string
-        email: string
+        email: string | null
         phone: string
       }
       trip: {
@@ -56,6 +56,32 @@ interface Payment {
   }
 }
 
+// Refund interface to match the API response
+interface Refund {
+  id: string
+  amount: string | number
+  method: 'cash' | 'online_payment'
+  status: 'pending' | 'processing' | 'completed' | 'rejected' | 'failed'
+  reason?: string
+  failureReason?: string
+  createdAt: string
+  bill: {
+    booking: {
+      user: {
+        name: string
+        email: string | null
+      }
+      trip: {
+        departureTime: string
+        route: {
+          departureCity: { name: string }
+          arrivalCity: { name: string }
+        }
+      }
+    }
+  }
+}
+
 export default function PaymentsPage() {
   const router = useRouter()
   const { language, translations } = useLanguage()
@@ -67,6 +93,9 @@ export default function PaymentsPage() {
   const [isRejectDialogOpen, setIsRejectDialogOpen] = useState(false)
   const [paymentToAction, setPaymentToAction] = useState<string | null>(null)
   const [actionType, setActionType] = useState<'confirm' | 'reject' | null>(null)
+  const [refunds, setRefunds] = useState<Refund[]>([])
+  const [refundToAction, setRefundToAction] = useState<string | null>(null)
+  const [refundActionType, setRefundActionType] = useState<'approve' | 'reject' | null>(null)
 
   const fetchPayments = async () => {
     try {
@@ -93,8 +122,27 @@ export default function PaymentsPage() {
     }
   }
 
+  const fetchRefunds = async () => {
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch('/api/admin/refunds', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+
+      const data = await response.json()
+      setRefunds(Array.isArray(data.data) ? data.data : [])
+    } catch (error) {
+      console.error('Error fetching refunds:', error)
+      toast.error('Failed to load refunds')
+      setRefunds([])
+    }
+  }
+
   useEffect(() => {
     fetchPayments()
+    fetchRefunds()
   }, [])
 
   const handleConfirmClick = (paymentId: string) => {
@@ -175,6 +223,51 @@ export default function PaymentsPage() {
     }
   }
 
+  const handleRefundAction = async () => {
+    if (!refundToAction || !refundActionType) return
+
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/admin/refunds/${refundToAction}/${refundActionType}`, {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        }
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to ${refundActionType} refund`)
+      }
+
+      setRefunds(refunds.map(refund =>
+        refund.id === refundToAction
+          ? { ...refund, status: data.data.refund.status }
+          : refund
+      ))
+      toast.success(refundActionType === 'approve' ? 'Refund approved successfully' : 'Refund rejected successfully')
+    } catch (error: any) {
+      console.error('Refund action error:', error)
+      toast.error(error.message || 'Failed to process refund')
+      fetchRefunds()
+    } finally {
+      setRefundToAction(null)
+      setRefundActionType(null)
+    }
+  }
+
+  const getRefundStatusColor = (status: Refund['status']) => {
+    switch (status) {
+      case 'completed': return 'bg-green-100 text-green-800'
+      case 'rejected': return 'bg-gray-100 text-gray-800'
+      case 'failed': return 'bg-red-100 text-red-800'
+      case 'pending': return 'bg-yellow-100 text-yellow-800'
+      case 'processing': return 'bg-blue-100 text-blue-800'
+      default: return 'bg-gray-100 text-gray-800'
+    }
+  }
+
   const getStatusColor = (status: Payment['status']) => {
     switch (status) {
       case 'successful': return 'bg-green-100 text-green-800'
@@ -194,7 +287,7 @@ export default function PaymentsPage() {
 
   const filteredPayments = payments.filter(payment => 
     payment.bill.booking.user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    payment.bill.booking.user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (payment.bill.booking.user.email || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
     payment.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
     payment.bill.booking.trip.route.departureCity.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     payment.bill.booking.trip.route.arrivalCity.name.toLowerCase().includes(searchTerm.toLowerCase())
@@ -226,6 +319,22 @@ export default function PaymentsPage() {
         cancelText="Cancel"
       />
 
+      {/* Approve / Reject Refund Dialog */}
+      <ConfirmDialogAdmin
+        isOpen={refundActionType !== null}
+        onClose={() => {
+          setRefundToAction(null)
+          setRefundActionType(null)
+        }}
+        onConfirm={handleRefundAction}
+        title={refundActionType === 'approve' ? 'Approve Refund' : 'Reject Refund'}
+        message={refundActionType === 'approve'
+          ? 'Are you sure you want to approve this refund? The amount will be returned to the customer.'
+          : 'Are you sure you want to reject this refund? The customer will not be paid back.'}
+        confirmText={refundActionType === 'approve' ? 'Approve' : 'Reject'}
+        cancelText="Cancel"
+      />
+
       <div className="max-w-7xl mx-auto">
         <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mb-6">
           <h1 className="text-2xl font-bold text-gray-900">Payment Management</h1>
@@ -372,6 +481,118 @@ export default function PaymentsPage() {
             <p className="text-gray-500">No payments found</p>
           </div>
         )}
+
+        <h2 className="text-xl font-bold text-gray-900 mt-10 mb-4">Refunds</h2>
+
+        <div className="bg-white rounded-lg shadow-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200" dir="ltr">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Customer
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Route
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reason
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Created At
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider sticky right-0 bg-gray-50 z-10">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {refunds.map((refund) => (
+                  <tr key={refund.id} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{refund.bill.booking.user.name}</div>
+                      <div className="text-sm text-gray-500">{refund.bill.booking.user.email}</div>
+                    </td>
+
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">
+                        {refund.bill.booking.trip.route.departureCity.name} → {refund.bill.booking.trip.route.arrivalCity.name}
+                      </div>
+                      <div className="text-sm text-gray-500">
+                        {new Date(refund.bill.booking.trip.departureTime).toLocaleString()}
+                      </div>
+                    </td>
+
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {refund.amount} SAR
+                      <div className="text-xs text-gray-500">{refund.method === 'cash' ? 'Cash' : 'Online Payment'}</div>
+                    </td>
+
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {refund.reason}
+                      {refund.failureReason && (
+                        <div className="text-xs text-red-600">{refund.failureReason}</div>
+                      )}
+                    </td>
+
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full capitalize ${getRefundStatusColor(refund.status)}`}>
+                        {refund.status}
+                      </span>
+                    </td>
+
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(refund.createdAt).toLocaleString()}
+                    </td>
+
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium sticky right-0 bg-gray-50 z-10">
+                      <div className="flex justify-end gap-3">
+                        {refund.status === 'pending' ? (
+                          <>
+                            <button
+                              onClick={() => {
+                                setRefundToAction(refund.id)
+                                setRefundActionType('approve')
+                              }}
+                              className="text-green-600 hover:text-green-900 p-1 hover:bg-green-50 rounded-full transition-all cursor-pointer"
+                              title="Approve Refund"
+                            >
+                              <CheckIcon className="h-5 w-5" />
+                            </button>
+                            <button
+                              onClick={() => {
+                                setRefundToAction(refund.id)
+                                setRefundActionType('reject')
+                              }}
+                              className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded-full transition-all cursor-pointer"
+                              title="Reject Refund"
+                            >
+                              <XMarkIcon className="h-5 w-5" />
+                            </button>
+                          </>
+                        ) : (
+                          <span className="text-gray-400 text-sm">—</span>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {!loading && refunds.length === 0 && (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No refunds found</p>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -5,12 +5,14 @@ import {
   PencilIcon, 
   TrashIcon, 
   PlusIcon,
-  MagnifyingGlassIcon 
+  MagnifyingGlassIcon,
+  MapPinIcon
 } from '@heroicons/react/24/outline'
 import toast, { Toaster } from 'react-hot-toast'
 import ConfirmDialogAdmin from '@/components/ConfirmDialogAdmin'
 import { useLanguage } from '@/context/LanguageContext'
 import EditDialog from '@/components/admin/EditRouteDialog'
+import RouteStopsDialog from '@/components/admin/RouteStopsDialog'
 
 interface Route {
   id: string
@@ -23,6 +25,15 @@ interface Route {
     name: string
   }
   distance: number
+  stops: {
+    cityId: string
+    offsetMinutes: number
+    fareShare: string | null
+    city: {
+      id: string
+      name: string
+    }
+  }[]
   trips: {
     id: string
     bus: {
@@ -110,6 +121,8 @@ export default function RoutesPage() {
     setIsEditDialogOpen(true)
   }
 
+  const [stopsRoute, setStopsRoute] = useState<Route | null>(null)
+
   const handleEditComplete = async (updatedRoute: Route) => {
     try {
       const token = localStorage.getItem('token')
@@ -186,6 +199,9 @@ export default function RoutesPage() {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 {t.columns.distance}
               </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {t.columns.stops}
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 {t.columns.activeTrips}
               </th>
@@ -206,10 +222,20 @@ export default function RoutesPage() {
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                   {route.distance}
                 </td>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  {route.stops.length > 0 ? route.stops.map(stop => stop.city.name).join(' → ') : '—'}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                   {route.trips.length}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <button
+                    onClick={() => setStopsRoute(route)}
+                    className="text-indigo-600 hover:text-indigo-900 mr-4 cursor-pointer"
+                    title={t.stops.title}
+                  >
+                    <MapPinIcon className="h-5 w-5" />
+                  </button>
                   <button
                     onClick={() => handleEditClick(route)}
                     
@@ -240,6 +266,13 @@ export default function RoutesPage() {
         onUpdate={()=> handleEditComplete}
         route={selectedRoute}
       />
+
+      <RouteStopsDialog
+        isOpen={stopsRoute !== null}
+        onClose={() => setStopsRoute(null)}
+        onUpdate={fetchRoutes}
+        route={stopsRoute}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,875 @@
+'use client'
+import { useState, useEffect } from 'react'
+import { PencilIcon, TrashIcon, PlusIcon, ArrowPathIcon } from '@heroicons/react/24/outline'
+import toast, { Toaster } from 'react-hot-toast'
+import ConfirmDialogAdmin from '@/components/ConfirmDialogAdmin'
+import SeatClassPricesInput from '@/components/admin/SeatClassPricesInput'
+import { useLanguage } from '@/context/LanguageContext'
+import type { SeatClassPriceInput } from '@/lib/seatPricing'
+
+// 0 = Sunday, matching Date.getDay() and the API
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6]
+
+interface City {
+  name: string
+  nameAr: string
+}
+
+interface RouteOption {
+  id: string
+  departureCity: City
+  arrivalCity: City
+}
+
+interface BusOption {
+  id: string
+  plateNumber: string
+  capacity: number
+  status: string
+}
+
+interface ScheduleException {
+  id: string
+  scheduleId: string | null
+  date: string
+  reason: string | null
+  schedule?: {
+    id: string
+    departureTime: string
+    route: { departureCity: City, arrivalCity: City }
+  } | null
+}
+
+interface Schedule {
+  id: string
+  routeId: string
+  busId: string
+  departureTime: string
+  timezone: string
+  weekdays: number[]
+  durationMinutes: number
+  price: string
+  seatClassPrices: SeatClassPriceInput[] | null
+  bookingCutoffMinutes: number
+  startDate: string
+  endDate: string | null
+  horizonDays: number
+  titleAr: string | null
+  titleEn: string | null
+  descriptionAr: string | null
+  descriptionEn: string | null
+  latitude: string
+  longitude: string
+  isActive: boolean
+  lastGeneratedAt: string | null
+  route: RouteOption
+  bus: BusOption
+  _count: { trips: number }
+}
+
+interface GenerationReport {
+  created: number
+  existing: number
+  skipped: number
+  trips: { scheduleId: string, tripId: string | null, departureTime: string }[]
+  conflicts: { scheduleId: string, date: string, reason: 'bus_busy' | 'bus_unavailable' | 'route_stops', message: string }[]
+  dryRun: boolean
+}
+
+interface ScheduleForm {
+  routeId: string
+  busId: string
+  departureTime: string
+  timezone: string
+  weekdays: number[]
+  durationMinutes: string
+  price: string
+  seatClassPrices: SeatClassPriceInput[]
+  bookingCutoffMinutes: string
+  startDate: string
+  endDate: string
+  horizonDays: string
+  titleAr: string
+  titleEn: string
+  descriptionAr: string
+  descriptionEn: string
+  latitude: string
+  longitude: string
+  isActive: boolean
+}
+
+const EMPTY_FORM: ScheduleForm = {
+  routeId: '',
+  busId: '',
+  departureTime: '08:00',
+  timezone: 'Asia/Damascus',
+  weekdays: [],
+  durationMinutes: '',
+  price: '',
+  seatClassPrices: [],
+  bookingCutoffMinutes: '60',
+  startDate: new Date().toISOString().slice(0, 10),
+  endDate: '',
+  horizonDays: '14',
+  titleAr: '',
+  titleEn: '',
+  descriptionAr: '',
+  descriptionEn: '',
+  latitude: '',
+  longitude: '',
+  isActive: true
+}
+
+const EMPTY_EXCEPTION = { date: '', scheduleId: '', reason: '' }
+
+export default function TripSchedulesPage() {
+  const { language, translations } = useLanguage()
+  const t = translations.dashboard.tripSchedules
+  const [schedules, setSchedules] = useState<Schedule[]>([])
+  const [exceptions, setExceptions] = useState<ScheduleException[]>([])
+  const [routes, setRoutes] = useState<RouteOption[]>([])
+  const [buses, setBuses] = useState<BusOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editingSchedule, setEditingSchedule] = useState<Schedule | null>(null)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const [generating, setGenerating] = useState(false)
+  const [report, setReport] = useState<GenerationReport | null>(null)
+  const [scheduleToDelete, setScheduleToDelete] = useState<string | null>(null)
+  const [exceptionForm, setExceptionForm] = useState(EMPTY_EXCEPTION)
+
+  useEffect(() => {
+    fetchSchedules()
+    fetchExceptions()
+    fetchOptions()
+  }, [])
+
+  const authHeaders = () => ({
+    'Authorization': `Bearer ${localStorage.getItem('token')}`
+  })
+
+  const jsonHeaders = () => ({
+    ...authHeaders(),
+    'Content-Type': 'application/json'
+  })
+
+  const fetchSchedules = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/admin/trip-schedules', {
+        headers: authHeaders()
+      })
+
+      const data = await response.json()
+      setSchedules(Array.isArray(data.data) ? data.data : [])
+    } catch (error) {
+      console.error('Error fetching trip schedules:', error)
+      toast.error(t.errors.loadFailed)
+      setSchedules([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchExceptions = async () => {
+    try {
+      const response = await fetch('/api/admin/trip-schedules/exceptions', {
+        headers: authHeaders()
+      })
+
+      const data = await response.json()
+      setExceptions(Array.isArray(data.data) ? data.data : [])
+    } catch (error) {
+      console.error('Error fetching schedule exceptions:', error)
+    }
+  }
+
+  const fetchOptions = async () => {
+    try {
+      const [routesResponse, busesResponse] = await Promise.all([
+        fetch('/api/admin/routes', { headers: authHeaders() }),
+        fetch('/api/admin/buses', { headers: authHeaders() })
+      ])
+
+      const [routesData, busesData] = await Promise.all([routesResponse.json(), busesResponse.json()])
+      setRoutes(Array.isArray(routesData.data) ? routesData.data : [])
+      setBuses(Array.isArray(busesData.data) ? busesData.data : [])
+    } catch (error) {
+      console.error('Error fetching routes and buses:', error)
+    }
+  }
+
+  const cityName = (city: City) => language === 'ar' ? city.nameAr : city.name
+
+  const routeLabel = (route: { departureCity: City, arrivalCity: City }) =>
+    `${cityName(route.departureCity)} → ${cityName(route.arrivalCity)}`
+
+  const weekdaysLabel = (weekdays: number[]) =>
+    WEEKDAYS.filter(day => weekdays.includes(day)).map(day => t.weekdays[day]).join(', ')
+
+  const openCreate = () => {
+    setEditingSchedule(null)
+    setForm(EMPTY_FORM)
+    setIsFormOpen(true)
+  }
+
+  const openEdit = (schedule: Schedule) => {
+    setEditingSchedule(schedule)
+    setForm({
+      routeId: schedule.routeId,
+      busId: schedule.busId,
+      departureTime: schedule.departureTime,
+      timezone: schedule.timezone,
+      weekdays: schedule.weekdays,
+      durationMinutes: String(schedule.durationMinutes),
+      price: String(schedule.price),
+      seatClassPrices: schedule.seatClassPrices || [],
+      bookingCutoffMinutes: String(schedule.bookingCutoffMinutes),
+      startDate: schedule.startDate.slice(0, 10),
+      endDate: schedule.endDate ? schedule.endDate.slice(0, 10) : '',
+      horizonDays: String(schedule.horizonDays),
+      titleAr: schedule.titleAr || '',
+      titleEn: schedule.titleEn || '',
+      descriptionAr: schedule.descriptionAr || '',
+      descriptionEn: schedule.descriptionEn || '',
+      latitude: String(schedule.latitude),
+      longitude: String(schedule.longitude),
+      isActive: schedule.isActive
+    })
+    setIsFormOpen(true)
+  }
+
+  const toggleWeekday = (day: number) => {
+    setForm({
+      ...form,
+      weekdays: form.weekdays.includes(day)
+        ? form.weekdays.filter(value => value !== day)
+        : [...form.weekdays, day].sort()
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (form.weekdays.length === 0) {
+      toast.error(t.errors.weekdaysRequired)
+      return
+    }
+
+    setSaving(true)
+
+    try {
+      const response = await fetch(
+        editingSchedule ? `/api/admin/trip-schedules/${editingSchedule.id}` : '/api/admin/trip-schedules',
+        {
+          method: editingSchedule ? 'PUT' : 'POST',
+          headers: jsonHeaders(),
+          body: JSON.stringify({
+            ...form,
+            durationMinutes: parseInt(form.durationMinutes),
+            price: parseFloat(form.price),
+            bookingCutoffMinutes: parseInt(form.bookingCutoffMinutes || '0'),
+            horizonDays: parseInt(form.horizonDays || '14'),
+            endDate: form.endDate || undefined,
+            latitude: parseFloat(form.latitude),
+            longitude: parseFloat(form.longitude)
+          })
+        }
+      )
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || t.errors.saveFailed)
+      }
+
+      toast.success(editingSchedule ? t.success.updated : t.success.created)
+      setReport(data.data.generation)
+      setIsFormOpen(false)
+      fetchSchedules()
+    } catch (error: any) {
+      toast.error(error.message || t.errors.saveFailed)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleGenerate = async (dryRun: boolean) => {
+    setGenerating(true)
+
+    try {
+      const response = await fetch('/api/admin/trip-schedules/generate', {
+        method: 'POST',
+        headers: jsonHeaders(),
+        body: JSON.stringify({ dryRun })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || t.errors.generateFailed)
+      }
+
+      setReport(data.data)
+      if (!dryRun) {
+        fetchSchedules()
+      }
+    } catch (error: any) {
+      toast.error(error.message || t.errors.generateFailed)
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!scheduleToDelete) return
+
+    try {
+      const response = await fetch(`/api/admin/trip-schedules/${scheduleToDelete}`, {
+        method: 'DELETE',
+        headers: authHeaders()
+      })
+
+      if (!response.ok) {
+        throw new Error(t.errors.deleteFailed)
+      }
+
+      setSchedules(schedules.filter(schedule => schedule.id !== scheduleToDelete))
+      toast.success(t.success.deleted)
+    } catch (error: any) {
+      toast.error(error.message || t.errors.deleteFailed)
+    } finally {
+      setScheduleToDelete(null)
+    }
+  }
+
+  const handleAddException = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const response = await fetch('/api/admin/trip-schedules/exceptions', {
+        method: 'POST',
+        headers: jsonHeaders(),
+        body: JSON.stringify({
+          date: exceptionForm.date,
+          scheduleId: exceptionForm.scheduleId || undefined,
+          reason: exceptionForm.reason || undefined
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || t.errors.exceptionFailed)
+      }
+
+      // Trips generated before the exception was added stay until cancelled by hand
+      const generatedTrips = data.data.generatedTrips || []
+      if (generatedTrips.length > 0) {
+        toast(t.exceptions.existingTrips.replace('{count}', String(generatedTrips.length)), { icon: '⚠️' })
+      } else {
+        toast.success(t.success.exceptionAdded)
+      }
+
+      setExceptionForm(EMPTY_EXCEPTION)
+      fetchExceptions()
+    } catch (error: any) {
+      toast.error(error.message || t.errors.exceptionFailed)
+    }
+  }
+
+  const handleDeleteException = async (id: string) => {
+    try {
+      const response = await fetch(`/api/admin/trip-schedules/exceptions/${id}`, {
+        method: 'DELETE',
+        headers: authHeaders()
+      })
+
+      if (!response.ok) {
+        throw new Error(t.errors.exceptionFailed)
+      }
+
+      setExceptions(exceptions.filter(exception => exception.id !== id))
+    } catch (error: any) {
+      toast.error(error.message || t.errors.exceptionFailed)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg'
+
+  return (
+    <div className="p-6">
+      <Toaster position="top-right" />
+
+      <ConfirmDialogAdmin
+        isOpen={scheduleToDelete !== null}
+        onClose={() => setScheduleToDelete(null)}
+        onConfirm={handleDelete}
+        title={t.delete.title}
+        message={t.delete.message}
+        confirmText={t.delete.confirm}
+        cancelText={t.form.cancel}
+      />
+
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center overflow-y-auto">
+          <form
+            onSubmit={handleSubmit}
+            className="bg-white rounded-xl w-full max-w-2xl mx-4 my-8 p-6 shadow-xl space-y-4 text-black"
+          >
+            <h3 className="text-lg font-semibold text-gray-900">
+              {editingSchedule ? t.form.editTitle : t.form.createTitle}
+            </h3>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.route}</label>
+                <select
+                  value={form.routeId}
+                  onChange={(e) => setForm({ ...form, routeId: e.target.value })}
+                  className={inputClass}
+                  required
+                >
+                  <option value="">{t.form.selectRoute}</option>
+                  {routes.map(route => (
+                    <option key={route.id} value={route.id}>{routeLabel(route)}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.bus}</label>
+                <select
+                  value={form.busId}
+                  onChange={(e) => setForm({ ...form, busId: e.target.value })}
+                  className={inputClass}
+                  required
+                >
+                  <option value="">{t.form.selectBus}</option>
+                  {buses.map(bus => (
+                    <option key={bus.id} value={bus.id}>{bus.plateNumber} ({bus.capacity})</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.weekdays}</label>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAYS.map(day => (
+                  <label key={day} className="flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.weekdays.includes(day)}
+                      onChange={() => toggleWeekday(day)}
+                    />
+                    {t.weekdays[day]}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.departureTime}</label>
+                <input
+                  type="time"
+                  value={form.departureTime}
+                  onChange={(e) => setForm({ ...form, departureTime: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.durationMinutes}</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={form.durationMinutes}
+                  onChange={(e) => setForm({ ...form, durationMinutes: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.timezone}</label>
+                <input
+                  type="text"
+                  value={form.timezone}
+                  onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                  className={inputClass}
+                  dir="ltr"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.startDate}</label>
+                <input
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.endDate}</label>
+                <input
+                  type="date"
+                  value={form.endDate}
+                  onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.horizonDays}</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={90}
+                  value={form.horizonDays}
+                  onChange={(e) => setForm({ ...form, horizonDays: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.price}</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.price}
+                  onChange={(e) => setForm({ ...form, price: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.bookingCutoffMinutes}</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.bookingCutoffMinutes}
+                  onChange={(e) => setForm({ ...form, bookingCutoffMinutes: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <SeatClassPricesInput
+              value={form.seatClassPrices}
+              onChange={(seatClassPrices) => setForm({ ...form, seatClassPrices })}
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.titleAr}</label>
+                <input
+                  type="text"
+                  value={form.titleAr}
+                  maxLength={191}
+                  onChange={(e) => setForm({ ...form, titleAr: e.target.value })}
+                  className={inputClass}
+                  dir="rtl"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.titleEn}</label>
+                <input
+                  type="text"
+                  value={form.titleEn}
+                  maxLength={191}
+                  onChange={(e) => setForm({ ...form, titleEn: e.target.value })}
+                  className={inputClass}
+                  dir="ltr"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.descriptionAr}</label>
+                <input
+                  type="text"
+                  value={form.descriptionAr}
+                  maxLength={191}
+                  onChange={(e) => setForm({ ...form, descriptionAr: e.target.value })}
+                  className={inputClass}
+                  dir="rtl"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.descriptionEn}</label>
+                <input
+                  type="text"
+                  value={form.descriptionEn}
+                  maxLength={191}
+                  onChange={(e) => setForm({ ...form, descriptionEn: e.target.value })}
+                  className={inputClass}
+                  dir="ltr"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.latitude}</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={form.latitude}
+                  onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{t.form.longitude}</label>
+                <input
+                  type="number"
+                  step="any"
+                  value={form.longitude}
+                  onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              />
+              {t.form.isActive}
+            </label>
+            <p className="text-xs text-gray-500">{t.form.hint}</p>
+
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                type="button"
+                onClick={() => setIsFormOpen(false)}
+                className="px-4 py-2 rounded-lg text-gray-700 bg-gray-100 hover:bg-gray-200"
+              >
+                {t.form.cancel}
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 rounded-lg text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {saving ? t.form.saving : t.form.save}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row justify-between items-center gap-4">
+          <h1 className="text-2xl font-bold text-gray-900">{t.title}</h1>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => handleGenerate(true)}
+              disabled={generating}
+              className="px-4 py-2 rounded-lg bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {t.generate.preview}
+            </button>
+            <button
+              onClick={() => handleGenerate(false)}
+              disabled={generating}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white border border-indigo-600 text-indigo-600 hover:bg-indigo-50 disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`h-5 w-5 ${generating ? 'animate-spin' : ''}`} />
+              {t.generate.run}
+            </button>
+            <button
+              onClick={openCreate}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              <PlusIcon className="h-5 w-5" />
+              {t.add}
+            </button>
+          </div>
+        </div>
+
+        {report && (
+          <div className="bg-white rounded-lg shadow-md p-4 text-sm text-gray-900">
+            <div className="flex justify-between items-start">
+              <div className="font-medium">
+                {report.dryRun
+                  ? t.generate.previewSummary.replace('{count}', String(report.trips.length))
+                  : t.generate.summary.replace('{count}', String(report.created))}
+                <span className="text-gray-500">
+                  {' · '}{t.generate.existing}: {report.existing} · {t.generate.skipped}: {report.skipped}
+                </span>
+              </div>
+              <button onClick={() => setReport(null)} className="text-gray-400 hover:text-gray-600">×</button>
+            </div>
+            {report.conflicts.length > 0 && (
+              <div className="mt-3">
+                <div className="font-medium text-red-700">
+                  {t.generate.conflicts.replace('{count}', String(report.conflicts.length))}
+                </div>
+                <ul className="mt-1 space-y-1 text-red-600">
+                  {report.conflicts.map((conflict, i) => (
+                    <li key={i}>
+                      {conflict.date} · {t.conflictReasons[conflict.reason]} — {conflict.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="animate-pulse space-y-4">
+            {[...Array(5)].map((_, i) => (
+              <div key={i} className="h-16 bg-gray-200 rounded"></div>
+            ))}
+          </div>
+        ) : schedules.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-500">{t.empty}</div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.route}</th>
+                    <th className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.bus}</th>
+                    <th className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.departs}</th>
+                    <th className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.validity}</th>
+                    <th className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.trips}</th>
+                    <th className="px-6 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.status}</th>
+                    <th className="px-6 py-3 text-end text-xs font-medium text-gray-500 uppercase tracking-wider">{t.table.actions}</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {schedules.map(schedule => (
+                    <tr key={schedule.id} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        <div className="font-medium">{routeLabel(schedule.route)}</div>
+                        <div className="text-gray-500">{language === 'ar' ? schedule.titleAr : schedule.titleEn}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{schedule.bus.plateNumber}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        <div>{schedule.departureTime} <span className="text-gray-500">({schedule.timezone})</span></div>
+                        <div className="text-gray-500">{weekdaysLabel(schedule.weekdays)}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{schedule.startDate.slice(0, 10)}</div>
+                        <div className="text-gray-500">{schedule.endDate ? schedule.endDate.slice(0, 10) : t.table.noEnd}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        <div>{schedule._count.trips}</div>
+                        <div className="text-gray-500">
+                          {schedule.lastGeneratedAt ? new Date(schedule.lastGeneratedAt).toLocaleString() : t.table.neverGenerated}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${schedule.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                          {schedule.isActive ? t.status.active : t.status.inactive}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-end text-sm font-medium">
+                        <div className="flex justify-end gap-3">
+                          <button
+                            onClick={() => openEdit(schedule)}
+                            className="text-indigo-600 hover:text-indigo-900 p-1 hover:bg-indigo-50 rounded-full transition-all"
+                            title={t.edit}
+                          >
+                            <PencilIcon className="h-5 w-5" />
+                          </button>
+                          <button
+                            onClick={() => setScheduleToDelete(schedule.id)}
+                            className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded-full transition-all"
+                            title={t.delete.confirm}
+                          >
+                            <TrashIcon className="h-5 w-5" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md p-6 text-black">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">{t.exceptions.title}</h2>
+          <p className="text-sm text-gray-500 mb-4">{t.exceptions.hint}</p>
+
+          <form onSubmit={handleAddException} className="flex flex-col sm:flex-row gap-3 mb-4">
+            <input
+              type="date"
+              value={exceptionForm.date}
+              onChange={(e) => setExceptionForm({ ...exceptionForm, date: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+              required
+            />
+            <select
+              value={exceptionForm.scheduleId}
+              onChange={(e) => setExceptionForm({ ...exceptionForm, scheduleId: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">{t.exceptions.allSchedules}</option>
+              {schedules.map(schedule => (
+                <option key={schedule.id} value={schedule.id}>
+                  {routeLabel(schedule.route)} · {schedule.departureTime}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={exceptionForm.reason}
+              maxLength={255}
+              placeholder={t.exceptions.reason}
+              onChange={(e) => setExceptionForm({ ...exceptionForm, reason: e.target.value })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg"
+            />
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg text-white bg-indigo-600 hover:bg-indigo-700"
+            >
+              {t.exceptions.add}
+            </button>
+          </form>
+
+          {exceptions.length === 0 ? (
+            <div className="text-sm text-gray-500">{t.exceptions.empty}</div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {exceptions.map(exception => (
+                <li key={exception.id} className="flex justify-between items-center py-2 text-sm">
+                  <div>
+                    <span className="font-medium text-gray-900">{exception.date.slice(0, 10)}</span>
+                    <span className="text-gray-500">
+                      {' · '}
+                      {exception.schedule
+                        ? `${routeLabel(exception.schedule.route)} · ${exception.schedule.departureTime}`
+                        : t.exceptions.allSchedules}
+                      {exception.reason ? ` · ${exception.reason}` : ''}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteException(exception.id)}
+                    className="text-red-600 hover:text-red-900 p-1 hover:bg-red-50 rounded-full transition-all"
+                    title={t.delete.confirm}
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
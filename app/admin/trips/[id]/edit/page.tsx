@@ -2,6 +2,8 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import toast, { Toaster } from 'react-hot-toast'
+import SeatClassPricesInput from '@/components/admin/SeatClassPricesInput'
+import type { SeatClassPriceInput } from '@/lib/seatPricing'
 import { useLanguage } from '@/context/LanguageContext'
 
 interface Route {
@@ -36,6 +38,7 @@ export default function EditTripPage({ params }: PageProps) {
   
   
   const [newImages, setNewImages] = useState<File[]>([])
+  const [seatClassPrices, setSeatClassPrices] = useState<SeatClassPriceInput[]>([])
 
   const [existingImages, setExistingImages] = useState<any[]>([])
   const [existingPrimaryImage, setExistingPrimaryImage] = useState<any>(null)
@@ -49,6 +52,8 @@ export default function EditTripPage({ params }: PageProps) {
     departureTime: '',
     arrivalTime: '',
     price: '',
+    cashDepositPercentage: '',
+    balanceDueHours: '',
     status: 'scheduled',
     titleAr: '',
     titleEn: '',
@@ -87,6 +92,8 @@ export default function EditTripPage({ params }: PageProps) {
         arrivalTime: new Date(data.data.arrivalTime).toISOString().slice(0, 16),
         lastBookingTime: new Date(data.data.lastBookingTime).toISOString().slice(0, 16),
         price: data.data.price.toString(),
+        cashDepositPercentage: data.data.cashDepositPercentage?.toString() ?? '',
+        balanceDueHours: data.data.balanceDueHours?.toString() ?? '',
         status: data.data.status, 
         titleAr: data.data.titleAr,
         titleEn: data.data.titleEn,
@@ -99,6 +106,11 @@ export default function EditTripPage({ params }: PageProps) {
         
         
       })
+      setSeatClassPrices((data.data.seatClassPrices || []).map((entry: any) => ({
+        seatClass: entry.seatClass,
+        price: entry.price !== null ? Number(entry.price) : null,
+        multiplier: entry.multiplier !== null ? Number(entry.multiplier) : null
+      })))
       // Handle images - should be array of image objects with id, imageUrl, altText
       let images = data.data.images
       console.log('Raw images from API:', images, 'Type:', typeof images)
@@ -187,6 +199,8 @@ export default function EditTripPage({ params }: PageProps) {
       form.append('arrivalTime', formData.arrivalTime);
       form.append('lastBookingTime', formData.lastBookingTime);
       form.append('price', formData.price);
+      form.append('cashDepositPercentage', formData.cashDepositPercentage);
+      form.append('balanceDueHours', formData.balanceDueHours);
       form.append('status', formData.status);
       form.append('titleAr', formData.titleAr);
       form.append('titleEn', formData.titleEn);
@@ -195,6 +209,7 @@ export default function EditTripPage({ params }: PageProps) {
       
       form.append('latitude', formData.latitude);
       form.append('longitude', formData.longitude);
+      form.append('seatClassPrices', JSON.stringify(seatClassPrices));
       
       // Handle primary image
       if (formData.primaryImage) {
@@ -374,6 +389,48 @@ export default function EditTripPage({ params }: PageProps) {
           />
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t.labels.seatClassPrices}
+          </label>
+          <SeatClassPricesInput
+            value={seatClassPrices}
+            onChange={setSeatClassPrices}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t.labels.cashDepositPercentage}
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="100"
+              step="0.01"
+              placeholder={t.placeholders.inheritFromRoute}
+              value={formData.cashDepositPercentage}
+              onChange={(e) => setFormData({ ...formData, cashDepositPercentage: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t.labels.balanceDueHours}
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="1"
+              placeholder={t.placeholders.inheritFromRoute}
+              value={formData.balanceDueHours}
+              onChange={(e) => setFormData({ ...formData, balanceDueHours: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </div>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
             {t.labels.status}
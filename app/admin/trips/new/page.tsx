@@ -3,6 +3,8 @@ import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useLanguage } from '@/context/LanguageContext'
 import toast, { Toaster } from 'react-hot-toast'
+import SeatClassPricesInput from '@/components/admin/SeatClassPricesInput'
+import type { SeatClassPriceInput } from '@/lib/seatPricing'
 
 interface Route {
   id: string
@@ -29,6 +31,7 @@ export default function NewTripPage() {
   const [error, setError] = useState('')
   
   const [imageFiles, setImageFiles] = useState<File[]>([] as File[])
+  const [seatClassPrices, setSeatClassPrices] = useState<SeatClassPriceInput[]>([])
 
 
   const [formData, setFormData] = useState({
@@ -37,6 +40,8 @@ export default function NewTripPage() {
     departureTime: '',
     arrivalTime: '',
     price: '',
+    cashDepositPercentage: '',
+    balanceDueHours: '',
     titleAr : '',
     titleEn : '',
     primaryImage: '' as unknown as File | null,
@@ -80,8 +85,8 @@ export default function NewTripPage() {
         }
       })
       const data = await response.json()
-      // Filter to only show active buses
-      const activeBuses = data.data.filter((bus: Bus) => bus.status === 'active')
+      // Buses filling for another trip can take more; the API rejects overlapping times
+      const activeBuses = data.data.filter((bus: Bus) => bus.status === 'active' || bus.status === 'passenger_filling')
       setBuses(activeBuses)
     } catch (error) {
       console.error('Error fetching buses:', error);
@@ -108,6 +113,8 @@ export default function NewTripPage() {
       formData.images?.forEach((file: File) => {
         form.append('images', file)
       })
+
+      form.append('seatClassPrices', JSON.stringify(seatClassPrices))
       
       const response = await fetch('/api/admin/trips', {
         method: 'POST',
@@ -320,6 +327,52 @@ export default function NewTripPage() {
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
           />
         </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t.labels.seatClassPrices}
+          </label>
+          <SeatClassPricesInput
+            value={seatClassPrices}
+            onChange={setSeatClassPrices}
+            disabled={loadingProgress}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t.labels.cashDepositPercentage}
+            </label>
+            <input
+              disabled={loadingProgress}
+              type="number"
+              min="1"
+              max="100"
+              step="0.01"
+              placeholder={t.placeholders.inheritFromRoute}
+              value={formData.cashDepositPercentage}
+              onChange={(e) => setFormData({ ...formData, cashDepositPercentage: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {t.labels.balanceDueHours}
+            </label>
+            <input
+              disabled={loadingProgress}
+              type="number"
+              min="0"
+              step="1"
+              placeholder={t.placeholders.inheritFromRoute}
+              value={formData.balanceDueHours}
+              onChange={(e) => setFormData({ ...formData, balanceDueHours: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            />
+          </div>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
             {t.labels.primaryImage}
@@ -3,30 +3,47 @@ import { useState, useEffect } from 'react'
 import { 
   PencilIcon, 
   TrashIcon, 
-  MagnifyingGlassIcon 
+  MagnifyingGlassIcon,
+  ArrowRightOnRectangleIcon,
+  LockOpenIcon,
+  ShieldExclamationIcon
 } from '@heroicons/react/24/outline'
 import toast, { Toaster } from 'react-hot-toast'
 import ConfirmDialogAdmin from '@/components/ConfirmDialogAdmin'
 import { useLanguage } from '@/context/LanguageContext'
+import { useAuth } from '@/context/AuthContext'
+import { hasPermission } from '@/lib/permissions'
+
+const ROLES = ['USER', 'CASHIER', 'DISPATCHER', 'SUPPORT', 'ADMIN'] as const
 
 interface User {
   id: string
   name: string
-  email: string
+  email: string | null
   phone: string | null
   emailVerified: boolean
-  role: 'USER' | 'ADMIN'
+  phoneVerified: boolean
+  twoFactorEnabled: boolean
+  role: typeof ROLES[number]
+  failedLoginAttempts: number
+  lockedUntil: string | null
   createdAt: string
 }
 
+const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date()
+
 export default function UsersPage() {
   const { language, translations } = useLanguage()
   const t = translations.dashboard.users // for shorter references
+  const { user: currentUser } = useAuth()
+  const canManage = hasPermission(currentUser?.role, 'users:manage')
   const [users, setUsers] = useState<User[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
   const [userToDelete, setUserToDelete] = useState<string | null>(null)
+  const [userToSignOut, setUserToSignOut] = useState<string | null>(null)
+  const [userToResetTwoFactor, setUserToResetTwoFactor] = useState<string | null>(null)
 
   useEffect(() => {
     fetchUsers()
@@ -84,9 +101,114 @@ export default function UsersPage() {
     }
   }
 
+  const handleSignOutUser = async () => {
+    if (!userToSignOut) return
+
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/admin/users/${userToSignOut}/sessions`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+
+      if (response.ok) {
+        toast.success(t.signOut.success)
+      } else {
+        const error = await response.json()
+        toast.error(error.message || t.signOut.error)
+      }
+    } catch (error) {
+      console.error('Error signing out user:', error)
+      toast.error(t.signOut.error)
+    } finally {
+      setUserToSignOut(null)
+    }
+  }
+
+  const handleRoleChange = async (userId: string, role: User['role']) => {
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/admin/users/${userId}/role`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ role })
+      })
+
+      if (response.ok) {
+        setUsers(users.map(user => user.id === userId ? { ...user, role } : user))
+        toast.success(t.role.success)
+      } else {
+        const error = await response.json()
+        toast.error(error.message || t.role.error)
+      }
+    } catch (error) {
+      console.error('Error changing user role:', error)
+      toast.error(t.role.error)
+    }
+  }
+
+  const handleResetTwoFactor = async () => {
+    if (!userToResetTwoFactor) return
+
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/admin/users/${userToResetTwoFactor}/two-factor`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+
+      if (response.ok) {
+        setUsers(users.map(user =>
+          user.id === userToResetTwoFactor ? { ...user, twoFactorEnabled: false } : user
+        ))
+        toast.success(t.twoFactor.resetSuccess)
+      } else {
+        const error = await response.json()
+        toast.error(error.message || t.twoFactor.resetError)
+      }
+    } catch (error) {
+      console.error('Error resetting two-factor:', error)
+      toast.error(t.twoFactor.resetError)
+    } finally {
+      setUserToResetTwoFactor(null)
+    }
+  }
+
+  const handleUnlockUser = async (userId: string) => {
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/admin/users/${userId}/unlock`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+
+      if (response.ok) {
+        setUsers(users.map(user =>
+          user.id === userId ? { ...user, failedLoginAttempts: 0, lockedUntil: null } : user
+        ))
+        toast.success(t.unlock.success)
+      } else {
+        const error = await response.json()
+        toast.error(error.message || t.unlock.error)
+      }
+    } catch (error) {
+      console.error('Error unlocking user:', error)
+      toast.error(t.unlock.error)
+    }
+  }
+
   const filteredUsers = users.filter(user => 
     user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    user.email.toLowerCase().includes(searchTerm.toLowerCase())
+    (user.email || '').toLowerCase().includes(searchTerm.toLowerCase())
   )
 
   if (loading) {
@@ -150,36 +272,93 @@ export default function UsersPage() {
                   <div className="text-sm text-gray-500">{user.phone || t.columns.noPhone}</div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="text-sm text-gray-900">{user.email}</div>
+                  <div className="text-sm text-gray-900">{user.email || user.phone}</div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                    user.role === 'ADMIN' 
-                      ? 'bg-purple-100 text-purple-800' 
-                      : 'bg-gray-100 text-gray-800'
-                  }`}>
-                    {user.role}
-                  </span>
+                  {canManage ? (
+                    <select
+                      value={user.role}
+                      disabled={user.id === currentUser?.id}
+                      onChange={(e) => handleRoleChange(user.id, e.target.value as User['role'])}
+                      className="text-xs font-semibold rounded-full border-gray-300 text-gray-800 focus:ring-indigo-500 focus:border-indigo-500"
+                      title={t.role.change}
+                    >
+                      {ROLES.map(role => (
+                        <option key={role} value={role}>{t.role.names[role]}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                      user.role === 'USER'
+                        ? 'bg-gray-100 text-gray-800'
+                        : 'bg-purple-100 text-purple-800'
+                    }`}>
+                      {t.role.names[user.role]}
+                    </span>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                    user.emailVerified
+                    user.emailVerified || user.phoneVerified
                       ? 'bg-green-100 text-green-800'
                       : 'bg-yellow-100 text-yellow-800'
                   }`}>
-                    {user.emailVerified ? t.status.verified : t.status.pending}
+                    {user.emailVerified || user.phoneVerified ? t.status.verified : t.status.pending}
                   </span>
+                  {user.twoFactorEnabled ? (
+                    <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
+                      {t.twoFactor.enabled}
+                    </span>
+                  ) : user.role === 'ADMIN' && (
+                    <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">
+                      {t.twoFactor.notEnrolled}
+                    </span>
+                  )}
+                  {isLocked(user) && (
+                    <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                      {t.status.locked} {new Date(user.lockedUntil!).toLocaleString()}
+                    </span>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                   {new Date(user.createdAt).toLocaleDateString()}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                  <button
-                    onClick={() => handleDeleteClick(user.id)}
-                    className="text-red-600 hover:text-red-900 ml-4"
-                  >
-                    <TrashIcon className="h-5 w-5" />
-                  </button>
+                  {canManage && (
+                    <>
+                      {isLocked(user) && (
+                        <button
+                          onClick={() => handleUnlockUser(user.id)}
+                          className="text-green-600 hover:text-green-900 mr-4"
+                          title={t.unlock.button}
+                        >
+                          <LockOpenIcon className="h-5 w-5" />
+                        </button>
+                      )}
+                      {user.twoFactorEnabled && (
+                        <button
+                          onClick={() => setUserToResetTwoFactor(user.id)}
+                          className="text-orange-600 hover:text-orange-900 mr-4"
+                          title={t.twoFactor.reset}
+                        >
+                          <ShieldExclamationIcon className="h-5 w-5" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setUserToSignOut(user.id)}
+                        className="text-indigo-600 hover:text-indigo-900"
+                        title={t.signOut.button}
+                      >
+                        <ArrowRightOnRectangleIcon className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteClick(user.id)}
+                        className="text-red-600 hover:text-red-900 ml-4"
+                      >
+                        <TrashIcon className="h-5 w-5" />
+                      </button>
+                    </>
+                  )}
                 </td>
               </tr>
             ))}
@@ -196,6 +375,24 @@ export default function UsersPage() {
         confirmText={t.delete.confirm}
         cancelText={t.delete.cancel}
       />
+      <ConfirmDialogAdmin
+        isOpen={userToSignOut !== null}
+        onClose={() => setUserToSignOut(null)}
+        onConfirm={handleSignOutUser}
+        title={t.signOut.title}
+        message={t.signOut.message}
+        confirmText={t.signOut.confirm}
+        cancelText={t.signOut.cancel}
+      />
+      <ConfirmDialogAdmin
+        isOpen={userToResetTwoFactor !== null}
+        onClose={() => setUserToResetTwoFactor(null)}
+        onConfirm={handleResetTwoFactor}
+        title={t.twoFactor.confirmTitle}
+        message={t.twoFactor.confirmMessage}
+        confirmText={t.twoFactor.reset}
+        cancelText={t.signOut.cancel}
+      />
     </div>
   )
 }
\ No newline at end of file
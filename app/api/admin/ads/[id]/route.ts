@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages, ErrorMessages } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { uploadToCloudinary } from '@/lib/uploadToCloudinary'
+import { AD_ADMIN_INCLUDE, AD_IMAGE_FOLDER, getAdStatus, parseAdForm, validateAdImage } from '@/lib/adService'
+
+export const runtime = 'nodejs'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Fetch ad by ID with its counters
+export const GET = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ad = await prisma.ad.findUnique({
+    where: { id: params.id },
+    include: AD_ADMIN_INCLUDE
+  })
+
+  if (!ad) {
+    return ApiResponseBuilder.notFound('Ad')
+  }
+
+  return ApiResponseBuilder.success({ ...ad, status: getAdStatus(ad) }, SuccessMessages.RETRIEVED)
+})
+
+// PUT - Update an ad; the image is only replaced when a new one is sent
+export const PUT = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const existingAd = await prisma.ad.findUnique({
+    where: { id: params.id },
+    select: { id: true }
+  })
+
+  if (!existingAd) {
+    return ApiResponseBuilder.notFound('Ad')
+  }
+
+  const formData = await request.formData()
+  const image = formData.get('image')
+  const hasNewImage = image instanceof File && image.size > 0
+  const { fields, errors } = parseAdForm(formData)
+
+  if (hasNewImage) {
+    const imageError = validateAdImage(image)
+    if (imageError) {
+      errors.image = [imageError]
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return ApiResponseBuilder.validationError(errors, ErrorMessages.VALIDATION_FAILED)
+  }
+
+  if (fields.tripId) {
+    const trip = await prisma.trip.findUnique({ where: { id: fields.tripId }, select: { id: true } })
+    if (!trip) {
+      return ApiResponseBuilder.notFound('Trip')
+    }
+  }
+
+  const imageUrl = hasNewImage ? await uploadToCloudinary(image, AD_IMAGE_FOLDER) : undefined
+
+  const ad = await prisma.ad.update({
+    where: { id: params.id },
+    data: {
+      ...fields,
+      ...(imageUrl && { imageUrl })
+    },
+    include: AD_ADMIN_INCLUDE
+  })
+
+  return ApiResponseBuilder.success({ ...ad, status: getAdStatus(ad) }, SuccessMessages.UPDATED)
+})
+
+// DELETE - Remove an ad
+export const DELETE = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const ad = await prisma.ad.findUnique({
+    where: { id: params.id },
+    select: { id: true }
+  })
+
+  if (!ad) {
+    return ApiResponseBuilder.notFound('Ad')
+  }
+
+  await prisma.ad.delete({ where: { id: params.id } })
+
+  return ApiResponseBuilder.success(null, SuccessMessages.DELETED)
+})
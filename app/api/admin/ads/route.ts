@@ -0,0 +1,107 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages, ErrorMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { uploadToCloudinary } from '@/lib/uploadToCloudinary'
+import {
+  AD_IMAGE_FOLDER,
+  AD_ADMIN_INCLUDE,
+  AD_STATUSES,
+  AdStatus,
+  adStatusWhere,
+  getAdStatus,
+  parseAdForm,
+  validateAdImage
+} from '@/lib/adService'
+
+export const runtime = 'nodejs'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Fetch ads with pagination and filters
+export const GET = asyncHandler(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const page = parseInt(searchParams.get('page') || '1')
+  const limit = parseInt(searchParams.get('limit') || '10')
+  const status = searchParams.get('status')
+
+  const validationResult = validateRequest(
+    { status, page, limit },
+    {
+      status: { required: false, enum: [...AD_STATUSES] },
+      page: { required: false, min: 1 },
+      limit: { required: false, min: 1, max: 100 }
+    }
+  )
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const now = new Date()
+  const where = status ? adStatusWhere(status as AdStatus, now) : {}
+
+  const [ads, total] = await Promise.all([
+    prisma.ad.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      include: AD_ADMIN_INCLUDE,
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.ad.count({ where })
+  ])
+
+  const totalPages = Math.ceil(total / limit)
+
+  return ApiResponseBuilder.paginated(
+    ads.map(ad => ({ ...ad, status: getAdStatus(ad, now) })),
+    {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    },
+    SuccessMessages.RETRIEVED
+  )
+})
+
+// POST - Create an ad from a multipart form with its image
+export const POST = asyncHandler(async (request: NextRequest) => {
+  const formData = await request.formData()
+  const image = formData.get('image')
+  const { fields, errors } = parseAdForm(formData)
+
+  if (!(image instanceof File) || image.size === 0) {
+    errors.image = ['image is required']
+  } else {
+    const imageError = validateAdImage(image)
+    if (imageError) {
+      errors.image = [imageError]
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return ApiResponseBuilder.validationError(errors, ErrorMessages.VALIDATION_FAILED)
+  }
+
+  if (fields.tripId) {
+    const trip = await prisma.trip.findUnique({ where: { id: fields.tripId }, select: { id: true } })
+    if (!trip) {
+      return ApiResponseBuilder.notFound('Trip')
+    }
+  }
+
+  const imageUrl = await uploadToCloudinary(image as File, AD_IMAGE_FOLDER)
+
+  const ad = await prisma.ad.create({
+    data: { ...fields, imageUrl },
+    include: AD_ADMIN_INCLUDE
+  })
+
+  return ApiResponseBuilder.created({ ...ad, status: getAdStatus(ad) }, SuccessMessages.CREATED)
+})
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { requirePermission } from '@/lib/authorization'
+import { collectCashBalance } from '@/lib/depositService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// POST - Record the remaining cash of a deposit booking, collected at boarding
+export const POST = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  requirePermission(request, 'payments:manage')
+
+  const adminId = request.headers.get('userId')
+  const body = await request.json().catch(() => ({}))
+
+  // Without an amount the whole outstanding balance is recorded
+  const validationResult = validateRequest(body, {
+    amount: { required: false, type: 'number', min: 0.01 }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    return collectCashBalance(tx, params.id, adminId, body.amount)
+  })
+
+  return ApiResponseBuilder.success(
+    {
+      payment: result.payment,
+      billStatus: result.settlement.billStatus,
+      totalPaid: result.settlement.totalPaid,
+      remainingBalance: result.settlement.remainingBalance,
+      message: result.settlement.billStatus === 'paid'
+        ? 'Balance collected, bill is fully paid'
+        : `Partial balance collected, ${result.settlement.remainingBalance} still due`
+    },
+    SuccessMessages.PAYMENT_SUCCESS
+  )
+})
@@ -3,6 +3,11 @@ import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages, StatusCodes } from '@/lib/apiResponse'
 import { validateRequest } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { requirePermission } from '@/lib/authorization'
+import { publishSeatChanges } from '@/lib/seatEvents'
+import { settleBill } from '@/lib/depositService'
+import { requestCancellationRefunds, claimCancellation } from '@/lib/refundService'
+import { syncSeatStatuses } from '@/lib/routeStopService'
 
 // GET - Fetch booking by ID
 export const GET = asyncHandler(async (
@@ -48,7 +53,7 @@ export const GET = asyncHandler(async (
             payments: true
           }
         },
-        ratings: true,
+        rating: true,
         feedbacks: true
       }
     })
@@ -128,6 +133,11 @@ export const PUT = asyncHandler(async (
         }
       })
 
+      // Claim the cancellation first so a concurrent cancel cannot queue refunds twice
+      if (status === 'cancelled' && existingBooking.status !== 'cancelled') {
+        await claimCancellation(tx, id)
+      }
+
       // Update booking status
       const updatedBooking = await tx.booking.update({
         where: { id },
@@ -166,61 +176,17 @@ export const PUT = asyncHandler(async (
 
       // Update seat statuses and handle payments based on booking status
       if (status === 'confirmed') {
-        // Update seats to booked
-        await Promise.all(
-          updatedBooking.details.map(detail =>
-            tx.seat.update({
-              where: { id: detail.seatId },
-              data: { status: 'booked' }
-            })
-          )
-        )
+        // Update seats to booked where every segment is sold
+        await syncSeatStatuses(tx, updatedBooking.tripId, updatedBooking.details.map(detail => detail.seatId))
 
-        // Handle bill status and remaining payment for cash method only
+        // Bring the bill status in line with what was actually paid; a cash balance
+        // is recorded separately when it is collected at boarding
         if (bookingWithBill?.bill) {
-          // Check if there are any cash payments
-          const hasCashPayment = bookingWithBill.bill.payments.some(p => p.method === 'cash')
-          
-          if (hasCashPayment) {
-            // Calculate total paid amount
-            const totalPaid = bookingWithBill.bill.payments
-              .filter(payment => payment.status === 'successful')
-              .reduce((sum, payment) => sum + parseFloat(payment.amount.toString()), 0)
-            
-            const billAmount = parseFloat(bookingWithBill.bill.amount.toString())
-            const remainingAmount = billAmount - totalPaid
-
-            // Set bill to paid (remaining amount will be collected manually)
-            await tx.bill.update({
-              where: { id: bookingWithBill.bill.id },
-              data: { status: 'paid' }
-            })
-
-            // Create a payment record for the remaining amount (cash)
-            if (remainingAmount > 0) {
-              await tx.payment.create({
-                data: {
-                  billId: bookingWithBill.bill.id,
-                  amount: remainingAmount,
-                  method: 'cash',
-                  status: 'successful', // Mark as successful since it will be collected manually
-                  transactionId: `CASH-${Date.now()}`,
-                  paidAt: new Date()
-                }
-              })
-            }
-          }
+          await settleBill(tx, bookingWithBill.bill.id)
         }
       } else if (status === 'cancelled') {
-        // Update seats to available
-        await Promise.all(
-          updatedBooking.details.map(detail =>
-            tx.seat.update({
-              where: { id: detail.seatId },
-              data: { status: 'available' }
-            })
-          )
-        )
+        // Put the seats back on sale for this booking's segment
+        await syncSeatStatuses(tx, updatedBooking.tripId, updatedBooking.details.map(detail => detail.seatId))
 
         // Set bill to unpaid when cancelled
         if (bookingWithBill?.bill) {
@@ -229,16 +195,30 @@ export const PUT = asyncHandler(async (
             data: { status: 'unpaid' }
           })
         }
+
+        // Staff may cancel past the policy cutoff, but the route's refund tiers still apply.
+        // Refunds are queued for approval in the payments dashboard.
+        const refund = existingBooking.status !== 'cancelled'
+          ? await requestCancellationRefunds(tx, id, 'Cancelled by admin')
+          : null
+        return { ...updatedBooking, refund }
       }
 
-      return updatedBooking
+      return { ...updatedBooking, refund: null }
     })
 
+    if (status === 'confirmed' || status === 'cancelled') {
+      await publishSeatChanges(booking.tripId, booking.details.map(detail => detail.seatId))
+    }
+
     return ApiResponseBuilder.success(
       booking,
       SuccessMessages.UPDATED
     )
   } catch (error) {
+    if (error instanceof ApiError) {
+      throw error
+    }
     throw ApiError.database('Failed to update booking')
   }
 })
@@ -248,6 +228,8 @@ export const DELETE = asyncHandler(async (
   request: NextRequest,
   { params }: { params: { id: string } }
 ) => {
+  requirePermission(request, 'bookings:delete')
+
   try {
     const { id } = params
 
@@ -273,27 +255,24 @@ export const DELETE = asyncHandler(async (
     }
 
     const booking = await prisma.$transaction(async (tx) => {
-      // Update seats to available
-      await Promise.all(
-        existingBooking.details.map(detail =>
-          tx.seat.update({
-            where: { id: detail.seatId },
-            data: { status: 'available' }
-          })
-        )
-      )
-
       // Delete booking details first
       await tx.bookingDetail.deleteMany({
         where: { bookingId: id }
       })
 
       // Delete the booking
-      return tx.booking.delete({
+      const deleted = await tx.booking.delete({
         where: { id }
       })
+
+      // Seats go back on sale once the booking no longer holds them
+      await syncSeatStatuses(tx, existingBooking.tripId, existingBooking.details.map(detail => detail.seatId))
+
+      return deleted
     })
 
+    await publishSeatChanges(existingBooking.tripId, existingBooking.details.map(detail => detail.seatId))
+
     return ApiResponseBuilder.success(
       null,
       SuccessMessages.DELETED
@@ -75,7 +75,7 @@ export const GET = asyncHandler(async (request: NextRequest) => {
             payments: true
           }
         },
-        ratings: true,
+        rating: true,
         feedbacks: true
       },
       skip,
@@ -0,0 +1,114 @@
+import { NextRequest } from 'next/server'
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import {
+  SeatLayoutConfig,
+  defaultSeatLayout,
+  layoutSeats,
+  resolveSeatLayout,
+  toSeatLayoutConfig,
+  validateSeatLayout
+} from '@/lib/seatLayout'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Fetch the seat layout of a bus (falls back to the default 2+2 layout)
+export const GET = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const bus = await prisma.bus.findUnique({
+    where: { id: params.id },
+    include: { seatLayout: true }
+  })
+
+  if (!bus) {
+    return ApiResponseBuilder.notFound('Bus')
+  }
+
+  const layout = bus.seatLayout ? toSeatLayoutConfig(bus.seatLayout) : defaultSeatLayout(bus.capacity)
+  const grid = resolveSeatLayout(layout)
+
+  return ApiResponseBuilder.success(
+    {
+      busId: bus.id,
+      isDefault: !bus.seatLayout,
+      layout,
+      grid,
+      seatCount: layoutSeats(grid).length
+    },
+    SuccessMessages.RETRIEVED
+  )
+})
+
+// PUT - Create or replace the seat layout of a bus
+export const PUT = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const body = await request.json()
+
+  const validationResult = validateRequest({ layout: body }, {
+    layout: { required: true, custom: validateSeatLayout }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const bus = await prisma.bus.findUnique({
+    where: { id: params.id }
+  })
+
+  if (!bus) {
+    return ApiResponseBuilder.notFound('Bus')
+  }
+
+  const layout: SeatLayoutConfig = {
+    rows: body.rows,
+    columns: body.columns,
+    aisleColumns: body.aisleColumns,
+    cells: body.cells
+  }
+  const grid = resolveSeatLayout(layout)
+  const seatCount = layoutSeats(grid).length
+
+  // Existing trips keep their own seats; the layout applies to trips created from now on
+  const savedLayout = await prisma.$transaction(async (tx) => {
+    const data = {
+      rows: layout.rows,
+      columns: layout.columns,
+      aisleColumns: layout.aisleColumns as unknown as Prisma.InputJsonValue,
+      cells: layout.cells as unknown as Prisma.InputJsonValue
+    }
+
+    const saved = await tx.busSeatLayout.upsert({
+      where: { busId: bus.id },
+      create: { busId: bus.id, ...data },
+      update: data
+    })
+
+    // Capacity always follows the layout
+    await tx.bus.update({
+      where: { id: bus.id },
+      data: { capacity: seatCount }
+    })
+
+    return saved
+  })
+
+  return ApiResponseBuilder.success(
+    {
+      busId: bus.id,
+      isDefault: false,
+      layout: toSeatLayoutConfig(savedLayout),
+      grid,
+      seatCount
+    },
+    SuccessMessages.UPDATED
+  )
+})
@@ -71,7 +71,8 @@ export const PUT = asyncHandler(async (
 
     // Check if bus exists
     const existingBus = await prisma.bus.findUnique({
-      where: { id: params.id }
+      where: { id: params.id },
+      include: { seatLayout: true }
     })
 
     if (!existingBus) {
@@ -95,7 +96,8 @@ export const PUT = asyncHandler(async (
       where: { id: params.id },
       data: {
         plateNumber,
-        capacity,
+        // A custom seat layout owns the capacity
+        capacity: existingBus.seatLayout ? existingBus.capacity : capacity,
         model,
         status
       }
@@ -0,0 +1,81 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { validateCancellationTiers, normalizeCancellationTiers } from '@/lib/cancellationPolicy'
+import { Prisma } from '@prisma/client'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// PUT - Update a cancellation policy (the route it applies to cannot change)
+export const PUT = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const body = await request.json()
+
+  const validationResult = validateRequest(body, {
+    name: { required: false, minLength: 2, maxLength: 100 },
+    tiers: { required: false, custom: validateCancellationTiers },
+    cutoffHours: { required: false, type: 'number', min: 0 },
+    isActive: { required: false, type: 'boolean' }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const existingPolicy = await prisma.cancellationPolicy.findUnique({
+    where: { id: params.id }
+  })
+
+  if (!existingPolicy) {
+    return ApiResponseBuilder.notFound('Cancellation policy')
+  }
+
+  const { name, tiers, cutoffHours, isActive } = body
+
+  const policy = await prisma.cancellationPolicy.update({
+    where: { id: params.id },
+    data: {
+      ...(name !== undefined && { name }),
+      ...(tiers !== undefined && {
+        tiers: normalizeCancellationTiers(tiers) as unknown as Prisma.InputJsonValue
+      }),
+      ...(cutoffHours !== undefined && { cutoffHours }),
+      ...(isActive !== undefined && { isActive })
+    },
+    include: {
+      route: {
+        include: {
+          departureCity: true,
+          arrivalCity: true
+        }
+      }
+    }
+  })
+
+  return ApiResponseBuilder.success(policy, SuccessMessages.UPDATED)
+})
+
+// DELETE - Delete a cancellation policy; its route falls back to the global policy
+export const DELETE = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const existingPolicy = await prisma.cancellationPolicy.findUnique({
+    where: { id: params.id }
+  })
+
+  if (!existingPolicy) {
+    return ApiResponseBuilder.notFound('Cancellation policy')
+  }
+
+  await prisma.cancellationPolicy.delete({
+    where: { id: params.id }
+  })
+
+  return ApiResponseBuilder.success(null, SuccessMessages.DELETED)
+})
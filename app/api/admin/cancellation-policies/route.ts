@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import {
+  validateCancellationTiers,
+  normalizeCancellationTiers,
+  DEFAULT_CANCELLATION_TIERS
+} from '@/lib/cancellationPolicy'
+import { Prisma } from '@prisma/client'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+const routeInclude = {
+  route: {
+    include: {
+      departureCity: true,
+      arrivalCity: true
+    }
+  }
+}
+
+// GET - Fetch all cancellation policies, global ones first
+export const GET = asyncHandler(async () => {
+  const policies = await prisma.cancellationPolicy.findMany({
+    orderBy: [{ routeId: 'asc' }, { updatedAt: 'desc' }],
+    include: routeInclude
+  })
+
+  return ApiResponseBuilder.success(
+    {
+      policies,
+      defaultTiers: DEFAULT_CANCELLATION_TIERS
+    },
+    SuccessMessages.RETRIEVED
+  )
+})
+
+// POST - Create a cancellation policy for a route, or a global one without routeId
+export const POST = asyncHandler(async (request: NextRequest) => {
+  const body = await request.json()
+
+  const validationResult = validateRequest(body, {
+    name: { required: true, minLength: 2, maxLength: 100 },
+    routeId: { required: false, type: 'string' },
+    tiers: { required: true, custom: validateCancellationTiers },
+    cutoffHours: { required: false, type: 'number', min: 0 },
+    isActive: { required: false, type: 'boolean' }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const { name, routeId, tiers, cutoffHours, isActive } = body
+
+  if (routeId) {
+    const route = await prisma.route.findUnique({ where: { id: routeId } })
+    if (!route) {
+      return ApiResponseBuilder.notFound('Route')
+    }
+
+    const existingPolicy = await prisma.cancellationPolicy.findUnique({ where: { routeId } })
+    if (existingPolicy) {
+      return ApiResponseBuilder.conflict('This route already has a cancellation policy')
+    }
+  } else {
+    // Only one global policy; edit the existing one instead of adding another
+    const existingGlobalPolicy = await prisma.cancellationPolicy.findFirst({ where: { routeId: null } })
+    if (existingGlobalPolicy) {
+      return ApiResponseBuilder.conflict('A global cancellation policy already exists')
+    }
+  }
+
+  const policy = await prisma.cancellationPolicy.create({
+    data: {
+      name,
+      routeId: routeId || null,
+      tiers: normalizeCancellationTiers(tiers) as unknown as Prisma.InputJsonValue,
+      cutoffHours: cutoffHours ?? null,
+      isActive: isActive ?? true
+    },
+    include: routeInclude
+  })
+
+  return ApiResponseBuilder.created(policy, SuccessMessages.CREATED)
+})
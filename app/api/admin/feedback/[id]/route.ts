@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { requirePermission } from '@/lib/authorization'
+import { moderateFeedback } from '@/lib/ratingService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// PUT - Hide feedback from the public trip pages, or show it again
+export const PUT = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  requirePermission(request, 'feedback:manage')
+
+  const body = await request.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, {
+    hidden: { required: true, type: 'boolean' },
+    reason: { required: false, type: 'string', maxLength: 500 }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const feedback = await moderateFeedback(params.id, request.headers.get('userId'), {
+    hidden: body.hidden,
+    reason: body.reason
+  })
+
+  return ApiResponseBuilder.success(
+    feedback,
+    feedback.hidden ? 'Feedback hidden' : SuccessMessages.UPDATED
+  )
+})
@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Fetch trip feedback for moderation with pagination and filters
+export const GET = asyncHandler(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const page = parseInt(searchParams.get('page') || '1')
+  const limit = parseInt(searchParams.get('limit') || '10')
+  const status = searchParams.get('status')
+
+  const validationResult = validateRequest(
+    { status, page, limit },
+    {
+      status: { required: false, enum: ['visible', 'hidden'] },
+      page: { required: false, min: 1 },
+      limit: { required: false, min: 1, max: 100 }
+    }
+  )
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const where: any = {}
+  if (status) {
+    where.hidden = status === 'hidden'
+  }
+
+  const [feedback, total] = await Promise.all([
+    prisma.feedback.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            phone: true
+          }
+        },
+        booking: {
+          select: {
+            id: true,
+            rating: { select: { rating: true } }
+          }
+        },
+        trip: {
+          select: {
+            id: true,
+            departureTime: true,
+            route: {
+              include: {
+                departureCity: true,
+                arrivalCity: true
+              }
+            }
+          }
+        }
+      },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.feedback.count({ where })
+  ])
+
+  const totalPages = Math.ceil(total / limit)
+
+  return ApiResponseBuilder.paginated(
+    feedback,
+    {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    },
+    SuccessMessages.RETRIEVED
+  )
+})
@@ -2,6 +2,10 @@ import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, StatusCodes } from '@/lib/apiResponse'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { requirePermission } from '@/lib/authorization'
+import { publishSeatChanges } from '@/lib/seatEvents'
+import { getPaymentProviderForPayment } from '@/lib/paymentProvider'
+import { confirmPendingPayment } from '@/lib/paymentService'
 
 // Force dynamic rendering for this API route
 export const dynamic = 'force-dynamic'
@@ -11,20 +15,14 @@ export const PUT = asyncHandler(async (
   request: NextRequest,
   { params }: { params: { id: string } }
 ) => {
+  requirePermission(request, 'payments:manage')
+
   try {
     const paymentId = params.id
 
     // Check if payment exists
     const existingPayment = await prisma.payment.findUnique({
-      where: { id: paymentId },
-      include: {
-        bill: {
-          include: {
-            booking: true,
-            payments: true
-          }
-        }
-      }
+      where: { id: paymentId }
     })
 
     if (!existingPayment) {
@@ -40,83 +38,25 @@ export const PUT = asyncHandler(async (
       )
     }
 
-    // Process confirmation in transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Update payment status to successful
-      const updatedPayment = await tx.payment.update({
-        where: { id: paymentId },
-        data: {
-          status: 'successful',
-          paidAt: new Date()
-        }
-      })
-
-      // Calculate total paid amount
-      const totalPaid = existingPayment.bill.payments
-        .filter(p => p.status === 'successful' || p.id === paymentId)
-        .reduce((sum, p) => sum + parseFloat(p.amount.toString()), 0)
-
-      const billAmount = parseFloat(existingPayment.bill.amount.toString())
-
-      // Handle different payment methods
-      if (existingPayment.method === 'cash') {
-        // For cash payments: confirm booking but keep bill unpaid
-        await tx.booking.update({
-          where: { id: existingPayment.bill.booking.id },
-          data: { status: 'confirmed' }
-        })
-
-        // Update seat statuses to booked
-        const bookingDetails = await tx.bookingDetail.findMany({
-          where: { bookingId: existingPayment.bill.booking.id }
-        })
-
-        await Promise.all(
-          bookingDetails.map(detail =>
-            tx.seat.update({
-              where: { id: detail.seatId },
-              data: { status: 'booked' }
-            })
-          )
-        )
-      } else {
-        // For online payments: check if bill is now fully paid
-        if (totalPaid >= billAmount) {
-          // Update bill status to paid
-          await tx.bill.update({
-            where: { id: existingPayment.bill.id },
-            data: { status: 'paid' }
-          })
-
-          // Update booking status to confirmed
-          await tx.booking.update({
-            where: { id: existingPayment.bill.booking.id },
-            data: { status: 'confirmed' }
-          })
+    // Collect the funds with the provider before recording the payment as successful
+    const provider = getPaymentProviderForPayment(existingPayment)
+    const capture = await provider.capture(
+      existingPayment.transactionId ?? existingPayment.id,
+      existingPayment.amount
+    )
 
-          // Update seat statuses to booked
-          const bookingDetails = await tx.bookingDetail.findMany({
-            where: { bookingId: existingPayment.bill.booking.id }
-          })
+    if (!capture.success) {
+      return ApiResponseBuilder.error(
+        capture.failureReason || 'Payment capture failed',
+        StatusCodes.BAD_REQUEST,
+        'The payment provider did not capture this payment'
+      )
+    }
 
-          await Promise.all(
-            bookingDetails.map(detail =>
-              tx.seat.update({
-                where: { id: detail.seatId },
-                data: { status: 'booked' }
-              })
-            )
-          )
-        }
-      }
+    // Process confirmation in transaction
+    const result = await prisma.$transaction(tx => confirmPendingPayment(tx, paymentId))
 
-      return {
-        payment: updatedPayment,
-        billStatus: existingPayment.method === 'cash' ? 'unpaid' : (totalPaid >= billAmount ? 'paid' : 'unpaid'),
-        bookingStatus: existingPayment.method === 'cash' ? 'confirmed' : (totalPaid >= billAmount ? 'confirmed' : existingPayment.bill.booking.status),
-        remainingBalance: existingPayment.method === 'cash' ? billAmount : Math.max(0, billAmount - totalPaid)
-      }
-    })
+    await publishSeatChanges(result.tripId)
 
     return ApiResponseBuilder.success(
       {
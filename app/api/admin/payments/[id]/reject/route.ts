@@ -2,6 +2,9 @@ import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, StatusCodes } from '@/lib/apiResponse'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { requirePermission } from '@/lib/authorization'
+import { getPaymentProviderForPayment } from '@/lib/paymentProvider'
+import { failPendingPayment } from '@/lib/paymentService'
 
 // Force dynamic rendering for this API route
 export const dynamic = 'force-dynamic'
@@ -11,20 +14,14 @@ export const PUT = asyncHandler(async (
   request: NextRequest,
   { params }: { params: { id: string } }
 ) => {
+  requirePermission(request, 'payments:manage')
+
   try {
     const paymentId = params.id
 
     // Check if payment exists
     const existingPayment = await prisma.payment.findUnique({
-      where: { id: paymentId },
-      include: {
-        bill: {
-          include: {
-            booking: true,
-            payments: true
-          }
-        }
-      }
+      where: { id: paymentId }
     })
 
     if (!existingPayment) {
@@ -40,13 +37,20 @@ export const PUT = asyncHandler(async (
       )
     }
 
+    // Release the held funds with the provider
+    const provider = getPaymentProviderForPayment(existingPayment)
+    const cancellation = await provider.cancelIntent(existingPayment.transactionId ?? existingPayment.id)
+
+    if (!cancellation.success) {
+      return ApiResponseBuilder.error(
+        cancellation.failureReason || 'Payment cancellation failed',
+        StatusCodes.BAD_REQUEST,
+        'The payment provider did not cancel this payment'
+      )
+    }
+
     // Update payment status to failed
-    const updatedPayment = await prisma.payment.update({
-      where: { id: paymentId },
-      data: {
-        status: 'failed'
-      }
-    })
+    const updatedPayment = await prisma.$transaction(tx => failPendingPayment(tx, paymentId))
 
     return ApiResponseBuilder.success(
       {
@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { getBillBalance } from '@/lib/refundService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Deposit bookings whose cash balance is still outstanding, soonest due first
+export const GET = asyncHandler(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const page = parseInt(searchParams.get('page') || '1')
+  const limit = parseInt(searchParams.get('limit') || '20')
+  const overdue = searchParams.get('overdue')
+
+  const validationResult = validateRequest(
+    { overdue, page, limit },
+    {
+      overdue: { required: false, enum: ['true', 'false'] },
+      page: { required: false, min: 1 },
+      limit: { required: false, min: 1, max: 100 }
+    }
+  )
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const where: any = {
+    status: 'partially_paid',
+    booking: { status: 'confirmed' }
+  }
+  if (overdue === 'true') {
+    where.balanceDueAt = { lt: new Date() }
+  }
+
+  const [bills, total] = await Promise.all([
+    prisma.bill.findMany({
+      where,
+      orderBy: { balanceDueAt: 'asc' },
+      include: {
+        payments: true,
+        refunds: true,
+        booking: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+                phone: true
+              }
+            },
+            trip: {
+              include: {
+                route: {
+                  include: {
+                    departureCity: true,
+                    arrivalCity: true
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.bill.count({ where })
+  ])
+
+  const now = new Date()
+  const totalPages = Math.ceil(total / limit)
+
+  return ApiResponseBuilder.paginated(
+    bills.map(bill => ({
+      ...bill,
+      ...getBillBalance(bill),
+      isOverdue: bill.balanceDueAt !== null && bill.balanceDueAt < now
+    })),
+    {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    },
+    SuccessMessages.RETRIEVED
+  )
+})
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Browse the payment provider webhook event log
+export const GET = asyncHandler(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const page = parseInt(searchParams.get('page') || '1')
+  const limit = parseInt(searchParams.get('limit') || '20')
+  const status = searchParams.get('status')
+  const paymentId = searchParams.get('paymentId')
+
+  const validationResult = validateRequest(
+    { status, page, limit },
+    {
+      status: { required: false, enum: ['received', 'processed', 'ignored', 'failed'] },
+      page: { required: false, min: 1 },
+      limit: { required: false, min: 1, max: 100 }
+    }
+  )
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const where: any = {}
+  if (status) {
+    where.status = status
+  }
+  if (paymentId) {
+    where.paymentId = paymentId
+  }
+
+  const [events, total] = await Promise.all([
+    prisma.paymentWebhookEvent.findMany({
+      where,
+      orderBy: { receivedAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.paymentWebhookEvent.count({ where })
+  ])
+
+  const totalPages = Math.ceil(total / limit)
+
+  return ApiResponseBuilder.paginated(
+    events,
+    {
+      page,
+      limit,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1
+    },
+    SuccessMessages.RETRIEVED
+  )
+})
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder, SuccessMessages, StatusCodes } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { requirePermission } from '@/lib/authorization'
+import { approveRefund } from '@/lib/refundService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// PUT - Approve a refund and pay it out through the payment provider
+export const PUT = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  requirePermission(request, 'payments:manage')
+
+  const adminId = request.headers.get('userId')
+
+  const refund = await approveRefund(params.id, adminId)
+
+  if (refund.status === 'failed') {
+    return ApiResponseBuilder.error(
+      refund.failureReason || 'Refund failed',
+      StatusCodes.BAD_REQUEST,
+      'The payment provider did not process this refund'
+    )
+  }
+
+  return ApiResponseBuilder.success(
+    {
+      refund,
+      message: 'Refund approved successfully'
+    },
+    SuccessMessages.UPDATED
+  )
+})
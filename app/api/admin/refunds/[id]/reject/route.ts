@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { requirePermission } from '@/lib/authorization'
+import { rejectRefund } from '@/lib/refundService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// PUT - Reject a pending refund
+export const PUT = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  requirePermission(request, 'payments:manage')
+
+  const adminId = request.headers.get('userId')
+  const body = await request.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, {
+    reason: { required: false, maxLength: 500 }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const refund = await rejectRefund(params.id, adminId, body.reason)
+
+  return ApiResponseBuilder.success(
+    {
+      refund,
+      message: 'Refund rejected successfully'
+    },
+    SuccessMessages.UPDATED
+  )
+})
@@ -3,6 +3,7 @@ import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages, StatusCodes } from '@/lib/apiResponse'
 import { validateRequest } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { validateDepositSettings } from '@/lib/depositService'
 
 // GET - Fetch route by ID
 export const GET = asyncHandler(async (
@@ -23,6 +24,10 @@ export const GET = asyncHandler(async (
             country: true
           }
         },
+        stops: {
+          include: { city: true },
+          orderBy: { stopOrder: 'asc' }
+        },
         trips: {
           include: {
             bus: {
@@ -73,7 +78,9 @@ export const PUT = asyncHandler(async (
     const validationResult = validateRequest(body, {
       departureCityId: { required: true },
       arrivalCityId: { required: true },
-      distance: { required: true, min: 1, max: 10000 }
+      distance: { required: true, min: 1, max: 10000 },
+      cashDepositPercentage: { required: false, custom: value => validateDepositSettings(value, null) },
+      balanceDueHours: { required: false, custom: value => validateDepositSettings(null, value) }
     })
     
     if (!validationResult.isValid) {
@@ -88,17 +95,26 @@ export const PUT = asyncHandler(async (
       return ApiResponseBuilder.validationError(errorMessages, ErrorMessages.VALIDATION_FAILED)
     }
 
-    const { departureCityId, arrivalCityId, distance } = body
+    const { departureCityId, arrivalCityId, distance, cashDepositPercentage, balanceDueHours } = body
 
     // Check if route exists
     const existingRoute = await prisma.route.findUnique({
-      where: { id: params.id }
+      where: { id: params.id },
+      include: { stops: true }
     })
 
     if (!existingRoute) {
       return ApiResponseBuilder.notFound('Route')
     }
 
+    // An intermediate stop cannot become one of the route's ends
+    if (existingRoute.stops.some(stop => stop.cityId === departureCityId || stop.cityId === arrivalCityId)) {
+      return ApiResponseBuilder.validationError(
+        { departureCityId: ['Remove the city from the route\'s stops first'] },
+        ErrorMessages.VALIDATION_FAILED
+      )
+    }
+
     // Check if cities exist
     const [departureCity, arrivalCity] = await Promise.all([
       prisma.city.findUnique({ 
@@ -135,7 +151,10 @@ export const PUT = asyncHandler(async (
       data: {
         departureCityId,
         arrivalCityId,
-        distance
+        distance,
+        // Cash deposit rules; null falls back to the defaults
+        ...(cashDepositPercentage !== undefined && { cashDepositPercentage }),
+        ...(balanceDueHours !== undefined && { balanceDueHours })
       },
       include: {
         departureCity: {
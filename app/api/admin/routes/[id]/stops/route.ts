@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { replaceRouteStops, validateRouteStops, RouteStopInput } from '@/lib/routeStopService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Fetch the intermediate stops of a route, in order
+export const GET = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const route = await prisma.route.findUnique({
+    where: { id: params.id },
+    include: {
+      departureCity: true,
+      arrivalCity: true,
+      stops: {
+        include: { city: true },
+        orderBy: { stopOrder: 'asc' }
+      }
+    }
+  })
+
+  if (!route) {
+    return ApiResponseBuilder.notFound('Route')
+  }
+
+  return ApiResponseBuilder.success(
+    route,
+    SuccessMessages.RETRIEVED
+  )
+})
+
+// PUT - Replace the intermediate stops of a route. Only trips created afterwards pick them up;
+// existing trips keep the stops their bookings were made against.
+export const PUT = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const body = await request.json().catch(() => ({}))
+
+  const route = await prisma.route.findUnique({
+    where: { id: params.id }
+  })
+
+  if (!route) {
+    return ApiResponseBuilder.notFound('Route')
+  }
+
+  const validationResult = validateRequest(body, {
+    stops: { required: true, type: 'array', custom: value => validateRouteStops(value, route) }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const stops: RouteStopInput[] = body.stops.map((stop: RouteStopInput) => ({
+    cityId: stop.cityId,
+    offsetMinutes: stop.offsetMinutes,
+    fareShare: stop.fareShare ?? null
+  }))
+
+  const cityCount = await prisma.city.count({
+    where: { id: { in: stops.map(stop => stop.cityId) } }
+  })
+
+  if (cityCount !== stops.length) {
+    return ApiResponseBuilder.notFound('One or more cities')
+  }
+
+  const savedStops = await prisma.$transaction(tx => replaceRouteStops(tx, params.id, stops))
+
+  return ApiResponseBuilder.success(
+    savedStops,
+    SuccessMessages.UPDATED
+  )
+})
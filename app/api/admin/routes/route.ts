@@ -3,6 +3,7 @@ import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages } from '@/lib/apiResponse'
 import { validateRequest } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { validateDepositSettings } from '@/lib/depositService'
 
 // GET - Fetch all routes with pagination and filters
 export const GET = asyncHandler(async (request: NextRequest) => {
@@ -47,6 +48,10 @@ export const GET = asyncHandler(async (request: NextRequest) => {
             country: true
           }
         },
+        stops: {
+          include: { city: true },
+          orderBy: { stopOrder: 'asc' }
+        },
         trips: {
           include: {
             bus: {
@@ -92,7 +97,9 @@ export const POST = asyncHandler(async (request: NextRequest) => {
     const validationResult = validateRequest(body, {
       departureCityId: { required: true },
       arrivalCityId: { required: true },
-      distance: { required: true, min: 1, max: 10000 }
+      distance: { required: true, min: 1, max: 10000 },
+      cashDepositPercentage: { required: false, custom: value => validateDepositSettings(value, null) },
+      balanceDueHours: { required: false, custom: value => validateDepositSettings(null, value) }
     })
     
     if (!validationResult.isValid) {
@@ -107,7 +114,7 @@ export const POST = asyncHandler(async (request: NextRequest) => {
       return ApiResponseBuilder.validationError(errorMessages, ErrorMessages.VALIDATION_FAILED)
     }
 
-    const { departureCityId, arrivalCityId, distance } = body
+    const { departureCityId, arrivalCityId, distance, cashDepositPercentage, balanceDueHours } = body
 
     // Check if cities exist
     const [departureCity, arrivalCity] = await Promise.all([
@@ -144,7 +151,10 @@ export const POST = asyncHandler(async (request: NextRequest) => {
       data: {
         departureCityId,
         arrivalCityId,
-        distance
+        distance,
+        // Cash deposit rules; null falls back to the defaults
+        cashDepositPercentage: cashDepositPercentage ?? null,
+        balanceDueHours: balanceDueHours ?? null
       },
       include: {
         departureCity: {
@@ -0,0 +1,26 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { hasJobSecret } from '@/lib/jwtService'
+import { releaseExpiredSeatLocks } from '@/lib/seatLockService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// POST - Release all expired seat locks. Called by an admin, or by a scheduled job sending
+// the job secret in the x-job-secret header.
+export const POST = asyncHandler(async (request: NextRequest) => {
+  if (!request.headers.get('userId') && !hasJobSecret(request.headers)) {
+    return ApiResponseBuilder.unauthorized('Job secret or admin access required')
+  }
+
+  const { searchParams } = new URL(request.url)
+  const tripId = searchParams.get('tripId') || undefined
+
+  const report = await releaseExpiredSeatLocks({ tripId })
+
+  return ApiResponseBuilder.success(
+    report,
+    `${report.releasedLocks} expired seat locks released`
+  )
+})
@@ -0,0 +1,129 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages, ErrorMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import {
+  TRIP_SCHEDULE_INCLUDE,
+  TRIP_SCHEDULE_SCHEMA,
+  generateScheduledTrips,
+  toTripScheduleData,
+  validateScheduleDates
+} from '@/lib/tripScheduleService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Fetch a schedule with its upcoming generated trips
+export const GET = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const schedule = await prisma.tripSchedule.findUnique({
+    where: { id: params.id },
+    include: {
+      ...TRIP_SCHEDULE_INCLUDE,
+      trips: {
+        where: { departureTime: { gte: new Date() } },
+        orderBy: { departureTime: 'asc' },
+        select: {
+          id: true,
+          departureTime: true,
+          arrivalTime: true,
+          status: true,
+          _count: { select: { bookings: true } }
+        }
+      }
+    }
+  })
+
+  if (!schedule) {
+    return ApiResponseBuilder.notFound('Trip schedule')
+  }
+
+  return ApiResponseBuilder.success(
+    schedule,
+    SuccessMessages.RETRIEVED
+  )
+})
+
+// PUT - Update a schedule. Trips it already generated keep their details; new ones follow the change.
+export const PUT = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const body = await request.json().catch(() => ({}))
+
+  const existingSchedule = await prisma.tripSchedule.findUnique({
+    where: { id: params.id },
+    select: { id: true }
+  })
+
+  if (!existingSchedule) {
+    return ApiResponseBuilder.notFound('Trip schedule')
+  }
+
+  const validationResult = validateRequest(body, TRIP_SCHEDULE_SCHEMA)
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const dates = validateScheduleDates(body)
+  if (dates !== true) {
+    return ApiResponseBuilder.validationError({ endDate: [dates] }, ErrorMessages.VALIDATION_FAILED)
+  }
+
+  const [route, bus] = await Promise.all([
+    prisma.route.findUnique({ where: { id: body.routeId }, select: { id: true } }),
+    prisma.bus.findUnique({ where: { id: body.busId }, select: { id: true } })
+  ])
+
+  if (!route) {
+    return ApiResponseBuilder.notFound('Route')
+  }
+
+  if (!bus) {
+    return ApiResponseBuilder.notFound('Bus')
+  }
+
+  await prisma.tripSchedule.update({
+    where: { id: params.id },
+    data: toTripScheduleData(body)
+  })
+
+  const generation = await generateScheduledTrips({ scheduleId: params.id })
+
+  const schedule = await prisma.tripSchedule.findUnique({
+    where: { id: params.id },
+    include: TRIP_SCHEDULE_INCLUDE
+  })
+
+  return ApiResponseBuilder.success(
+    { schedule, generation },
+    SuccessMessages.UPDATED
+  )
+})
+
+// DELETE - Delete a schedule; the trips it generated stay as ordinary trips
+export const DELETE = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const existingSchedule = await prisma.tripSchedule.findUnique({
+    where: { id: params.id },
+    select: { id: true }
+  })
+
+  if (!existingSchedule) {
+    return ApiResponseBuilder.notFound('Trip schedule')
+  }
+
+  await prisma.tripSchedule.delete({
+    where: { id: params.id }
+  })
+
+  return ApiResponseBuilder.success(
+    null,
+    SuccessMessages.DELETED
+  )
+})
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// DELETE - Remove a holiday or exception; the next generation run fills in the date again
+export const DELETE = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const exception = await prisma.tripScheduleException.findUnique({
+    where: { id: params.id },
+    select: { id: true }
+  })
+
+  if (!exception) {
+    return ApiResponseBuilder.notFound('Schedule exception')
+  }
+
+  await prisma.tripScheduleException.delete({
+    where: { id: params.id }
+  })
+
+  return ApiResponseBuilder.success(
+    null,
+    SuccessMessages.DELETED
+  )
+})
@@ -0,0 +1,111 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { toDateString, zonedDate } from '@/lib/tripScheduleService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// GET - Fetch upcoming holidays and schedule exceptions (?scheduleId= narrows to one schedule and the holidays)
+export const GET = asyncHandler(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const scheduleId = searchParams.get('scheduleId')
+  const today = new Date(`${toDateString(new Date())}T00:00:00Z`)
+
+  const exceptions = await prisma.tripScheduleException.findMany({
+    where: {
+      date: { gte: today },
+      ...(scheduleId ? { OR: [{ scheduleId }, { scheduleId: null }] } : {})
+    },
+    include: {
+      schedule: {
+        select: {
+          id: true,
+          departureTime: true,
+          route: {
+            select: {
+              departureCity: { select: { name: true, nameAr: true } },
+              arrivalCity: { select: { name: true, nameAr: true } }
+            }
+          }
+        }
+      }
+    },
+    orderBy: { date: 'asc' }
+  })
+
+  return ApiResponseBuilder.success(
+    exceptions,
+    SuccessMessages.RETRIEVED
+  )
+})
+
+// POST - Add a date without trips: a holiday for every schedule, or an exception for one.
+// Trips already generated for that date are listed so they can be cancelled by hand.
+export const POST = asyncHandler(async (request: NextRequest) => {
+  const body = await request.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, {
+    date: { required: true, type: 'string', pattern: DATE_PATTERN },
+    scheduleId: { required: false, type: 'string' },
+    reason: { required: false, type: 'string', maxLength: 255 }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  if (body.scheduleId) {
+    const schedule = await prisma.tripSchedule.findUnique({
+      where: { id: body.scheduleId },
+      select: { id: true }
+    })
+
+    if (!schedule) {
+      return ApiResponseBuilder.notFound('Trip schedule')
+    }
+  }
+
+  const date = new Date(`${body.date}T00:00:00Z`)
+
+  const exception = await prisma.tripScheduleException.create({
+    data: {
+      scheduleId: body.scheduleId || null,
+      date,
+      reason: body.reason || null
+    }
+  })
+
+  // Generated trips that depart on that date in their schedule's time zone
+  const nearbyTrips = await prisma.trip.findMany({
+    where: {
+      scheduleId: body.scheduleId || { not: null },
+      status: 'scheduled',
+      departureTime: {
+        gte: new Date(date.getTime() - 24 * 60 * 60 * 1000),
+        lt: new Date(date.getTime() + 2 * 24 * 60 * 60 * 1000)
+      }
+    },
+    select: {
+      id: true,
+      scheduleId: true,
+      departureTime: true,
+      schedule: { select: { timezone: true } },
+      _count: { select: { bookings: true } }
+    },
+    orderBy: { departureTime: 'asc' }
+  })
+
+  const generatedTrips = nearbyTrips
+    .filter(trip => trip.schedule && zonedDate(trip.departureTime, trip.schedule.timezone) === body.date)
+    .map(({ schedule, ...trip }) => trip)
+
+  return ApiResponseBuilder.created(
+    { exception, generatedTrips },
+    SuccessMessages.CREATED
+  )
+})
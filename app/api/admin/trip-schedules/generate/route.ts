@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { generateScheduledTrips } from '@/lib/tripScheduleService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// POST - Generate trips from active schedules (callable as a scheduled job).
+// With dryRun the report lists what would be created and the conflicts, without creating anything.
+export const POST = asyncHandler(async (request: NextRequest) => {
+  const body = await request.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, {
+    scheduleId: { required: false, type: 'string' },
+    dryRun: { required: false, type: 'boolean' }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const report = await generateScheduledTrips({
+    scheduleId: body.scheduleId,
+    dryRun: body.dryRun
+  })
+
+  return ApiResponseBuilder.success(
+    report,
+    report.dryRun
+      ? `${report.trips.length} trips would be generated, ${report.conflicts.length} conflicts`
+      : `${report.created} trips generated, ${report.conflicts.length} conflicts`
+  )
+})
@@ -0,0 +1,76 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages, ErrorMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import {
+  TRIP_SCHEDULE_INCLUDE,
+  TRIP_SCHEDULE_SCHEMA,
+  generateScheduledTrips,
+  toTripScheduleData,
+  validateScheduleDates
+} from '@/lib/tripScheduleService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Fetch all trip schedules
+export const GET = asyncHandler(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const active = searchParams.get('active')
+
+  const schedules = await prisma.tripSchedule.findMany({
+    where: active === null ? {} : { isActive: active === 'true' },
+    include: TRIP_SCHEDULE_INCLUDE,
+    orderBy: [{ isActive: 'desc' }, { departureTime: 'asc' }]
+  })
+
+  return ApiResponseBuilder.success(
+    schedules,
+    SuccessMessages.RETRIEVED
+  )
+})
+
+// POST - Create a schedule and generate its first trips
+export const POST = asyncHandler(async (request: NextRequest) => {
+  const body = await request.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, TRIP_SCHEDULE_SCHEMA)
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const dates = validateScheduleDates(body)
+  if (dates !== true) {
+    return ApiResponseBuilder.validationError({ endDate: [dates] }, ErrorMessages.VALIDATION_FAILED)
+  }
+
+  const [route, bus] = await Promise.all([
+    prisma.route.findUnique({ where: { id: body.routeId }, select: { id: true } }),
+    prisma.bus.findUnique({ where: { id: body.busId }, select: { id: true } })
+  ])
+
+  if (!route) {
+    return ApiResponseBuilder.notFound('Route')
+  }
+
+  if (!bus) {
+    return ApiResponseBuilder.notFound('Bus')
+  }
+
+  const schedule = await prisma.tripSchedule.create({
+    data: toTripScheduleData(body)
+  })
+
+  const generation = await generateScheduledTrips({ scheduleId: schedule.id })
+
+  const created = await prisma.tripSchedule.findUnique({
+    where: { id: schedule.id },
+    include: TRIP_SCHEDULE_INCLUDE
+  })
+
+  return ApiResponseBuilder.created(
+    { schedule: created, generation },
+    SuccessMessages.CREATED
+  )
+})
@@ -3,8 +3,18 @@ import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages } from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { requirePermission } from '@/lib/authorization'
+import { publishSeatChanges } from '@/lib/seatEvents'
+import {
+  lastStopOf,
+  findSeatsTakenOnSegment,
+  lockTripSeats,
+  SEAT_SALE_TRANSACTION_OPTIONS
+} from '@/lib/routeStopService'
 
 export const POST = asyncHandler(async (request: NextRequest, { params }: { params: { id: string } }) => {
+  requirePermission(request, 'seats:block')
+
   const body = await request.json()
   const tripId = params.id
 
@@ -40,6 +50,9 @@ export const POST = asyncHandler(async (request: NextRequest, { params }: { para
           departureCity: true,
           arrivalCity: true
         }
+      },
+      stops: {
+        orderBy: { stopOrder: 'asc' }
       }
     }
   })
@@ -56,53 +69,62 @@ export const POST = asyncHandler(async (request: NextRequest, { params }: { para
     )
   }
 
-  // Check if seats belong to this trip and are available
-  const seats = await prisma.seat.findMany({
-    where: {
-      id: { in: seatIds },
-      tripId: tripId,
-      status: 'available'
-    },
-    include: {
-      trip: {
-        select: {
-          id: true,
-          departureTime: true,
-          status: true
+  // Checked and blocked under the seat sale lock, so a concurrent booking cannot slip in between
+  const { seats, blockedSeats } = await prisma.$transaction(async (tx) => {
+    await lockTripSeats(tx, tripId)
+
+    // A seat sold for any leg of the trip still reads available, so bookings are checked too
+    const lastStop = lastStopOf(trip.stops)
+    const seatIdsTaken = await findSeatsTakenOnSegment(tx, tripId, { boardingStop: 0, alightingStop: lastStop }, lastStop)
+
+    // Check if seats belong to this trip and are available
+    const seats = (await tx.seat.findMany({
+      where: {
+        id: { in: seatIds },
+        tripId: tripId,
+        status: 'available'
+      },
+      include: {
+        trip: {
+          select: {
+            id: true,
+            departureTime: true,
+            status: true
+          }
         }
       }
-    }
-  })
+    })).filter(seat => !seatIdsTaken.has(seat.id))
 
-  if (seats.length !== seatIds.length) {
-    const unavailableSeats = seatIds.filter((id: string) => 
-      !seats.some(seat => seat.id === id)
-    )
-    
-    return ApiResponseBuilder.error(
-      `Some seats are not available or don't belong to this trip. Unavailable seats: ${unavailableSeats.join(', ')}`,
-      400
-    )
-  }
+    if (seats.length !== seatIds.length) {
+      const unavailableSeats = seatIds.filter((id: string) => 
+        !seats.some(seat => seat.id === id)
+      )
+      
+      throw ApiError.validation(
+        `Some seats are not available or don't belong to this trip. Unavailable seats: ${unavailableSeats.join(', ')}`
+      )
+    }
 
-  // Additional validation: Check if seats are from the correct trip
-  const invalidTripSeats = seats.filter(seat => seat.tripId !== tripId)
-  if (invalidTripSeats.length > 0) {
-    return ApiResponseBuilder.error(
-      `Some seats don't belong to this trip: ${invalidTripSeats.map(s => s.id).join(', ')}`,
-      400
-    )
-  }
+    // Block the seats
+    const blockedSeats = await tx.seat.updateMany({
+      where: {
+        id: { in: seatIds },
+        tripId: tripId,
+        status: 'available'
+      },
+      data: {
+        status: 'blocked'
+      }
+    })
 
-  // Block the seats
-  const blockedSeats = await prisma.seat.updateMany({
-    where: {
-      id: { in: seatIds }
-    },
-    data: {
-      status: 'blocked'
+    if (blockedSeats.count !== seatIds.length) {
+      throw ApiError.conflict('Some seats changed while they were being blocked, please try again')
     }
-  })
+
+    return { seats, blockedSeats }
+  }, SEAT_SALE_TRANSACTION_OPTIONS)
+
+  await publishSeatChanges(tripId, seatIds)
 
   return ApiResponseBuilder.success(
     {
@@ -5,6 +5,15 @@ import { validateRequest } from '@/lib/validation'
 import { asyncHandler, ApiError, ErrorHandler } from '@/lib/errorHandler'
 import { v2 as cloudinary } from 'cloudinary'
 import { uploadToCloudinary } from '@/lib/uploadToCloudinary'
+import { parseSeatClassPrices } from '@/lib/seatPricing'
+import { parseOptionalNumber, validateDepositSettings } from '@/lib/depositService'
+import {
+  ACTIVE_BOOKING_STATUSES,
+  createTripStops,
+  retimeTripStops,
+  validateTripStopTimes
+} from '@/lib/routeStopService'
+import { findConflictingTrip, refreshBusStatus } from '@/lib/tripService'
 
 
 export const runtime = 'nodejs' // Required for fs/promises and handling files
@@ -51,6 +60,7 @@ export const GET = asyncHandler(async (
             altText: true
           }
         },
+        seatClassPrices: true,
         bookings: {
           include: {
             user: {
@@ -118,6 +128,26 @@ export const PUT = asyncHandler(async (
       )
     }
 
+    // Optional per-class pricing (JSON array of { seatClass, price | multiplier })
+    const seatClassPrices = parseSeatClassPrices(formData.get('seatClassPrices'))
+    if (typeof seatClassPrices === 'string') {
+      return ApiResponseBuilder.validationError(
+        { seatClassPrices: [seatClassPrices] },
+        ErrorMessages.VALIDATION_FAILED
+      )
+    }
+
+    // Optional cash deposit rules; empty fields fall back to the route's
+    const cashDepositPercentage = parseOptionalNumber(formData.get('cashDepositPercentage'))
+    const balanceDueHours = parseOptionalNumber(formData.get('balanceDueHours'))
+    const depositSettings = validateDepositSettings(cashDepositPercentage, balanceDueHours)
+    if (depositSettings !== true) {
+      return ApiResponseBuilder.validationError(
+        { cashDepositPercentage: [depositSettings] },
+        ErrorMessages.VALIDATION_FAILED
+      )
+    }
+
     // Validate time logic
     if (lastBookingTime && (lastBookingTime > departureTime || lastBookingTime > arrivalTime)) {
       return ApiResponseBuilder.validationError(
@@ -128,7 +158,10 @@ export const PUT = asyncHandler(async (
 
     // Check if trip exists
     const existingTrip = await prisma.trip.findUnique({
-      where: { id: params.id }
+      where: { id: params.id },
+      include: {
+        stops: { orderBy: { stopOrder: 'asc' } }
+      }
     })
 
     if (!existingTrip) {
@@ -156,7 +189,8 @@ export const PUT = asyncHandler(async (
       where: { id: routeId },
       include: {
         departureCity: { include: { country: true } },
-        arrivalCity: { include: { country: true } }
+        arrivalCity: { include: { country: true } },
+        stops: true
       }
     })
 
@@ -164,34 +198,43 @@ export const PUT = asyncHandler(async (
       return ApiResponseBuilder.notFound('Route')
     }
 
-    // Check bus availability for time range (excluding current trip)
-    const conflictingTrip = await prisma.trip.findFirst({
-      where: {
-        id: { not: params.id },
-        busId,
-        status: { in: ['scheduled', 'in_progress'] }, // Only check active trips
-        OR: [
-          {
-            AND: [
-              { departureTime: { lte: new Date(departureTime) } },
-              { arrivalTime: { gte: new Date(departureTime) } }
-            ]
-          },
-          {
-            AND: [
-              { departureTime: { lte: new Date(arrivalTime) } },
-              { arrivalTime: { gte: new Date(arrivalTime) } }
-            ]
-          },
-          {
-            AND: [
-              { departureTime: { gte: new Date(departureTime) } },
-              { arrivalTime: { lte: new Date(arrivalTime) } }
-            ]
-          }
-        ]
+    // A trip keeps its own stops while its route stays the same
+    const routeChanged = routeId !== existingTrip.routeId
+    const stopTimes = validateTripStopTimes(
+      routeChanged ? route.stops : existingTrip.stops.slice(1, -1),
+      new Date(departureTime),
+      new Date(arrivalTime)
+    )
+    if (stopTimes !== true) {
+      return ApiResponseBuilder.validationError(
+        { arrivalTime: [stopTimes] },
+        ErrorMessages.VALIDATION_FAILED
+      )
+    }
+
+    // Segment bookings refer to stops by their order, which a different route would change
+    if (routeChanged) {
+      const segmentBookings = await prisma.booking.count({
+        where: {
+          tripId: params.id,
+          status: { in: ACTIVE_BOOKING_STATUSES },
+          boardingStop: { not: null }
+        }
+      })
+
+      if (segmentBookings > 0) {
+        return ApiResponseBuilder.conflict('Cannot change the route of a trip with bookings between stops')
       }
-    })
+    }
+
+    // Check bus availability for time range (excluding current trip)
+    const conflictingTrip = await findConflictingTrip(
+      prisma,
+      busId,
+      new Date(departureTime),
+      new Date(arrivalTime),
+      params.id
+    )
 
     if (conflictingTrip) {
       return ApiResponseBuilder.conflict(
@@ -240,10 +283,35 @@ export const PUT = asyncHandler(async (
           arrivalTime: new Date(arrivalTime),
           lastBookingTime: lastBookingTime ? new Date(lastBookingTime) : new Date(departureTime),
           price,
-          status: 'scheduled'
+          status: 'scheduled',
+          ...(cashDepositPercentage !== undefined && { cashDepositPercentage }),
+          ...(balanceDueHours !== undefined && { balanceDueHours })
         }
       })
 
+      // Take the stops from the new route, or move the current ones with the schedule
+      if (routeChanged) {
+        await createTripStops(tx, trip)
+      } else {
+        await retimeTripStops(tx, trip)
+      }
+
+      // Replace class pricing only when the form sent it; existing bookings keep their prices
+      if (seatClassPrices) {
+        await tx.tripSeatClassPrice.deleteMany({
+          where: { tripId: params.id }
+        })
+        await tx.tripSeatClassPrice.createMany({
+          data: seatClassPrices.map(entry => ({ ...entry, tripId: params.id }))
+        })
+      }
+
+      // The trip may have moved to another bus, which frees the old one
+      await refreshBusStatus(tx, busId)
+      if (existingTrip.busId !== busId) {
+        await refreshBusStatus(tx, existingTrip.busId)
+      }
+
       // Handle image management
       // 1. Delete images not in existingImageIds
       await tx.images.deleteMany({
@@ -317,7 +385,8 @@ export const PUT = asyncHandler(async (
               imageUrl: true,
               altText: true
             }
-          }
+          },
+          seatClassPrices: true
         }
       })
     })
@@ -347,6 +416,15 @@ export const DELETE = asyncHandler(async (
       return ApiResponseBuilder.notFound('Trip')
     }
 
+    // A deleted generated trip would be recreated by the next schedule run
+    if (existingTrip.scheduleId) {
+      return ApiResponseBuilder.error(
+        'Cannot delete a trip generated from a schedule',
+        StatusCodes.BAD_REQUEST,
+        'Cancel the trip, or add a schedule exception for its date, instead'
+      )
+    }
+
     // Check if trip has any bookings
     const tripWithBookings = await prisma.trip.findFirst({
       where: {
@@ -373,6 +451,8 @@ export const DELETE = asyncHandler(async (
       })
     ])
 
+    await refreshBusStatus(prisma, existingTrip.busId)
+
     return ApiResponseBuilder.success(
       null,
       SuccessMessages.DELETED
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { runTripLifecycle } from '@/lib/tripLifecycleService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// POST - Apply due trip, bus and booking status changes now (callable as a scheduled job).
+// Pass tripId to bring a single trip up to date.
+export const POST = asyncHandler(async (request: NextRequest) => {
+  const body = await request.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, {
+    tripId: { required: false, type: 'string' }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const report = await runTripLifecycle({ tripId: body.tripId })
+
+  return ApiResponseBuilder.success(
+    report,
+    `${report.startedTrips} trips started, ${report.completedTrips} completed, ${report.expiredBookings} unpaid bookings cancelled`
+  )
+})
@@ -4,6 +4,11 @@ import { ApiResponseBuilder, SuccessMessages, ErrorMessages ,StatusCodes} from '
 import { validateRequest } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
 import { v2 as cloudinary } from 'cloudinary'
+import { Prisma } from '@prisma/client'
+import { parseSeatClassPrices } from '@/lib/seatPricing'
+import { parseOptionalNumber, validateDepositSettings } from '@/lib/depositService'
+import { createTripStops, validateTripStopTimes } from '@/lib/routeStopService'
+import { SCHEDULABLE_BUS_STATUSES, busSeatGrid, findConflictingTrip, refreshBusStatus } from '@/lib/tripService'
 
 cloudinary.config({
   cloud_name: process.env.CLOUDINARY_CLOUD_NAME!,
@@ -96,6 +101,7 @@ export const GET = asyncHandler(async (request: NextRequest) => {
             totalPrice: true
           }
         },
+        seatClassPrices: true,
 
       },
       skip,
@@ -167,6 +173,26 @@ export const POST = asyncHandler(async (request: NextRequest) => {
       )
     }
 
+    // Optional per-class pricing (JSON array of { seatClass, price | multiplier })
+    const seatClassPrices = parseSeatClassPrices(formData.get('seatClassPrices'))
+    if (typeof seatClassPrices === 'string') {
+      return ApiResponseBuilder.validationError(
+        { seatClassPrices: [seatClassPrices] },
+        ErrorMessages.VALIDATION_FAILED
+      )
+    }
+
+    // Optional cash deposit rules; empty fields fall back to the route's
+    const cashDepositPercentage = parseOptionalNumber(formData.get('cashDepositPercentage'))
+    const balanceDueHours = parseOptionalNumber(formData.get('balanceDueHours'))
+    const depositSettings = validateDepositSettings(cashDepositPercentage, balanceDueHours)
+    if (depositSettings !== true) {
+      return ApiResponseBuilder.validationError(
+        { cashDepositPercentage: [depositSettings] },
+        ErrorMessages.VALIDATION_FAILED
+      )
+    }
+
     // Validate time logic
     if (lastBookingTime && (lastBookingTime > departureTime || lastBookingTime > arrivalTime)) {
       return ApiResponseBuilder.validationError(
@@ -175,21 +201,25 @@ export const POST = asyncHandler(async (request: NextRequest) => {
       )
     }
 
-    // Check if bus exists and is active
+    // Check if bus exists and can take another trip; overlapping times are checked below
     const bus = await prisma.bus.findFirst({
-      where: { id: busId, status: 'active' }
+      where: { id: busId, status: { in: SCHEDULABLE_BUS_STATUSES } },
+      include: { seatLayout: true }
     })
 
     if (!bus) {
-      return ApiResponseBuilder.notFound('Active bus')
+      return ApiResponseBuilder.notFound('Available bus')
     }
 
+    const { seatGrid, seats: layoutSeatList } = busSeatGrid(bus)
+
     // Check if route exists
     const route = await prisma.route.findUnique({
       where: { id: routeId },
       include: {
         departureCity: { include: { country: true } },
-        arrivalCity: { include: { country: true } }
+        arrivalCity: { include: { country: true } },
+        stops: true
       }
     })
 
@@ -197,26 +227,17 @@ export const POST = asyncHandler(async (request: NextRequest) => {
       return ApiResponseBuilder.notFound('Route')
     }
 
+    // The trip inherits the route's stops, so it must be long enough to reach them all
+    const stopTimes = validateTripStopTimes(route.stops, new Date(departureTime), new Date(arrivalTime))
+    if (stopTimes !== true) {
+      return ApiResponseBuilder.validationError(
+        { arrivalTime: [stopTimes] },
+        ErrorMessages.VALIDATION_FAILED
+      )
+    }
+
     // Check bus availability for time range
-    const existingTrip = await prisma.trip.findFirst({
-      where: {
-        busId,
-        OR: [
-          {
-            AND: [
-              { departureTime: { lte: new Date(departureTime) } },
-              { arrivalTime: { gte: new Date(departureTime) } }
-            ]
-          },
-          {
-            AND: [
-              { departureTime: { lte: new Date(arrivalTime) } },
-              { arrivalTime: { gte: new Date(arrivalTime) } }
-            ]
-          }
-        ]
-      }
-    })
+    const existingTrip = await findConflictingTrip(prisma, busId, new Date(departureTime), new Date(arrivalTime))
 
     if (existingTrip) {
       return ApiResponseBuilder.conflict('Bus is not available for this period')
@@ -259,12 +280,6 @@ export const POST = asyncHandler(async (request: NextRequest) => {
 
     // Create trip with seats and images in transaction
     const trip = await prisma.$transaction(async (tx) => {
-      // Update bus status
-      await tx.bus.update({
-        where: { id: busId },
-        data: { status: 'passenger_filling' }
-      })
-
       // Create trip with seats
       const newTrip = await tx.trip.create({
         data: {
@@ -277,20 +292,30 @@ export const POST = asyncHandler(async (request: NextRequest) => {
           latitude,
           longitude,
           primaryImage,
+          seatLayout: seatGrid as unknown as Prisma.InputJsonValue,
           departureTime: new Date(departureTime),
           arrivalTime: new Date(arrivalTime),
           lastBookingTime: lastBookingTime ? new Date(lastBookingTime) : new Date(departureTime),
           price,
           status: 'scheduled',
           seats: {
-            create: Array.from({ length: bus.capacity }, (_, i) => ({
-              seatNumber: `${String.fromCharCode(65 + Math.floor(i / 4))}${(i % 4) + 1}`,
+            create: layoutSeatList.map(seat => ({
+              seatNumber: seat.seatNumber,
+              seatClass: seat.seatClass,
               status: 'available'
             }))
-          }
+          },
+          seatClassPrices: seatClassPrices ? { create: seatClassPrices } : undefined,
+          cashDepositPercentage: cashDepositPercentage ?? null,
+          balanceDueHours: balanceDueHours ?? null
         }
       })
 
+      await createTripStops(tx, newTrip)
+
+      // The bus starts filling for its upcoming trip
+      await refreshBusStatus(tx, busId)
+
       // Create Images records
       if (images.length > 0) {
         const imageRecords = images.map((url, index) => ({
@@ -336,7 +361,8 @@ export const POST = asyncHandler(async (request: NextRequest) => {
               imageUrl: true,
               altText: true
             }
-          }
+          },
+          seatClassPrices: true
         }
       })
     })
@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse, ValidationSchemas } from '@/lib/validation'
+import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { requirePermission } from '@/lib/authorization'
+import { revokeAllSessions } from '@/lib/sessionService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// PUT - Change a user's role
+export const PUT = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  requirePermission(request, 'users:manage')
+
+  const body = await request.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, {
+    role: { ...ValidationSchemas.user.role, required: true }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  // Keeps an admin from locking themselves out of the dashboard
+  if (params.id === request.headers.get('userId')) {
+    throw ApiError.validation('You cannot change your own role')
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: params.id } })
+
+  if (!user) {
+    return ApiResponseBuilder.notFound('User')
+  }
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: { role: body.role },
+    select: { id: true, role: true }
+  })
+
+  // The role travels in access tokens, which the middleware now rejects once it no longer
+  // matches; signing the user out makes the new role apply at their next sign-in
+  if (updated.role !== user.role) {
+    await revokeAllSessions(user.id)
+  }
+
+  return ApiResponseBuilder.success({
+    user: updated,
+    message: 'User role updated'
+  })
+})
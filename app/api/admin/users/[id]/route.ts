@@ -1,10 +1,20 @@
 import { NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { releaseSeatLock, ReleasedSeatLock } from '@/lib/seatLockService'
+import { publishSeatChanges } from '@/lib/seatEvents'
 
 export async function DELETE(
   req: Request,
   { params }: { params: { id: string } }
 ) {
+  if (!hasPermission(req.headers.get('userRole'), 'users:manage')) {
+    return NextResponse.json(
+      { error: 'You do not have permission to perform this action' },
+      { status: 403 }
+    )
+  }
+
   try {
     // Check if user has any bookings
     const userWithBookings = await prisma.user.findUnique({
@@ -27,10 +37,30 @@ export async function DELETE(
       )
     }
 
-    await prisma.user.delete({
-      where: { id: params.id }
+    // Put the seats the user still holds back on sale before the locks go with the user
+    const released = await prisma.$transaction(async (tx) => {
+      const locks = await tx.seatLock.findMany({
+        where: { userId: params.id },
+        select: { id: true }
+      })
+
+      const releasedLocks: ReleasedSeatLock[] = []
+      for (const lock of locks) {
+        const releasedLock = await releaseSeatLock(tx, lock.id)
+        if (releasedLock) releasedLocks.push(releasedLock)
+      }
+
+      await tx.user.delete({
+        where: { id: params.id }
+      })
+
+      return releasedLocks
     })
 
+    for (const lock of released) {
+      await publishSeatChanges(lock.tripId, lock.seatIds)
+    }
+
     return NextResponse.json({ message: 'User deleted successfully' })
   } catch (error) {
     return NextResponse.json(
@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { requirePermission } from '@/lib/authorization'
+import { listActiveSessions, revokeAllSessions } from '@/lib/sessionService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Devices a user is signed in on
+export const GET = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const user = await prisma.user.findUnique({ where: { id: params.id } })
+
+  if (!user) {
+    return ApiResponseBuilder.notFound('User')
+  }
+
+  const sessions = await listActiveSessions(user.id)
+
+  return ApiResponseBuilder.success(sessions)
+})
+
+// DELETE - Sign a user out of every device
+export const DELETE = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  requirePermission(request, 'users:manage')
+
+  const user = await prisma.user.findUnique({ where: { id: params.id } })
+
+  if (!user) {
+    return ApiResponseBuilder.notFound('User')
+  }
+
+  const revoked = await revokeAllSessions(user.id)
+
+  return ApiResponseBuilder.success({
+    revoked,
+    message: 'User signed out of all devices'
+  })
+})
@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { requirePermission } from '@/lib/authorization'
+import { revokeAllSessions } from '@/lib/sessionService'
+import { disableTwoFactor } from '@/lib/twoFactorService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// DELETE - Reset two-factor for a user who lost their authenticator and backup codes.
+// They are signed out everywhere; admins have to enrol again at their next login.
+export const DELETE = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  requirePermission(request, 'users:manage')
+
+  const user = await prisma.user.findUnique({ where: { id: params.id } })
+
+  if (!user) {
+    return ApiResponseBuilder.notFound('User')
+  }
+
+  await disableTwoFactor(user.id)
+  await revokeAllSessions(user.id)
+
+  console.warn(`Two-factor reset for user ${user.id} by ${request.headers.get('userId')}`)
+
+  return ApiResponseBuilder.success({ message: 'Two-factor authentication reset' })
+})
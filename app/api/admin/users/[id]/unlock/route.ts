@@ -0,0 +1,33 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { requirePermission } from '@/lib/authorization'
+import { unlockAccount } from '@/lib/loginProtection'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// POST - Lift a login lockout and reset the failed attempt count
+export const POST = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  requirePermission(request, 'users:manage')
+
+  const user = await prisma.user.findUnique({ where: { id: params.id } })
+
+  if (!user) {
+    return ApiResponseBuilder.notFound('User')
+  }
+
+  const unlocked = await unlockAccount(user.id)
+
+  return ApiResponseBuilder.success(
+    {
+      user: unlocked,
+      message: 'User unlocked successfully'
+    },
+    SuccessMessages.UPDATED
+  )
+})
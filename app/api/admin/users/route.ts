@@ -7,7 +7,8 @@ export async function GET() {
       orderBy: {
         createdAt: 'desc'
       },
-      where : {role : 'USER'}
+      // Staff and admins are listed too, so roles and two-factor enrolment can be managed
+      omit: { password: true, twoFactorSecret: true }
     })
 
     return NextResponse.json(users)
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { hitRateLimit } from '@/lib/rateLimiter'
+import { getClientInfo } from '@/lib/sessionService'
+import { getAdUrl, AD_TRACKING_PER_IP } from '@/lib/adService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Count a click on an ad and send the visitor on to its link
+export const GET = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  // Over the limit the visitor still gets through, the click just is not counted
+  const ip = getClientInfo(request.headers).ipAddress || 'unknown'
+  const { allowed } = hitRateLimit(`ad-clicks:ip:${ip}`, AD_TRACKING_PER_IP)
+
+  const url = await getAdUrl(params.id, allowed)
+
+  if (!url) {
+    return ApiResponseBuilder.notFound('Ad')
+  }
+
+  return NextResponse.redirect(new URL(url, request.url))
+})
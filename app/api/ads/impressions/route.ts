@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { enforceIpRateLimit } from '@/lib/rateLimiter'
+import { recordImpressions, AD_TRACKING_PER_IP, MAX_CAROUSEL_ADS } from '@/lib/adService'
+
+// POST - Count the ads a carousel has shown
+export const POST = asyncHandler(async (request: NextRequest) => {
+  enforceIpRateLimit(request, 'ad-impressions', AD_TRACKING_PER_IP)
+
+  const body = await request.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, {
+    adIds: {
+      required: true,
+      type: 'array',
+      custom: (value: any[]) =>
+        (value.length <= MAX_CAROUSEL_ADS && value.every(id => typeof id === 'string')) ||
+        `adIds must be a list of at most ${MAX_CAROUSEL_ADS} ids`
+    }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const counted = await recordImpressions(body.adIds)
+
+  return ApiResponseBuilder.success({ counted }, 'Impressions recorded')
+})
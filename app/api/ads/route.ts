@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { listActiveAds, MAX_CAROUSEL_ADS } from '@/lib/adService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Ads currently running, for the homepage and trip list carousels
+export const GET = asyncHandler(async (request: NextRequest) => {
+  const { searchParams } = new URL(request.url)
+  const limit = parseInt(searchParams.get('limit') || String(MAX_CAROUSEL_ADS))
+
+  const validationResult = validateRequest(
+    { limit },
+    {
+      limit: { required: false, min: 1, max: MAX_CAROUSEL_ADS }
+    }
+  )
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const ads = await listActiveAds(limit)
+
+  return ApiResponseBuilder.success(ads, SuccessMessages.RETRIEVED)
+})
@@ -2,60 +2,90 @@
 import { NextResponse } from 'next/server'
 import admin from '@/lib/firebaseAdmin'
 import prisma from '@/lib/prisma'
-import jwt from 'jsonwebtoken'
-import { generateRefreshToken } from '@/lib/tokenService'
+import { startSession, getClientInfo } from '@/lib/sessionService'
+import { signAccessToken } from '@/lib/jwtService'
+import { createLoginChallenge } from '@/lib/twoFactorService'
+import { findUserByIdentity, linkIdentity } from '@/lib/identityService'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages, StatusCodes } from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
 
 export const POST = asyncHandler(async (req: Request) => {
+  let decoded: Awaited<ReturnType<ReturnType<typeof admin.auth>['verifyIdToken']>>
+
   try {
     const { idToken } = await req.json()
-    const decoded = await admin.auth().verifyIdToken(idToken)
+    decoded = await admin.auth().verifyIdToken(idToken)
+  } catch (err) {
+    console.error('Google login error:', err)
+    return ApiResponseBuilder.error('Invalid ID token or internal error', StatusCodes.UNAUTHORIZED)
+  }
 
-    const { email, name, picture } = decoded
+  const { uid, email, name } = decoded
+  // Only an address Google itself verified counts as verified here
+  const emailVerified = decoded.email_verified === true
 
+  let user = await findUserByIdentity('google', uid)
+
+  if (!user) {
     if (!email) {
       return ApiResponseBuilder.error('Missing email from Google account', StatusCodes.BAD_REQUEST)
     }
 
-    let user = await prisma.user.findUnique({ where: { email } })
+    const existing = await prisma.user.findUnique({
+      where: { email },
+      include: { _count: { select: { identities: true } } }
+    })
 
-    if (!user) {
-      user = await prisma.user.create({
+    if (existing && (existing._count.identities > 0 || existing.password !== null || !emailVerified)) {
+      // Never merge into an account that signs in another way, or on an address Google has not
+      // verified; the owner has to link Google
+      return ApiResponseBuilder.conflict(
+        'An account with this email already exists. Sign in and link Google from your profile.'
+      )
+    }
+
+    user = await prisma.$transaction(async (tx) => {
+      // Accounts made by Google sign-in before sign-in methods were recorded have neither
+      // an identity nor a password yet
+      const account = existing ?? await tx.user.create({
         data: {
           email,
           name: name || email.split('@')[0],
-          password: '', // Google-based
-          emailVerified: true
+          emailVerified
           // role: 'USER',
         }
       })
-    }
 
-    const token = jwt.sign(
-      { id: user.id, email: user.email, role: user.role },
-      process.env.JWT_SECRET!,
-      { expiresIn: '15m' }
-    )
+      await linkIdentity(tx, account.id, 'google', uid)
 
-    const refreshToken = await generateRefreshToken(user.id)
+      return account
+    })
+  }
 
+  // Second factor applies to every sign-in method, not only passwords
+  const challenge = await createLoginChallenge(user)
+  if (challenge) {
     return ApiResponseBuilder.success({
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        emailVerified: user.emailVerified,
-        phone: user.phone,
-      },
-      token,
-      refreshToken,
+      message: 'Two-factor authentication required',
+      ...challenge
     })
-
-  } catch (err) {
-    console.error('Google login error:', err)
-    return ApiResponseBuilder.error('Invalid ID token or internal error', StatusCodes.UNAUTHORIZED)
   }
+
+  const { session, refreshToken } = await startSession(user.id, getClientInfo(req.headers))
+
+  const { token } = await signAccessToken({ userId: user.id, role: user.role, sessionId: session.id })
+
+  return ApiResponseBuilder.success({
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      phone: user.phone,
+    },
+    token,
+    refreshToken,
+  })
 })
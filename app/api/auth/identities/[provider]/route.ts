@@ -0,0 +1,116 @@
+import { NextRequest } from 'next/server'
+import admin from '@/lib/firebaseAdmin'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, StatusCodes } from '@/lib/apiResponse'
+import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import {
+  isAuthProvider,
+  linkIdentity,
+  listIdentities,
+  setPassword,
+  unlinkIdentity,
+  validatePasswordStrength
+} from '@/lib/identityService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+async function verifyFirebaseToken(idToken: unknown) {
+  if (typeof idToken !== 'string' || !idToken) {
+    throw ApiError.validation('idToken is required')
+  }
+
+  try {
+    return await admin.auth().verifyIdToken(idToken)
+  } catch (error) {
+    console.error('Identity link token error:', error)
+    throw ApiError.unauthorized('Invalid or expired ID token')
+  }
+}
+
+// POST - Link a sign-in method: Google and phone take a Firebase ID token, password a new password
+export const POST = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { provider: string } }
+) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized()
+  }
+
+  if (!isAuthProvider(params.provider)) {
+    return ApiResponseBuilder.notFound('Sign-in method')
+  }
+
+  const body = await request.json().catch(() => ({}))
+
+  if (params.provider === 'password') {
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+
+    if (!user) {
+      return ApiResponseBuilder.notFound('User')
+    }
+
+    if (!user.email) {
+      return ApiResponseBuilder.error('Add an email address before setting a password', StatusCodes.BAD_REQUEST)
+    }
+
+    if (user.password) {
+      return ApiResponseBuilder.conflict('A password is already set')
+    }
+
+    const passwordCheck = validatePasswordStrength(body.password)
+    if (passwordCheck !== true) {
+      return ApiResponseBuilder.error(passwordCheck, StatusCodes.BAD_REQUEST)
+    }
+
+    await setPassword(prisma, userId, body.password)
+  } else {
+    const decoded = await verifyFirebaseToken(body.idToken)
+
+    if (params.provider === 'google') {
+      if (decoded.firebase.sign_in_provider !== 'google.com') {
+        return ApiResponseBuilder.error('The ID token is not from a Google sign-in', StatusCodes.BAD_REQUEST)
+      }
+
+      await prisma.$transaction(tx => linkIdentity(tx, userId, 'google', decoded.uid))
+    } else {
+      const phone = decoded.phone_number
+
+      if (!phone) {
+        return ApiResponseBuilder.error('The ID token does not carry a verified phone number', StatusCodes.BAD_REQUEST)
+      }
+
+      await prisma.$transaction(tx => linkIdentity(tx, userId, 'phone', phone))
+    }
+  }
+
+  return ApiResponseBuilder.success({
+    identities: await listIdentities(userId),
+    message: 'Sign-in method linked'
+  })
+})
+
+// DELETE - Unlink a sign-in method; the last one is refused
+export const DELETE = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { provider: string } }
+) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized()
+  }
+
+  if (!isAuthProvider(params.provider)) {
+    return ApiResponseBuilder.notFound('Sign-in method')
+  }
+
+  await unlinkIdentity(userId, params.provider)
+
+  return ApiResponseBuilder.success({
+    identities: await listIdentities(userId),
+    message: 'Sign-in method removed'
+  })
+})
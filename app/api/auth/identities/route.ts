@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { listIdentities } from '@/lib/identityService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Sign-in methods linked to the current user
+export const GET = asyncHandler(async (request: NextRequest) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized()
+  }
+
+  const identities = await listIdentities(userId)
+
+  return ApiResponseBuilder.success(identities)
+})
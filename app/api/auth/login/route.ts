@@ -1,12 +1,25 @@
 import { NextResponse } from 'next/server'
 import bcrypt from 'bcryptjs'
-import jwt from 'jsonwebtoken'
 import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages, StatusCodes } from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { startSession, getClientInfo } from '@/lib/sessionService'
+import { signAccessToken } from '@/lib/jwtService'
+import { createLoginChallenge } from '@/lib/twoFactorService'
+import {
+  assertIpCanAttemptLogin,
+  assertAccountNotLocked,
+  recordFailedLogin,
+  recordSuccessfulLogin
+} from '@/lib/loginProtection'
 
 export const POST = asyncHandler(async (req: Request) => {
+  const { ipAddress } = getClientInfo(req.headers)
+
+  // Throws 429 while this IP is backing off after failed attempts
+  assertIpCanAttemptLogin(ipAddress)
+
   try {
     const { email, password } = await req.json()
 
@@ -20,46 +33,45 @@ export const POST = asyncHandler(async (req: Request) => {
     })
 
     if (!user) {
+      await recordFailedLogin(ipAddress, null)
       return ApiResponseBuilder.error(ErrorMessages.RESOURCE_NOT_FOUND, StatusCodes.UNAUTHORIZED)
     }
 
+    assertAccountNotLocked(user)
+
     // Check if email is verified
     if (!user.emailVerified) {
         return ApiResponseBuilder.error(ErrorMessages.EMAIL_NOT_VERIFIED, StatusCodes.FORBIDDEN)
         
     }
 
-    const isValidPassword = await bcrypt.compare(password, user.password)
+    // Accounts without the password sign-in method cannot log in here
+    const isValidPassword = !!user.password && await bcrypt.compare(password, user.password)
 
     if (!isValidPassword) {
+      const lockout = await recordFailedLogin(ipAddress, user.id)
+      if (lockout) {
+        // Answer the attempt that triggered a lockout with the lockout itself
+        assertAccountNotLocked(lockout)
+      }
       return ApiResponseBuilder.error(ErrorMessages.INVALID_CREDENTIALS, StatusCodes.UNAUTHORIZED)
     }
 
-    // Clear any existing refresh tokens for this user
-    await prisma.refreshToken.deleteMany({
-      where: { userId: user.id }
-    })
+    await recordSuccessfulLogin(ipAddress, user)
 
-    const token = jwt.sign(
-      { userId: user.id , role: user.role },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '3h' }
-    )
+    // Accounts with 2FA, and admins who still have to enrol, get a challenge instead of tokens
+    const challenge = await createLoginChallenge(user)
+    if (challenge) {
+      return ApiResponseBuilder.success({
+        message: 'Two-factor authentication required',
+        ...challenge
+      })
+    }
 
-    const refreshToken = jwt.sign(
-      { userId: user.id , refresh: true,},
-      process.env.JWT_REFRESH_SECRET || 'your-refresh-secret',
-      { expiresIn: '7d' }
-    )
+    // Each login starts its own session, so other devices stay signed in
+    const { session, refreshToken } = await startSession(user.id, getClientInfo(req.headers))
 
-    // Store new refresh token
-    await prisma.refreshToken.create({
-      data: {
-        token: refreshToken,
-        userId: user.id,
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
-      }
-    })
+    const { token } = await signAccessToken({ userId: user.id, role: user.role, sessionId: session.id })
 
     return ApiResponseBuilder.success({
       message: SuccessMessages.LOGIN_SUCCESS,
@@ -74,6 +86,10 @@ export const POST = asyncHandler(async (req: Request) => {
       }
     })
   } catch (error) {
+    // Lockouts are answered by asyncHandler with a 429 and Retry-After
+    if (error instanceof ApiError) {
+      throw error
+    }
     console.error('Login error:', error)
     return ApiResponseBuilder.error(ErrorMessages.INTERNAL_ERROR, StatusCodes.INTERNAL_SERVER_ERROR)
   }
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder, StatusCodes } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { denyAccessToken, revokeRefreshToken } from '@/lib/tokenService'
+import { getBearerToken, verifyAccessToken } from '@/lib/jwtService'
+
+// Ends the session of the presented refresh token and denies the current access token
+// until it expires. Succeeds for tokens that are already revoked or unknown.
+export const POST = asyncHandler(async (req: NextRequest) => {
+  const { refreshToken } = await req.json().catch(() => ({}))
+
+  if (!refreshToken) {
+    return ApiResponseBuilder.error('No refresh token provided', StatusCodes.BAD_REQUEST)
+  }
+
+  const sessionEnded = await revokeRefreshToken(refreshToken)
+
+  const accessToken = getBearerToken(req.headers)
+  if (accessToken) {
+    // An expired or invalid access token needs no denylist entry
+    const claims = await verifyAccessToken(accessToken).catch(() => null)
+    if (claims?.jti) {
+      await denyAccessToken(claims.jti, claims.expiresAt)
+    }
+  }
+
+  return ApiResponseBuilder.success({
+    sessionEnded,
+    message: 'Logged out successfully'
+  })
+})
@@ -0,0 +1,84 @@
+import admin from '@/lib/firebaseAdmin'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages, StatusCodes } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { startSession, getClientInfo } from '@/lib/sessionService'
+import { signAccessToken } from '@/lib/jwtService'
+import { createLoginChallenge } from '@/lib/twoFactorService'
+import { enforceIpRateLimit } from '@/lib/rateLimiter'
+import { findUserByIdentity, linkIdentity } from '@/lib/identityService'
+
+const PHONE_LOGINS_PER_IP = { limit: 20, windowMs: 15 * 60 * 1000 }
+
+// Exchanges a Firebase phone-auth ID token for our own tokens. The account is found by its
+// phone sign-in method, or created on first sign-in.
+export const POST = asyncHandler(async (req: Request) => {
+  enforceIpRateLimit(req, 'phone-login', PHONE_LOGINS_PER_IP)
+
+  const body = await req.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, {
+    idToken: { required: true, type: 'string' },
+    name: { required: false, type: 'string', minLength: 2, maxLength: 100 }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  let phone: string | undefined
+
+  try {
+    const decoded = await admin.auth().verifyIdToken(body.idToken)
+    phone = decoded.phone_number
+  } catch (error) {
+    console.error('Phone login token error:', error)
+    throw ApiError.unauthorized('Invalid or expired ID token')
+  }
+
+  if (!phone) {
+    return ApiResponseBuilder.error('The ID token does not carry a verified phone number', StatusCodes.BAD_REQUEST)
+  }
+
+  let user = await findUserByIdentity('phone', phone)
+
+  if (!user) {
+    const verifiedPhone = phone
+    user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: { name: body.name?.trim() || verifiedPhone }
+      })
+
+      await linkIdentity(tx, created.id, 'phone', verifiedPhone)
+
+      return { ...created, phone: verifiedPhone, phoneVerified: true }
+    })
+  }
+
+  // Second factor applies to every sign-in method, not only passwords
+  const challenge = await createLoginChallenge(user)
+  if (challenge) {
+    return ApiResponseBuilder.success({
+      message: 'Two-factor authentication required',
+      ...challenge
+    })
+  }
+
+  const { session, refreshToken } = await startSession(user.id, getClientInfo(req.headers))
+
+  const { token } = await signAccessToken({ userId: user.id, role: user.role, sessionId: session.id })
+
+  return ApiResponseBuilder.success({
+    message: SuccessMessages.LOGIN_SUCCESS,
+    token,
+    refreshToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      phone: user.phone,
+      role: user.role
+    }
+  })
+})
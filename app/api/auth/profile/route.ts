@@ -1,29 +1,24 @@
 // /app/api/profile/route.ts
 
 import { NextResponse } from 'next/server'
-import jwt from 'jsonwebtoken'
 import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages, StatusCodes } from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { getBearerToken, verifyAccessToken } from '@/lib/jwtService'
 
 // Force dynamic rendering for this API route
 export const dynamic = 'force-dynamic'
 
 export const GET = asyncHandler(async (req: Request) => {
   try {
-    const authHeader = req.headers.get('authorization')
+    const token = getBearerToken(req.headers)
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token) {
         return ApiResponseBuilder.error('Authorization required', StatusCodes.UNAUTHORIZED)
     }
 
-    const token = authHeader.split(' ')[1]
-
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key') as {
-      userId: string
-      role: string
-    }
+    const decoded = await verifyAccessToken(token)
 
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
@@ -1,48 +1,43 @@
-import { NextRequest, NextResponse } from 'next/server'
-import jwt from 'jsonwebtoken'
+import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
-import { ApiResponseBuilder, SuccessMessages, ErrorMessages, StatusCodes } from '@/lib/apiResponse'
-import { validateRequest, createValidationResponse } from '@/lib/validation'
-import { asyncHandler, ApiError } from '@/lib/errorHandler'
-
+import { ApiResponseBuilder, StatusCodes } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { rotateRefreshToken, revokeRefreshTokenFamily } from '@/lib/tokenService'
+import { getClientInfo } from '@/lib/sessionService'
+import { signAccessToken } from '@/lib/jwtService'
+import { isTwoFactorRequired } from '@/lib/twoFactorService'
+
+// Exchanges a refresh token for a new access token and a new refresh token; the old one is revoked
 export const POST = asyncHandler(async (req: NextRequest) => {
-  try {
-    const { refreshToken } = await req.json()
-
-    if (!refreshToken) {
-      return ApiResponseBuilder.error('No refresh token provided', StatusCodes.BAD_REQUEST)
-    }
-
-    const storedToken = await prisma.refreshToken.findUnique({
-      where: { token: refreshToken },
-    })
-
-    if (!storedToken || new Date(storedToken.expiresAt) < new Date()) {
-      return ApiResponseBuilder.error('Invalid or expired refresh token', StatusCodes.FORBIDDEN)
-    }
-
-    const payload = jwt.verify(refreshToken, process.env.JWT_REFRESH_SECRET || 'your-refresh-secret') as {
-      userId: string
-    }
-
-    const user = await prisma.user.findUnique({
-      where: { id: payload.userId },
-    })
-
-    if (!user) {
-      return ApiResponseBuilder.error('User not found', StatusCodes.NOT_FOUND)
-    }
-
-    // Issue a new access token
-    const newAccessToken = jwt.sign(
-      { userId: user.id, role: user.role },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '7h' }
-    )
+  const { refreshToken } = await req.json()
+
+  if (!refreshToken) {
+    return ApiResponseBuilder.error('No refresh token provided', StatusCodes.BAD_REQUEST)
+  }
+
+  // Throws 401 for unknown, expired or revoked tokens, revoking the family on reuse
+  const rotated = await rotateRefreshToken(refreshToken, getClientInfo(req.headers))
+
+  const user = await prisma.user.findUnique({
+    where: { id: rotated.userId },
+  })
 
-    return ApiResponseBuilder.success({ token: newAccessToken })
-  } catch (error) {
-    console.error('Refresh token error:', error)
-    return ApiResponseBuilder.error('Failed to refresh token', StatusCodes.INTERNAL_SERVER_ERROR)
+  if (!user) {
+    return ApiResponseBuilder.error('User not found', StatusCodes.NOT_FOUND)
   }
+
+  // Sessions started before two-factor became mandatory must not outlive it: end them so the
+  // next sign-in goes through enrolment
+  if (isTwoFactorRequired(user) && !user.twoFactorEnabled) {
+    await revokeRefreshTokenFamily(rotated.familyId, 'logout')
+    return ApiResponseBuilder.error(
+      'Two-factor authentication is required for this account. Please sign in again to set it up.',
+      StatusCodes.FORBIDDEN
+    )
+  }
+
+  // Issue a new access token
+  const { token } = await signAccessToken({ userId: user.id, role: user.role, sessionId: rotated.familyId })
+
+  return ApiResponseBuilder.success({ token, refreshToken: rotated.refreshToken })
 })
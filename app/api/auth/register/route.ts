@@ -1,30 +1,13 @@
 import { NextResponse } from 'next/server'
-import bcrypt from 'bcryptjs'
 import prisma from '@/lib/prisma'
-import crypto from 'crypto'
 import { sendVerificationEmail } from '@/utils/emailService'
 import { ok } from 'assert'
 import { Varela } from 'next/font/google'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages, StatusCodes } from '@/lib/apiResponse'
 import { validateRequest } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
-
-// Password validation function
-const isValidPassword = (password: string): boolean => {
-  const minLength = 8;
-  const hasUpperCase = /[A-Z]/.test(password);
-  const hasLowerCase = /[a-z]/.test(password);
-  const hasNumbers = /\d/.test(password);
-  const hasSpecialChar = /[!@#$%^&*(),.?":{}|<>]/.test(password);
-
-  return (
-    password.length >= minLength &&
-    hasUpperCase &&
-    hasLowerCase &&
-    hasNumbers &&
-    hasSpecialChar
-  );
-};
+import { issueOtp } from '@/lib/otpService'
+import { setPassword, validatePasswordStrength } from '@/lib/identityService'
 
 export const POST = asyncHandler(async (req: Request) => {
   try {
@@ -41,8 +24,9 @@ export const POST = asyncHandler(async (req: Request) => {
     }
 
     // Validate password
-    if (!isValidPassword(password)) {
-      return ApiResponseBuilder.error('Password must be at least 8 characters long and contain uppercase, lowercase, numbers, and special characters', StatusCodes.BAD_REQUEST)
+    const passwordCheck = validatePasswordStrength(password)
+    if (passwordCheck !== true) {
+      return ApiResponseBuilder.error(passwordCheck, StatusCodes.BAD_REQUEST)
     }
 
     // Check if user already exists
@@ -69,26 +53,25 @@ export const POST = asyncHandler(async (req: Request) => {
     }
     
 
-    // Hash password
-    const hashedPassword = await bcrypt.hash(password, 12)
+    // Create user with the password sign-in method; the email is verified with a one-time code
+    const user = await prisma.$transaction(async (tx) => {
+      const created = await tx.user.create({
+        data: {
+          email,
+          name,
+          phone: phone || null,
+          emailVerified: false
+        }
+      })
 
-    // Generate verification token
-    const verificationToken = crypto.randomBytes(32).toString('hex')
+      await setPassword(tx, created.id, password)
 
-    // Create user with verification token
-    const user = await prisma.user.create({
-      data: {
-        email,
-        password: hashedPassword,
-        name,
-        phone: phone || null,
-        emailVerified: false,
-        verificationToken: verificationToken 
-      }
+      return created
     })
 
     // Send verification email
-    await sendVerificationEmail(email, verificationToken)
+    const otp = await issueOtp({ target: email, purpose: 'verify_email', userId: user.id })
+    await sendVerificationEmail(email, otp.code, otp.expiresInMinutes)
 
     return ApiResponseBuilder.success({  
       message: 'Registration successful. Please check your email to verify your account.',
@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
-import bcrypt from 'bcryptjs'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages, StatusCodes } from '@/lib/apiResponse'
 import { validateRequest } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { verifyOtp } from '@/lib/otpService'
+import { setPassword, validatePasswordStrength } from '@/lib/identityService'
 
 export const POST = asyncHandler(async (req: Request) => {
   try {
@@ -17,32 +18,29 @@ export const POST = asyncHandler(async (req: Request) => {
       where: { email }
     })
 
-    if (!user || !user.verificationToken) {
+    if (!user) {
       return ApiResponseBuilder.error('Invalid reset attempt', StatusCodes.BAD_REQUEST)
     }
 
-    // Verify reset code
-    const storedCode = user.verificationToken.substring(0, 6).toUpperCase()
-    if (code.toUpperCase() !== storedCode) {
-      return ApiResponseBuilder.error('Invalid reset code', StatusCodes.BAD_REQUEST)
+    // Checked before the code so a weak password does not use it up
+    const passwordCheck = validatePasswordStrength(newPassword)
+    if (passwordCheck !== true) {
+      return ApiResponseBuilder.error(passwordCheck, StatusCodes.BAD_REQUEST)
     }
 
-    // Hash new password
-    const hashedPassword = await bcrypt.hash(newPassword, 12)
+    // Throws 400 for wrong, expired or exhausted codes; a used code cannot reset again
+    await verifyOtp({ target: email, purpose: 'reset_password', code })
 
-    // Update user password and clear reset token
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        password: hashedPassword,
-        verificationToken: null
-      }
-    })
+    // Also links the password sign-in method for Google and phone accounts
+    await setPassword(prisma, user.id, newPassword)
 
     return ApiResponseBuilder.success({
       message: 'Password reset successfully'
     })
   } catch (error) {
+    if (error instanceof ApiError) {
+      throw error
+    }
     console.error('Reset password confirmation error:', error)
     return ApiResponseBuilder.error('Failed to reset password', StatusCodes.INTERNAL_SERVER_ERROR)
   }
@@ -1,19 +1,29 @@
 import { NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
-import crypto from 'crypto'
 import { sendResetPassword } from '@/utils/resetPasswordService'
+import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { enforceIpRateLimit, enforceRateLimit } from '@/lib/rateLimiter'
+import { issueOtp } from '@/lib/otpService'
 
-export async function POST(req: Request) {
-  try {
-    const { email } = await req.json()
+const RESET_REQUESTS_PER_IP = { limit: 5, windowMs: 15 * 60 * 1000 }
+const RESET_REQUESTS_PER_EMAIL = { limit: 3, windowMs: 60 * 60 * 1000 }
 
-    if (!email) {
-      return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
-      )
-    }
+export const POST = asyncHandler(async (req: Request) => {
+  // Throws 429 once this IP has asked for too many reset codes
+  enforceIpRateLimit(req, 'reset-password', RESET_REQUESTS_PER_IP)
 
+  const { email } = await req.json().catch(() => ({}))
+
+  if (!email) {
+    return NextResponse.json(
+      { error: 'Email is required' },
+      { status: 400 }
+    )
+  }
+
+  enforceRateLimit(`reset-password:email:${String(email).toLowerCase()}`, RESET_REQUESTS_PER_EMAIL)
+
+  try {
     const user = await prisma.user.findUnique({
       where: { email }
     })
@@ -25,28 +35,21 @@ export async function POST(req: Request) {
       )
     }
 
-    // Generate reset token
-    const resetToken = crypto.randomBytes(32).toString('hex')
-
-    // Update user with reset token
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        verificationToken: resetToken
-      }
-    })
-
-    // Send reset code email
-    const resetCode = await sendResetPassword(email, resetToken)
+    // Replaces any earlier code; throws 429 inside the resend cooldown
+    const otp = await issueOtp({ target: email, purpose: 'reset_password', userId: user.id })
+    await sendResetPassword(email, otp.code, otp.expiresInMinutes)
 
     return NextResponse.json({
       message: 'Reset password code has been sent to your email'
     })
   } catch (error) {
+    if (error instanceof ApiError) {
+      throw error
+    }
     console.error('Reset password request error:', error)
     return NextResponse.json(
       { error: 'Failed to process reset password request' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { revokeSession } from '@/lib/sessionService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// DELETE - Sign one of the current user's devices out
+export const DELETE = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized()
+  }
+
+  await revokeSession(userId, params.id)
+
+  return ApiResponseBuilder.success({
+    message: 'Session signed out'
+  })
+})
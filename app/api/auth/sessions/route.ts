@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { listActiveSessions, revokeAllSessions } from '@/lib/sessionService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Devices the current user is signed in on
+export const GET = asyncHandler(async (request: NextRequest) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized()
+  }
+
+  const sessions = await listActiveSessions(userId, request.headers.get('sessionId'))
+
+  return ApiResponseBuilder.success(sessions)
+})
+
+// DELETE - Sign out of every device, including this one
+export const DELETE = asyncHandler(async (request: NextRequest) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized()
+  }
+
+  const revoked = await revokeAllSessions(userId)
+
+  return ApiResponseBuilder.success({
+    revoked,
+    message: 'Signed out of all devices'
+  })
+})
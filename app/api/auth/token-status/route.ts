@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder, StatusCodes } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { internalApiSecret } from '@/lib/jwtService'
+import { isAccessTokenRevoked } from '@/lib/sessionService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Whether an access token was signed out, on its own (?jti=) or with its session
+// (?sessionId=), or carries a role its user (?userId=&role=) no longer has. Only called by
+// the middleware, which cannot reach the database from the edge runtime.
+export const GET = asyncHandler(async (req: NextRequest) => {
+  const secret = internalApiSecret()
+  if (!secret || req.headers.get('x-internal-secret') !== secret) {
+    return ApiResponseBuilder.forbidden()
+  }
+
+  const jti = req.nextUrl.searchParams.get('jti')
+  const sessionId = req.nextUrl.searchParams.get('sessionId')
+  const userId = req.nextUrl.searchParams.get('userId')
+  const role = req.nextUrl.searchParams.get('role')
+
+  if (!jti) {
+    return ApiResponseBuilder.error('jti is required', StatusCodes.BAD_REQUEST)
+  }
+
+  const revoked = await isAccessTokenRevoked({ jti, userId, role, sessionId })
+
+  return ApiResponseBuilder.success({ revoked })
+})
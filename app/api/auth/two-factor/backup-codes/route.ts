@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { regenerateBackupCodes, verifySecondFactor } from '@/lib/twoFactorService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// POST - Replace all backup codes; needs a current code from the authenticator app
+export const POST = asyncHandler(async (request: NextRequest) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized()
+  }
+
+  const { code } = await request.json().catch(() => ({}))
+
+  await verifySecondFactor(userId, { code })
+
+  return ApiResponseBuilder.success({
+    message: 'New backup codes generated, the old ones no longer work',
+    backupCodes: await regenerateBackupCodes(userId)
+  })
+})
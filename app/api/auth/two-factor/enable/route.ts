@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { startSession, getClientInfo } from '@/lib/sessionService'
+import { signAccessToken } from '@/lib/jwtService'
+import { authenticateEnrollment, confirmTwoFactorEnrollment } from '@/lib/twoFactorService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// POST - Confirm the enrolment with a first code and receive the backup codes.
+// An enrolment made during login also finishes that login.
+export const POST = asyncHandler(async (request: NextRequest) => {
+  const body = await request.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, {
+    code: { required: true, type: 'string' }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const { userId, fromChallenge } = await authenticateEnrollment(request.headers, body.challengeToken)
+
+  const backupCodes = await confirmTwoFactorEnrollment(userId, body.code)
+
+  if (!fromChallenge) {
+    return ApiResponseBuilder.success({
+      message: 'Two-factor authentication enabled',
+      backupCodes
+    })
+  }
+
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } })
+
+  const { session, refreshToken } = await startSession(user.id, getClientInfo(request.headers))
+
+  const { token } = await signAccessToken({ userId: user.id, role: user.role, sessionId: session.id })
+
+  return ApiResponseBuilder.success({
+    message: SuccessMessages.LOGIN_SUCCESS,
+    backupCodes,
+    token,
+    refreshToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      phone: user.phone,
+      role: user.role
+    }
+  })
+})
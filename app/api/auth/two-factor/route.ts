@@ -0,0 +1,40 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { disableTwoFactor, getTwoFactorStatus, verifySecondFactor } from '@/lib/twoFactorService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Two-factor status of the signed-in user
+export const GET = asyncHandler(async (request: NextRequest) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized()
+  }
+
+  return ApiResponseBuilder.success(await getTwoFactorStatus(userId))
+})
+
+// DELETE - Turn two-factor off; needs a current code. Not possible where it is mandatory.
+export const DELETE = asyncHandler(async (request: NextRequest) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized()
+  }
+
+  const { code, backupCode } = await request.json().catch(() => ({}))
+
+  const status = await getTwoFactorStatus(userId)
+
+  if (status.required) {
+    throw ApiError.forbidden('Two-factor authentication is mandatory for your role')
+  }
+
+  await verifySecondFactor(userId, { code, backupCode })
+  await disableTwoFactor(userId)
+
+  return ApiResponseBuilder.success({ message: 'Two-factor authentication disabled' })
+})
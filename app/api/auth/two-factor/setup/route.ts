@@ -0,0 +1,17 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { authenticateEnrollment, beginTwoFactorEnrollment } from '@/lib/twoFactorService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// POST - Create the secret to scan into an authenticator app. Called signed in, or with the
+// challenge token of an admin login that waits for the enrolment.
+export const POST = asyncHandler(async (request: NextRequest) => {
+  const { challengeToken } = await request.json().catch(() => ({}))
+
+  const { userId } = await authenticateEnrollment(request.headers, challengeToken)
+
+  return ApiResponseBuilder.success(await beginTwoFactorEnrollment(userId))
+})
@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { startSession, getClientInfo } from '@/lib/sessionService'
+import { signAccessToken, verifyTwoFactorChallenge } from '@/lib/jwtService'
+import { verifySecondFactor } from '@/lib/twoFactorService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// POST - Finish a login with a code from the authenticator app or a backup code
+export const POST = asyncHandler(async (request: NextRequest) => {
+  const body = await request.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, {
+    challengeToken: { required: true, type: 'string' },
+    code: { required: false, type: 'string' },
+    backupCode: { required: false, type: 'string' }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const challenge = await verifyTwoFactorChallenge(body.challengeToken)
+
+  if (challenge.stage !== 'verify') {
+    throw ApiError.unauthorized('Invalid or expired token')
+  }
+
+  const method = await verifySecondFactor(challenge.userId, {
+    code: body.code,
+    backupCode: body.backupCode
+  })
+
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: challenge.userId } })
+
+  const { session, refreshToken } = await startSession(user.id, getClientInfo(request.headers))
+
+  const { token } = await signAccessToken({ userId: user.id, role: user.role, sessionId: session.id })
+
+  return ApiResponseBuilder.success({
+    message: SuccessMessages.LOGIN_SUCCESS,
+    token,
+    refreshToken,
+    // Lets the client suggest new backup codes once they start running out
+    usedBackupCode: method === 'backup_code',
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      phone: user.phone,
+      role: user.role
+    }
+  })
+})
@@ -3,6 +3,7 @@ import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages, StatusCodes } from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { verifyOtp } from '@/lib/otpService'
 
 export const POST = asyncHandler(async (req: Request) => {
   try {
@@ -19,26 +20,23 @@ export const POST = asyncHandler(async (req: Request) => {
       where: { email: decodedEmail }
     })
 
-    if (!user || !user.verificationToken) {
+    if (!user || user.emailVerified) {
       return ApiResponseBuilder.error('Invalid verification attempt', StatusCodes.BAD_REQUEST)
     }
 
-    const storedCode = user.verificationToken.substring(0, 6).toUpperCase()
-
-    if (code.toUpperCase() !== storedCode) {
-      return ApiResponseBuilder.error('Invalid verification code', StatusCodes.BAD_REQUEST)
-    }
+    // Throws 400 for wrong, expired or exhausted codes; counts the attempt
+    await verifyOtp({ target: decodedEmail, purpose: 'verify_email', code })
 
     await prisma.user.update({
       where: { id: user.id },
-      data: {
-        emailVerified: true,
-        verificationToken: null
-      }
+      data: { emailVerified: true }
     })
 
     return ApiResponseBuilder.success({ message: 'Email verified successfully' })
   } catch (error) {
+    if (error instanceof ApiError) {
+      throw error
+    }
     console.error('Verification error:', error)
     return ApiResponseBuilder.error('Failed to verify email', StatusCodes.INTERNAL_SERVER_ERROR)
   }
@@ -1,10 +1,10 @@
 import { NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
-import crypto from 'crypto'
 import { sendVerificationEmail } from '@/utils/emailService'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages, StatusCodes } from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
-import { asyncHandler, ApiError } from '@/lib/errorHandler'   
+import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { issueOtp } from '@/lib/otpService'
 
 export const POST = asyncHandler(async (req: Request) => {
   try {
@@ -22,24 +22,21 @@ export const POST = asyncHandler(async (req: Request) => {
         return ApiResponseBuilder.error('User not found', StatusCodes.NOT_FOUND)
     }
 
-    // Generate reset token
-    const resetToken = crypto.randomBytes(32).toString('hex')
-
-    // Update user with reset token
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        verificationToken: resetToken
-      }
-    })
+    if (user.emailVerified) {
+      return ApiResponseBuilder.error('Email is already verified', StatusCodes.BAD_REQUEST)
+    }
 
-    // Send reset code email
-    const resetCode = await sendVerificationEmail(email, resetToken)
+    // Replaces any earlier code; throws 429 inside the resend cooldown
+    const otp = await issueOtp({ target: email, purpose: 'verify_email', userId: user.id })
+    await sendVerificationEmail(email, otp.code, otp.expiresInMinutes)
 
     return ApiResponseBuilder.success({
-      message: 'Reset password code has been sent to your email'
+      message: 'Verification code has been sent to your email'
     })
   } catch (error) {
+    if (error instanceof ApiError) {
+      throw error
+    }
     console.error('Reset password request error:', error)
     return ApiResponseBuilder.error('Failed to process reset password request', StatusCodes.INTERNAL_SERVER_ERROR)
   }
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages, StatusCodes } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { previewCancellation } from '@/lib/refundService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Preview the fee and refund of cancelling a booking now
+export const GET = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const userId = request.headers.get('userId')
+  const bookingId = params.id
+
+  // Validate authentication
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized('Authentication required')
+  }
+
+  // Validate booking ID
+  if (!bookingId || typeof bookingId !== 'string') {
+    return ApiResponseBuilder.error('Invalid booking ID', StatusCodes.BAD_REQUEST)
+  }
+
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    select: { userId: true, status: true }
+  })
+
+  if (!booking) {
+    return ApiResponseBuilder.notFound('Booking')
+  }
+
+  if (booking.userId !== userId) {
+    return ApiResponseBuilder.forbidden('You can only view your own bookings')
+  }
+
+  if (booking.status === 'cancelled' || booking.status === 'completed') {
+    return ApiResponseBuilder.error(`Booking is already ${booking.status}`, StatusCodes.BAD_REQUEST)
+  }
+
+  const cancellation = await previewCancellation(prisma, bookingId)
+
+  return ApiResponseBuilder.success(cancellation, SuccessMessages.RETRIEVED)
+})
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { getReviewableBooking, leaveFeedback, MAX_FEEDBACK_LENGTH } from '@/lib/ratingService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - Feedback the user left on a completed booking
+export const GET = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized('Authentication required')
+  }
+
+  const booking = await getReviewableBooking(params.id, userId)
+
+  const feedback = await prisma.feedback.findMany({
+    where: { bookingId: booking.id },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, message: true, hidden: true, createdAt: true }
+  })
+
+  return ApiResponseBuilder.success(feedback, SuccessMessages.RETRIEVED)
+})
+
+// POST - Leave written feedback on a completed trip
+export const POST = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized('Authentication required')
+  }
+
+  const body = await request.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, {
+    message: { required: true, type: 'string', minLength: 3, maxLength: MAX_FEEDBACK_LENGTH }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const feedback = await leaveFeedback(params.id, userId, body.message)
+
+  return ApiResponseBuilder.created(
+    { id: feedback.id, message: feedback.message, hidden: feedback.hidden, createdAt: feedback.createdAt },
+    'Thanks for your feedback'
+  )
+})
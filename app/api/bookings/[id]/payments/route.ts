@@ -2,22 +2,23 @@ import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, StatusCodes } from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
-import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { asyncHandler } from '@/lib/errorHandler'
 import { Decimal } from '@prisma/client/runtime/library'
 import { v2 as cloudinary } from 'cloudinary'
-import { PaymentMethod } from '@prisma/client'
+import { PaymentKind, PaymentMethod } from '@prisma/client'
+import { getPaymentProviderForMethod, PAYMENT_CURRENCY } from '@/lib/paymentProvider'
+import { getBillBalance } from '@/lib/refundService'
+import { calculateDepositTerms } from '@/lib/depositService'
 
 // Force dynamic rendering for this API route
 export const dynamic = 'force-dynamic'
 
-// Constants
-const CASH_PAYMENT_PERCENTAGE = 0.25
-const PAYMENT_SUCCESS_RATE = 0.95
-
 // Types
-interface PaymentProcessingResult {
-  success: boolean
-  transactionId?: string
+interface PaymentPlan {
+  amount: Decimal
+  kind: PaymentKind
+  depositPercentage?: number
+  balanceDueAt?: Date
 }
 
 interface PaymentResult {
@@ -43,16 +44,36 @@ async function uploadReceiptImage(file: File): Promise<string> {
   return result.secure_url
 }
 
-function calculatePaymentAmount(method: string, totalPrice: Decimal): Decimal {
+// What this payment covers: a cash deposit, the balance of an earlier deposit, or the whole bill
+function planPayment(method: string, booking: any): PaymentPlan {
+  const billAmount = new Decimal(booking.bill.amount)
+
+  if (booking.bill.status === 'partially_paid') {
+    const { remainingBalance } = getBillBalance(booking.bill)
+    return { amount: new Decimal(remainingBalance), kind: 'balance' }
+  }
+
   if (method === 'cash') {
-    return new Decimal(parseFloat(totalPrice.toString()) * CASH_PAYMENT_PERCENTAGE)
+    const terms = calculateDepositTerms(billAmount, booking.trip)
+    if (terms.depositPercentage < 100) {
+      return {
+        amount: terms.depositAmount,
+        kind: 'deposit',
+        depositPercentage: terms.depositPercentage,
+        balanceDueAt: terms.balanceDueAt
+      }
+    }
   }
-  return totalPrice
+
+  return { amount: billAmount, kind: 'full' }
 }
 
-function generatePaymentMessage(method: string, paidAmount: number, totalAmount: number, remainingBalance: number): string {
-  if (method === 'cash') {
-    return `Cash payment submitted successfully! Paid ${paidAmount} (25% of ${totalAmount}). Remaining balance: ${remainingBalance}. Waiting for admin confirmation.`
+function generatePaymentMessage(plan: PaymentPlan, paidAmount: number, totalAmount: number, remainingBalance: number): string {
+  if (plan.kind === 'deposit') {
+    return `Cash deposit submitted successfully! Paid ${paidAmount} (${plan.depositPercentage}% of ${totalAmount}). Remaining balance: ${remainingBalance}, due by ${plan.balanceDueAt?.toISOString()}. Waiting for admin confirmation.`
+  }
+  if (plan.kind === 'balance') {
+    return `Balance payment of ${paidAmount} submitted successfully! Waiting for admin confirmation.`
   }
   return 'Payment submitted successfully! Waiting for admin confirmation.'
 }
@@ -94,7 +115,7 @@ async function validateBookingAccess(bookingId: string, userId: string) {
   return booking
 }
 
-async function validatePaymentEligibility(booking: any) {
+async function validatePaymentEligibility(booking: any, method: string) {
   if (booking.status === 'cancelled') {
     throw new Error('Cannot make payment for cancelled booking')
   }
@@ -107,6 +128,10 @@ async function validatePaymentEligibility(booking: any) {
     throw new Error('Bill is already paid')
   }
 
+  if (booking.bill.status === 'partially_paid' && method === 'cash') {
+    throw new Error('The remaining cash balance is collected at boarding')
+  }
+
   const existingPendingPayment = await prisma.payment.findFirst({
     where: { 
       billId: booking.bill.id,
@@ -119,60 +144,80 @@ async function validatePaymentEligibility(booking: any) {
   }
 }
 
-async function processPaymentTransaction(
+async function submitPayment(
   booking: any, 
-  paymentAmount: Decimal, 
+  plan: PaymentPlan, 
   method: string, 
   receiptImageUrl: string | null
 ): Promise<PaymentResult> {
-  return await prisma.$transaction(async (tx) => {
-    // Create payment record
-    const payment = await tx.payment.create({
-      data: {
-        billId: booking.bill.id,
-        amount: paymentAmount,
-        method: method as PaymentMethod,
-        status: 'pending',
-        transactionId: null,
-        receiptImage: receiptImageUrl
-      }
+  const provider = getPaymentProviderForMethod(method)
+  const paymentAmount = plan.amount
+
+  // Record the attempt first so the provider can reference it
+  const payment = await prisma.payment.create({
+    data: {
+      billId: booking.bill.id,
+      amount: paymentAmount,
+      method: method as PaymentMethod,
+      kind: plan.kind,
+      status: 'pending',
+      transactionId: null,
+      provider: provider.name,
+      receiptImage: receiptImageUrl
+    }
+  })
+
+  const intent = await provider.createIntent({
+    paymentId: payment.id,
+    amount: paymentAmount,
+    currency: PAYMENT_CURRENCY,
+    method,
+    metadata: { bookingId: booking.id, billId: booking.bill.id }
+  })
+
+  if (!intent.success) {
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: { status: 'failed' }
     })
 
-    // Simulate payment processing
-    const paymentResult = await processPayment(payment.amount, method)
+    throw new Error(intent.failureReason || 'Payment processing failed')
+  }
 
-    if (paymentResult.success) {
-      // Update payment status
-      const updatedPayment = await tx.payment.update({
-        where: { id: payment.id },
+  // The payment stays pending until it is captured (admin confirmation or provider webhook).
+  // Deposit terms are only remembered once the provider accepted the intent, so a declined
+  // deposit leaves the bill untouched.
+  const updatedPayment = await prisma.$transaction(async (tx) => {
+    if (plan.kind === 'deposit') {
+      await tx.bill.update({
+        where: { id: booking.bill.id },
         data: {
-          status: 'pending',
-          transactionId: paymentResult.transactionId,
-          paidAt: new Date()
+          depositAmount: plan.amount,
+          balanceDueAt: plan.balanceDueAt
         }
       })
-      
-      const totalBillAmount = parseFloat(booking.bill.amount.toString())
-      const paidAmount = parseFloat(paymentAmount.toString())
-      const remainingBalance = totalBillAmount - paidAmount
+    }
 
-      return {
-        payment: updatedPayment,
-        billStatus: 'unpaid',
-        bookingStatus: 'pending',
-        remainingBalance,
-        message: generatePaymentMessage(method, paidAmount, totalBillAmount, remainingBalance)
+    return tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        transactionId: intent.transactionId,
+        paidAt: new Date()
       }
-    } else {
-      // Payment failed
-      await tx.payment.update({
-        where: { id: payment.id },
-        data: { status: 'failed' }
-      })
-
-      throw ApiError.internal('Payment processing failed')
-    }
+    })
   })
+
+  const totalBillAmount = parseFloat(booking.bill.amount.toString())
+  const paidAmount = parseFloat(paymentAmount.toString())
+  const remainingBalance = getBillBalance(booking.bill).remainingBalance - paidAmount
+
+  return {
+    payment: updatedPayment,
+    billStatus: booking.bill.status,
+    bookingStatus: booking.status,
+    remainingBalance,
+    message: generatePaymentMessage(plan, paidAmount, totalBillAmount, remainingBalance)
+  }
 }
 
 // POST - Process payment for a booking
@@ -223,13 +268,13 @@ export const POST = asyncHandler(async (
   try {
     // Validate booking access and eligibility
     const booking = await validateBookingAccess(bookingId, userId)
-    await validatePaymentEligibility(booking)
+    await validatePaymentEligibility(booking, method)
 
-    // Calculate payment amount based on method
-    const paymentAmount = calculatePaymentAmount(method, booking.totalPrice)
+    // Work out the amount from the bill status and the deposit rules
+    const plan = planPayment(method, booking)
 
-    // Process payment in transaction
-    const result = await processPaymentTransaction(booking, paymentAmount, method, receiptImageUrl)
+    // Submit the payment to its provider
+    const result = await submitPayment(booking, plan, method, receiptImageUrl)
 
     return ApiResponseBuilder.success(
       {
@@ -275,6 +320,9 @@ export const GET = asyncHandler(async (
         include: {
           payments: {
             orderBy: { createdAt: 'desc' }  
+          },
+          refunds: {
+            orderBy: { createdAt: 'desc' }
           }
         }
       }
@@ -293,13 +341,9 @@ export const GET = asyncHandler(async (
     return ApiResponseBuilder.error('No bill found for this booking', StatusCodes.BAD_REQUEST)
   }
 
-  // Calculate payment summary
-  const totalPaid = booking.bill.payments
-    .filter(payment => payment.status === 'successful')
-    .reduce((sum, payment) => sum + parseFloat(payment.amount.toString()), 0)
-  
+  // Calculate payment summary (net of completed refunds)
   const billAmount = parseFloat(booking.bill.amount.toString())
-  const remainingBalance = Math.max(0, billAmount - totalPaid)
+  const { totalPaid, totalRefunded, netPaid, remainingBalance } = getBillBalance(booking.bill)
 
   return ApiResponseBuilder.success(
     {
@@ -307,6 +351,8 @@ export const GET = asyncHandler(async (
         id: booking.bill.id,
         amount: booking.bill.amount,
         status: booking.bill.status,
+        depositAmount: booking.bill.depositAmount,
+        balanceDueAt: booking.bill.balanceDueAt,
         createdAt: booking.bill.createdAt,
         updatedAt: booking.bill.updatedAt
       },
@@ -314,15 +360,28 @@ export const GET = asyncHandler(async (
         id: payment.id,
         amount: payment.amount,
         method: payment.method,
+        kind: payment.kind,
         status: payment.status,
         transactionId: payment.transactionId,
         receiptImage: payment.receiptImage,
         paidAt: payment.paidAt,
         createdAt: payment.createdAt
       })),
+      refunds: booking.bill.refunds.map(refund => ({
+        id: refund.id,
+        paymentId: refund.paymentId,
+        amount: refund.amount,
+        method: refund.method,
+        status: refund.status,
+        reason: refund.reason,
+        processedAt: refund.processedAt,
+        createdAt: refund.createdAt
+      })),
       summary: {
         totalAmount: billAmount,
         totalPaid,
+        totalRefunded,
+        netPaid,
         remainingBalance,
         isFullyPaid: remainingBalance === 0
       }
@@ -330,17 +389,3 @@ export const GET = asyncHandler(async (
     SuccessMessages.RETRIEVED
   )
 })
-
-// Mock payment processing function (replace with actual payment gateway)
-async function processPayment(amount: Decimal, method: string): Promise<PaymentProcessingResult> {
-  // Simulate payment processing delay
-  await new Promise(resolve => setTimeout(resolve, 1000))
-
-  // Simulate success rate
-  const success = Math.random() > (1 - PAYMENT_SUCCESS_RATE)
-
-  return {
-    success,
-    transactionId: success ? `TXN-${Date.now()}-${Math.random().toString(36).substr(2, 9)}` : undefined
-  }
-}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
+import { validateRequest, createValidationResponse } from '@/lib/validation'
+import { asyncHandler } from '@/lib/errorHandler'
+import { getReviewableBooking, rateBooking, MIN_RATING, MAX_RATING } from '@/lib/ratingService'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// GET - The user's rating of a completed booking, or null when not rated yet
+export const GET = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized('Authentication required')
+  }
+
+  const booking = await getReviewableBooking(params.id, userId)
+
+  const rating = await prisma.rating.findUnique({
+    where: { bookingId: booking.id }
+  })
+
+  return ApiResponseBuilder.success(rating, SuccessMessages.RETRIEVED)
+})
+
+// POST - Rate a completed trip; a booking can be rated once
+export const POST = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const userId = request.headers.get('userId')
+
+  if (!userId) {
+    return ApiResponseBuilder.unauthorized('Authentication required')
+  }
+
+  const body = await request.json().catch(() => ({}))
+
+  const validationResult = validateRequest(body, {
+    rating: {
+      required: true,
+      type: 'number',
+      min: MIN_RATING,
+      max: MAX_RATING,
+      custom: (value: any) => Number.isInteger(value) || 'Rating must be a whole number'
+    }
+  })
+
+  if (!validationResult.isValid) {
+    return createValidationResponse(validationResult)
+  }
+
+  const rating = await rateBooking(params.id, userId, body.rating)
+
+  return ApiResponseBuilder.created(rating, 'Thanks for rating your trip')
+})
@@ -3,6 +3,9 @@ import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages, StatusCodes } from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { publishSeatChanges } from '@/lib/seatEvents'
+import { requestCancellationRefunds, previewCancellation, claimCancellation } from '@/lib/refundService'
+import { syncSeatStatuses } from '@/lib/routeStopService'
 
 export const GET = asyncHandler(async (
   request: NextRequest,
@@ -197,8 +200,24 @@ export const PUT = asyncHandler(async (
     )
   }
 
+  if (status === 'cancelled' && existingBooking.status !== 'cancelled') {
+    // The route's cancellation policy decides whether it is still possible
+    const cancellation = await previewCancellation(prisma, bookingId)
+    if (cancellation && !cancellation.allowed) {
+      return ApiResponseBuilder.error(
+        cancellation.reason || 'Booking can no longer be cancelled',
+        StatusCodes.BAD_REQUEST
+      )
+    }
+  }
+
   // Update booking in transaction
-  const updatedBooking = await prisma.$transaction(async (tx) => {
+  const { booking: updatedBooking, refund } = await prisma.$transaction(async (tx) => {
+    // Claim the cancellation first so a concurrent cancel cannot queue refunds twice
+    if (status === 'cancelled' && existingBooking.status !== 'cancelled') {
+      await claimCancellation(tx, bookingId)
+    }
+
     // Update booking status
     const booking = await tx.booking.update({
       where: { id: bookingId },
@@ -250,21 +269,31 @@ export const PUT = asyncHandler(async (
       }
     })
 
-    // If cancelling, update seat status back to available
+    // If cancelling, put the seats back on sale for the segment this booking held
     if (status === 'cancelled') {
-      await tx.seat.updateMany({
-        where: {
-          id: {
-            in: booking.details.map(detail => detail.seatId)
-          }
-        },
-        data: { status: 'available' }
-      })
+      await syncSeatStatuses(tx, booking.tripId, booking.details.map(detail => detail.seatId))
+
+      // Cancelling again must not queue the refunds twice
+      if (existingBooking.status !== 'cancelled') {
+        if (booking.bill && booking.bill.status === 'unpaid') {
+          await tx.bill.update({
+            where: { id: booking.bill.id },
+            data: { status: 'cancelled' }
+          })
+        }
+
+        const refund = await requestCancellationRefunds(tx, bookingId)
+        return { booking, refund }
+      }
     }
 
-    return booking
+    return { booking, refund: null }
   })
 
+  if (status === 'cancelled') {
+    await publishSeatChanges(updatedBooking.tripId, updatedBooking.details.map(detail => detail.seatId))
+  }
+
   return ApiResponseBuilder.success(
     {
       ...updatedBooking,
@@ -296,6 +325,15 @@ export const PUT = asyncHandler(async (
         amount: updatedBooking.bill.amount,
         status: updatedBooking.bill.status,
         payments: updatedBooking.bill.payments
+      } : null,
+      refund: refund ? {
+        policy: refund.policy,
+        hoursBeforeDeparture: refund.hoursBeforeDeparture,
+        refundPercentage: refund.refundPercentage,
+        paidAmount: refund.paidAmount,
+        refundableAmount: refund.refundableAmount,
+        fee: refund.fee,
+        refunds: refund.refunds
       } : null
     },
     SuccessMessages.UPDATED
@@ -3,6 +3,9 @@ import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages, StatusCodes } from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { publishSeatChanges } from '@/lib/seatEvents'
+import { requestCancellationRefunds, previewCancellation, getBillBalance, claimCancellation } from '@/lib/refundService'
+import { syncSeatStatuses } from '@/lib/routeStopService'
 
 // Force dynamic rendering for this API route
 export const dynamic = 'force-dynamic'
@@ -127,8 +130,28 @@ export const PUT = asyncHandler(async (
     }
   }
 
+  if (newStatus === 'cancelled') {
+    if (currentStatus === 'cancelled') {
+      return ApiResponseBuilder.error('Booking is already cancelled', StatusCodes.BAD_REQUEST)
+    }
+
+    // The route's cancellation policy decides whether it is still possible
+    const cancellation = await previewCancellation(prisma, bookingId)
+    if (cancellation && !cancellation.allowed) {
+      return ApiResponseBuilder.error(
+        cancellation.reason || 'Booking can no longer be cancelled',
+        StatusCodes.BAD_REQUEST
+      )
+    }
+  }
+
   // Update booking status in transaction
-  const updatedBooking = await prisma.$transaction(async (tx) => {
+  const { booking: updatedBooking, refund } = await prisma.$transaction(async (tx) => {
+    // Claim the cancellation first so a concurrent cancel cannot queue refunds twice
+    if (newStatus === 'cancelled') {
+      await claimCancellation(tx, bookingId)
+    }
+
     // Update booking status
     const booking = await tx.booking.update({
       where: { id: bookingId },
@@ -182,13 +205,8 @@ export const PUT = asyncHandler(async (
 
     // Handle seat status changes
     if (newStatus === 'cancelled') {
-      // Release seats back to available
-      await tx.seat.updateMany({
-        where: {
-          id: { in: booking.details.map(detail => detail.seatId) }
-        },
-        data: { status: 'available' }
-      })
+      // Release the seats for the segment this booking held
+      await syncSeatStatuses(tx, booking.tripId, booking.details.map(detail => detail.seatId))
 
       // Update bill status to cancelled if not paid
       if (booking.bill && booking.bill.status === 'unpaid') {
@@ -197,19 +215,22 @@ export const PUT = asyncHandler(async (
           data: { status: 'cancelled' }
         })
       }
+
+      // Queue refunds of what was paid, for admin approval
+      const refund = await requestCancellationRefunds(tx, bookingId, reason)
+      return { booking, refund }
     } else if (newStatus === 'confirmed') {
-      // Ensure seats remain booked
-      await tx.seat.updateMany({
-        where: {
-          id: { in: booking.details.map(detail => detail.seatId) }
-        },
-        data: { status: 'booked' }
-      })
+      // Ensure seats remain booked where the trip is sold out for them
+      await syncSeatStatuses(tx, booking.tripId, booking.details.map(detail => detail.seatId))
     }
 
-    return booking
+    return { booking, refund: null }
   })
 
+  if (newStatus === 'cancelled' || newStatus === 'confirmed') {
+    await publishSeatChanges(updatedBooking.tripId, updatedBooking.details.map(detail => detail.seatId))
+  }
+
   // Generate status message
   const statusMessages = {
     'pending': 'Booking is pending confirmation',
@@ -250,6 +271,15 @@ export const PUT = asyncHandler(async (
         status: updatedBooking.bill.status,
         payments: updatedBooking.bill.payments
       } : null,
+      refund: refund ? {
+        policy: refund.policy,
+        hoursBeforeDeparture: refund.hoursBeforeDeparture,
+        refundPercentage: refund.refundPercentage,
+        paidAmount: refund.paidAmount,
+        refundableAmount: refund.refundableAmount,
+        fee: refund.fee,
+        refunds: refund.refunds
+      } : null,
       statusChange: {
         from: currentStatus,
         to: newStatus,
@@ -295,7 +325,8 @@ export const GET = asyncHandler(async (
       },
       bill: {
         include: {
-          payments: true
+          payments: true,
+          refunds: true
         }
       }
     }
@@ -309,6 +340,8 @@ export const GET = asyncHandler(async (
     return ApiResponseBuilder.forbidden('You can only view your own bookings')
   }
 
+  const balance = booking.bill ? getBillBalance(booking.bill) : null
+
   // Determine available actions based on current status
   const availableActions = getAvailableActions(booking.status as string, booking.bill?.status ?? '', booking.trip.status as string)
 
@@ -320,16 +353,13 @@ export const GET = asyncHandler(async (
       // createdAt: booking.createdAt ?? new Date(),
       // updatedAt: booking.updatedAt ?? new Date()  ,
       availableActions,
-      paymentStatus: booking.bill ? {
+      paymentStatus: booking.bill && balance ? {
         billStatus: booking.bill.status,
         amount: booking.bill.amount,
-        totalPaid: booking.bill.payments
-          .filter(p => p.status === 'successful')
-          .reduce((sum, p) => sum + parseFloat(p.amount.toString()), 0),
-        remainingBalance: parseFloat(booking.bill.amount.toString()) - 
-          booking.bill.payments
-            .filter(p => p.status === 'successful')
-            .reduce((sum, p) => sum + parseFloat(p.amount.toString()), 0)
+        totalPaid: balance.totalPaid,
+        totalRefunded: balance.totalRefunded,
+        netPaid: balance.netPaid,
+        remainingBalance: balance.remainingBalance
       } : null,
       trip: {
         status: booking.trip.status,
@@ -3,6 +3,17 @@ import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages , StatusCodes} from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { releaseExpiredSeatLocks, releaseSeatLock } from '@/lib/seatLockService'
+import { publishSeatChanges } from '@/lib/seatEvents'
+import {
+  getTripStops,
+  resolveSegment,
+  lastStopOf,
+  storedSegment,
+  findSeatsTakenOnSegment,
+  lockTripSeats,
+  SEAT_SALE_TRANSACTION_OPTIONS
+} from '@/lib/routeStopService'
 
 // Force dynamic rendering for this API route
 export const dynamic = 'force-dynamic'
@@ -44,14 +55,17 @@ export const POST = asyncHandler(async (request: NextRequest) => {
         if (parsed > 300) return 'Lock duration cannot exceed 5 minutes'
         return true
       }
-    }
+    },
+    // Stop orders of a segment booking; the whole trip when left out
+    boardingStop: { required: false, type: 'number', min: 0 },
+    alightingStop: { required: false, type: 'number', min: 1 }
   })
 
   if (!validationResult.isValid) {
     return createValidationResponse(validationResult)
   }
 
-  const { tripId, seatNumbers, lockDuration = 120 } = body // Default 2 minutes
+  const { tripId, seatNumbers, lockDuration = 120, boardingStop, alightingStop } = body // Default 2 minutes
 
   // Check if trip exists and is available
   const trip = await prisma.trip.findUnique({
@@ -76,8 +90,27 @@ export const POST = asyncHandler(async (request: NextRequest) => {
     )
   }
 
+  const stops = await getTripStops(prisma, tripId)
+  const segment = resolveSegment(stops, boardingStop, alightingStop)
+
+  // Reclaim expired locks on this trip so abandoned checkouts don't block the request
+  await releaseExpiredSeatLocks({ tripId })
+
   // Lock seats with concurrent protection
   const lockResult = await prisma.$transaction(async (tx) => {
+    // Wait for any booking or lock of these seats in flight before checking them
+    await lockTripSeats(tx, tripId, seatNumbers)
+
+    // Release this user's previous locks on the trip so re-selecting seats starts fresh
+    const previousLocks = await tx.seatLock.findMany({
+      where: { tripId, userId },
+      select: { id: true }
+    })
+
+    for (const previousLock of previousLocks) {
+      await releaseSeatLock(tx, previousLock.id)
+    }
+
     // Check if seats exist and are available
     const seats = await tx.seat.findMany({
       where: {
@@ -87,7 +120,12 @@ export const POST = asyncHandler(async (request: NextRequest) => {
       select: {
         id: true,
         seatNumber: true,
-        status: true
+        status: true,
+        lock: {
+          select: {
+            userId: true
+          }
+        }
       }
     })
 
@@ -97,48 +135,8 @@ export const POST = asyncHandler(async (request: NextRequest) => {
       throw ApiError.validation(`The following seats do not exist: ${missingSeats.join(', ')}`)
     }
 
-    const unavailableSeats = seats.filter(seat => seat.status !== 'available')
-    if (unavailableSeats.length > 0) {
-      throw ApiError.validation(
-        `The following seats are not available: ${unavailableSeats.map(seat => seat.seatNumber).join(', ')}`
-      )
-    }
-
-    // Check for existing locks by this user
-    const existingLocks = await tx.seat.findMany({
-      where: {
-        tripId,
-        seatNumber: { in: seatNumbers },
-        status: 'reserved'
-      },
-      include: {
-        bookingDetails: {
-          include: {
-            booking: {
-              select: {
-                userId: true,
-                bookingDate : true,
-                createdAt : true,
-                updatedAt:true
-                
-              }
-            }
-          }
-        }
-      }
-    })
-
-    // Check if seats are locked by another user (within lock duration)
-    const now = new Date()
-    const lockExpiryTime = new Date(now.getTime() - lockDuration * 1000)
-
-    const conflictingLocks = existingLocks.filter(seat => {
-      const booking = seat.bookingDetails[0]?.booking
-      if (!booking) return false
-      
-      // If locked by different user and within lock duration
-      return booking.userId !== userId && booking.bookingDate  > lockExpiryTime
-    })
+    // Check if seats are locked by another user
+    const conflictingLocks = seats.filter(seat => seat.status === 'reserved' && seat.lock && seat.lock.userId !== userId)
 
     if (conflictingLocks.length > 0) {
       throw ApiError.conflict(
@@ -146,52 +144,51 @@ export const POST = asyncHandler(async (request: NextRequest) => {
       )
     }
 
-    // Create temporary booking to lock seats
-    const lockBooking = await tx.booking.create({
+    // A seat still on sale for part of the trip is available, but not for a segment it is sold on
+    const takenSeatIds = await findSeatsTakenOnSegment(tx, tripId, segment, lastStopOf(stops))
+    const unavailableSeats = seats.filter(seat => seat.status !== 'available' || takenSeatIds.has(seat.id))
+    if (unavailableSeats.length > 0) {
+      throw ApiError.validation(
+        `The following seats are not available: ${unavailableSeats.map(seat => seat.seatNumber).join(', ')}`
+      )
+    }
+
+    const now = new Date()
+    const seatLock = await tx.seatLock.create({
       data: {
         userId,
         tripId,
-        bookingDate: new Date(),
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        
-
-        totalPrice: 0, // Temporary booking, no price
-        status: 'pending',
-        details: {
-          create: seats.map(seat => ({
-            seatId: seat.id,
-            price: 0 // Temporary booking, no price
-          }))
-        }
-      },
-      select: {
-        id: true,
-        createdAt: true,
-        updatedAt: true,
-        bookingDate: true,
-        totalPrice: true,
-        status: true,
-        details: true
+        ...storedSegment(segment, lastStopOf(stops)),
+        expiresAt: new Date(now.getTime() + lockDuration * 1000)
       }
     })
 
-    // Update seats to reserved status
-    await tx.seat.updateMany({
+    // Reserve the seats, guarding against another request locking them in the meantime
+    const reserved = await tx.seat.updateMany({
       where: {
-        id: { in: seats.map(seat => seat.id) }
+        id: { in: seats.map(seat => seat.id) },
+        status: 'available'
       },
-      data: { status: 'reserved' }
+      data: { status: 'reserved', lockId: seatLock.id }
     })
 
+    if (reserved.count !== seats.length) {
+      throw ApiError.conflict('Some seats were just taken by another user. Please try again.')
+    }
+
     return {
-      lockId: lockBooking.id,
+      lockId: seatLock.id,
       seats: seatNumbers,
-      lockedAt: lockBooking.createdAt,
-      expiresAt: new Date(lockBooking.createdAt.getTime() + lockDuration * 1000),
+      boardingStop: segment.boardingStop,
+      alightingStop: segment.alightingStop,
+      lockedAt: seatLock.createdAt,
+      expiresAt: seatLock.expiresAt,
       lockDuration
     }
-  })
+  }, SEAT_SALE_TRANSACTION_OPTIONS)
+
+  // Previous locks may have been released too, so push the whole trip
+  await publishSeatChanges(tripId)
 
   return ApiResponseBuilder.success(
     {
@@ -225,54 +222,32 @@ export const DELETE = asyncHandler(async (request: NextRequest) => {
 
   // Release locks in transaction
   const releaseResult = await prisma.$transaction(async (tx) => {
-    // Find the lock booking
-    const lockBooking = await tx.booking.findUnique({
-      where: { id: lockId },
-      include: {
-        details: {
-          include: {
-            seat: true
-          }
-        }
-      }
+    // Find the lock
+    const seatLock = await tx.seatLock.findUnique({
+      where: { id: lockId }
     })
 
-    if (!lockBooking) {
-      throw ApiError.notFound('Lock not found')
+    if (!seatLock) {
+      throw ApiError.notFound('Lock')
     }
 
-    if (lockBooking.userId !== userId) {
+    if (seatLock.userId !== userId) {
       throw ApiError.forbidden('You can only release your own locks')
     }
 
-    if (lockBooking.status !== 'pending') {
-      ApiError.validation('Lock has already been processed')
-    }
-
-    // Update seats back to available
-    await tx.seat.updateMany({
-      where: {
-        id: { in: lockBooking.details.map(detail => detail.seatId) }
-      },
-      data: { status: 'available' }
-    })
-
-    // Delete the temporary booking
-    await tx.bookingDetail.deleteMany({
-      where: { bookingId: lockId }
-    })
-
-    await tx.booking.delete({
-      where: { id: lockId }
-    })
+    // Free the seats and delete the lock
+    const released = await releaseSeatLock(tx, lockId)
 
     return {
       lockId,
-      releasedSeats: lockBooking.details.map(detail => detail.seat.seatNumber),
+      tripId: seatLock.tripId,
+      releasedSeats: released?.seats ?? [],
       releasedAt: new Date()
     }
   })
 
+  await publishSeatChanges(releaseResult.tripId)
+
   return ApiResponseBuilder.success(
     releaseResult,
     'Seat locks released successfully'
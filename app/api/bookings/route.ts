@@ -1,10 +1,21 @@
 import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
-import { Decimal } from '@prisma/client/runtime/library'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages ,StatusCodes } from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
 import { Seat } from '@prisma/client'
+import { releaseExpiredSeatLocks, consumeSeatLock } from '@/lib/seatLockService'
+import { publishSeatChanges } from '@/lib/seatEvents'
+import { priceSeats } from '@/lib/seatPricing'
+import {
+  resolveSegment,
+  lastStopOf,
+  storedSegment,
+  findSeatsTakenOnSegment,
+  lockTripSeats,
+  syncSeatStatuses,
+  SEAT_SALE_TRANSACTION_OPTIONS
+} from '@/lib/routeStopService'
 
 // Force dynamic rendering for this API route
 export const dynamic = 'force-dynamic'
@@ -18,9 +29,10 @@ export const POST = asyncHandler(async (request: NextRequest) => {
     return ApiResponseBuilder.unauthorized('Authentication required')
   }
 
-  // Validate request data - support both seat selection methods
+  // Validate request data - support seat locks and both seat selection methods
   const validationResult = validateRequest(body, {
     tripId: { required: true },
+    lockId: { required: false, type: 'string' },
     seatsNumber: { 
       required: false, 
       min: 1, 
@@ -46,26 +58,33 @@ export const POST = asyncHandler(async (request: NextRequest) => {
         }
         return true
       }
-    }
+    },
+    // Stop orders of a segment booking; a seat lock brings its own segment
+    boardingStop: { required: false, type: 'number', min: 0 },
+    alightingStop: { required: false, type: 'number', min: 1 }
   })
 
   if (!validationResult.isValid) {
     return createValidationResponse(validationResult)
   }
 
-  const { tripId, seatsNumber, selectedSeats } = body
+  const { tripId, seatsNumber, selectedSeats, lockId, boardingStop, alightingStop } = body
 
   // Ensure at least one selection method is provided
-  if (!seatsNumber && !selectedSeats) {
+  if (!lockId && !seatsNumber && !selectedSeats) {
     return ApiResponseBuilder.validationError(
-      { seatsNumber: ['Either seatsNumber or selectedSeats must be provided'] },
+      { seatsNumber: ['Either lockId, seatsNumber or selectedSeats must be provided'] },
       ErrorMessages.VALIDATION_FAILED
     )
   }
 
-  // Determine seat selection method
-  const useSpecificSeats = selectedSeats && selectedSeats.length > 0
-  const seatCount = useSpecificSeats ? selectedSeats.length : parseInt(seatsNumber)
+  // Determine seat selection method (a lock takes precedence: its seats are already reserved)
+  const useSeatLock = Boolean(lockId)
+  const useSpecificSeats = !useSeatLock && selectedSeats && selectedSeats.length > 0
+  const seatCount = useSeatLock ? 0 : useSpecificSeats ? selectedSeats.length : parseInt(seatsNumber)
+
+  // Return seats held by expired locks before checking availability
+  await releaseExpiredSeatLocks({ tripId })
 
   // Comprehensive trip validation
   const trip = await prisma.trip.findUnique({
@@ -92,6 +111,10 @@ export const POST = asyncHandler(async (request: NextRequest) => {
           seatNumber: true,
           status: true
         }
+      },
+      seatClassPrices: true,
+      stops: {
+        orderBy: { stopOrder: 'asc' }
       }
     }
   })
@@ -100,6 +123,10 @@ export const POST = asyncHandler(async (request: NextRequest) => {
     return ApiResponseBuilder.notFound('Trip')
   }
 
+  const lastStop = lastStopOf(trip.stops)
+  const requestedSegment = resolveSegment(trip.stops, boardingStop, alightingStop)
+  const takenSeatIds = await findSeatsTakenOnSegment(prisma, tripId, requestedSegment, lastStop)
+
   // Comprehensive business logic validation
   const validationErrors: string[] = []
 
@@ -123,9 +150,11 @@ export const POST = asyncHandler(async (request: NextRequest) => {
     validationErrors.push('Cannot book a trip that has already departed')
   }
 
-  // Check seat availability
-  const availableSeatsCount = trip.seats.filter(seat => seat.status === 'available').length
-  if (availableSeatsCount < seatCount) {
+  // Check seat availability (locked seats are checked when the lock is consumed)
+  const availableSeatsCount = trip.seats
+    .filter(seat => seat.status === 'available' && !takenSeatIds.has(seat.id))
+    .length
+  if (!useSeatLock && availableSeatsCount < seatCount) {
     validationErrors.push(`Only ${availableSeatsCount} seats are available. Requested: ${seatCount}`)
   }
 
@@ -152,16 +181,24 @@ export const POST = asyncHandler(async (request: NextRequest) => {
 
   const booking = await prisma.$transaction(async (tx) => {
     let availableSeats: Seat[]
-
-    if (useSpecificSeats) {
-      // Find specific seats by seat numbers
-      availableSeats = await tx.seat.findMany({
+    let segment = requestedSegment
+
+    if (useSeatLock) {
+      // Convert the exact seats held by the lock, for the segment they were locked for
+      const consumed = await consumeSeatLock(tx, lockId, userId, tripId)
+      availableSeats = consumed.seats
+      segment = resolveSegment(trip.stops, consumed.boardingStop, consumed.alightingStop)
+    } else if (useSpecificSeats) {
+      // Find specific seats by seat numbers, once no other sale of them is in flight
+      await lockTripSeats(tx, tripId, selectedSeats)
+      const seatIdsTaken = await findSeatsTakenOnSegment(tx, tripId, segment, lastStop)
+      availableSeats = (await tx.seat.findMany({
         where: {
           tripId,
           seatNumber: { in: selectedSeats },
           status: 'available'
         }
-      });
+      })).filter(seat => !seatIdsTaken.has(seat.id));
 
       if (availableSeats.length !== selectedSeats.length) {
         const unavailableSeats = selectedSeats.filter(
@@ -172,11 +209,14 @@ export const POST = asyncHandler(async (request: NextRequest) => {
         )
       }
     } else {
-      // Find any available seats (quantity-based selection)
+      // Find any available seats (quantity-based selection); any seat may be picked, so lock them all
+      await lockTripSeats(tx, tripId)
+      const seatIdsTaken = await findSeatsTakenOnSegment(tx, tripId, segment, lastStop)
       availableSeats = await tx.seat.findMany({
         where: {
           tripId,
-          status: 'available'
+          status: 'available',
+          id: { notIn: Array.from(seatIdsTaken) }
         },
         take: seatCount,
         orderBy: { seatNumber: 'asc' }
@@ -187,18 +227,26 @@ export const POST = asyncHandler(async (request: NextRequest) => {
       }
     }
 
-    const totalPrice = new Decimal(trip.price).mul(availableSeats.length);
+    // Each seat is charged according to its class and the part of the trip travelled
+    const { seats: pricedSeats, totalPrice } = priceSeats(
+      trip.price,
+      availableSeats,
+      trip.seatClassPrices,
+      segment.fareFraction
+    )
 
     const newBooking = await tx.booking.create({
       data: {
         userId,
         tripId,
         totalPrice,
+        ...storedSegment(segment, lastStop),
         status: 'pending',
         details: {
-          create: availableSeats.map(seat => ({
+          create: pricedSeats.map(seat => ({
             seatId: seat.id,
-            price: trip.price
+            seatClass: seat.seatClass,
+            price: seat.price
           }))
         },
         bill: {
@@ -233,6 +281,7 @@ export const POST = asyncHandler(async (request: NextRequest) => {
               select: {
                 id: true,
                 seatNumber: true,
+                seatClass: true,
                 status: true
               }
             }
@@ -254,15 +303,13 @@ export const POST = asyncHandler(async (request: NextRequest) => {
       }
     });
 
-    await tx.seat.updateMany({
-      where: {
-        id: { in: availableSeats.map(seat => seat.id) }
-      },
-      data: { status: 'booked' }
-    });
+    // Seats sold for only part of the trip stay on sale for the rest of it
+    await syncSeatStatuses(tx, tripId, availableSeats.map(seat => seat.id))
 
     return newBooking
-  });
+  }, SEAT_SALE_TRANSACTION_OPTIONS);
+
+  await publishSeatChanges(tripId, booking.details.map(detail => detail.seatId))
 
   return ApiResponseBuilder.created(
     {
@@ -287,6 +334,7 @@ export const POST = asyncHandler(async (request: NextRequest) => {
       seats: booking.details.map(detail => ({
         id: detail.seat.id,
         seatNumber: detail.seat.seatNumber,
+        seatClass: detail.seatClass,
         price: detail.price
       })),
       payment: {
@@ -366,10 +414,14 @@ export const GET = asyncHandler(async (request: NextRequest) => {
             select: {
               id: true,
               seatNumber: true,
+              seatClass: true,
               status: true
             }
           }
         }
+      },
+      rating: {
+        select: { rating: true }
       }
     },
     orderBy: {
@@ -405,6 +457,7 @@ export const GET = asyncHandler(async (request: NextRequest) => {
     seats: booking.details.map(detail => ({
       id: detail.seat.id,
       seatNumber: detail.seat.seatNumber,
+      seatClass: detail.seatClass,
       price: detail.price,
       status: detail.seat.status
     }))
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
+import { Prisma } from '@prisma/client'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages } from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
@@ -21,7 +22,7 @@ export const GET = asyncHandler(async (
   }
 
   // Build include clause
-  const include: any = {}
+  const include: Prisma.BusInclude = {}
   if (includeTrips) {
     const tripWhere: any = {}
     if (tripStatus) {
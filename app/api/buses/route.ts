@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
+import { Prisma } from '@prisma/client'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages } from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
@@ -38,7 +39,7 @@ export const GET = asyncHandler(async (request: NextRequest) => {
   const skip = (page - 1) * limit
 
   // Build include clause
-  const include: any = {}
+  const include: Prisma.BusInclude = {}
   if (includeTrips) {
     include.trips = {
       include: {
@@ -0,0 +1,53 @@
+import { NextRequest } from 'next/server'
+import { ApiResponseBuilder, StatusCodes } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { getPaymentProvider, PaymentProvider, PaymentWebhookEvent } from '@/lib/paymentProvider'
+import { processPaymentWebhookEvent } from '@/lib/paymentService'
+import { publishSeatChanges } from '@/lib/seatEvents'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+
+// Header carrying the provider signature of the raw body
+const SIGNATURE_HEADER = 'x-webhook-signature'
+
+// POST - Receive a payment event from a provider (public, authenticated by signature)
+export const POST = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { provider: string } }
+) => {
+  let provider: PaymentProvider
+  try {
+    provider = getPaymentProvider(params.provider)
+  } catch {
+    return ApiResponseBuilder.notFound('Payment provider')
+  }
+
+  // The signature covers the exact bytes sent, so read the body as text
+  const payload = await request.text()
+
+  if (!provider.verifyWebhookSignature(payload, request.headers.get(SIGNATURE_HEADER))) {
+    return ApiResponseBuilder.unauthorized('Invalid webhook signature')
+  }
+
+  let event: PaymentWebhookEvent
+  try {
+    event = provider.parseWebhookEvent(payload)
+  } catch (error) {
+    return ApiResponseBuilder.error(
+      error instanceof Error ? error.message : 'Malformed webhook payload',
+      StatusCodes.BAD_REQUEST
+    )
+  }
+
+  const result = await processPaymentWebhookEvent(provider.name, event, JSON.parse(payload))
+
+  if (result.tripId) {
+    await publishSeatChanges(result.tripId)
+  }
+
+  return ApiResponseBuilder.success(
+    result,
+    result.duplicate ? 'Event already received' : `Event ${result.status}`
+  )
+})
@@ -1,7 +1,5 @@
 import { NextRequest } from 'next/server';
-import { headers } from 'next/headers';
 import prisma from '@/lib/prisma';
-import jwt from 'jsonwebtoken';
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages ,StatusCodes} from '@/lib/apiResponse'
 import { validateRequest, createValidationResponse } from '@/lib/validation'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
@@ -15,31 +13,16 @@ export const dynamic = 'force-dynamic';
 
 export const GET = asyncHandler(async (req: NextRequest) => {
   try {
-    const headersList = headers();
-    const authHeader = headersList.get('Authorization');
+    // The middleware has already verified the token
+    const userId = req.headers.get('userId');
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!userId) {
       return ApiResponseBuilder.error(
         'Authorization token required',
         StatusCodes.UNAUTHORIZED
       );
     }
 
-    const token = authHeader.split(' ')[1];
-    const secret = process.env.JWT_SECRET || 'your-secret-key';
-
-    let userId: string;
-
-    try {
-      const decoded = jwt.verify(token, secret) as { userId: string };
-      userId = decoded.userId;
-    } catch (err) {
-      return ApiResponseBuilder.error(
-        'Invalid or expired token',
-        StatusCodes.UNAUTHORIZED
-      );
-    }
-
     // Add pagination support
     const { searchParams } = new URL(req.url);
     const page = parseInt(searchParams.get('page') || '1');
@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server'
 import prisma from '@/lib/prisma'
+import { seatPrice } from '@/lib/seatPricing'
+import { getRouteRatingSummary, listPublicFeedback } from '@/lib/ratingService'
+import { resolveSegment, lastStopOf, findSeatsTakenOnSegment } from '@/lib/routeStopService'
 
 // Get single trip
 export async function GET(
@@ -20,7 +23,12 @@ export async function GET(
         
         seats: true,
         bus: true,
-        images: true
+        images: true,
+        seatClassPrices: true,
+        stops: {
+          orderBy: { stopOrder: 'asc' },
+          include: { city: true }
+        }
       }
     })
   
@@ -31,10 +39,55 @@ export async function GET(
         { status: 404 }
       )
     }
+
+    // Seats and prices are for the segment asked for (?boardingStop=&alightingStop=), the whole trip by default
+    const { searchParams } = new URL(req.url)
+    const optionalStop = (name: string) => {
+      const value = searchParams.get(name)
+      return value === null || value === '' ? null : Number(value)
+    }
+
+    let segment
+    try {
+      segment = resolveSegment(trip.stops, optionalStop('boardingStop'), optionalStop('alightingStop'))
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid boarding or alighting stop' },
+        { status: 400 }
+      )
+    }
+
+    const takenSeatIds = await findSeatsTakenOnSegment(prisma, trip.id, segment, lastStopOf(trip.stops))
+
+    const [ratingSummary, recentFeedback] = await Promise.all([
+      getRouteRatingSummary(trip.routeId),
+      listPublicFeedback(trip.routeId)
+    ])
+
      // Parse imageUrls if it's stored as a JSON string
      const parsedTrip = {
       ...trip,
-      images: trip.images
+      images: trip.images,
+      seats: trip.seats.map(seat => ({
+        ...seat,
+        status: seat.status === 'available' && takenSeatIds.has(seat.id) ? 'booked' : seat.status,
+        price: seatPrice(trip.price, seat.seatClass, trip.seatClassPrices)
+          .mul(segment.fareFraction)
+          .toDecimalPlaces(2)
+      })),
+      stops: trip.stops.map(stop => ({
+        stopOrder: stop.stopOrder,
+        cityId: stop.cityId,
+        city: stop.city.name,
+        cityAr: stop.city.nameAr,
+        scheduledAt: stop.scheduledAt
+      })),
+      segment: {
+        boardingStop: segment.boardingStop,
+        alightingStop: segment.alightingStop
+      },
+      ratingSummary,
+      recentFeedback
     }
 
     return NextResponse.json(parsedTrip)
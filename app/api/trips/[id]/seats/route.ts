@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages } from '@/lib/apiResponse'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { seatPrice } from '@/lib/seatPricing'
 
 // Force dynamic rendering for this API route
 export const dynamic = 'force-dynamic'
@@ -36,7 +37,8 @@ export const GET = asyncHandler(async (
           capacity: true,
           status: true
         }
-      }
+      },
+      seatClassPrices: true
     }
   })
 
@@ -74,6 +76,8 @@ export const GET = asyncHandler(async (
     acc[seat.status || ''].push({
       id: seat.id,
       seatNumber: seat.seatNumber,
+      seatClass: seat.seatClass,
+      price: seatPrice(trip.price, seat.seatClass, trip.seatClassPrices),
       status: seat.status
     })
     return acc
@@ -102,6 +106,11 @@ export const GET = asyncHandler(async (
         departureTime: trip.departureTime,
         arrivalTime: trip.arrivalTime,
         price: trip.price,
+        seatClassPrices: trip.seatClassPrices.map(entry => ({
+          seatClass: entry.seatClass,
+          price: entry.price,
+          multiplier: entry.multiplier
+        })),
         status: trip.status,
         lastBookingTime: trip.lastBookingTime,
         route: {
@@ -125,6 +134,8 @@ export const GET = asyncHandler(async (
         all: seats.map(seat => ({
           id: seat.id,
           seatNumber: seat.seatNumber,
+          seatClass: seat.seatClass,
+          price: seatPrice(trip.price, seat.seatClass, trip.seatClassPrices),
           status: seat.status
         })),
         byStatus: seatsByStatus
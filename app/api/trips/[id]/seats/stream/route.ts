@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server'
+import prisma from '@/lib/prisma'
+import { ApiResponseBuilder } from '@/lib/apiResponse'
+import { asyncHandler } from '@/lib/errorHandler'
+import { subscribeToSeatUpdates, SeatUpdateEvent } from '@/lib/seatEvents'
+
+// Force dynamic rendering for this API route
+export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+
+// Keep-alive comment interval so proxies don't close idle connections
+const HEARTBEAT_INTERVAL_MS = 25 * 1000
+
+// GET - Stream seat status changes for a trip as Server-Sent Events
+export const GET = asyncHandler(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  const tripId = params.id
+
+  // Validate trip ID
+  if (!tripId || typeof tripId !== 'string') {
+    return ApiResponseBuilder.error('Invalid trip ID', 400)
+  }
+
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
+    select: {
+      id: true,
+      seats: {
+        select: {
+          id: true,
+          seatNumber: true,
+          status: true
+        },
+        orderBy: { seatNumber: 'asc' }
+      }
+    }
+  })
+
+  if (!trip) {
+    return ApiResponseBuilder.notFound('Trip')
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      // Initial snapshot so clients start from the current state
+      send('snapshot', {
+        tripId,
+        seats: trip.seats,
+        emittedAt: new Date().toISOString()
+      })
+
+      const unsubscribe = subscribeToSeatUpdates(tripId, (event: SeatUpdateEvent) => {
+        send('seats', event)
+      })
+
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(': ping\n\n'))
+      }, HEARTBEAT_INTERVAL_MS)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+      }
+
+      request.signal.addEventListener('abort', () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Stream already closed
+        }
+      })
+    },
+    cancel() {
+      cleanup()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+})
@@ -2,6 +2,7 @@ import { NextRequest ,NextResponse} from 'next/server'
 import prisma from '@/lib/prisma'
 import { ApiResponseBuilder, SuccessMessages, ErrorMessages ,StatusCodes} from '@/lib/apiResponse'
 import { asyncHandler, ApiError } from '@/lib/errorHandler'
+import { getRouteRatingSummaries, ratingSummaryFor } from '@/lib/ratingService'
 
 // Simple in-memory cache for trips data
 const cache = new Map<string, { data: any, timestamp: number }>()
@@ -128,6 +129,8 @@ export const GET = asyncHandler(async (request: NextRequest) => {
       return acc
     }, {} as Record<string, any>)
 
+    const ratingSummaries = await getRouteRatingSummaries(trips.map(trip => trip.routeId))
+
     // Process trips with optimized seat summary
     const processedTrips = trips.map(trip => {
       const seatCounts = seatCountsMap[trip.id] || {
@@ -150,7 +153,8 @@ export const GET = asyncHandler(async (request: NextRequest) => {
           reserved: seatCounts.reserved,
           blocked: seatCounts.blocked,
           occupancyRate
-        }
+        },
+        ratingSummary: ratingSummaryFor(ratingSummaries, trip.routeId)
       }
     })
 
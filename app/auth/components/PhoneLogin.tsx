@@ -1,8 +1,12 @@
 'use client';
 
 import { useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { getAuth, RecaptchaVerifier, signInWithPhoneNumber, ConfirmationResult } from "firebase/auth";
 import { auth } from '@/lib/firebase'; // your firebase init file
+import { useAuth } from '@/context/AuthContext';
+import { isStaffRole } from '@/lib/permissions';
+import { storeTwoFactorChallenge } from '@/utils/auth';
 
 declare global {
   interface Window {
@@ -11,7 +15,14 @@ declare global {
 }
 
 
-export default function PhoneLogin() {
+interface PhoneLoginProps {
+  // Receives the Firebase ID token instead of signing in, e.g. to link the phone to an account
+  onVerified?: (idToken: string) => Promise<void>;
+}
+
+export default function PhoneLogin({ onVerified }: PhoneLoginProps = {}) {
+  const router = useRouter();
+  const { login } = useAuth();
   const [phone, setPhone] = useState("");
   const [code, setCode] = useState("");
   const [confirmationResult, setConfirmationResult] = useState<ConfirmationResult | null>(null);
@@ -63,12 +74,35 @@ export default function PhoneLogin() {
     try {
       setLoading(true);
       const result = await confirmationResult.confirm(code);
-      const user = result.user;
-      alert("Phone number verified!");
-      console.log("User:", user);
+      const idToken = await result.user.getIdToken();
+
+      if (onVerified) {
+        await onVerified(idToken);
+        return;
+      }
+
+      // Exchange the Firebase credential for our own tokens
+      const res = await fetch('/api/auth/phone-login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ idToken })
+      });
+
+      const { data, error } = await res.json();
+
+      if (!res.ok) throw new Error(error || 'Phone sign-in failed');
+
+      if (data.twoFactorRequired) {
+        storeTwoFactorChallenge(data);
+        router.push('/auth/two-factor');
+        return;
+      }
+
+      await login(data.user, data.token, data.refreshToken);
+      router.push(isStaffRole(data.user.role) ? '/admin' : '/');
     } catch (err: any) {
-      console.error("Invalid OTP", err);
-      setError("Invalid OTP code.");
+      console.error("Phone sign-in failed", err);
+      setError(err.code === 'auth/invalid-verification-code' ? "Invalid OTP code." : err.message || "Invalid OTP code.");
     } finally {
       setLoading(false);
     }
@@ -3,6 +3,8 @@ import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useAuth } from '@/context/AuthContext'
+import { isStaffRole } from '@/lib/permissions'
+import { storeTwoFactorChallenge } from '@/utils/auth'
 import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline'
 import { useLanguage } from '@/context/LanguageContext'
 import LogoImage from '@/public/images/logo.png'
@@ -34,7 +36,7 @@ export default function LoginPage() {
 
   useEffect(() => {
     if (isAuthenticated) {
-      if(user?.role == 'ADMIN'){
+      if(isStaffRole(user?.role)){
         router.push('/admin')
       }else{
         router.push('/')
@@ -64,6 +66,13 @@ export default function LoginPage() {
         throw new Error(data.data?.error || data.error || 'Login failed')
       }
 
+      // The password was right but the account needs its second factor first
+      if (data.data.twoFactorRequired) {
+        storeTwoFactorChallenge(data.data)
+        router.push('/auth/two-factor')
+        return
+      }
+
       await login(data.data.user, data.data.token, data.data.refreshToken)
       setSuccess(true)
       
@@ -72,7 +72,7 @@ function ResetPasswordForm() {
   const [code, setCode] = useState(['', '', '', '', '', ''])
 
   const handleCodeChange = (index: number, value: string) => {
-    if (value.length > 1) return
+    if (value.length > 1 || /\D/.test(value)) return
     const newCode = [...code]
     newCode[index] = value
     setCode(newCode)
@@ -117,6 +117,8 @@ function ResetPasswordForm() {
                 key={index}
                 id={`code-${index}`}
                 type="text"
+                inputMode="numeric"
+                pattern="[0-9]"
                 maxLength={1}
                 value={code[index]}
                 onChange={(e) => handleCodeChange(index, e.target.value)}
@@ -0,0 +1,137 @@
+'use client'
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/context/AuthContext'
+import { useLanguage } from '@/context/LanguageContext'
+import { isStaffRole } from '@/lib/permissions'
+import { readTwoFactorChallenge, clearTwoFactorChallenge, TwoFactorChallenge } from '@/utils/auth'
+import TwoFactorEnrollment from '@/components/TwoFactorEnrollment'
+
+export default function TwoFactorPage() {
+  const router = useRouter()
+  const { login } = useAuth()
+  const { translations } = useLanguage()
+  const t = translations.auth.twoFactor
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null)
+  const [useBackupCode, setUseBackupCode] = useState(false)
+  const [code, setCode] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    const stored = readTwoFactorChallenge()
+
+    if (!stored) {
+      router.push('/auth/login')
+      return
+    }
+
+    setChallenge(stored)
+  }, [router])
+
+  const finishLogin = async (data: any) => {
+    clearTwoFactorChallenge()
+    await login(data.user, data.token, data.refreshToken)
+    router.push(isStaffRole(data.user.role) ? '/admin' : '/')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!challenge) return
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/auth/two-factor/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          challengeToken: challenge.challengeToken,
+          ...(useBackupCode ? { backupCode: code } : { code })
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        // The challenge only lives a few minutes; an expired one means starting over
+        if (response.status === 401) {
+          clearTwoFactorChallenge()
+          router.push('/auth/login')
+          return
+        }
+        throw new Error(data.error || t.errors.invalidCode)
+      }
+
+      await finishLogin(data.data)
+    } catch (err: any) {
+      setError(err.message || t.errors.invalidCode)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!challenge) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-blue-50 py-12 px-4">
+      <div className="max-w-md w-full bg-white p-10 rounded-3xl shadow-lg">
+        <h2 className="text-2xl font-semibold text-gray-900 mb-2 text-center">
+          {challenge.twoFactorStage === 'enroll' ? t.enroll.title : t.title}
+        </h2>
+
+        {challenge.twoFactorStage === 'enroll' ? (
+          <>
+            <p className="text-center text-sm text-gray-600 mb-6">{t.enroll.required}</p>
+            <TwoFactorEnrollment challengeToken={challenge.challengeToken} onComplete={finishLogin} />
+          </>
+        ) : (
+          <>
+            <p className="text-center text-sm text-gray-600 mb-6">
+              {useBackupCode ? t.backupCodeSubtitle : t.subtitle}
+            </p>
+
+            {error && (
+              <div className="mb-4 text-sm text-red-600 text-center">{error}</div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <input
+                type="text"
+                inputMode={useBackupCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder={useBackupCode ? t.backupCodePlaceholder : t.codePlaceholder}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg text-black text-center tracking-widest focus:ring-blue-500 focus:border-blue-500"
+                dir="ltr"
+                required
+              />
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full py-3 px-4 rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {loading ? t.verifying : t.verify}
+              </button>
+            </form>
+
+            <button
+              onClick={() => {
+                setUseBackupCode(!useBackupCode)
+                setCode('')
+                setError('')
+              }}
+              className="mt-4 w-full text-sm text-blue-600 hover:text-blue-800"
+            >
+              {useBackupCode ? t.useApp : t.useBackupCode}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -63,7 +63,7 @@ function VerifyCodeForm() {
 
 
   const handleCodeChange = (index: number, value: string) => {
-    if (value.length > 1) return
+    if (value.length > 1 || /\D/.test(value)) return
     const newCode = [...code]
     newCode[index] = value
     setCode(newCode)
@@ -145,6 +145,8 @@ function VerifyCodeForm() {
                 key={index}
                 id={`code-${index}`}
                 type="text"
+                inputMode="numeric"
+                pattern="[0-9]"
                 maxLength={1}
                 value={code[index]}
                 onChange={(e) => handleCodeChange(index, e.target.value)}
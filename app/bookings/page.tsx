@@ -6,6 +6,7 @@ import { useLanguage } from '@/context/LanguageContext'
 import { useAuth } from '@/context/AuthContext'
 import BookingModal from '@/components/BookingModal'
 import ConfirmDialog from '@/components/ConfirmDialog'
+import RateTripDialog from '@/components/RateTripDialog'
 import ProtectedRoute from "@/components/ProtectedRoute"
 import UserOnlyGuard from '@/components/UserOnlyGuard'
 
@@ -18,6 +19,8 @@ interface Booking {
   seats: string[]
   price: number
   status: 'pending' | 'confirmed' | 'completed' | 'cancelled'  // Added 'pending' status
+  tripStatus: string
+  rating: number | null
 }
 
   interface ApiBooking {
@@ -28,6 +31,7 @@ interface Booking {
   trip: {
     departureTime: string
     arrivalTime: string
+    status: string
     route: {
       departureCity: {
         name: string
@@ -45,6 +49,17 @@ interface Booking {
       status: string
     }
   }[]
+  rating: { rating: number } | null
+}
+
+// Result of the route's cancellation policy for cancelling now
+interface CancellationPreview {
+  allowed: boolean
+  reason: string | null
+  refundPercentage: number
+  paidAmount: number
+  refundableAmount: number
+  fee: number
 }
 
 export default function BookingsPage() {
@@ -56,6 +71,10 @@ export default function BookingsPage() {
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [isConfirmDialogOpen, setIsConfirmDialogOpen] = useState(false)
   const [loading, setLoading] = useState(true)
+  const [cancellationPreview, setCancellationPreview] = useState<CancellationPreview | null>(null)
+  const [previewLoading, setPreviewLoading] = useState(false)
+  const [previewError, setPreviewError] = useState(false)
+  const [bookingToRate, setBookingToRate] = useState<string | null>(null)
 
 
   const [value1 , setvalue1 ] = useState('')
@@ -101,7 +120,9 @@ export default function BookingsPage() {
         date: booking.trip.departureTime,
         seats: booking.details.map(detail => detail.seat.seatNumber),
         price: Number(booking.totalPrice),
-        status: booking.status
+        status: booking.status,
+        tripStatus: booking.trip.status,
+        rating: booking.rating?.rating ?? null
       }))
 
       setBookings(formattedBookings)
@@ -112,6 +133,36 @@ export default function BookingsPage() {
     }
   }
 
+  // Show the fee and refund before the user confirms the cancellation
+  const openCancelDialog = async (booking: Booking) => {
+    setSelectedBooking(booking)
+    setCancellationPreview(null)
+    setPreviewError(false)
+    setPreviewLoading(true)
+    setIsConfirmDialogOpen(true)
+
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/bookings/${booking.id}/cancellation`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load cancellation policy')
+      }
+
+      setCancellationPreview(data.data)
+    } catch (error) {
+      console.error('Failed to load cancellation policy:', error)
+      setPreviewError(true)
+    } finally {
+      setPreviewLoading(false)
+    }
+  }
+
   const handleCancelBooking = async (bookingId: string) => {
     try {
       const token = localStorage.getItem('token')
@@ -220,15 +271,27 @@ export default function BookingsPage() {
                   </button>
                   {(booking.status === 'confirmed' || booking.status === 'pending') && (
                     <button
-                      onClick={() => {
-                        setSelectedBooking(booking)
-                        setIsConfirmDialogOpen(true)
-                      }}
+                      onClick={() => openCancelDialog(booking)}
                       className="text-red-600 hover:text-red-800 font-medium"
                     >
                       {translations.bookings.bookingCard.cancelBooking}
                     </button>
                   )}
+                  {/* Trips can be rated once they are completed */}
+                  {booking.status !== 'cancelled' && booking.tripStatus === 'completed' && (
+                    booking.rating ? (
+                      <span className="text-gray-600 text-sm">
+                        {translations.bookings.rateTrip.yourRating}: <span className="text-yellow-500">★</span> {booking.rating}
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => setBookingToRate(booking.id)}
+                        className="text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        {translations.bookings.rateTrip.button}
+                      </button>
+                    )
+                  )}
                 </div>
               </div>
             ))}
@@ -240,20 +303,66 @@ export default function BookingsPage() {
         booking={selectedBooking}
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
-        onCancelBooking={(id) => {
+        onCancelBooking={() => {
           setIsModalOpen(false)
-          setSelectedBooking(null)
-          handleCancelBooking(id)
+          if (selectedBooking) {
+            openCancelDialog(selectedBooking)
+          }
         }}
       />
 
+      <RateTripDialog
+        bookingId={bookingToRate}
+        isOpen={bookingToRate !== null}
+        onClose={() => setBookingToRate(null)}
+        onRated={(rating) => setBookings(bookings.map(booking =>
+          booking.id === bookingToRate ? { ...booking, rating } : booking
+        ))}
+      />
+
       <ConfirmDialog
         isOpen={isConfirmDialogOpen}
         onClose={() => setIsConfirmDialogOpen(false)}
         onConfirm={() => selectedBooking && handleCancelBooking(selectedBooking.id)}
         title={selectedBooking?.id || ''}
         message={translations.bookings.confirmCancel.message}
-      />
+        confirmDisabled={previewLoading || (cancellationPreview !== null && !cancellationPreview.allowed)}
+      >
+        <div className="mb-6 text-sm text-black">
+          {previewLoading && (
+            <p className="text-center text-gray-500">{translations.bookings.confirmCancel.policy.loading}</p>
+          )}
+          {previewError && (
+            <p className="text-center text-red-600">{translations.bookings.confirmCancel.policy.loadFailed}</p>
+          )}
+          {cancellationPreview && !cancellationPreview.allowed && (
+            <p className="text-center text-red-600">
+              {translations.bookings.confirmCancel.policy.notAllowed}
+              {cancellationPreview.reason && <span className="block text-gray-500">{cancellationPreview.reason}</span>}
+            </p>
+          )}
+          {cancellationPreview && cancellationPreview.allowed && (
+            <dl className="space-y-1 rounded-lg bg-gray-50 p-4">
+              <div className="flex justify-between">
+                <dt className="text-gray-600">{translations.bookings.confirmCancel.policy.paidAmount}</dt>
+                <dd dir="ltr">{cancellationPreview.paidAmount} SAR</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">{translations.bookings.confirmCancel.policy.refundPercentage}</dt>
+                <dd dir="ltr">{cancellationPreview.refundPercentage}%</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">{translations.bookings.confirmCancel.policy.fee}</dt>
+                <dd dir="ltr">{cancellationPreview.fee} SAR</dd>
+              </div>
+              <div className="flex justify-between font-semibold border-t border-gray-200 pt-1">
+                <dt>{translations.bookings.confirmCancel.policy.refundable}</dt>
+                <dd dir="ltr">{cancellationPreview.refundableAmount} SAR</dd>
+              </div>
+            </dl>
+          )}
+        </div>
+      </ConfirmDialog>
     </div>
   )
   return (
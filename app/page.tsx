@@ -4,6 +4,7 @@ import Image from "next/image"
 import { useLanguage } from "@/context/LanguageContext"
 import Link from "next/link"
 import UserOnlyGuard from '@/components/UserOnlyGuard'
+import AdCarousel from '@/components/AdCarousel'
 import busHero from '@/public/images/bus-hero.png'
 
 export default function Home() {
@@ -50,6 +51,13 @@ export default function Home() {
           </div>
         </section>
 
+        {/* Ads Section */}
+        <section className="bg-white pt-12">
+          <div className="max-w-5xl mx-auto px-4">
+            <AdCarousel />
+          </div>
+        </section>
+
         {/* Stats Section */}
         <section className="bg-white py-20">
           <div className="max-w-7xl mx-auto px-4">
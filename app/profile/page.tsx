@@ -0,0 +1,549 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import toast, { Toaster } from 'react-hot-toast'
+import { signInWithPopup } from 'firebase/auth'
+import {
+  UserCircleIcon,
+  ComputerDesktopIcon,
+  ArrowRightOnRectangleIcon,
+  KeyIcon,
+  ShieldCheckIcon
+} from '@heroicons/react/24/outline'
+import { auth, provider } from '@/lib/firebase'
+import { useLanguage } from '@/context/LanguageContext'
+import { useAuth } from '@/context/AuthContext'
+import ConfirmDialog from '@/components/ConfirmDialog'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import PhoneLogin from '@/app/auth/components/PhoneLogin'
+import TwoFactorEnrollment from '@/components/TwoFactorEnrollment'
+
+interface Profile {
+  id: string
+  name: string
+  email: string | null
+  phone: string | null
+}
+
+type AuthProvider = 'password' | 'google' | 'phone'
+
+interface LinkedIdentity {
+  provider: AuthProvider
+  providerUserId: string
+  linkedAt: string
+}
+
+const AUTH_PROVIDERS: AuthProvider[] = ['password', 'google', 'phone']
+
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  required: boolean
+  backupCodesRemaining: number
+}
+
+interface DeviceSession {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: string
+  lastUsedAt: string
+  current: boolean
+}
+
+function ProfileContent() {
+  const { language, translations } = useLanguage()
+  const { logout } = useAuth()
+  const t = translations.profile
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [sessions, setSessions] = useState<DeviceSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [revokingId, setRevokingId] = useState<string | null>(null)
+  const [isSignOutAllOpen, setIsSignOutAllOpen] = useState(false)
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([])
+  const [linking, setLinking] = useState<AuthProvider | null>(null)
+  const [newPassword, setNewPassword] = useState('')
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null)
+  const [isEnrolling, setIsEnrolling] = useState(false)
+  const [twoFactorCode, setTwoFactorCode] = useState('')
+  const [newBackupCodes, setNewBackupCodes] = useState<string[]>([])
+
+  useEffect(() => {
+    fetchAccount()
+  }, [])
+
+  const fetchAccount = async () => {
+    try {
+      setLoading(true)
+      const token = localStorage.getItem('token')
+      const headers = { 'Authorization': `Bearer ${token}` }
+
+      const [profileResponse, sessionsResponse, identitiesResponse] = await Promise.all([
+        fetch('/api/auth/profile', { headers }),
+        fetch('/api/auth/sessions', { headers }),
+        fetch('/api/auth/identities', { headers })
+      ])
+
+      fetchTwoFactorStatus()
+
+      if (profileResponse.ok) {
+        const { data } = await profileResponse.json()
+        setProfile(data)
+      }
+
+      if (identitiesResponse.ok) {
+        const { data } = await identitiesResponse.json()
+        setIdentities(data)
+      }
+
+      if (!sessionsResponse.ok) {
+        throw new Error('Failed to load sessions')
+      }
+
+      const { data } = await sessionsResponse.json()
+      setSessions(data)
+    } catch (error) {
+      console.error('Error loading account:', error)
+      toast.error(t.sessions.loadFailed)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRevoke = async (session: DeviceSession) => {
+    try {
+      setRevokingId(session.id)
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/auth/sessions/${session.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to revoke session')
+      }
+
+      // Signing this device out ends the local session too
+      if (session.current) {
+        logout()
+        return
+      }
+
+      setSessions(sessions.filter(item => item.id !== session.id))
+      toast.success(t.sessions.revokeSuccess)
+    } catch (error) {
+      console.error('Error revoking session:', error)
+      toast.error(t.sessions.revokeError)
+    } finally {
+      setRevokingId(null)
+    }
+  }
+
+  const handleSignOutAll = async () => {
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch('/api/auth/sessions', {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to sign out of all devices')
+      }
+
+      logout()
+    } catch (error) {
+      console.error('Error signing out of all devices:', error)
+      toast.error(t.sessions.signOutAllError)
+    } finally {
+      setIsSignOutAllOpen(false)
+    }
+  }
+
+  const submitLink = async (method: AuthProvider, body: Record<string, string>) => {
+    const token = localStorage.getItem('token')
+    const response = await fetch(`/api/auth/identities/${method}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify(body)
+    })
+
+    const result = await response.json()
+
+    if (!response.ok) {
+      throw new Error(result.error || t.signInMethods.linkError)
+    }
+
+    setIdentities(result.data.identities)
+    setLinking(null)
+    setNewPassword('')
+    toast.success(t.signInMethods.linkSuccess)
+  }
+
+  const handleLinkGoogle = async () => {
+    try {
+      setLinking('google')
+      const result = await signInWithPopup(auth, provider)
+      await submitLink('google', { idToken: await result.user.getIdToken() })
+    } catch (error: any) {
+      console.error('Error linking Google:', error)
+      toast.error(error.message || t.signInMethods.linkError)
+      setLinking(null)
+    }
+  }
+
+  const handleSetPassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      await submitLink('password', { password: newPassword })
+    } catch (error: any) {
+      console.error('Error setting password:', error)
+      toast.error(error.message || t.signInMethods.linkError)
+    }
+  }
+
+  const handleUnlink = async (method: AuthProvider) => {
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/auth/identities/${method}`, {
+        method: 'DELETE',
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || t.signInMethods.unlinkError)
+      }
+
+      setIdentities(result.data.identities)
+      toast.success(t.signInMethods.unlinkSuccess)
+    } catch (error: any) {
+      console.error('Error unlinking sign-in method:', error)
+      toast.error(error.message || t.signInMethods.unlinkError)
+    }
+  }
+
+  const fetchTwoFactorStatus = async () => {
+    const token = localStorage.getItem('token')
+    const response = await fetch('/api/auth/two-factor', {
+      headers: { 'Authorization': `Bearer ${token}` }
+    })
+
+    if (response.ok) {
+      const { data } = await response.json()
+      setTwoFactor(data)
+    }
+  }
+
+  // Regenerating backup codes and turning 2FA off both need a current code
+  const handleTwoFactorAction = async (action: 'regenerate' | 'disable') => {
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(
+        action === 'regenerate' ? '/api/auth/two-factor/backup-codes' : '/api/auth/two-factor',
+        {
+          method: action === 'regenerate' ? 'POST' : 'DELETE',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+          },
+          body: JSON.stringify({ code: twoFactorCode })
+        }
+      )
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || t.twoFactor.actionError)
+      }
+
+      setTwoFactorCode('')
+      setNewBackupCodes(action === 'regenerate' ? result.data.backupCodes : [])
+      toast.success(result.data.message)
+      fetchTwoFactorStatus()
+    } catch (error: any) {
+      console.error('Error updating two-factor:', error)
+      toast.error(error.message || t.twoFactor.actionError)
+    }
+  }
+
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleString(language === 'ar' ? 'ar-EG' : 'en-US', {
+      dateStyle: 'medium',
+      timeStyle: 'short'
+    })
+
+  if (loading) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-8 animate-pulse">
+        <div className="h-8 bg-gray-200 rounded w-1/3 mb-6"></div>
+        <div className="h-32 bg-gray-200 rounded mb-6"></div>
+        <div className="space-y-4">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="h-16 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`max-w-3xl mx-auto px-4 py-8 ${language === 'ar' ? 'rtl' : 'ltr'}`}>
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">{t.title}</h1>
+
+      {profile && (
+        <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+          <div className="flex items-center space-x-3 mb-4">
+            <UserCircleIcon className="h-8 w-8 text-indigo-600" />
+            <h2 className="text-lg font-semibold text-gray-900">{t.details.title}</h2>
+          </div>
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">{t.details.name}</dt>
+              <dd className="text-gray-900 font-medium">{profile.name}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">{t.details.email}</dt>
+              <dd className="text-gray-900 font-medium">{profile.email || '-'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">{t.details.phone}</dt>
+              <dd className="text-gray-900 font-medium">{profile.phone || t.details.noPhone}</dd>
+            </div>
+          </dl>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+        <div className="flex items-center space-x-3 mb-1">
+          <KeyIcon className="h-6 w-6 text-indigo-600" />
+          <h2 className="text-lg font-semibold text-gray-900">{t.signInMethods.title}</h2>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">{t.signInMethods.description}</p>
+
+        <ul className="divide-y divide-gray-200">
+          {AUTH_PROVIDERS.map(method => {
+            const identity = identities.find(item => item.provider === method)
+
+            return (
+              <li key={method} className="py-4">
+                <div className="flex justify-between items-center gap-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{t.signInMethods.providers[method]}</p>
+                    <p className="text-xs text-gray-500">
+                      {identity
+                        ? `${identity.providerUserId && method === 'phone' ? `${identity.providerUserId} · ` : ''}${t.signInMethods.linkedAt}: ${formatDate(identity.linkedAt)}`
+                        : t.signInMethods.notLinked}
+                    </p>
+                  </div>
+                  {identity ? (
+                    <button
+                      onClick={() => handleUnlink(method)}
+                      disabled={identities.length <= 1}
+                      title={identities.length <= 1 ? t.signInMethods.lastMethod : undefined}
+                      className="text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {t.signInMethods.unlink}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => method === 'google' ? handleLinkGoogle() : setLinking(linking === method ? null : method)}
+                      disabled={linking === 'google'}
+                      className="text-sm font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                    >
+                      {t.signInMethods.link}
+                    </button>
+                  )}
+                </div>
+
+                {!identity && linking === 'password' && method === 'password' && (
+                  <form onSubmit={handleSetPassword} className="mt-3 flex max-sm:flex-col gap-2">
+                    <input
+                      type="password"
+                      value={newPassword}
+                      onChange={(e) => setNewPassword(e.target.value)}
+                      placeholder={t.signInMethods.passwordPlaceholder}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-black focus:ring-indigo-500 focus:border-indigo-500"
+                      required
+                    />
+                    <button
+                      type="submit"
+                      className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg"
+                    >
+                      {t.signInMethods.setPassword}
+                    </button>
+                  </form>
+                )}
+
+                {!identity && linking === 'phone' && method === 'phone' && (
+                  <div className="mt-3">
+                    <PhoneLogin
+                      onVerified={async (idToken) => {
+                        try {
+                          await submitLink('phone', { idToken })
+                        } catch (error: any) {
+                          toast.error(error.message || t.signInMethods.linkError)
+                        }
+                      }}
+                    />
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      </div>
+
+      {twoFactor && (
+        <div className="bg-white rounded-xl shadow-md p-6 mb-6">
+          <div className="flex items-center space-x-3 mb-1">
+            <ShieldCheckIcon className="h-6 w-6 text-indigo-600" />
+            <h2 className="text-lg font-semibold text-gray-900">{t.twoFactor.title}</h2>
+          </div>
+          <p className="text-sm text-gray-500 mb-4">
+            {twoFactor.enabled
+              ? `${t.twoFactor.enabledSince}: ${formatDate(twoFactor.enabledAt!)} · ${t.twoFactor.backupCodesRemaining}: ${twoFactor.backupCodesRemaining}`
+              : t.twoFactor.description}
+          </p>
+
+          {!twoFactor.enabled && (
+            isEnrolling ? (
+              <TwoFactorEnrollment
+                onComplete={() => {
+                  setIsEnrolling(false)
+                  fetchTwoFactorStatus()
+                }}
+              />
+            ) : (
+              <button
+                onClick={() => setIsEnrolling(true)}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg"
+              >
+                {t.twoFactor.setUp}
+              </button>
+            )
+          )}
+
+          {twoFactor.enabled && (
+            <div className="flex max-sm:flex-col gap-2">
+              <input
+                type="text"
+                inputMode="numeric"
+                maxLength={6}
+                value={twoFactorCode}
+                onChange={(e) => setTwoFactorCode(e.target.value.replace(/\D/g, ''))}
+                placeholder={t.twoFactor.codePlaceholder}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-black focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <button
+                onClick={() => handleTwoFactorAction('regenerate')}
+                disabled={twoFactorCode.length !== 6}
+                className="px-4 py-2 text-sm font-medium text-indigo-600 border border-indigo-600 hover:bg-indigo-50 rounded-lg disabled:opacity-50"
+              >
+                {t.twoFactor.regenerate}
+              </button>
+              {!twoFactor.required && (
+                <button
+                  onClick={() => handleTwoFactorAction('disable')}
+                  disabled={twoFactorCode.length !== 6}
+                  className="px-4 py-2 text-sm font-medium text-red-600 border border-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50"
+                >
+                  {t.twoFactor.disable}
+                </button>
+              )}
+            </div>
+          )}
+
+          {newBackupCodes.length > 0 && (
+            <ul className="mt-4 grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 bg-gray-50 rounded-lg p-4" dir="ltr">
+              {newBackupCodes.map(backupCode => (
+                <li key={backupCode}>{backupCode}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <div className="flex justify-between items-start max-sm:flex-col gap-4 mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{t.sessions.title}</h2>
+            <p className="text-sm text-gray-500">{t.sessions.description}</p>
+          </div>
+          <button
+            onClick={() => setIsSignOutAllOpen(true)}
+            className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors"
+          >
+            <ArrowRightOnRectangleIcon className="h-5 w-5" />
+            <span>{t.sessions.signOutAll}</span>
+          </button>
+        </div>
+
+        {sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">{t.sessions.empty}</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {sessions.map(session => (
+              <li key={session.id} className="py-4 flex justify-between items-center gap-4">
+                <div className="flex items-start space-x-3 min-w-0">
+                  <ComputerDesktopIcon className="h-6 w-6 text-gray-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {session.userAgent || t.sessions.unknownDevice}
+                      {session.current && (
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                          {t.sessions.current}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {session.ipAddress || t.sessions.unknownIp}
+                      {' · '}
+                      {t.sessions.signedIn}: {formatDate(session.createdAt)}
+                      {' · '}
+                      {t.sessions.lastActive}: {formatDate(session.lastUsedAt)}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRevoke(session)}
+                  disabled={revokingId === session.id}
+                  className="text-sm font-medium text-red-600 hover:text-red-800 disabled:opacity-50 flex-shrink-0"
+                >
+                  {t.sessions.revoke}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <Toaster />
+      <ConfirmDialog
+        isOpen={isSignOutAllOpen}
+        onClose={() => setIsSignOutAllOpen(false)}
+        onConfirm={handleSignOutAll}
+        title={t.sessions.confirmSignOutAll.title}
+        message={t.sessions.confirmSignOutAll.message}
+      />
+    </div>
+  )
+}
+
+export default function ProfilePage() {
+  return (
+    <ProtectedRoute>
+      <ProfileContent />
+    </ProtectedRoute>
+  )
+}
@@ -4,6 +4,7 @@ import { useState, useEffect, type ReactElement } from 'react'
 import { useSearchParams, useRouter } from 'next/navigation'
 import TripCard from '@/components/TripCard'
 import FilterSort from '@/components/FilterSort'
+import AdCarousel from '@/components/AdCarousel'
 import { Trip } from '@/types'
 import { useLanguage } from '@/context/LanguageContext'
 
@@ -25,6 +26,10 @@ interface ApiTrip {
   seats: {
     status: 'available' | 'booked' | 'blocked'
   }[]
+  ratingSummary?: {
+    average: number | null
+    count: number
+  }
 }
 
 export default function TripsClient(): ReactElement {
@@ -72,7 +77,8 @@ export default function TripsClient(): ReactElement {
         departureTime: trip.departureTime,
         arrivalTime: trip.arrivalTime,
         price: Number(trip.price),
-        availableSeats: trip.seats.filter(seat => seat.status === 'available').length
+        availableSeats: trip.seats.filter(seat => seat.status === 'available').length,
+        rating: trip.ratingSummary
       }))
 
       setTrips(formattedTrips)
@@ -138,6 +144,8 @@ export default function TripsClient(): ReactElement {
           </p>
         </div>
 
+        <AdCarousel className="mb-8" />
+
         <FilterSort
           onSortChange={handleSort}
           onPriceRangeChange={handlePriceRange}
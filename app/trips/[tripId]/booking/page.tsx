@@ -25,6 +25,14 @@ interface TripDetails {
     id: string
     seatNumber: string
     status: string
+    seatClass?: string
+    price?: string
+  }[]
+  stops?: {
+    stopOrder: number
+    city: string
+    cityAr: string
+    scheduledAt: string
   }[]
 }
 
@@ -44,6 +52,9 @@ export default function BookingPage({ params }: BookingPageProps): ReactElement
   const [error, setError] = useState('')
   const [tripDetails, setTripDetails] = useState<TripDetails | null>(null)
   const selectedSeatNumbers = searchParams.get('seats')?.split(',') || []
+  // Stop orders when booking part of the trip, as chosen on the seats page
+  const boardingStop = searchParams.get('from')
+  const alightingStop = searchParams.get('to')
   
   const { language, translations } = useLanguage()
   const t = translations.bookings.ConfirmDialog
@@ -55,7 +66,11 @@ export default function BookingPage({ params }: BookingPageProps): ReactElement
   const fetchTripDetails = async () => {
     try {
       const token = localStorage.getItem('token')
-      const response = await fetch(`/api/trips/${tripId}`,
+      const query = new URLSearchParams()
+      if (boardingStop) query.set('boardingStop', boardingStop)
+      if (alightingStop) query.set('alightingStop', alightingStop)
+
+      const response = await fetch(`/api/trips/${tripId}?${query.toString()}`,
         {
           headers: {
             'Content-Type': 'application/json',
@@ -94,7 +109,10 @@ export default function BookingPage({ params }: BookingPageProps): ReactElement
         },
         body: JSON.stringify({
           tripId,
-          seatIds
+          seatIds,
+          selectedSeats: selectedSeatNumbers,
+          ...(boardingStop && { boardingStop: Number(boardingStop) }),
+          ...(alightingStop && { alightingStop: Number(alightingStop) })
         })
       })
 
@@ -138,6 +156,19 @@ export default function BookingPage({ params }: BookingPageProps): ReactElement
     )
   }
 
+  // The stops the passenger boards and gets off at, or the trip's ends
+  const boardingAt = boardingStop
+    ? tripDetails.stops?.find(stop => stop.stopOrder === Number(boardingStop))
+    : undefined
+  const alightingAt = alightingStop
+    ? tripDetails.stops?.find(stop => stop.stopOrder === Number(alightingStop))
+    : undefined
+
+  // Seats are priced by class; fall back to the trip price for older responses
+  const totalPrice = tripDetails.seats
+    .filter(seat => selectedSeatNumbers.includes(seat.seatNumber))
+    .reduce((sum, seat) => sum + Number(seat.price ?? tripDetails.price), 0)
+
   return (
     <div className="min-h-screen bg-gray-50 py-12">
       <Toaster />
@@ -153,13 +184,13 @@ export default function BookingPage({ params }: BookingPageProps): ReactElement
         <div className="bg-white rounded-lg shadow-md p-6 mb-8">
           <h2 className="text-xl font-semibold mb-4 text-black">{t.tripDetails.title}</h2>
           <div className="space-y-2 text-gray-600">
-            <p>{t.tripDetails.from}: {tripDetails?.route.departureCity.name}</p>
-            <p>{t.tripDetails.to}: {tripDetails?.route.arrivalCity.name}</p>
-            <p>{t.tripDetails.departure}: {new Date(tripDetails?.departureTime).toLocaleString()}</p>
-            <p>{t.tripDetails.arrival}: {new Date(tripDetails?.arrivalTime).toLocaleString()}</p>
+            <p>{t.tripDetails.from}: {boardingAt ? boardingAt.city : tripDetails?.route.departureCity.name}</p>
+            <p>{t.tripDetails.to}: {alightingAt ? alightingAt.city : tripDetails?.route.arrivalCity.name}</p>
+            <p>{t.tripDetails.departure}: {new Date(boardingAt ? boardingAt.scheduledAt : tripDetails?.departureTime).toLocaleString()}</p>
+            <p>{t.tripDetails.arrival}: {new Date(alightingAt ? alightingAt.scheduledAt : tripDetails?.arrivalTime).toLocaleString()}</p>
             <p>{t.tripDetails.selectedSeats}: {selectedSeatNumbers.join(', ')}</p>
             <p className="text-lg font-semibold text-gray-900">
-            {t.tripDetails.totalPrice}: ${Number(tripDetails?.price) * selectedSeatNumbers.length}
+            {t.tripDetails.totalPrice}: ${totalPrice}
             </p>
           </div>
         </div>
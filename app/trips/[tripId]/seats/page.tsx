@@ -1,21 +1,35 @@
 'use client'
 
-import { useState, useEffect, ReactElement } from 'react'
+import { useState, useEffect, useCallback, ReactElement } from 'react'
 import { useRouter } from 'next/navigation'
 import Seat from '@/components/Seat'
+import SeatMap from '@/components/SeatMap'
+import { SeatLayoutGrid } from '@/lib/seatLayout'
+import { useSeatUpdates, mergeSeatUpdates, SeatUpdate } from '@/hooks/useSeatUpdates'
 
 import { useLanguage } from '@/context/LanguageContext'
 
 interface SeatData {
   id: string
   seatNumber: string
-  status: 'available' | 'booked' | 'blocked'
+  status: 'available' | 'booked' | 'blocked' | 'reserved'
+  seatClass?: string
+  price?: string
+}
+
+interface TripStop {
+  stopOrder: number
+  city: string
+  cityAr: string
+  scheduledAt: string
 }
 
 interface TripData {
   id: string
   price: string
+  seatLayout?: SeatLayoutGrid | null
   seats: SeatData[]
+  stops?: TripStop[]
 }
 
 interface PageParams {
@@ -35,15 +49,46 @@ export default function SeatsPage({ params }: SeatsPageProps): ReactElement {
   const [loading, setLoading] = useState(true)
   const [loadingProgress, setLoadingProgress] = useState(false)
   const [error, setError] = useState('')
+  // Stop orders of the chosen segment; null means the whole trip
+  const [boardingStop, setBoardingStop] = useState<number | null>(null)
+  const [alightingStop, setAlightingStop] = useState<number | null>(null)
+  const isSegment = boardingStop !== null || alightingStop !== null
 
   useEffect(() => {
     fetchTripSeats()
-  }, [tripId])
+  }, [tripId, boardingStop, alightingStop])
+
+  // A seat sold for one leg of a multi-stop trip stays available in the live statuses
+  const hasIntermediateStops = (tripData?.stops?.length ?? 0) > 2
+
+  // Grey out seats live as other users lock or book them
+  const handleSeatUpdates = useCallback((updates: SeatUpdate[]) => {
+    // Live statuses ignore segments, so a multi-stop trip is reloaded to see what is really left
+    if (isSegment || hasIntermediateStops) {
+      fetchTripSeats()
+      return
+    }
+
+    setTripData(prev => prev ? { ...prev, seats: mergeSeatUpdates(prev.seats, updates) } : prev)
+
+    const takenSeats = updates
+      .filter(update => update.status !== 'available')
+      .map(update => update.seatNumber)
+    if (takenSeats.length > 0) {
+      setSelectedSeats(prev => prev.filter(num => !takenSeats.includes(num)))
+    }
+  }, [isSegment, hasIntermediateStops, boardingStop, alightingStop])
+
+  useSeatUpdates(tripId, handleSeatUpdates)
 
   const fetchTripSeats = async () => {
     try {
       const token = localStorage.getItem('token')
-      const response = await fetch(`/api/trips/${tripId}`,{
+      const query = new URLSearchParams()
+      if (boardingStop !== null) query.set('boardingStop', String(boardingStop))
+      if (alightingStop !== null) query.set('alightingStop', String(alightingStop))
+
+      const response = await fetch(`/api/trips/${tripId}?${query.toString()}`,{
         headers: {
           'Content-Type': 'application/json',
            'Authorization': `Bearer ${token}`
@@ -52,8 +97,13 @@ export default function SeatsPage({ params }: SeatsPageProps): ReactElement {
       if (!response.ok) {
         throw new Error('Internal server error trip data')
       }
-      const data = await response.json()
+      const data: TripData = await response.json()
       setTripData(data)
+
+      // Drop selected seats that are no longer free on the chosen segment
+      setSelectedSeats(prev => prev.filter(num =>
+        data.seats.some(seat => seat.seatNumber === num && seat.status === 'available')
+      ))
     } catch (err) {
       setError('Failed to load seats. Please try again.')
       console.error('Error fetching seats:', err)
@@ -89,7 +139,10 @@ export default function SeatsPage({ params }: SeatsPageProps): ReactElement {
   const handleContinue = () => {
     setLoadingProgress(true);
     if (selectedSeats.length > 0) {
-      router.push(`/trips/${tripId}/booking?seats=${selectedSeats.join(',')}`)
+      const segment = isSegment
+        ? `&from=${boardingStop ?? 0}&to=${alightingStop ?? lastStop}`
+        : ''
+      router.push(`/trips/${tripId}/booking?seats=${selectedSeats.join(',')}${segment}`)
 
     }
 
@@ -112,6 +165,28 @@ export default function SeatsPage({ params }: SeatsPageProps): ReactElement {
     )
   }
 
+  // Trips with intermediate stops can be booked for part of the way
+  const stops = tripData.stops ?? []
+  const lastStop = stops.length - 1
+  const stopName = (stop: TripStop) => language === 'ar' ? stop.cityAr : stop.city
+
+  const handleStopChange = (which: 'boarding' | 'alighting', value: number) => {
+    const from = which === 'boarding' ? value : boardingStop ?? 0
+    const to = which === 'alighting' ? value : alightingStop ?? lastStop
+
+    // Keep the segment valid by moving the other end when needed
+    const nextFrom = which === 'alighting' && from >= to ? to - 1 : from
+    const nextTo = which === 'boarding' && to <= from ? from + 1 : to
+
+    setBoardingStop(nextFrom === 0 ? null : nextFrom)
+    setAlightingStop(nextTo === lastStop ? null : nextTo)
+  }
+
+  // Seats are priced by class; fall back to the trip price for older responses
+  const totalPrice = tripData.seats
+    .filter(seat => selectedSeats.includes(seat.seatNumber))
+    .reduce((sum, seat) => sum + Number(seat.price ?? tripData.price), 0)
+
 return (
     <div className={`min-h-screen bg-gray-50 py-12 text-black ${language === 'ar' ? 'rtl' : 'ltr'}`}>
       <div className="max-w-4xl mx-auto px-4">
@@ -120,6 +195,39 @@ return (
         </h1>
         
         <div className="bg-white p-6 rounded-lg shadow-md">
+          {stops.length > 2 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-8">
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">{translations.trips.seats.stops.boarding}</span>
+                <select
+                  value={boardingStop ?? 0}
+                  onChange={(e) => handleStopChange('boarding', Number(e.target.value))}
+                  className="mt-1 w-full rounded-md border border-gray-300 p-2"
+                >
+                  {stops.slice(0, -1).map(stop => (
+                    <option key={stop.stopOrder} value={stop.stopOrder}>
+                      {stopName(stop)} · {new Date(stop.scheduledAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">{translations.trips.seats.stops.alighting}</span>
+                <select
+                  value={alightingStop ?? lastStop}
+                  onChange={(e) => handleStopChange('alighting', Number(e.target.value))}
+                  className="mt-1 w-full rounded-md border border-gray-300 p-2"
+                >
+                  {stops.slice(1).map(stop => (
+                    <option key={stop.stopOrder} value={stop.stopOrder}>
+                      {stopName(stop)} · {new Date(stop.scheduledAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
           <div className="mb-8  flex w-full justify-center">
             <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 sm:gap-6 mb-4 justify-items-start ">
                 <div className="flex items-center gap-2 ">
@@ -141,18 +249,32 @@ return (
               </div>
           </div>
 
-          <div className="grid grid-cols-4 gap-2 mb-8">
-            {tripData.seats.map((seat) => (
-              <Seat
-                key={seat.id}
-                number={seat.seatNumber}
-                isBooked={seat.status === 'booked' }
-                isBlocked={seat.status === 'blocked'}
-                isSelected={selectedSeats.includes(seat.seatNumber)}
+          {tripData.seatLayout ? (
+            <div className="mb-8">
+              <SeatMap
+                layout={tripData.seatLayout}
+                seats={tripData.seats}
+                selectedSeats={selectedSeats}
                 onSelect={handleSeatSelect}
+                labels={translations.trips.seats.layout}
               />
-            ))}
-          </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-4 gap-2 mb-8">
+              {tripData.seats.map((seat) => (
+                <Seat
+                  key={seat.id}
+                  number={seat.seatNumber}
+                  isBooked={seat.status === 'booked' || seat.status === 'reserved'}
+                  isBlocked={seat.status === 'blocked'}
+                  isSelected={selectedSeats.includes(seat.seatNumber)}
+                  seatClass={seat.seatClass}
+                  price={seat.price}
+                  onSelect={handleSeatSelect}
+                />
+              ))}
+            </div>
+          )}
 
           <div className="border-t pt-6">
             <div className="flex justify-between items-center mb-4">
@@ -161,7 +283,7 @@ return (
                   {translations.trips.seats.selectedSeats}: {selectedSeats.join(', ')}
                 </p>
                 <p className="text-gray-600">
-                  {translations.trips.seats.totalPrice}: ${selectedSeats.length * Number(tripData.price)}
+                  {translations.trips.seats.totalPrice}: ${totalPrice}
                 </p>
               </div>
               <button
@@ -0,0 +1,125 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useLanguage } from '@/context/LanguageContext'
+
+interface Ad {
+  id: string
+  title: string | null
+  imageUrl: string
+  url: string
+  description: string | null
+}
+
+interface AdCarouselProps {
+  className?: string
+}
+
+const ROTATE_INTERVAL_MS = 6000
+// Ads already counted in this browser session, so page revisits do not inflate impressions
+const SEEN_ADS_KEY = 'seenAds'
+
+const readSeenAds = (): string[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(SEEN_ADS_KEY) || '[]')
+  } catch {
+    return []
+  }
+}
+
+const AdCarousel = ({ className = '' }: AdCarouselProps) => {
+  const { language, translations } = useLanguage()
+  const [ads, setAds] = useState<Ad[]>([])
+  const [current, setCurrent] = useState(0)
+
+  useEffect(() => {
+    const fetchAds = async () => {
+      try {
+        const response = await fetch('/api/ads')
+        const data = await response.json()
+        setAds(Array.isArray(data.data) ? data.data : [])
+      } catch (error) {
+        console.error('Error fetching ads:', error)
+      }
+    }
+
+    fetchAds()
+  }, [])
+
+  useEffect(() => {
+    if (ads.length < 2) return
+
+    const timer = setInterval(() => {
+      setCurrent(index => (index + 1) % ads.length)
+    }, ROTATE_INTERVAL_MS)
+
+    return () => clearInterval(timer)
+  }, [ads.length])
+
+  // Count an impression the first time each ad is actually shown
+  useEffect(() => {
+    const ad = ads[current]
+    if (!ad) return
+
+    const seen = readSeenAds()
+    if (seen.includes(ad.id)) return
+
+    sessionStorage.setItem(SEEN_ADS_KEY, JSON.stringify([...seen, ad.id]))
+    fetch('/api/ads/impressions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ adIds: [ad.id] }),
+      keepalive: true
+    }).catch(() => {})
+  }, [ads, current])
+
+  if (ads.length === 0) return null
+
+  const ad = ads[current]
+  const isExternal = /^https?:\/\//.test(ad.url)
+
+  return (
+    <div className={`relative overflow-hidden rounded-lg shadow-md bg-gray-900 ${className}`} dir="ltr">
+      <a
+        href={`/api/ads/${ad.id}/click`}
+        target={isExternal ? '_blank' : undefined}
+        rel={isExternal ? 'noopener noreferrer sponsored' : undefined}
+        className="block"
+      >
+        <img
+          src={ad.imageUrl}
+          alt={ad.title || translations.ads.label}
+          className="w-full h-48 md:h-64 object-cover"
+        />
+        {(ad.title || ad.description) && (
+          <div
+            className={`absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 to-transparent p-4 text-white ${language === 'ar' ? 'text-right' : 'text-left'}`}
+            dir={language === 'ar' ? 'rtl' : 'ltr'}
+          >
+            {ad.title && <p className="text-lg font-semibold">{ad.title}</p>}
+            {ad.description && <p className="text-sm line-clamp-2">{ad.description}</p>}
+          </div>
+        )}
+      </a>
+
+      <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/50 text-xs text-white">
+        {translations.ads.label}
+      </span>
+
+      {ads.length > 1 && (
+        <div className="absolute top-2 right-2 flex gap-1.5">
+          {ads.map((item, index) => (
+            <button
+              key={item.id}
+              onClick={() => setCurrent(index)}
+              className={`h-2 w-2 rounded-full ${index === current ? 'bg-white' : 'bg-white/50'}`}
+              aria-label={`${index + 1}`}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AdCarousel
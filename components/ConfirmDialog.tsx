@@ -1,5 +1,6 @@
 'use client'
 
+import { ReactNode } from 'react'
 import { useLanguage } from '@/context/LanguageContext'
 
 
@@ -9,9 +10,11 @@ interface ConfirmDialogProps {
   onConfirm: () => void
   title: string
   message: string
+  confirmDisabled?: boolean
+  children?: ReactNode
 }
 
-const ConfirmDialog = ({ isOpen, onClose, onConfirm, title, message }: ConfirmDialogProps) => {
+const ConfirmDialog = ({ isOpen, onClose, onConfirm, title, message, confirmDisabled, children }: ConfirmDialogProps) => {
   const { language, translations } = useLanguage()
   
   if (!isOpen) return null
@@ -31,6 +34,7 @@ const ConfirmDialog = ({ isOpen, onClose, onConfirm, title, message }: ConfirmDi
           <p className="text-gray-600 text-center mb-6">
             {translations.bookings.confirmCancel.message}
           </p>
+          {children}
           <div className={`flex justify-end gap-3 ${language === 'ar' ? 'flex-row-reverse' : ''}`}>
             <button
               onClick={onClose}
@@ -43,7 +47,8 @@ const ConfirmDialog = ({ isOpen, onClose, onConfirm, title, message }: ConfirmDi
                 onConfirm()
                 onClose()
               }}
-              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+              disabled={confirmDisabled}
+              className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
             >
               {translations.bookings.confirmCancel.confirm}
             </button>
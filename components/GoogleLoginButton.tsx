@@ -4,6 +4,8 @@ import { signInWithPopup } from 'firebase/auth'
 import { auth, provider } from '@/lib/firebase'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/context/AuthContext'
+import { isStaffRole } from '@/lib/permissions'
+import { storeTwoFactorChallenge } from '@/utils/auth'
 import { useState } from 'react'
 
 export default function GoogleRegisterButton() {
@@ -35,13 +37,19 @@ export default function GoogleRegisterButton() {
 
       if (!res.ok) throw new Error(data.error || 'Google authentication failed')
 
+      if (data.data?.twoFactorRequired) {
+        storeTwoFactorChallenge(data.data)
+        router.push('/auth/two-factor')
+        return
+      }
+
       // Use AuthContext login method
       await login(data.user, data.token, data.refreshToken)
 
       // Redirect user after successful login/registration
       if (!data.user.emailVerified) {
         router.push(`/auth/verify-code?email=${data.user.email}`)
-      } else if (data.user.role === 'ADMIN') {
+      } else if (isStaffRole(data.user.role)) {
         router.push('/admin')
       } else {
         router.push('/')
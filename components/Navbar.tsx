@@ -3,6 +3,7 @@ import { useState } from 'react'
 import Link from 'next/link'
 import { useLanguage } from '@/context/LanguageContext'
 import { useAuth } from '@/context/AuthContext'
+import { isStaffRole } from '@/lib/permissions'
 import { 
   HomeIcon, 
   TicketIcon, 
@@ -20,6 +21,17 @@ export default function Navbar() {
   const { language, translations, toggleLanguage } = useLanguage()
   const { isAuthenticated, user, logout } = useAuth()
   const [isMenuOpen, setIsMenuOpen] = useState(false)
+  const [isLoggingOut, setIsLoggingOut] = useState(false)
+
+  const handleLogout = async () => {
+    setIsLoggingOut(true)
+    setIsMenuOpen(false)
+    try {
+      await logout()
+    } finally {
+      setIsLoggingOut(false)
+    }
+  }
   
 
 
@@ -93,13 +105,17 @@ export default function Navbar() {
 
             {isAuthenticated ? (
               <div className="flex items-center space-x-4">
-                <div className="flex items-center space-x-2 px-3 py-2 text-gray-600 bg-gray-50 rounded-lg">
+                <Link
+                  href="/profile"
+                  className="flex items-center space-x-2 px-3 py-2 text-gray-600 bg-gray-50 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all"
+                >
                   <UserCircleIcon className="h-5 w-5" />
                   <span>{user?.name}</span>
-                </div>
+                </Link>
                 <button
-                  onClick={logout}
-                  className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors"
+                  onClick={handleLogout}
+                  disabled={isLoggingOut}
+                  className="flex items-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50"
                 >
                   <ArrowRightOnRectangleIcon className="h-5 w-5" />
                   <span>{language === 'en' ? 'Logout' : 'تسجيل خروج'}</span>
@@ -117,7 +133,7 @@ export default function Navbar() {
           </div>
 
           {/* Mobile Menu Button */}
-          {(isAuthenticated || !isAuthenticated ) && user?.role != 'ADMIN' && (
+          {(isAuthenticated || !isAuthenticated ) && !isStaffRole(user?.role) && (
               <div className="md:hidden flex items-center">
               <button
                 onClick={() => setIsMenuOpen(!isMenuOpen)}
@@ -206,16 +222,18 @@ export default function Navbar() {
             {/* Mobile Auth Buttons */}
             {isAuthenticated ? (
               <div className="space-y-2">
-                <div className="flex items-center space-x-2 px-3 py-2 text-gray-600 bg-gray-50 rounded-lg">
+                <Link
+                  href="/profile"
+                  className="flex items-center space-x-2 px-3 py-2 text-gray-600 bg-gray-50 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all"
+                  onClick={() => setIsMenuOpen(false)}
+                >
                   <UserCircleIcon className="h-5 w-5" />
                   <span>{user?.name}</span>
-                </div>
+                </Link>
                 <button
-                  onClick={() => {
-                    logout()
-                    setIsMenuOpen(false)
-                  }}
-                  className="w-full flex items-center justify-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg"
+                  onClick={handleLogout}
+                  disabled={isLoggingOut}
+                  className="w-full flex items-center justify-center space-x-2 px-4 py-2 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-lg disabled:opacity-50"
                 >
                   <ArrowRightOnRectangleIcon className="h-5 w-5" />
                   <span>{language === 'en' ? 'Logout' : 'تسجيل خروج'}</span>
@@ -6,7 +6,7 @@ import { useAuth } from '@/context/AuthContext'
 
 export default function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const router = useRouter()
-  const { checkAuth ,user} = useAuth()
+  const { checkAuth ,user, isStaff} = useAuth()
   
 
   useEffect(() => {
@@ -15,7 +15,7 @@ export default function ProtectedRoute({ children }: { children: React.ReactNode
     }
 
     
-     if(checkAuth() &&   user?.role == 'ADMIN')
+     if(checkAuth() &&   isStaff)
         router.push('/admin')
     
   }, [])
@@ -0,0 +1,133 @@
+'use client'
+
+import { useState } from 'react'
+import { useLanguage } from '@/context/LanguageContext'
+
+interface RateTripDialogProps {
+  bookingId: string | null
+  isOpen: boolean
+  onClose: () => void
+  // Called with the saved rating
+  onRated: (rating: number) => void
+}
+
+const STARS = [1, 2, 3, 4, 5]
+
+const RateTripDialog = ({ bookingId, isOpen, onClose, onRated }: RateTripDialogProps) => {
+  const { language, translations } = useLanguage()
+  const t = translations.bookings.rateTrip
+  const [rating, setRating] = useState(0)
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  if (!isOpen || !bookingId) return null
+
+  const close = () => {
+    setRating(0)
+    setMessage('')
+    setError('')
+    onClose()
+  }
+
+  const post = async (path: string, body: object) => {
+    const token = localStorage.getItem('token')
+    const response = await fetch(`/api/bookings/${bookingId}/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify(body)
+    })
+
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || t.failed)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!rating) {
+      setError(t.ratingRequired)
+      return
+    }
+
+    setSubmitting(true)
+    setError('')
+
+    try {
+      await post('rating', { rating })
+
+      if (message.trim()) {
+        await post('feedback', { message: message.trim() })
+      }
+
+      onRated(rating)
+      close()
+    } catch (err: any) {
+      setError(err.message || t.failed)
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center">
+      <div className={`bg-white rounded-xl w-full max-w-md mx-4 overflow-hidden shadow-xl animate-fade-in ${language === 'ar' ? 'rtl' : 'ltr'}`}>
+        <form onSubmit={handleSubmit} className="p-6">
+          <h3 className="text-lg font-semibold text-center mb-4 text-black">{t.title}</h3>
+
+          <div className="flex justify-center gap-2 mb-4" dir="ltr">
+            {STARS.map(star => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => setRating(star)}
+                className={`text-3xl ${star <= rating ? 'text-yellow-500' : 'text-gray-300'} hover:text-yellow-400`}
+                aria-label={`${star}`}
+              >
+                ★
+              </button>
+            ))}
+          </div>
+
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder={t.feedbackPlaceholder}
+            maxLength={2000}
+            rows={4}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black focus:ring-blue-500 focus:border-blue-500"
+          />
+
+          {error && (
+            <p className="mt-2 text-sm text-red-600 text-center">{error}</p>
+          )}
+
+          <div className={`flex justify-end gap-3 mt-6 ${language === 'ar' ? 'flex-row-reverse' : ''}`}>
+            <button
+              type="button"
+              onClick={close}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium"
+            >
+              {t.cancel}
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {submitting ? t.submitting : t.submit}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+export default RateTripDialog
@@ -3,10 +3,12 @@ interface SeatProps {
   isBooked: boolean;
   isBlocked: boolean;
   isSelected: boolean;
+  seatClass?: string;
+  price?: number | string;
   onSelect: (seatNumber: string) => void;
 }
 
-export default function Seat({ number, isBooked,isBlocked, isSelected, onSelect }: SeatProps) {
+export default function Seat({ number, isBooked,isBlocked, isSelected, seatClass, price, onSelect }: SeatProps) {
   return (
     <button
       onClick={() => !isBooked && onSelect(number)}
@@ -23,6 +25,14 @@ export default function Seat({ number, isBooked,isBlocked, isSelected, onSelect
       `}
     >
       {number}
+      {seatClass && seatClass !== 'standard' && (
+        <span className="block text-[10px] uppercase tracking-wide opacity-75">
+          {seatClass.replace(/_/g, ' ')}
+        </span>
+      )}
+      {price !== undefined && (
+        <span className="block text-[10px] opacity-75">${Number(price)}</span>
+      )}
     </button>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,72 @@
+import Seat from '@/components/Seat'
+import { SeatLayoutGrid } from '@/lib/seatLayout'
+
+interface SeatMapSeat {
+  id: string
+  seatNumber: string
+  status: string
+  seatClass?: string
+  price?: number | string
+}
+
+interface SeatMapProps {
+  layout: SeatLayoutGrid
+  seats: SeatMapSeat[]
+  selectedSeats: string[]
+  onSelect: (seatNumber: string) => void
+  labels: {
+    driver: string
+    door: string
+  }
+}
+
+// Renders a trip's seats on its bus layout grid (aisles, gaps, driver and door areas)
+export default function SeatMap({ layout, seats, selectedSeats, onSelect, labels }: SeatMapProps) {
+  const seatsByNumber = new Map(seats.map(seat => [seat.seatNumber, seat]))
+
+  return (
+    <div
+      className="grid gap-2"
+      style={{ gridTemplateColumns: `repeat(${layout.columns}, minmax(0, 1fr))` }}
+      dir="ltr"
+    >
+      {layout.cells.map(cell => {
+        const key = `${cell.row}:${cell.column}`
+
+        if (cell.type === 'seat') {
+          const seat = seatsByNumber.get(cell.label || '')
+          if (!seat) {
+            return <div key={key} />
+          }
+
+          return (
+            <Seat
+              key={key}
+              number={seat.seatNumber}
+              isBooked={seat.status === 'booked' || seat.status === 'reserved'}
+              isBlocked={seat.status === 'blocked'}
+              isSelected={selectedSeats.includes(seat.seatNumber)}
+              seatClass={seat.seatClass}
+              price={seat.price}
+              onSelect={onSelect}
+            />
+          )
+        }
+
+        if (cell.type === 'driver' || cell.type === 'door') {
+          return (
+            <div
+              key={key}
+              className="flex items-center justify-center rounded-lg border border-dashed border-gray-300 bg-gray-100 p-4 text-xs text-gray-500"
+            >
+              {cell.type === 'driver' ? labels.driver : labels.door}
+            </div>
+          )
+        }
+
+        // Aisles and gaps are empty space
+        return <div key={key} />
+      })}
+    </div>
+  )
+}
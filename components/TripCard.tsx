@@ -19,6 +19,18 @@ const TripCard = ({ trip, onSelect }: TripCardProps) => {
           <p className="text-sm text-gray-500">
             {translations.trips.tripCard.date}: {new Date(trip.departureTime).toLocaleString(language === 'ar' ? 'en-US' : 'en-US')}
           </p>
+          {trip.rating && (
+            <p className="text-sm text-gray-600 mt-1">
+              {trip.rating.average !== null ? (
+                <>
+                  <span className="text-yellow-500">★</span> {trip.rating.average.toFixed(1)}
+                  <span className="text-gray-400"> ({trip.rating.count} {translations.trips.tripCard.ratings})</span>
+                </>
+              ) : (
+                <span className="text-gray-400">{translations.trips.tripCard.noRatings}</span>
+              )}
+            </p>
+          )}
         </div>
         <span className="text-xl font-bold text-blue-600">
           ${trip.price} {translations.trips.tripCard.price}
@@ -0,0 +1,140 @@
+'use client'
+import { useState, useEffect } from 'react'
+import { useLanguage } from '@/context/LanguageContext'
+
+interface TwoFactorEnrollmentProps {
+  // Set while an admin login waits for the enrolment; otherwise the signed-in user enrols
+  challengeToken?: string
+  // Called with the enable response once the backup codes were acknowledged
+  onComplete: (result: any) => void
+}
+
+export default function TwoFactorEnrollment({ challengeToken, onComplete }: TwoFactorEnrollmentProps) {
+  const { translations } = useLanguage()
+  const t = translations.auth.twoFactor.enroll
+  const [setup, setSetup] = useState<{ secret: string, otpauthUri: string } | null>(null)
+  const [code, setCode] = useState('')
+  const [result, setResult] = useState<any>(null)
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const headers = (): HeadersInit => {
+    const token = localStorage.getItem('token')
+    return {
+      'Content-Type': 'application/json',
+      ...(!challengeToken && token && { 'Authorization': `Bearer ${token}` })
+    }
+  }
+
+  useEffect(() => {
+    const startSetup = async () => {
+      try {
+        const response = await fetch('/api/auth/two-factor/setup', {
+          method: 'POST',
+          headers: headers(),
+          body: JSON.stringify({ challengeToken })
+        })
+
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.error || t.errors.setupFailed)
+        }
+
+        setSetup(data.data)
+      } catch (err: any) {
+        setError(err.message || t.errors.setupFailed)
+      }
+    }
+
+    startSetup()
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/auth/two-factor/enable', {
+        method: 'POST',
+        headers: headers(),
+        body: JSON.stringify({ code, challengeToken })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || t.errors.invalidCode)
+      }
+
+      setResult(data.data)
+    } catch (err: any) {
+      setError(err.message || t.errors.invalidCode)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Backup codes are only ever shown here, right after they were generated
+  if (result) {
+    return (
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">{t.backupCodesTitle}</h3>
+        <p className="text-sm text-gray-600 mb-4">{t.backupCodesHint}</p>
+        <ul className="grid grid-cols-2 gap-2 mb-6 font-mono text-sm text-gray-900 bg-gray-50 rounded-lg p-4" dir="ltr">
+          {result.backupCodes.map((backupCode: string) => (
+            <li key={backupCode}>{backupCode}</li>
+          ))}
+        </ul>
+        <button
+          onClick={() => onComplete(result)}
+          className="w-full py-3 px-4 rounded-lg text-white bg-blue-600 hover:bg-blue-700"
+        >
+          {t.savedCodes}
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-4">{t.instructions}</p>
+
+      {setup && (
+        <div className="bg-gray-50 rounded-lg p-4 mb-4" dir="ltr">
+          <p className="text-xs text-gray-500 mb-1">{t.secretLabel}</p>
+          <p className="font-mono text-sm text-gray-900 break-all mb-3">{setup.secret.match(/.{1,4}/g)?.join(' ')}</p>
+          <a href={setup.otpauthUri} className="text-sm text-blue-600 hover:text-blue-800">
+            {t.openApp}
+          </a>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 text-sm text-red-600">{error}</div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          value={code}
+          onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+          placeholder={t.codePlaceholder}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg text-black text-center tracking-widest focus:ring-blue-500 focus:border-blue-500"
+          required
+        />
+        <button
+          type="submit"
+          disabled={loading || !setup || code.length !== 6}
+          className="w-full py-3 px-4 rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          {loading ? t.enabling : t.enable}
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -16,10 +16,14 @@ import {
   Bars3Icon,
   XMarkIcon,
   LanguageIcon,
-  CreditCardIcon
+  CreditCardIcon,
+  ChatBubbleLeftRightIcon,
+  MegaphoneIcon,
+  ArrowPathIcon
 
 } from '@heroicons/react/24/outline'
 import { useLanguage } from '@/context/LanguageContext'
+import { canViewAdminPage } from '@/lib/permissions'
 
 
 
@@ -29,10 +33,13 @@ const getMenuItems = (t: any) => [
   { href: '/admin/bookings', icon: TicketIcon, label: t.bookings },
   { href: '/admin/payments', icon: CreditCardIcon, label: t.payments },
   { href: '/admin/trips', icon: CalendarIcon, label: t.trips },
+  { href: '/admin/trip-schedules', icon: ArrowPathIcon, label: t.tripSchedules },
   { href: '/admin/buses', icon: TruckIcon, label: t.buses },  
   { href: '/admin/routes', icon: MapIcon, label: t.routes }, 
   { href: '/admin/cities', icon: BuildingOfficeIcon, label: t.cities }, 
   { href: '/admin/countries', icon: BuildingOfficeIcon, label: t.countries }, 
+  { href: '/admin/feedback', icon: ChatBubbleLeftRightIcon, label: t.feedback },
+  { href: '/admin/ads', icon: MegaphoneIcon, label: t.ads },
   { href: '/admin/reports', icon: ChartBarIcon, label: t.reports },
   { href: '/admin/settings', icon: CogIcon, label: t.settings },
   
@@ -46,8 +53,9 @@ export default function AdminSidebar() {
   const pathname = usePathname()
   const { language, translations ,toggleLanguage} = useLanguage()
   const t = translations.dashboard.sidebar
-  const menuItems = getMenuItems(t)
   const { isAuthenticated, user, logout } = useAuth()
+  // Only the pages the user's role may open
+  const menuItems = getMenuItems(t).filter(item => canViewAdminPage(user?.role, item.href))
   
 
 
@@ -9,15 +9,25 @@ interface Props {
   booking: {
     user: {
       name: string
-      email: string
+      email: string | null
       phone: string
     }
+    totalPrice?: string | number
+    details?: {
+      id: string
+      price: string | number
+      seatClass?: string
+      seat: {
+        seatNumber: string
+      }
+    }[]
   } | null
 }
 
 export default function BookingDetailsDialog({ isOpen, onClose, booking }: Props) {
   const { language, translations } = useLanguage()
   const t = translations.dashboard.bookingDetails
+  const classLabels = translations.dashboard.buses.form.layout.classes
 
   if (!booking) return null
 
@@ -69,13 +79,47 @@ export default function BookingDetailsDialog({ isOpen, onClose, booking }: Props
                     
                     <div>
                       <label className="text-sm font-medium text-gray-500">{t.labels.email}</label>
-                      <p className="mt-1 text-lg text-gray-900" dir="ltr">{booking.user.email}</p>
+                      <p className="mt-1 text-lg text-gray-900" dir="ltr">{booking.user.email || booking.user.phone}</p>
                     </div>
                     
                     <div>
                       <label className="text-sm font-medium text-gray-500">{t.labels.phone}</label>
                       <p className="mt-1 text-lg text-gray-900" dir="ltr">{booking.user.phone}</p>
                     </div>
+
+                    {booking.details && booking.details.length > 0 && (
+                      <div>
+                        <label className="text-sm font-medium text-gray-500">{t.labels.seats}</label>
+                        <table className="mt-1 w-full text-sm text-gray-900">
+                          <thead>
+                            <tr className="text-gray-500">
+                              <th className="py-1 text-start font-medium">#</th>
+                              <th className="py-1 text-start font-medium">{t.labels.seatClass}</th>
+                              <th className="py-1 text-end font-medium">{t.labels.price}</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {booking.details.map(detail => (
+                              <tr key={detail.id} className="border-t border-gray-100">
+                                <td className="py-1">{detail.seat.seatNumber}</td>
+                                <td className="py-1">
+                                  {classLabels[(detail.seatClass || 'standard') as keyof typeof classLabels] || detail.seatClass}
+                                </td>
+                                <td className="py-1 text-end" dir="ltr">{detail.price} SAR</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                          {booking.totalPrice !== undefined && (
+                            <tfoot>
+                              <tr className="border-t border-gray-200 font-semibold">
+                                <td className="py-1" colSpan={2}>{t.labels.total}</td>
+                                <td className="py-1 text-end" dir="ltr">{booking.totalPrice} SAR</td>
+                              </tr>
+                            </tfoot>
+                          )}
+                        </table>
+                      </div>
+                    )}
                   </div>
                 </div>
 
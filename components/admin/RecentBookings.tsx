@@ -6,7 +6,7 @@ interface Booking {
   id: string
   user: {
     name: string
-    email: string
+    email: string | null
   }
   trip: {
     route: {
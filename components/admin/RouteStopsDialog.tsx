@@ -0,0 +1,223 @@
+'use client'
+import { useState, useEffect } from 'react'
+import toast from 'react-hot-toast'
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline'
+import { useLanguage } from '@/context/LanguageContext'
+
+interface City {
+  id: string
+  name: string
+}
+
+interface RouteStop {
+  cityId: string
+  offsetMinutes: number
+  fareShare: string | number | null
+  city?: City
+}
+
+interface Route {
+  id: string
+  departureCity: City
+  arrivalCity: City
+  stops?: RouteStop[]
+}
+
+interface StopRow {
+  cityId: string
+  offsetMinutes: string
+  fareShare: string
+}
+
+interface Props {
+  isOpen: boolean
+  onClose: () => void
+  route: Route | null
+  onUpdate: () => void
+}
+
+const toRow = (stop: RouteStop): StopRow => ({
+  cityId: stop.cityId,
+  offsetMinutes: stop.offsetMinutes.toString(),
+  fareShare: stop.fareShare === null ? '' : String(Number(stop.fareShare))
+})
+
+export default function RouteStopsDialog({ isOpen, onClose, route, onUpdate }: Props) {
+  const { language, translations } = useLanguage()
+  const t = translations.dashboard.routes.stops
+  const [cities, setCities] = useState<City[]>([])
+  const [rows, setRows] = useState<StopRow[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    setRows(route?.stops ? route.stops.map(toRow) : [])
+  }, [route])
+
+  useEffect(() => {
+    fetchCities()
+  }, [])
+
+  const fetchCities = async () => {
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch('/api/admin/cities', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+      const data = await response.json()
+      setCities(data.data)
+    } catch (error) {
+      toast.error('Internal server error cities')
+    }
+  }
+
+  const updateRow = (index: number, changes: Partial<StopRow>) => {
+    setRows(rows.map((row, i) => i === index ? { ...row, ...changes } : row))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!route) return
+
+    setLoading(true)
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/admin/routes/${route.id}/stops`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          stops: rows.map(row => ({
+            cityId: row.cityId,
+            offsetMinutes: parseInt(row.offsetMinutes),
+            fareShare: row.fareShare === '' ? null : parseFloat(row.fareShare)
+          }))
+        })
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || t.error)
+      }
+
+      toast.success(t.success)
+      onUpdate()
+      onClose()
+    } catch (err: any) {
+      toast.error(err.message || t.error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!isOpen || !route) return null
+
+  // The route's own ends cannot be used as intermediate stops
+  const stopCities = cities.filter(city => city.id !== route.departureCity.id && city.id !== route.arrivalCity.id)
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center text-black">
+      <div className={`bg-white rounded-xl w-full max-w-2xl mx-4 p-6 max-h-[90vh] overflow-y-auto ${language === 'ar' ? 'rtl' : 'ltr'}`}>
+        <h2 className="text-lg font-semibold mb-1">
+          {t.title}: {route.departureCity.name} → {route.arrivalCity.name}
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">{t.description}</p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {rows.length === 0 && (
+            <p className="text-sm text-gray-500 italic">{t.empty}</p>
+          )}
+
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-end">
+              <div className="col-span-5">
+                <label className="block text-xs font-medium text-gray-700 mb-1">{t.city}</label>
+                <select
+                  value={row.cityId}
+                  onChange={(e) => updateRow(index, { cityId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  required
+                  dir="ltr"
+                >
+                  <option value="">{t.selectCity}</option>
+                  {stopCities.map((city) => (
+                    <option key={city.id} value={city.id}>
+                      {city.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-3">
+                <label className="block text-xs font-medium text-gray-700 mb-1">{t.offset}</label>
+                <input
+                  type="number"
+                  value={row.offsetMinutes}
+                  onChange={(e) => updateRow(index, { offsetMinutes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  required
+                  min="1"
+                  step="1"
+                  dir="ltr"
+                />
+              </div>
+              <div className="col-span-3">
+                <label className="block text-xs font-medium text-gray-700 mb-1">{t.fareShare}</label>
+                <input
+                  type="number"
+                  value={row.fareShare}
+                  onChange={(e) => updateRow(index, { fareShare: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  min="0.01"
+                  max="99.99"
+                  step="0.01"
+                  title={t.fareShareHint}
+                  dir="ltr"
+                />
+              </div>
+              <div className="col-span-1 flex justify-center pb-2">
+                <button
+                  type="button"
+                  onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                  className="text-red-600 hover:text-red-900"
+                  aria-label={t.remove}
+                >
+                  <TrashIcon className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={() => setRows([...rows, { cityId: '', offsetMinutes: '', fareShare: '' }])}
+            className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-900"
+          >
+            <PlusIcon className="h-4 w-4" />
+            {t.add}
+          </button>
+          <p className="text-xs text-gray-500">{t.fareShareHint}</p>
+
+          <div className={`flex ${language === 'ar' ? 'space-x-reverse' : 'space-x-3'} justify-end mt-6`}>
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 border border-gray-300 rounded-md"
+            >
+              {t.cancel}
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:opacity-50"
+            >
+              {loading ? t.saving : t.save}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
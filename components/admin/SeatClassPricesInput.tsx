@@ -0,0 +1,79 @@
+'use client'
+import { useLanguage } from '@/context/LanguageContext'
+import { SEAT_CLASSES } from '@/lib/seatLayout'
+import type { SeatClassPriceInput } from '@/lib/seatPricing'
+
+interface SeatClassPricesInputProps {
+  value: SeatClassPriceInput[]
+  onChange: (value: SeatClassPriceInput[]) => void
+  disabled?: boolean
+}
+
+type PricingMode = 'base' | 'multiplier' | 'price'
+
+// Per-class pricing for a trip: each class uses the trip price, a multiplier of it, or a fixed price
+export default function SeatClassPricesInput({ value, onChange, disabled }: SeatClassPricesInputProps) {
+  const { translations } = useLanguage()
+  const t = translations.dashboard.trips.form.seatClassPrices
+  const classLabels = translations.dashboard.buses.form.layout.classes
+
+  const modeOf = (entry?: SeatClassPriceInput): PricingMode => {
+    if (!entry) return 'base'
+    return entry.price !== null && entry.price !== undefined ? 'price' : 'multiplier'
+  }
+
+  const update = (seatClass: string, mode: PricingMode, amount: string) => {
+    const others = value.filter(entry => entry.seatClass !== seatClass)
+    if (mode === 'base') {
+      onChange(others)
+      return
+    }
+
+    const parsed = amount === '' ? (mode === 'multiplier' ? 1 : 0) : parseFloat(amount)
+    onChange([
+      ...others,
+      mode === 'price'
+        ? { seatClass, price: parsed, multiplier: null }
+        : { seatClass, price: null, multiplier: parsed }
+    ])
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-500">{t.hint}</p>
+      {SEAT_CLASSES.map(seatClass => {
+        const entry = value.find(item => item.seatClass === seatClass)
+        const mode = modeOf(entry)
+        const amount = mode === 'price' ? entry?.price : entry?.multiplier
+
+        return (
+          <div key={seatClass} className="grid grid-cols-3 gap-2 items-center">
+            <span className="text-sm text-gray-700">
+              {classLabels[seatClass as keyof typeof classLabels] || seatClass}
+            </span>
+            <select
+              disabled={disabled}
+              value={mode}
+              onChange={(e) => update(seatClass, e.target.value as PricingMode, '')}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="base">{t.modes.base}</option>
+              <option value="multiplier">{t.modes.multiplier}</option>
+              <option value="price">{t.modes.price}</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              step={mode === 'multiplier' ? '0.05' : '0.01'}
+              disabled={disabled || mode === 'base'}
+              value={amount ?? ''}
+              onChange={(e) => update(seatClass, mode, e.target.value)}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:bg-gray-100"
+              dir="ltr"
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
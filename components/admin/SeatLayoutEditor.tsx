@@ -0,0 +1,272 @@
+'use client'
+import { useState, useEffect } from 'react'
+import toast from 'react-hot-toast'
+import { useLanguage } from '@/context/LanguageContext'
+import {
+  SeatLayoutCell,
+  SeatLayoutCellType,
+  SeatLayoutConfig,
+  SEAT_CLASSES,
+  SEAT_LAYOUT_CELL_TYPES,
+  DEFAULT_SEAT_CLASS,
+  layoutSeats,
+  resolveSeatLayout
+} from '@/lib/seatLayout'
+
+interface SeatLayoutEditorProps {
+  busId: string
+  onSaved?: (seatCount: number) => void
+  onLoaded?: (isDefault: boolean) => void
+}
+
+const cellStyles: Record<SeatLayoutCellType, string> = {
+  seat: 'bg-white border border-gray-300 text-gray-800',
+  aisle: 'bg-transparent border border-dashed border-gray-200 text-gray-300',
+  gap: 'bg-gray-50 border border-gray-100 text-gray-300',
+  driver: 'bg-gray-700 text-white',
+  door: 'bg-amber-100 border border-amber-300 text-amber-800'
+}
+
+export default function SeatLayoutEditor({ busId, onSaved, onLoaded }: SeatLayoutEditorProps) {
+  const { translations } = useLanguage()
+  const t = translations.dashboard.buses.form.layout
+  const [layout, setLayout] = useState<SeatLayoutConfig | null>(null)
+  const [tool, setTool] = useState<SeatLayoutCellType>('seat')
+  const [seatClass, setSeatClass] = useState(DEFAULT_SEAT_CLASS)
+  const [saving, setSaving] = useState(false)
+
+  const fetchLayout = async () => {
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/admin/buses/${busId}/layout`, {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      })
+      if (!response.ok) throw new Error(t.loadFailed)
+
+      const data = await response.json()
+      setLayout(data.data.layout)
+      onLoaded?.(data.data.isDefault)
+    } catch (err) {
+      toast.error(t.loadFailed)
+      console.error(err)
+    }
+  }
+
+  useEffect(() => {
+    fetchLayout()
+  }, [busId])
+
+  if (!layout) {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-indigo-500"></div>
+      </div>
+    )
+  }
+
+  const grid = resolveSeatLayout(layout)
+  const seatCount = layoutSeats(grid).length
+
+  // Replace the override for one position, dropping it when it matches the default
+  const setOverride = (row: number, column: number, cell: SeatLayoutCell | null) => {
+    const cells = layout.cells.filter(c => c.row !== row || c.column !== column)
+    if (cell) {
+      const defaultType = layout.aisleColumns.includes(column) ? 'aisle' : 'seat'
+      const isDefault = cell.type === defaultType &&
+        !cell.label &&
+        (cell.type !== 'seat' || !cell.seatClass || cell.seatClass === DEFAULT_SEAT_CLASS)
+      if (!isDefault) cells.push(cell)
+    }
+    setLayout({ ...layout, cells })
+  }
+
+  const handleCellClick = (row: number, column: number) => {
+    const existing = layout.cells.find(c => c.row === row && c.column === column)
+    if (tool === 'seat') {
+      setOverride(row, column, {
+        row,
+        column,
+        type: 'seat',
+        label: existing?.type === 'seat' ? existing.label : undefined,
+        seatClass: seatClass === DEFAULT_SEAT_CLASS ? undefined : seatClass
+      })
+    } else {
+      setOverride(row, column, { row, column, type: tool })
+    }
+  }
+
+  const handleRename = (cell: SeatLayoutCell) => {
+    if (cell.type !== 'seat') return
+    const label = window.prompt(t.labelPrompt, cell.label)
+    if (label === null) return
+    const existing = layout.cells.find(c => c.row === cell.row && c.column === cell.column)
+    setOverride(cell.row, cell.column, {
+      row: cell.row,
+      column: cell.column,
+      type: 'seat',
+      label: label.trim() || undefined,
+      seatClass: existing?.seatClass
+    })
+  }
+
+  const handleResize = (field: 'rows' | 'columns', value: number) => {
+    if (!Number.isInteger(value) || value < 1) return
+    const next = { ...layout, [field]: value }
+    // Drop overrides and aisles that fall outside the new grid
+    next.cells = layout.cells.filter(c => c.row < next.rows && c.column < next.columns)
+    next.aisleColumns = layout.aisleColumns.filter(c => c < next.columns)
+    setLayout(next)
+  }
+
+  const toggleAisle = (column: number) => {
+    const aisleColumns = layout.aisleColumns.includes(column)
+      ? layout.aisleColumns.filter(c => c !== column)
+      : [...layout.aisleColumns, column].sort((a, b) => a - b)
+    setLayout({ ...layout, aisleColumns })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const token = localStorage.getItem('token')
+      const response = await fetch(`/api/admin/buses/${busId}/layout`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(layout)
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || t.saveFailed)
+      }
+
+      setLayout(data.data.layout)
+      toast.success(t.saved)
+      onSaved?.(data.data.seatCount)
+    } catch (err: any) {
+      toast.error(err.message || t.saveFailed)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t.rows}</label>
+          <input
+            type="number"
+            min="1"
+            max="30"
+            value={layout.rows}
+            onChange={(e) => handleResize('rows', parseInt(e.target.value))}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            dir="ltr"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t.columns}</label>
+          <input
+            type="number"
+            min="1"
+            max="10"
+            value={layout.columns}
+            onChange={(e) => handleResize('columns', parseInt(e.target.value))}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            dir="ltr"
+          />
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-2">{t.aisleColumns}</span>
+        <div className="flex flex-wrap gap-3" dir="ltr">
+          {Array.from({ length: layout.columns }, (_, column) => (
+            <label key={column} className="flex items-center gap-1 text-sm">
+              <input
+                type="checkbox"
+                checked={layout.aisleColumns.includes(column)}
+                onChange={() => toggleAisle(column)}
+              />
+              {column + 1}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t.tool}</label>
+          <select
+            value={tool}
+            onChange={(e) => setTool(e.target.value as SeatLayoutCellType)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+          >
+            {SEAT_LAYOUT_CELL_TYPES.map(type => (
+              <option key={type} value={type}>{t.types[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t.seatClass}</label>
+          <select
+            value={seatClass}
+            disabled={tool !== 'seat'}
+            onChange={(e) => setSeatClass(e.target.value)}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 disabled:bg-gray-100"
+          >
+            {SEAT_CLASSES.map(value => (
+              <option key={value} value={value}>{t.classes[value as keyof typeof t.classes] || value}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500">{t.hint}</p>
+
+      <div
+        className="grid gap-2"
+        style={{ gridTemplateColumns: `repeat(${grid.columns}, minmax(0, 1fr))` }}
+        dir="ltr"
+      >
+        {grid.cells.map(cell => (
+          <button
+            key={`${cell.row}:${cell.column}`}
+            type="button"
+            onClick={() => handleCellClick(cell.row, cell.column)}
+            onDoubleClick={() => handleRename(cell)}
+            className={`h-12 rounded text-xs ${cellStyles[cell.type]}`}
+          >
+            {cell.type === 'seat' ? (
+              <>
+                {cell.label}
+                {cell.seatClass !== DEFAULT_SEAT_CLASS && (
+                  <span className="block text-[10px] text-indigo-600">{cell.seatClass}</span>
+                )}
+              </>
+            ) : cell.type === 'driver' || cell.type === 'door' ? t.types[cell.type] : ''}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-between items-center">
+        <span className="text-sm text-gray-600">{t.seatCount}: {seatCount}</span>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md disabled:bg-indigo-300"
+        >
+          {saving ? t.saving : t.save}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -2,12 +2,13 @@
 import { createContext, useContext, useEffect, useState } from 'react'
 import { getValidToken, isTokenExpired } from '@/utils/auth'
 import { useRouter } from 'next/navigation'
+import { isStaffRole } from '@/lib/permissions'
 
 interface User {
   id: string
   name: string
-  email: string
-  role: 'USER' | 'ADMIN'
+  email: string | null
+  role: 'USER' | 'ADMIN' | 'CASHIER' | 'DISPATCHER' | 'SUPPORT'
   emailVerified: boolean
   phone?: string | null
 }
@@ -16,10 +17,12 @@ interface AuthContextType {
   isAuthenticated: boolean
   user: User | null
   login: (userData: User, token: string, refreshToken: string) => Promise<void>
-  logout: () => void
+  logout: () => Promise<void>
   checkAuth: () => boolean
   loading: boolean
   isAdmin: boolean
+  // Any role that works in the admin dashboard
+  isStaff: boolean
 }
 
 
@@ -88,7 +91,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
-  const logout = () => {
+  const logout = async () => {
+    const token = localStorage.getItem('token')
+    const refreshToken = localStorage.getItem('refreshToken')
+
+    // Revoke the tokens server-side; the local session is cleared even if this fails
+    if (refreshToken) {
+      try {
+        await fetch('/api/auth/logout', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token && { 'Authorization': `Bearer ${token}` })
+          },
+          body: JSON.stringify({ refreshToken })
+        })
+      } catch (error) {
+        console.error('Error during logout:', error)
+      }
+    }
+
     localStorage.removeItem('token')
     localStorage.removeItem('refreshToken')
     setUser(null)
@@ -105,6 +127,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       checkAuth, 
       loading ,
       isAdmin: user?.role === 'ADMIN',
+      isStaff: isStaffRole(user?.role),
 
     }}>
       {children}
@@ -0,0 +1,67 @@
+import { useState, useEffect, useRef } from 'react'
+
+export interface SeatUpdate {
+  id: string
+  seatNumber: string
+  status: string | null
+}
+
+interface SeatUpdateEvent {
+  tripId: string
+  seats: SeatUpdate[]
+  emittedAt: string
+}
+
+// Subscribe to live seat status changes for a trip over Server-Sent Events.
+// onUpdate receives the full seat list on connect and the changed seats afterwards.
+export const useSeatUpdates = (
+  tripId: string | null | undefined,
+  onUpdate: (seats: SeatUpdate[]) => void
+) => {
+  const [connected, setConnected] = useState(false)
+  const onUpdateRef = useRef(onUpdate)
+
+  useEffect(() => {
+    onUpdateRef.current = onUpdate
+  }, [onUpdate])
+
+  useEffect(() => {
+    if (!tripId || typeof EventSource === 'undefined') {
+      return
+    }
+
+    const source = new EventSource(`/api/trips/${tripId}/seats/stream`)
+
+    const handleMessage = (message: MessageEvent) => {
+      try {
+        const event = JSON.parse(message.data) as SeatUpdateEvent
+        onUpdateRef.current(event.seats)
+      } catch (err) {
+        console.error('Invalid seat update event', err)
+      }
+    }
+
+    source.onopen = () => setConnected(true)
+    source.onerror = () => setConnected(false) // EventSource reconnects on its own
+    source.addEventListener('snapshot', handleMessage)
+    source.addEventListener('seats', handleMessage)
+
+    return () => {
+      source.close()
+      setConnected(false)
+    }
+  }, [tripId])
+
+  return { connected }
+}
+
+// Merge a batch of seat updates into an existing seat list by id
+export const mergeSeatUpdates = <T extends { id: string; status: string }>(
+  seats: T[],
+  updates: SeatUpdate[]
+): T[] => {
+  const statusById = new Map(updates.map(update => [update.id, update.status]))
+  return seats.map(seat =>
+    statusById.has(seat.id) ? ({ ...seat, status: statusById.get(seat.id) ?? seat.status } as T) : seat
+  )
+}
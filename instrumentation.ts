@@ -0,0 +1,27 @@
+export async function register() {
+  // Background jobs only run in the Node.js server runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return
+  }
+
+  // Seat lock sweeper (set SEAT_LOCK_SWEEP_INTERVAL_SECONDS=0 to disable)
+  const sweepInterval = parseInt(process.env.SEAT_LOCK_SWEEP_INTERVAL_SECONDS || '60')
+  if (sweepInterval > 0) {
+    const { startSeatLockSweeper } = await import('@/lib/seatLockService')
+    startSeatLockSweeper(sweepInterval * 1000)
+  }
+
+  // Recurring trip generator (set TRIP_SCHEDULE_INTERVAL_SECONDS=0 to disable)
+  const scheduleInterval = parseInt(process.env.TRIP_SCHEDULE_INTERVAL_SECONDS || '3600')
+  if (scheduleInterval > 0) {
+    const { startTripScheduleGenerator } = await import('@/lib/tripScheduleService')
+    startTripScheduleGenerator(scheduleInterval * 1000)
+  }
+
+  // Trip, bus and booking status lifecycle (set TRIP_LIFECYCLE_INTERVAL_SECONDS=0 to disable)
+  const lifecycleInterval = parseInt(process.env.TRIP_LIFECYCLE_INTERVAL_SECONDS || '60')
+  if (lifecycleInterval > 0) {
+    const { startTripLifecycleRunner } = await import('@/lib/tripLifecycleService')
+    startTripLifecycleRunner(lifecycleInterval * 1000)
+  }
+}
@@ -0,0 +1,208 @@
+// lib/adService.ts
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+
+// Carousels never show more than this many ads at once
+export const MAX_CAROUSEL_ADS = 10
+export const MAX_AD_IMAGE_SIZE = 5 * 1024 * 1024
+export const AD_IMAGE_FOLDER = 'ads'
+// Impression and click counting is public, so each IP may only report so much
+export const AD_TRACKING_PER_IP = { limit: 60, windowMs: 60 * 1000 }
+
+export const AD_STATUSES = ['active', 'scheduled', 'expired', 'inactive'] as const
+
+// The linked trip as shown in the admin dashboard
+export const AD_ADMIN_INCLUDE = {
+  trip: {
+    select: {
+      id: true,
+      departureTime: true,
+      route: {
+        include: {
+          departureCity: true,
+          arrivalCity: true
+        }
+      }
+    }
+  }
+} satisfies Prisma.AdInclude
+
+// Types
+export type AdStatus = typeof AD_STATUSES[number]
+
+export interface AdFields {
+  title: string | null
+  url: string
+  description: string | null
+  tripId: string | null
+  isActive: boolean
+  startsAt: Date | null
+  endsAt: Date | null
+}
+
+export interface ParsedAdForm {
+  fields: AdFields
+  errors: Record<string, string[]>
+}
+
+const optionalString = (value: FormDataEntryValue | null) => {
+  const text = typeof value === 'string' ? value.trim() : ''
+  return text || null
+}
+
+const optionalDate = (value: FormDataEntryValue | null) => {
+  const text = optionalString(value)
+  return text ? new Date(text) : null
+}
+
+// Internal paths such as /trips/123 are allowed besides absolute http(s) links
+const isValidAdUrl = (url: string) => {
+  if (url.startsWith('/') && !url.startsWith('//')) return true
+
+  try {
+    const parsed = new URL(url)
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Reads the ad fields shared by the create and update forms; the image is handled by the routes
+export function parseAdForm(formData: FormData): ParsedAdForm {
+  const errors: Record<string, string[]> = {}
+  const fields: AdFields = {
+    title: optionalString(formData.get('title')),
+    url: optionalString(formData.get('url')) ?? '',
+    description: optionalString(formData.get('description')),
+    tripId: optionalString(formData.get('tripId')),
+    isActive: formData.get('isActive') !== 'false',
+    startsAt: optionalDate(formData.get('startsAt')),
+    endsAt: optionalDate(formData.get('endsAt'))
+  }
+
+  if (!fields.url) {
+    errors.url = ['url is required']
+  } else if (fields.url.length > 255 || !isValidAdUrl(fields.url)) {
+    errors.url = ['url must be an http(s) link or a path on this site']
+  }
+
+  if (fields.title && fields.title.length > 150) {
+    errors.title = ['title must be at most 150 characters long']
+  }
+
+  if (fields.startsAt && isNaN(fields.startsAt.getTime())) {
+    errors.startsAt = ['startsAt must be a valid date']
+  }
+
+  if (fields.endsAt && isNaN(fields.endsAt.getTime())) {
+    errors.endsAt = ['endsAt must be a valid date']
+  } else if (fields.startsAt && fields.endsAt && fields.endsAt <= fields.startsAt) {
+    errors.endsAt = ['endsAt must be after startsAt']
+  }
+
+  return { fields, errors }
+}
+
+export function validateAdImage(file: File): string | null {
+  if (!file.type.startsWith('image/')) {
+    return 'The ad image must be an image file'
+  }
+
+  if (file.size > MAX_AD_IMAGE_SIZE) {
+    return 'The ad image must be at most 5 MB'
+  }
+
+  return null
+}
+
+// Ads that are switched on and inside their schedule window
+export function activeAdsWhere(now: Date = new Date()): Prisma.AdWhereInput {
+  return {
+    isActive: true,
+    AND: [
+      { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+      { OR: [{ endsAt: null }, { endsAt: { gt: now } }] }
+    ]
+  }
+}
+
+export function adStatusWhere(status: AdStatus, now: Date = new Date()): Prisma.AdWhereInput {
+  switch (status) {
+    case 'active':
+      return activeAdsWhere(now)
+    case 'scheduled':
+      return { isActive: true, startsAt: { gt: now } }
+    case 'expired':
+      return { isActive: true, endsAt: { lte: now } }
+    case 'inactive':
+      return { isActive: false }
+  }
+}
+
+export function getAdStatus(
+  ad: { isActive: boolean, startsAt: Date | null, endsAt: Date | null },
+  now: Date = new Date()
+): AdStatus {
+  if (!ad.isActive) return 'inactive'
+  if (ad.endsAt && ad.endsAt <= now) return 'expired'
+  if (ad.startsAt && ad.startsAt > now) return 'scheduled'
+  return 'active'
+}
+
+// Ads for the carousels, newest first. Trip ads whose trip no longer takes bookings are left out.
+export async function listActiveAds(limit: number = MAX_CAROUSEL_ADS) {
+  const now = new Date()
+
+  return prisma.ad.findMany({
+    where: {
+      ...activeAdsWhere(now),
+      OR: [
+        { tripId: null },
+        { trip: { status: 'scheduled', departureTime: { gt: now } } }
+      ]
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: {
+      id: true,
+      title: true,
+      imageUrl: true,
+      url: true,
+      description: true,
+      tripId: true
+    }
+  })
+}
+
+// Counts a view of each ad; unknown ids are ignored
+export async function recordImpressions(adIds: string[]) {
+  const ids = Array.from(new Set(adIds)).slice(0, MAX_CAROUSEL_ADS)
+  if (ids.length === 0) return 0
+
+  const result = await prisma.ad.updateMany({
+    where: { id: { in: ids }, ...activeAdsWhere() },
+    data: { impressions: { increment: 1 } }
+  })
+
+  return result.count
+}
+
+// Where an ad leads, or null for an unknown ad. Counts the click unless told otherwise.
+export async function getAdUrl(adId: string, countClick: boolean = true) {
+  if (!countClick) {
+    const ad = await prisma.ad.findUnique({ where: { id: adId }, select: { url: true } })
+    return ad?.url ?? null
+  }
+
+  try {
+    const ad = await prisma.ad.update({
+      where: { id: adId },
+      data: { clicks: { increment: 1 } },
+      select: { url: true }
+    })
+    return ad.url
+  } catch (error: any) {
+    if (error?.code === 'P2025') return null
+    throw error
+  }
+}
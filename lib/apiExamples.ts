@@ -233,7 +233,7 @@ export const getBookingDetailsExample = asyncHandler(async (request: NextRequest
           payments: true
         }
       },
-      ratings: true,
+      rating: true,
       feedbacks: true
     }
   })
@@ -0,0 +1,13 @@
+// lib/authorization.ts
+import { ApiError } from '@/lib/errorHandler'
+import { Permission, hasPermission } from '@/lib/permissions'
+
+// The middleware already checked the route table; handlers that move money or delete data
+// check again so a gap in the table cannot expose them.
+export function requirePermission(request: Request, permission: Permission) {
+  const role = request.headers.get('userRole')
+
+  if (!hasPermission(role, permission)) {
+    throw ApiError.forbidden('You do not have permission to perform this action')
+  }
+}
@@ -0,0 +1,170 @@
+// lib/cancellationPolicy.ts
+import { Prisma, CancellationPolicy } from '@prisma/client'
+
+// Types
+// Refund share of the amount paid once at least `minHoursBeforeDeparture` hours are left
+export interface CancellationTier {
+  minHoursBeforeDeparture: number
+  refundPercentage: number
+}
+
+export type CancellationPolicySource = 'route' | 'global' | 'default'
+
+export interface ResolvedCancellationPolicy {
+  id: string | null
+  name: string
+  source: CancellationPolicySource
+  tiers: CancellationTier[]
+  cutoffHours: number | null
+}
+
+export interface CancellationEvaluation {
+  allowed: boolean
+  reason: string | null
+  policy: {
+    id: string | null
+    name: string
+    source: CancellationPolicySource
+  }
+  hoursBeforeDeparture: number
+  refundPercentage: number
+  paidAmount: number
+  refundableAmount: number
+  fee: number
+}
+
+interface CancellableTrip {
+  departureTime: Date
+  status: string | null
+}
+
+type PolicyClient = Prisma.TransactionClient
+
+// Used when neither the route nor the global policy is configured
+export const DEFAULT_CANCELLATION_TIERS: CancellationTier[] = [
+  { minHoursBeforeDeparture: 24, refundPercentage: 100 },
+  { minHoursBeforeDeparture: 6, refundPercentage: 50 },
+  { minHoursBeforeDeparture: 0, refundPercentage: 0 }
+]
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+// Tiers ordered from the furthest to the closest to departure, so the first match wins
+function sortTiers(tiers: CancellationTier[]): CancellationTier[] {
+  return [...tiers].sort((a, b) => b.minHoursBeforeDeparture - a.minHoursBeforeDeparture)
+}
+
+function toResolvedPolicy(policy: CancellationPolicy, source: CancellationPolicySource): ResolvedCancellationPolicy {
+  return {
+    id: policy.id,
+    name: policy.name,
+    source,
+    tiers: sortTiers(policy.tiers as unknown as CancellationTier[]),
+    cutoffHours: policy.cutoffHours
+  }
+}
+
+// Validate tiers sent by a client; returns true or an error message
+export function validateCancellationTiers(value: any): true | string {
+  if (!Array.isArray(value) || value.length === 0) return 'Tiers must be a non-empty array'
+
+  const hours = new Set<number>()
+  for (const tier of value) {
+    if (!tier || typeof tier.minHoursBeforeDeparture !== 'number' || tier.minHoursBeforeDeparture < 0) {
+      return 'minHoursBeforeDeparture must be a non-negative number'
+    }
+    if (typeof tier.refundPercentage !== 'number' || tier.refundPercentage < 0 || tier.refundPercentage > 100) {
+      return 'refundPercentage must be a number between 0 and 100'
+    }
+    if (hours.has(tier.minHoursBeforeDeparture)) {
+      return `More than one tier starts at ${tier.minHoursBeforeDeparture} hours`
+    }
+    hours.add(tier.minHoursBeforeDeparture)
+  }
+
+  return true
+}
+
+// Keep only the tier fields, ordered for evaluation
+export function normalizeCancellationTiers(tiers: CancellationTier[]): CancellationTier[] {
+  return sortTiers(tiers.map(tier => ({
+    minHoursBeforeDeparture: tier.minHoursBeforeDeparture,
+    refundPercentage: tier.refundPercentage
+  })))
+}
+
+// Policy that applies to a route: its own active policy, else the global one, else the defaults
+export async function getCancellationPolicy(
+  client: PolicyClient,
+  routeId: string
+): Promise<ResolvedCancellationPolicy> {
+  const routePolicy = await client.cancellationPolicy.findFirst({
+    where: { routeId, isActive: true }
+  })
+  if (routePolicy) {
+    return toResolvedPolicy(routePolicy, 'route')
+  }
+
+  const globalPolicy = await client.cancellationPolicy.findFirst({
+    where: { routeId: null, isActive: true },
+    orderBy: { updatedAt: 'desc' }
+  })
+  if (globalPolicy) {
+    return toResolvedPolicy(globalPolicy, 'global')
+  }
+
+  return {
+    id: null,
+    name: 'Default',
+    source: 'default',
+    tiers: DEFAULT_CANCELLATION_TIERS,
+    cutoffHours: null
+  }
+}
+
+// Whether a booking on the trip can be cancelled now, and how much of the paid amount goes back
+export function evaluateCancellation(
+  policy: ResolvedCancellationPolicy,
+  trip: CancellableTrip,
+  paidAmount: number,
+  now: Date = new Date()
+): CancellationEvaluation {
+  const hoursBeforeDeparture = (trip.departureTime.getTime() - now.getTime()) / (60 * 60 * 1000)
+
+  let allowed = true
+  let reason: string | null = null
+  let refundPercentage: number
+
+  if (trip.status === 'cancelled') {
+    // The operator called the trip off, so nothing is withheld
+    refundPercentage = 100
+  } else {
+    const tier = policy.tiers.find(entry => hoursBeforeDeparture >= entry.minHoursBeforeDeparture)
+    refundPercentage = tier?.refundPercentage ?? 0
+
+    if (trip.status !== 'scheduled' || hoursBeforeDeparture < 0) {
+      allowed = false
+      reason = 'The trip has already departed'
+    } else if (policy.cutoffHours !== null && hoursBeforeDeparture < policy.cutoffHours) {
+      allowed = false
+      reason = `Bookings cannot be cancelled less than ${policy.cutoffHours} hours before departure`
+    }
+  }
+
+  const refundableAmount = roundMoney(paidAmount * refundPercentage / 100)
+
+  return {
+    allowed,
+    reason,
+    policy: {
+      id: policy.id,
+      name: policy.name,
+      source: policy.source
+    },
+    hoursBeforeDeparture: Math.round(hoursBeforeDeparture * 10) / 10,
+    refundPercentage,
+    paidAmount: roundMoney(paidAmount),
+    refundableAmount,
+    fee: roundMoney(paidAmount - refundableAmount)
+  }
+}
@@ -0,0 +1,207 @@
+// lib/depositService.ts
+import { Prisma, BillStatus, Payment } from '@prisma/client'
+import { Decimal } from '@prisma/client/runtime/library'
+import { ApiError } from '@/lib/errorHandler'
+import { manualPaymentProvider, PAYMENT_CURRENCY } from '@/lib/paymentProvider'
+
+// Used when neither the trip nor its route configures cash deposits
+export const DEFAULT_CASH_DEPOSIT_PERCENTAGE = 25
+// The balance is due at boarding unless a route or trip asks for it earlier
+export const DEFAULT_BALANCE_DUE_HOURS = 0
+
+// Types
+export interface DepositRule {
+  depositPercentage: number
+  balanceDueHours: number
+  source: 'trip' | 'route' | 'default'
+}
+
+export interface DepositTerms {
+  depositPercentage: number
+  depositAmount: Decimal
+  balanceAmount: Decimal
+  balanceDueAt: Date
+}
+
+export interface BillSettlement {
+  billStatus: BillStatus
+  totalPaid: number
+  remainingBalance: number
+  depositPaid: boolean
+}
+
+interface DepositSettings {
+  cashDepositPercentage: Decimal | null
+  balanceDueHours: number | null
+}
+
+interface DepositTrip extends DepositSettings {
+  departureTime: Date
+  route: DepositSettings
+}
+
+const toNumber = (value: Decimal | number) => parseFloat(value.toString())
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+// Trip settings win over the route's, which win over the defaults
+export function resolveDepositRule(trip: DepositTrip): DepositRule {
+  const depositPercentage = trip.cashDepositPercentage ?? trip.route.cashDepositPercentage
+  const balanceDueHours = trip.balanceDueHours ?? trip.route.balanceDueHours
+  const source = trip.cashDepositPercentage !== null || trip.balanceDueHours !== null
+    ? 'trip'
+    : trip.route.cashDepositPercentage !== null || trip.route.balanceDueHours !== null
+      ? 'route'
+      : 'default'
+
+  return {
+    depositPercentage: depositPercentage !== null ? toNumber(depositPercentage) : DEFAULT_CASH_DEPOSIT_PERCENTAGE,
+    balanceDueHours: balanceDueHours ?? DEFAULT_BALANCE_DUE_HOURS,
+    source
+  }
+}
+
+// Deposit owed up front for a cash booking and when the rest is due
+export function calculateDepositTerms(amount: Decimal, trip: DepositTrip): DepositTerms {
+  const rule = resolveDepositRule(trip)
+  const depositAmount = new Decimal(amount).mul(rule.depositPercentage).div(100).toDecimalPlaces(2)
+
+  return {
+    depositPercentage: rule.depositPercentage,
+    depositAmount,
+    balanceAmount: new Decimal(amount).sub(depositAmount),
+    balanceDueAt: new Date(trip.departureTime.getTime() - rule.balanceDueHours * 60 * 60 * 1000)
+  }
+}
+
+// Validate the optional deposit settings of a route or trip; returns true or an error message
+export function validateDepositSettings(percentage: unknown, hours: unknown): true | string {
+  if (percentage !== undefined && percentage !== null) {
+    if (typeof percentage !== 'number' || isNaN(percentage) || percentage <= 0 || percentage > 100) {
+      return 'Cash deposit percentage must be greater than 0 and at most 100'
+    }
+  }
+
+  if (hours !== undefined && hours !== null) {
+    if (typeof hours !== 'number' || !Number.isInteger(hours) || hours < 0) {
+      return 'Balance due hours must be a non-negative whole number'
+    }
+  }
+
+  return true
+}
+
+// Parse an optional numeric form field; empty means "inherit"
+export function parseOptionalNumber(raw: FormDataEntryValue | null): number | null | undefined {
+  if (raw === null) return undefined
+  if (raw === '') return null
+  return Number(raw)
+}
+
+// Move a bill between unpaid, partially paid and paid from its successful payments.
+// Cancelled and refunded bills are left alone.
+export async function settleBill(
+  tx: Prisma.TransactionClient,
+  billId: string
+): Promise<BillSettlement> {
+  const bill = await tx.bill.findUnique({
+    where: { id: billId },
+    include: { payments: true }
+  })
+
+  if (!bill) {
+    throw ApiError.notFound('Bill')
+  }
+
+  const totalPaid = roundMoney(bill.payments
+    .filter(payment => payment.status === 'successful')
+    .reduce((sum, payment) => sum + toNumber(payment.amount), 0))
+  const billAmount = toNumber(bill.amount)
+  const remainingBalance = Math.max(0, roundMoney(billAmount - totalPaid))
+  const depositPaid = totalPaid >= (bill.depositAmount !== null ? toNumber(bill.depositAmount) : billAmount)
+
+  let billStatus = bill.status
+  if (bill.status !== 'cancelled' && bill.status !== 'refunded') {
+    billStatus = remainingBalance === 0 ? 'paid' : totalPaid > 0 ? 'partially_paid' : 'unpaid'
+
+    if (billStatus !== bill.status) {
+      await tx.bill.update({
+        where: { id: billId },
+        data: { status: billStatus }
+      })
+    }
+  }
+
+  return { billStatus, totalPaid, remainingBalance, depositPaid }
+}
+
+// Record the remaining cash handed to staff at boarding and settle the bill
+export async function collectCashBalance(
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+  collectedBy: string | null,
+  amount?: number
+): Promise<{ payment: Payment; settlement: BillSettlement }> {
+  const booking = await tx.booking.findUnique({
+    where: { id: bookingId },
+    include: { bill: { include: { payments: true } } }
+  })
+
+  if (!booking) {
+    throw ApiError.notFound('Booking')
+  }
+
+  if (!booking.bill) {
+    throw ApiError.validation('No bill found for this booking')
+  }
+
+  if (booking.status !== 'confirmed') {
+    throw ApiError.validation('Only confirmed bookings can have their balance collected')
+  }
+
+  if (booking.bill.status !== 'partially_paid') {
+    throw ApiError.validation('This bill has no outstanding deposit balance')
+  }
+
+  if (booking.bill.payments.some(payment => payment.status === 'pending')) {
+    throw ApiError.validation('Confirm or reject the pending payment first')
+  }
+
+  const { remainingBalance } = await settleBill(tx, booking.bill.id)
+  const collected = amount ?? remainingBalance
+
+  if (collected <= 0 || collected > remainingBalance) {
+    throw ApiError.validation(`Collected amount must be greater than 0 and at most ${remainingBalance}`)
+  }
+
+  const pending = await tx.payment.create({
+    data: {
+      billId: booking.bill.id,
+      amount: collected,
+      method: 'cash',
+      kind: 'balance',
+      status: 'pending',
+      provider: manualPaymentProvider.name
+    }
+  })
+
+  const intent = await manualPaymentProvider.createIntent({
+    paymentId: pending.id,
+    amount: new Decimal(collected),
+    currency: PAYMENT_CURRENCY,
+    method: 'cash'
+  })
+
+  const payment = await tx.payment.update({
+    where: { id: pending.id },
+    data: {
+      status: 'successful',
+      transactionId: intent.transactionId,
+      collectedBy,
+      paidAt: new Date()
+    }
+  })
+
+  const settlement = await settleBill(tx, booking.bill.id)
+
+  return { payment, settlement }
+}
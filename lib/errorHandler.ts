@@ -62,8 +62,8 @@ export class ApiError extends Error {
     return new ApiError(message, ErrorType.DATABASE, 500)
   }
 
-  static rateLimit(message: string = 'Too many requests'): ApiError {
-    return new ApiError(message, ErrorType.RATE_LIMIT, 429)
+  static rateLimit(message: string = 'Too many requests', retryAfterSeconds?: number): ApiError {
+    return new ApiError(message, ErrorType.RATE_LIMIT, 429, true, retryAfterSeconds !== undefined ? { retryAfterSeconds } : undefined)
   }
 
   static internal(message: string = 'Internal server error'): ApiError {
@@ -108,11 +108,17 @@ export class ErrorHandler {
   private static handleApiError(error: ApiError) {
     const message = this.isDevelopment ? error.message : this.getPublicMessage(error.type)
     
-    return ApiResponseBuilder.error(
+    const response = ApiResponseBuilder.error(
       message,
       error.statusCode,
       this.getPublicMessage(error.type)
     )
+
+    if (error.type === ErrorType.RATE_LIMIT && error.details?.retryAfterSeconds) {
+      response.headers.set('Retry-After', String(error.details.retryAfterSeconds))
+    }
+
+    return response
   }
 
   // Handle Prisma errors
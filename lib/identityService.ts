@@ -0,0 +1,146 @@
+// lib/identityService.ts
+import bcrypt from 'bcryptjs'
+import { AuthIdentity, AuthProvider, Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/errorHandler'
+
+// Types
+export interface LinkedIdentity {
+  provider: AuthProvider
+  providerUserId: string
+  linkedAt: Date
+  lastUsedAt: Date | null
+}
+
+export const AUTH_PROVIDERS: AuthProvider[] = ['password', 'google', 'phone']
+
+export function isAuthProvider(value: string): value is AuthProvider {
+  return (AUTH_PROVIDERS as string[]).includes(value)
+}
+
+// Same rules as registration
+export function validatePasswordStrength(password: unknown): true | string {
+  if (
+    typeof password !== 'string' ||
+    password.length < 8 ||
+    !/[A-Z]/.test(password) ||
+    !/[a-z]/.test(password) ||
+    !/\d/.test(password) ||
+    !/[!@#$%^&*(),.?":{}|<>]/.test(password)
+  ) {
+    return 'Password must be at least 8 characters long and contain uppercase, lowercase, numbers, and special characters'
+  }
+
+  return true
+}
+
+export async function listIdentities(userId: string): Promise<LinkedIdentity[]> {
+  const identities = await prisma.authIdentity.findMany({
+    where: { userId },
+    orderBy: { linkedAt: 'asc' }
+  })
+
+  return identities.map(identity => ({
+    provider: identity.provider,
+    // The password identity is keyed by the user id, which is of no use to the client
+    providerUserId: identity.provider === 'password' ? '' : identity.providerUserId,
+    linkedAt: identity.linkedAt,
+    lastUsedAt: identity.lastUsedAt
+  }))
+}
+
+// Find the account a sign-in credential belongs to and note its use
+export async function findUserByIdentity(provider: AuthProvider, providerUserId: string) {
+  const identity = await prisma.authIdentity.findUnique({
+    where: { provider_providerUserId: { provider, providerUserId } },
+    include: { user: true }
+  })
+
+  if (!identity) return null
+
+  await prisma.authIdentity.update({
+    where: { id: identity.id },
+    data: { lastUsedAt: new Date() }
+  })
+
+  return identity.user
+}
+
+// Attach a credential to a user. Throws 409 when it already belongs to another account
+// or the user already has a credential of that provider.
+export async function linkIdentity(
+  client: Prisma.TransactionClient,
+  userId: string,
+  provider: AuthProvider,
+  providerUserId: string
+): Promise<AuthIdentity> {
+  const owner = await client.authIdentity.findUnique({
+    where: { provider_providerUserId: { provider, providerUserId } }
+  })
+
+  if (owner) {
+    if (owner.userId === userId) return owner
+    throw ApiError.conflict(`This ${provider} sign-in is already linked to another account`)
+  }
+
+  const existing = await client.authIdentity.findUnique({
+    where: { userId_provider: { userId, provider } }
+  })
+
+  if (existing) {
+    throw ApiError.conflict(`Unlink the current ${provider} sign-in first`)
+  }
+
+  const identity = await client.authIdentity.create({
+    data: { userId, provider, providerUserId }
+  })
+
+  if (provider === 'phone') {
+    await client.user.update({
+      where: { id: userId },
+      data: { phone: providerUserId, phoneVerified: true }
+    })
+  }
+
+  return identity
+}
+
+// Store a password hash and make sure the password identity exists
+export async function setPassword(client: Prisma.TransactionClient, userId: string, password: string) {
+  const hashedPassword = await bcrypt.hash(password, 12)
+
+  await client.user.update({
+    where: { id: userId },
+    data: { password: hashedPassword }
+  })
+
+  await client.authIdentity.upsert({
+    where: { userId_provider: { userId, provider: 'password' } },
+    create: { userId, provider: 'password', providerUserId: userId },
+    update: {}
+  })
+}
+
+// Remove a sign-in method; the last remaining one cannot be removed
+export async function unlinkIdentity(userId: string, provider: AuthProvider) {
+  return prisma.$transaction(async (tx) => {
+    const identities = await tx.authIdentity.findMany({ where: { userId } })
+    const identity = identities.find(item => item.provider === provider)
+
+    if (!identity) {
+      throw ApiError.notFound('Sign-in method')
+    }
+
+    if (identities.length === 1) {
+      throw ApiError.validation('You cannot remove your only sign-in method')
+    }
+
+    await tx.authIdentity.delete({ where: { id: identity.id } })
+
+    if (provider === 'password') {
+      await tx.user.update({ where: { id: userId }, data: { password: null } })
+    } else if (provider === 'phone') {
+      await tx.user.update({ where: { id: userId }, data: { phoneVerified: false } })
+    }
+  })
+}
@@ -0,0 +1,281 @@
+// lib/jwtService.ts
+// Issues and verifies every JWT of the app. Built on jose so the same code runs in the
+// edge middleware and in route handlers.
+import { SignJWT, jwtVerify, type JWTPayload, type JWTHeaderParameters } from 'jose'
+import { ApiError } from '@/lib/errorHandler'
+
+// Types
+export type TokenType = 'access' | 'refresh' | 'two_factor'
+
+export interface AccessTokenClaims {
+  userId: string
+  role: string
+  sessionId: string | null
+}
+
+// Access token claims plus the id and expiry used by the logout denylist
+export interface VerifiedAccessToken extends AccessTokenClaims {
+  jti: string
+  expiresAt: Date
+}
+
+export interface RefreshTokenClaims {
+  userId: string
+  familyId: string
+  jti: string
+}
+
+// Handed out by a login that still needs its second factor: `verify` asks for a code,
+// `enroll` lets an admin without 2FA set it up first
+export interface TwoFactorChallengeClaims {
+  userId: string
+  stage: 'verify' | 'enroll'
+}
+
+export interface SignedToken {
+  token: string
+  expiresAt: Date
+}
+
+interface SigningKey {
+  kid: string
+  secret: Uint8Array
+}
+
+interface JwtConfig {
+  issuer: string
+  audience: string
+  accessTokenTtlSeconds: number
+  refreshTokenTtlSeconds: number
+  twoFactorChallengeTtlSeconds: number
+  accessKeys: SigningKey[]
+  refreshKeys: SigningKey[]
+}
+
+const JWT_ALGORITHM = 'HS256'
+const DEFAULT_ACCESS_TOKEN_TTL = '3h'
+const DEFAULT_REFRESH_TOKEN_TTL = '7d'
+const DEFAULT_TWO_FACTOR_CHALLENGE_TTL = '5m'
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 60 * 60, d: 60 * 60 * 24 }
+
+// "90", "15m", "3h" or "7d" in seconds
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+)\s*([smhd]?)$/)
+
+  if (!match) {
+    throw new Error(`Invalid token lifetime "${value}"`)
+  }
+
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2] || 's']
+}
+
+// "kid1:secret1,kid2:secret2"; the first key signs, all of them verify. Keep the old key
+// listed after the new one until tokens signed with it have expired.
+export function parseSigningKeys(value: string | undefined, fallbackSecret: string): SigningKey[] {
+  const encoder = new TextEncoder()
+
+  if (!value?.trim()) {
+    return [{ kid: 'default', secret: encoder.encode(fallbackSecret) }]
+  }
+
+  return value.split(',').map(entry => {
+    const separator = entry.indexOf(':')
+
+    if (separator <= 0 || separator === entry.length - 1) {
+      throw new Error('JWT keys must be listed as "kid:secret" pairs')
+    }
+
+    return {
+      kid: entry.slice(0, separator).trim(),
+      secret: encoder.encode(entry.slice(separator + 1).trim())
+    }
+  })
+}
+
+let cachedConfig: JwtConfig | null = null
+
+function getConfig(): JwtConfig {
+  if (!cachedConfig) {
+    cachedConfig = {
+      issuer: process.env.JWT_ISSUER || 'kzdora',
+      audience: process.env.JWT_AUDIENCE || 'kzdora-api',
+      accessTokenTtlSeconds: parseDuration(process.env.JWT_ACCESS_TOKEN_TTL || DEFAULT_ACCESS_TOKEN_TTL),
+      refreshTokenTtlSeconds: parseDuration(process.env.JWT_REFRESH_TOKEN_TTL || DEFAULT_REFRESH_TOKEN_TTL),
+      twoFactorChallengeTtlSeconds: parseDuration(
+        process.env.JWT_TWO_FACTOR_CHALLENGE_TTL || DEFAULT_TWO_FACTOR_CHALLENGE_TTL
+      ),
+      accessKeys: parseSigningKeys(process.env.JWT_KEYS, process.env.JWT_SECRET || 'your-secret-key'),
+      refreshKeys: parseSigningKeys(process.env.JWT_REFRESH_KEYS, process.env.JWT_REFRESH_SECRET || 'your-refresh-secret')
+    }
+  }
+
+  return cachedConfig
+}
+
+async function signToken(
+  type: TokenType,
+  subject: string,
+  claims: JWTPayload,
+  ttlSeconds: number,
+  keys: SigningKey[],
+  jti?: string
+): Promise<SignedToken> {
+  const { issuer, audience } = getConfig()
+  const [signingKey] = keys
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const expiresAt = issuedAt + ttlSeconds
+
+  const jwt = new SignJWT({ ...claims, typ: type })
+    .setProtectedHeader({ alg: JWT_ALGORITHM, kid: signingKey.kid })
+    .setSubject(subject)
+    .setIssuer(issuer)
+    .setAudience(audience)
+    .setIssuedAt(issuedAt)
+    .setExpirationTime(expiresAt)
+
+  if (jti) {
+    jwt.setJti(jti)
+  }
+
+  return {
+    token: await jwt.sign(signingKey.secret),
+    expiresAt: new Date(expiresAt * 1000)
+  }
+}
+
+async function verifyToken(type: TokenType, token: string, keys: SigningKey[]): Promise<JWTPayload> {
+  const { issuer, audience } = getConfig()
+
+  const resolveKey = (header: JWTHeaderParameters) => {
+    const key = keys.find(candidate => candidate.kid === header.kid)
+
+    if (!key) {
+      throw new Error(`Unknown signing key "${header.kid}"`)
+    }
+
+    return key.secret
+  }
+
+  let payload: JWTPayload
+
+  try {
+    ({ payload } = await jwtVerify(token, resolveKey, {
+      issuer,
+      audience,
+      algorithms: [JWT_ALGORITHM]
+    }))
+  } catch {
+    throw ApiError.unauthorized('Invalid or expired token')
+  }
+
+  if (payload.typ !== type || !payload.sub) {
+    throw ApiError.unauthorized('Invalid or expired token')
+  }
+
+  return payload
+}
+
+export async function signAccessToken(claims: AccessTokenClaims): Promise<SignedToken> {
+  const config = getConfig()
+
+  return signToken(
+    'access',
+    claims.userId,
+    { role: claims.role, sid: claims.sessionId ?? undefined },
+    config.accessTokenTtlSeconds,
+    config.accessKeys,
+    crypto.randomUUID()
+  )
+}
+
+// Throws 401 for tokens that are malformed, expired, of another type or signed with a retired key
+export async function verifyAccessToken(token: string): Promise<VerifiedAccessToken> {
+  const payload = await verifyToken('access', token, getConfig().accessKeys)
+
+  return {
+    userId: payload.sub as string,
+    role: payload.role as string,
+    sessionId: (payload.sid as string | undefined) ?? null,
+    jti: payload.jti as string,
+    expiresAt: new Date((payload.exp as number) * 1000)
+  }
+}
+
+export async function signRefreshToken(claims: RefreshTokenClaims): Promise<SignedToken> {
+  const config = getConfig()
+
+  return signToken(
+    'refresh',
+    claims.userId,
+    { fid: claims.familyId },
+    config.refreshTokenTtlSeconds,
+    config.refreshKeys,
+    claims.jti
+  )
+}
+
+export async function verifyRefreshToken(token: string): Promise<RefreshTokenClaims> {
+  const payload = await verifyToken('refresh', token, getConfig().refreshKeys)
+
+  return {
+    userId: payload.sub as string,
+    familyId: payload.fid as string,
+    jti: payload.jti as string
+  }
+}
+
+// Signed with the access keys; the `typ` claim keeps it from passing as an access token
+export async function signTwoFactorChallenge(claims: TwoFactorChallengeClaims): Promise<SignedToken> {
+  const config = getConfig()
+
+  return signToken(
+    'two_factor',
+    claims.userId,
+    { stage: claims.stage },
+    config.twoFactorChallengeTtlSeconds,
+    config.accessKeys
+  )
+}
+
+export async function verifyTwoFactorChallenge(token: string): Promise<TwoFactorChallengeClaims> {
+  const payload = await verifyToken('two_factor', token, getConfig().accessKeys)
+
+  if (payload.stage !== 'verify' && payload.stage !== 'enroll') {
+    throw ApiError.unauthorized('Invalid or expired token')
+  }
+
+  return {
+    userId: payload.sub as string,
+    stage: payload.stage
+  }
+}
+
+// Shared by the middleware and the internal token status route. It has no fallback, so the
+// token signing key is never sent along with a request.
+export const internalApiSecret = () => process.env.INTERNAL_API_SECRET || null
+
+// Origin the middleware calls the internal routes on, e.g. http://127.0.0.1:3000. It comes from
+// config only: the request's Host header is chosen by the client.
+export const internalApiOrigin = () => process.env.INTERNAL_API_ORIGIN || null
+
+// Secret scheduled jobs send in the x-job-secret header instead of a user's access token.
+// Kept apart from the internal API secret so a job runner never holds more than it needs.
+export const jobSecret = () => process.env.JOB_SECRET || null
+
+// Whether a request carries the configured job secret; false when none is configured
+export function hasJobSecret(headers: Headers): boolean {
+  const secret = jobSecret()
+  return secret !== null && headers.get('x-job-secret') === secret
+}
+
+// Read the bearer token of a request, or null when there is none
+export function getBearerToken(headers: Headers): string | null {
+  const authHeader = headers.get('authorization')
+
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null
+  }
+
+  return authHeader.slice('Bearer '.length).trim() || null
+}
@@ -0,0 +1,163 @@
+// lib/loginProtection.ts
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/errorHandler'
+
+// Every this many consecutive failures lock the account
+export const MAX_FAILED_LOGIN_ATTEMPTS = 5
+// First lockout; each further one doubles, up to a day
+const BASE_LOCKOUT_MINUTES = 15
+const MAX_LOCKOUT_MINUTES = 24 * 60
+
+// Failures an IP gets before it has to wait between attempts
+const FREE_IP_ATTEMPTS = 5
+const MAX_IP_BACKOFF_SECONDS = 15 * 60
+// An IP's failures are forgotten after an hour without new ones
+const IP_FAILURE_TTL_MS = 60 * 60 * 1000
+
+// Types
+export interface AccountLockout {
+  locked: boolean
+  lockedUntil: Date | null
+  retryAfterSeconds: number
+}
+
+interface IpFailures {
+  failures: number
+  lastFailureAt: number
+}
+
+// Per-IP failures live in process memory, like the rate limiter's windows
+const globalForLoginProtection = globalThis as unknown as {
+  loginIpFailures?: Map<string, IpFailures>
+}
+
+const ipFailures = globalForLoginProtection.loginIpFailures ?? new Map<string, IpFailures>()
+globalForLoginProtection.loginIpFailures = ipFailures
+
+const secondsUntil = (date: Date, now: Date) => Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000))
+
+function ipBackoffSeconds(failures: number): number {
+  if (failures < FREE_IP_ATTEMPTS) return 0
+  return Math.min(MAX_IP_BACKOFF_SECONDS, 2 ** (failures - FREE_IP_ATTEMPTS))
+}
+
+// Throw a 429 while an IP still has to wait after its last failed attempt
+export function assertIpCanAttemptLogin(ip: string | null, now: Date = new Date()) {
+  if (!ip) return
+
+  const entry = ipFailures.get(ip)
+  if (!entry) return
+
+  if (now.getTime() - entry.lastFailureAt > IP_FAILURE_TTL_MS) {
+    ipFailures.delete(ip)
+    return
+  }
+
+  const retryAt = entry.lastFailureAt + ipBackoffSeconds(entry.failures) * 1000
+  if (retryAt > now.getTime()) {
+    throw ApiError.rateLimit(
+      'Too many failed login attempts, please try again later',
+      Math.ceil((retryAt - now.getTime()) / 1000)
+    )
+  }
+}
+
+export function getAccountLockout(
+  user: { lockedUntil: Date | null },
+  now: Date = new Date()
+): AccountLockout {
+  const locked = !!user.lockedUntil && user.lockedUntil > now
+
+  return {
+    locked,
+    lockedUntil: locked ? user.lockedUntil : null,
+    retryAfterSeconds: locked ? secondsUntil(user.lockedUntil!, now) : 0
+  }
+}
+
+// Throw a 429 while the account is locked
+export function assertAccountNotLocked(user: { lockedUntil: Date | null }, now: Date = new Date()) {
+  const lockout = getAccountLockout(user, now)
+
+  if (lockout.locked) {
+    throw ApiError.rateLimit(
+      'This account is temporarily locked after too many failed login attempts',
+      lockout.retryAfterSeconds
+    )
+  }
+}
+
+// Count a failed attempt for the IP and, when the email matched an account, for the account.
+// Returns the account's lockout so the caller can tell the user it just got locked.
+export async function recordFailedLogin(
+  ip: string | null,
+  userId: string | null,
+  now: Date = new Date()
+): Promise<AccountLockout | null> {
+  if (ip) {
+    if (ipFailures.size >= 10000) {
+      for (const [key, entry] of Array.from(ipFailures.entries())) {
+        if (now.getTime() - entry.lastFailureAt > IP_FAILURE_TTL_MS) {
+          ipFailures.delete(key)
+        }
+      }
+    }
+
+    const entry = ipFailures.get(ip)
+    const expired = !entry || now.getTime() - entry.lastFailureAt > IP_FAILURE_TTL_MS
+    ipFailures.set(ip, {
+      failures: expired ? 1 : entry.failures + 1,
+      lastFailureAt: now.getTime()
+    })
+  }
+
+  if (!userId) return null
+
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: { increment: 1 } },
+    select: { failedLoginAttempts: true, lockedUntil: true }
+  })
+
+  if (user.failedLoginAttempts % MAX_FAILED_LOGIN_ATTEMPTS !== 0) {
+    return getAccountLockout(user, now)
+  }
+
+  const lockouts = user.failedLoginAttempts / MAX_FAILED_LOGIN_ATTEMPTS
+  const minutes = Math.min(MAX_LOCKOUT_MINUTES, BASE_LOCKOUT_MINUTES * 2 ** (lockouts - 1))
+  const lockedUntil = new Date(now.getTime() + minutes * 60 * 1000)
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { lockedUntil }
+  })
+
+  console.warn(`Account ${userId} locked until ${lockedUntil.toISOString()} after ${user.failedLoginAttempts} failed logins`)
+
+  return getAccountLockout({ lockedUntil }, now)
+}
+
+export async function recordSuccessfulLogin(
+  ip: string | null,
+  user: { id: string; failedLoginAttempts: number; lockedUntil: Date | null }
+) {
+  if (ip) {
+    ipFailures.delete(ip)
+  }
+
+  if (user.failedLoginAttempts === 0 && !user.lockedUntil) return
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginAttempts: 0, lockedUntil: null }
+  })
+}
+
+// Clear a lockout and the failure count, e.g. by an admin
+export async function unlockAccount(userId: string) {
+  return prisma.user.update({
+    where: { id: userId },
+    data: { failedLoginAttempts: 0, lockedUntil: null },
+    select: { id: true, failedLoginAttempts: true, lockedUntil: true }
+  })
+}
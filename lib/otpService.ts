@@ -0,0 +1,164 @@
+// lib/otpService.ts
+import crypto from 'crypto'
+import { OneTimeCode, OtpPurpose } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/errorHandler'
+
+export const OTP_CODE_LENGTH = 6
+// Wait before another code can be sent to the same target for the same purpose
+export const OTP_RESEND_COOLDOWN_SECONDS = 60
+const OTP_MAX_ATTEMPTS = 5
+
+// How long a code stays valid, per purpose
+export const OTP_TTL_MINUTES: Record<OtpPurpose, number> = {
+  verify_email: 30,
+  reset_password: 15,
+  phone: 10
+}
+
+// Types
+export interface IssueOtpInput {
+  target: string
+  purpose: OtpPurpose
+  userId?: string | null
+}
+
+export interface IssuedOtp {
+  code: string
+  expiresAt: Date
+  expiresInMinutes: number
+}
+
+export interface VerifyOtpInput {
+  target: string
+  purpose: OtpPurpose
+  code: string
+}
+
+const otpSecret = () => process.env.OTP_SECRET || process.env.JWT_SECRET || 'your-secret-key'
+
+// Emails are matched case-insensitively; phone numbers as given
+export const normalizeOtpTarget = (target: string) => target.trim().toLowerCase()
+
+// Keyed hash: six digits are too few for a plain hash to protect a leaked table
+function hashOtp(target: string, purpose: OtpPurpose, code: string): string {
+  return crypto
+    .createHmac('sha256', otpSecret())
+    .update(`${purpose}:${normalizeOtpTarget(target)}:${code}`)
+    .digest('hex')
+}
+
+function generateNumericCode(): string {
+  return crypto.randomInt(0, 10 ** OTP_CODE_LENGTH).toString().padStart(OTP_CODE_LENGTH, '0')
+}
+
+// Create a new code, replacing any earlier one for the same target and purpose.
+// Throws 429 while the previous code is still inside its resend cooldown.
+export async function issueOtp({ target, purpose, userId }: IssueOtpInput): Promise<IssuedOtp> {
+  const normalizedTarget = normalizeOtpTarget(target)
+  const now = new Date()
+
+  const latest = await prisma.oneTimeCode.findFirst({
+    where: { target: normalizedTarget, purpose },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  if (latest && !latest.consumedAt) {
+    const retryAt = latest.createdAt.getTime() + OTP_RESEND_COOLDOWN_SECONDS * 1000
+    if (retryAt > now.getTime()) {
+      throw ApiError.rateLimit(
+        'Please wait before requesting another code',
+        Math.ceil((retryAt - now.getTime()) / 1000)
+      )
+    }
+  }
+
+  const code = generateNumericCode()
+  const expiresInMinutes = OTP_TTL_MINUTES[purpose]
+  const expiresAt = new Date(now.getTime() + expiresInMinutes * 60 * 1000)
+
+  await prisma.$transaction([
+    prisma.oneTimeCode.deleteMany({
+      where: { target: normalizedTarget, purpose }
+    }),
+    prisma.oneTimeCode.create({
+      data: {
+        userId: userId ?? null,
+        target: normalizedTarget,
+        purpose,
+        codeHash: hashOtp(normalizedTarget, purpose, code),
+        maxAttempts: OTP_MAX_ATTEMPTS,
+        expiresAt,
+        createdAt: now
+      }
+    })
+  ])
+
+  return { code, expiresAt, expiresInMinutes }
+}
+
+// Check a code and use it up. Every wrong guess counts; a code is dead once it was used,
+// expired or guessed wrong too often. Throws a validation ApiError otherwise.
+export async function verifyOtp({ target, purpose, code }: VerifyOtpInput): Promise<OneTimeCode> {
+  const normalizedTarget = normalizeOtpTarget(target)
+  const now = new Date()
+
+  const otp = await prisma.oneTimeCode.findFirst({
+    where: { target: normalizedTarget, purpose, consumedAt: null },
+    orderBy: { createdAt: 'desc' }
+  })
+
+  if (!otp) {
+    throw ApiError.validation('No active code, please request a new one')
+  }
+
+  if (otp.expiresAt <= now) {
+    throw ApiError.validation('This code has expired, please request a new one')
+  }
+
+  // Claim an attempt before comparing; the guard keeps parallel guesses within the limit
+  const claimed = await prisma.oneTimeCode.updateMany({
+    where: { id: otp.id, consumedAt: null, attempts: { lt: otp.maxAttempts } },
+    data: { attempts: { increment: 1 } }
+  })
+
+  if (claimed.count === 0) {
+    throw ApiError.validation('Too many incorrect attempts, please request a new code')
+  }
+
+  const candidate = Buffer.from(hashOtp(normalizedTarget, purpose, String(code).trim()))
+  const expected = Buffer.from(otp.codeHash)
+
+  if (candidate.length !== expected.length || !crypto.timingSafeEqual(candidate, expected)) {
+    const { attempts } = await prisma.oneTimeCode.findUniqueOrThrow({
+      where: { id: otp.id },
+      select: { attempts: true }
+    })
+
+    if (attempts >= otp.maxAttempts) {
+      await prisma.oneTimeCode.updateMany({
+        where: { id: otp.id, consumedAt: null },
+        data: { consumedAt: now }
+      })
+    }
+
+    const remaining = Math.max(otp.maxAttempts - attempts, 0)
+    throw ApiError.validation(
+      remaining > 0
+        ? `Invalid code, ${remaining} attempt${remaining === 1 ? '' : 's'} left`
+        : 'Too many incorrect attempts, please request a new code'
+    )
+  }
+
+  // Conditional update so the same code cannot be redeemed twice concurrently
+  const consumed = await prisma.oneTimeCode.updateMany({
+    where: { id: otp.id, consumedAt: null },
+    data: { consumedAt: now }
+  })
+
+  if (consumed.count === 0) {
+    throw ApiError.validation('No active code, please request a new one')
+  }
+
+  return otp
+}
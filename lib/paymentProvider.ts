@@ -0,0 +1,208 @@
+// lib/paymentProvider.ts
+import crypto from 'crypto'
+import { Decimal } from '@prisma/client/runtime/library'
+
+// Types
+export type PaymentProviderStatus = 'pending' | 'successful' | 'failed'
+
+export interface CreatePaymentIntentInput {
+  paymentId: string
+  amount: Decimal
+  currency: string
+  method: string
+  metadata?: Record<string, string>
+}
+
+export interface PaymentProviderResult {
+  success: boolean
+  status: PaymentProviderStatus
+  transactionId?: string
+  failureReason?: string
+}
+
+export interface PaymentRefundResult {
+  success: boolean
+  refundId?: string
+  failureReason?: string
+}
+
+// Provider event normalised for the webhook handler
+export interface PaymentWebhookEvent {
+  id: string
+  type: 'payment.succeeded' | 'payment.failed' | string
+  transactionId: string | null
+  occurredAt: Date
+}
+
+// Contract every payment gateway has to implement
+export interface PaymentProvider {
+  name: string
+  // Register the payment with the gateway; funds are held until captured
+  createIntent(input: CreatePaymentIntentInput): Promise<PaymentProviderResult>
+  // Collect the funds of a held payment
+  capture(transactionId: string, amount: Decimal): Promise<PaymentProviderResult>
+  // Release a held payment that will not be captured
+  cancelIntent(transactionId: string): Promise<PaymentProviderResult>
+  // Return (part of) a captured payment
+  refund(transactionId: string, amount: Decimal): Promise<PaymentRefundResult>
+  // Check that a webhook body was signed by the gateway
+  verifyWebhookSignature(payload: string, signature: string | null): boolean
+  // Read a verified webhook body; throws if it is malformed
+  parseWebhookEvent(payload: string): PaymentWebhookEvent
+}
+
+export const PAYMENT_CURRENCY = process.env.PAYMENT_CURRENCY || 'SAR'
+
+// Amounts with these cents are declined by the sandbox, so failures can be reproduced on demand
+const SANDBOX_DECLINED_CENTS = 13
+
+// No built-in fallback: without a configured secret every sandbox webhook is rejected
+const sandboxWebhookSecret = () => process.env.SANDBOX_WEBHOOK_SECRET || null
+
+// Deterministic local provider: no network, same input always gives the same result
+export const sandboxPaymentProvider: PaymentProvider = {
+  name: 'sandbox',
+
+  async createIntent({ paymentId, amount }) {
+    const cents = new Decimal(amount).mul(100).mod(100).toNumber()
+    if (cents === SANDBOX_DECLINED_CENTS) {
+      return { success: false, status: 'failed', failureReason: 'Card declined by sandbox' }
+    }
+
+    return {
+      success: true,
+      status: 'pending',
+      transactionId: `SBX-${paymentId}`
+    }
+  },
+
+  async capture(transactionId) {
+    if (!transactionId.startsWith('SBX-')) {
+      return { success: false, status: 'failed', failureReason: 'Unknown sandbox transaction' }
+    }
+
+    return { success: true, status: 'successful', transactionId }
+  },
+
+  async cancelIntent(transactionId) {
+    return { success: true, status: 'failed', transactionId }
+  },
+
+  async refund(transactionId, amount) {
+    if (!transactionId.startsWith('SBX-')) {
+      return { success: false, failureReason: 'Unknown sandbox transaction' }
+    }
+
+    return {
+      success: true,
+      refundId: `SBX-RF-${transactionId.slice(4)}-${new Decimal(amount).mul(100).toFixed(0)}`
+    }
+  },
+
+  verifyWebhookSignature(payload, signature) {
+    if (!signature || !sandboxWebhookSecret()) return false
+
+    const expected = signSandboxWebhook(payload)
+    const received = Buffer.from(signature)
+    const computed = Buffer.from(expected)
+
+    return received.length === computed.length && crypto.timingSafeEqual(received, computed)
+  },
+
+  // Body: { id, type, transactionId, createdAt }
+  parseWebhookEvent(payload) {
+    const body = JSON.parse(payload)
+
+    if (typeof body?.id !== 'string' || typeof body?.type !== 'string') {
+      throw new Error('Webhook event must have an id and a type')
+    }
+
+    const occurredAt = body.createdAt ? new Date(body.createdAt) : new Date()
+    if (isNaN(occurredAt.getTime())) {
+      throw new Error('Webhook event has an invalid createdAt')
+    }
+
+    return {
+      id: body.id,
+      type: body.type,
+      transactionId: typeof body.transactionId === 'string' ? body.transactionId : null,
+      occurredAt
+    }
+  }
+}
+
+// HMAC-SHA256 of the raw body, hex encoded; used by the sandbox and for local webhook testing
+export function signSandboxWebhook(payload: string): string {
+  const secret = sandboxWebhookSecret()
+  if (!secret) {
+    throw new Error('SANDBOX_WEBHOOK_SECRET is not configured')
+  }
+
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex')
+}
+
+// Cash is handed over in person, so every step succeeds and is recorded by staff
+export const manualPaymentProvider: PaymentProvider = {
+  name: 'manual',
+
+  async createIntent({ paymentId }) {
+    return { success: true, status: 'pending', transactionId: `CASH-${paymentId}` }
+  },
+
+  async capture(transactionId) {
+    return { success: true, status: 'successful', transactionId }
+  },
+
+  async cancelIntent(transactionId) {
+    return { success: true, status: 'failed', transactionId }
+  },
+
+  async refund(transactionId) {
+    return { success: true, refundId: `${transactionId}-RF-${Date.now()}` }
+  },
+
+  verifyWebhookSignature() {
+    return false
+  },
+
+  parseWebhookEvent() {
+    throw new Error('Manual payments do not send webhooks')
+  }
+}
+
+// Registered providers; real gateways are added here
+const providers: Record<string, PaymentProvider> = {
+  [sandboxPaymentProvider.name]: sandboxPaymentProvider,
+  [manualPaymentProvider.name]: manualPaymentProvider
+}
+
+// Provider by name, defaulting to PAYMENT_PROVIDER. There is no implicit default, and the
+// sandbox approves anything, so it is refused in production.
+export function getPaymentProvider(name?: string | null): PaymentProvider {
+  const providerName = name || process.env.PAYMENT_PROVIDER
+  if (!providerName) {
+    throw new Error('PAYMENT_PROVIDER is not configured')
+  }
+
+  const provider = providers[providerName]
+
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${providerName}`)
+  }
+
+  if (provider === sandboxPaymentProvider && process.env.NODE_ENV === 'production') {
+    throw new Error('The sandbox payment provider cannot be used in production')
+  }
+
+  return provider
+}
+
+// Provider that handles a payment method: cash stays manual, everything else goes to the gateway
+export function getPaymentProviderForMethod(method: string): PaymentProvider {
+  return method === 'cash' ? manualPaymentProvider : getPaymentProvider()
+}
+
+// Provider a stored payment went through; payments recorded before providers existed were confirmed by staff
+export function getPaymentProviderForPayment(payment: { provider: string | null }): PaymentProvider {
+  return payment.provider ? getPaymentProvider(payment.provider) : manualPaymentProvider
+}
@@ -0,0 +1,249 @@
+// lib/paymentService.ts
+import { Prisma, Payment, PaymentWebhookEventStatus } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/errorHandler'
+import { PaymentWebhookEvent } from '@/lib/paymentProvider'
+import { settleBill } from '@/lib/depositService'
+import { syncSeatStatuses } from '@/lib/routeStopService'
+
+// Types
+export interface PaymentConfirmationResult {
+  payment: Payment
+  tripId: string
+  billStatus: string
+  bookingStatus: string
+  remainingBalance: number
+}
+
+export interface WebhookProcessingResult {
+  eventId: string
+  status: PaymentWebhookEventStatus
+  duplicate: boolean
+  paymentId?: string
+  tripId?: string
+  reason?: string
+}
+
+interface WebhookOutcome {
+  status: PaymentWebhookEventStatus
+  paymentId?: string
+  tripId?: string
+  reason?: string
+}
+
+// Mark a pending payment successful and move its bill and booking forward.
+// Shared by the admin confirmation and the provider webhook so both behave the same.
+export async function confirmPendingPayment(
+  tx: Prisma.TransactionClient,
+  paymentId: string
+): Promise<PaymentConfirmationResult> {
+  const existingPayment = await tx.payment.findUnique({
+    where: { id: paymentId },
+    include: {
+      bill: {
+        include: {
+          booking: true,
+          payments: true
+        }
+      }
+    }
+  })
+
+  if (!existingPayment) {
+    throw ApiError.notFound('Payment')
+  }
+
+  if (existingPayment.status !== 'pending') {
+    throw ApiError.validation('Only pending payments can be confirmed')
+  }
+
+  // Claim the payment while it is still pending, so a concurrent confirm or reject loses cleanly
+  const { count } = await tx.payment.updateMany({
+    where: { id: paymentId, status: 'pending' },
+    data: {
+      status: 'successful',
+      paidAt: new Date()
+    }
+  })
+
+  if (count === 0) {
+    throw ApiError.validation('Only pending payments can be confirmed')
+  }
+
+  const updatedPayment = await tx.payment.findUniqueOrThrow({
+    where: { id: paymentId }
+  })
+
+  const settlement = await settleBill(tx, existingPayment.bill.id)
+  const booking = existingPayment.bill.booking
+
+  // A settled cash deposit holds the seats like a full payment; the balance is collected at boarding
+  const confirmsBooking = settlement.depositPaid
+
+  if (confirmsBooking && booking.status === 'pending') {
+    await tx.booking.update({
+      where: { id: booking.id },
+      data: { status: 'confirmed' }
+    })
+
+    // Update seat statuses to booked
+    const bookingDetails = await tx.bookingDetail.findMany({
+      where: { bookingId: booking.id }
+    })
+
+    await syncSeatStatuses(tx, booking.tripId, bookingDetails.map(detail => detail.seatId))
+  }
+
+  return {
+    payment: updatedPayment,
+    tripId: booking.tripId,
+    billStatus: settlement.billStatus,
+    bookingStatus: confirmsBooking && booking.status === 'pending' ? 'confirmed' : booking.status ?? 'pending',
+    remainingBalance: settlement.remainingBalance
+  }
+}
+
+// Mark a pending payment as failed
+export async function failPendingPayment(
+  tx: Prisma.TransactionClient,
+  paymentId: string
+): Promise<Payment> {
+  const payment = await tx.payment.findUnique({
+    where: { id: paymentId }
+  })
+
+  if (!payment) {
+    throw ApiError.notFound('Payment')
+  }
+
+  if (payment.status !== 'pending') {
+    throw ApiError.validation('Only pending payments can be rejected')
+  }
+
+  // Guarded on the status so a payment confirmed in the meantime is not failed as well
+  const { count } = await tx.payment.updateMany({
+    where: { id: paymentId, status: 'pending' },
+    data: { status: 'failed' }
+  })
+
+  if (count === 0) {
+    throw ApiError.validation('Only pending payments can be rejected')
+  }
+
+  return tx.payment.findUniqueOrThrow({
+    where: { id: paymentId }
+  })
+}
+
+// Apply a verified provider event to its payment. Every event is logged once per provider;
+// replays return the stored outcome and events older than one already applied are ignored.
+export async function processPaymentWebhookEvent(
+  provider: string,
+  event: PaymentWebhookEvent,
+  payload: unknown
+): Promise<WebhookProcessingResult> {
+  const existing = await prisma.paymentWebhookEvent.findUnique({
+    where: { provider_eventId: { provider, eventId: event.id } }
+  })
+
+  // Only events that failed to process are retried
+  if (existing && existing.status !== 'failed') {
+    return {
+      eventId: event.id,
+      status: existing.status,
+      duplicate: true,
+      paymentId: existing.paymentId ?? undefined,
+      reason: existing.error ?? undefined
+    }
+  }
+
+  let record = existing
+  if (!record) {
+    try {
+      record = await prisma.paymentWebhookEvent.create({
+        data: {
+          provider,
+          eventId: event.id,
+          type: event.type,
+          transactionId: event.transactionId,
+          payload: payload as Prisma.InputJsonValue,
+          occurredAt: event.occurredAt
+        }
+      })
+    } catch (error: any) {
+      // A concurrent delivery of the same event got there first
+      if (error?.code === 'P2002') {
+        return { eventId: event.id, status: 'received', duplicate: true }
+      }
+      throw error
+    }
+  }
+
+  try {
+    const outcome = await prisma.$transaction(async (tx): Promise<WebhookOutcome> => {
+      const payment = event.transactionId
+        ? await tx.payment.findUnique({ where: { transactionId: event.transactionId } })
+        : null
+
+      if (!payment || payment.provider !== provider) {
+        return { status: 'ignored', reason: 'No payment matches this transaction' }
+      }
+
+      // Out-of-order delivery: a newer event for this transaction was already applied
+      const newerEvent = await tx.paymentWebhookEvent.findFirst({
+        where: {
+          provider,
+          transactionId: event.transactionId,
+          status: 'processed',
+          occurredAt: { gt: event.occurredAt }
+        }
+      })
+
+      if (newerEvent) {
+        return { status: 'ignored', paymentId: payment.id, reason: `Superseded by event ${newerEvent.eventId}` }
+      }
+
+      if (payment.status !== 'pending') {
+        return { status: 'ignored', paymentId: payment.id, reason: `Payment is already ${payment.status}` }
+      }
+
+      switch (event.type) {
+        case 'payment.succeeded': {
+          const result = await confirmPendingPayment(tx, payment.id)
+          return { status: 'processed', paymentId: payment.id, tripId: result.tripId }
+        }
+        case 'payment.failed':
+          await failPendingPayment(tx, payment.id)
+          return { status: 'processed', paymentId: payment.id }
+        default:
+          return { status: 'ignored', paymentId: payment.id, reason: `Unhandled event type ${event.type}` }
+      }
+    })
+
+    await prisma.paymentWebhookEvent.update({
+      where: { id: record.id },
+      data: {
+        status: outcome.status,
+        paymentId: outcome.paymentId,
+        error: outcome.reason ?? null,
+        processedAt: new Date()
+      }
+    })
+
+    return {
+      eventId: event.id,
+      duplicate: false,
+      ...outcome
+    }
+  } catch (error) {
+    await prisma.paymentWebhookEvent.update({
+      where: { id: record.id },
+      data: {
+        status: 'failed',
+        error: (error instanceof Error ? error.message : String(error)).slice(0, 500),
+        processedAt: new Date()
+      }
+    })
+    throw error
+  }
+}
@@ -0,0 +1,154 @@
+// lib/permissions.ts
+// Shared by the edge middleware, route handlers and the admin UI, so it must stay free of
+// server-only imports.
+import type { UserRole } from '@prisma/client'
+
+export const PERMISSIONS = [
+  'dashboard:view',
+  'users:view',
+  'users:manage',
+  'bookings:view',
+  'bookings:manage',
+  'bookings:delete',
+  'payments:view',
+  'payments:manage',
+  'trips:view',
+  'trips:manage',
+  'seats:block',
+  'buses:view',
+  'buses:manage',
+  'routes:view',
+  'routes:manage',
+  'locations:view',
+  'locations:manage',
+  'policies:view',
+  'policies:manage',
+  'feedback:view',
+  'feedback:manage'
+] as const
+
+export type Permission = typeof PERMISSIONS[number]
+
+// Everyone but USER works in the admin dashboard
+export type StaffRole = Exclude<UserRole, 'USER'>
+
+export const STAFF_ROLES: StaffRole[] = ['ADMIN', 'CASHIER', 'DISPATCHER', 'SUPPORT']
+
+export const ROLE_PERMISSIONS: Record<StaffRole, readonly Permission[]> = {
+  ADMIN: PERMISSIONS,
+  // Confirms and rejects payments, refunds and cash collected on boarding
+  CASHIER: ['dashboard:view', 'payments:view', 'payments:manage'],
+  // Runs the fleet: trips, buses and seat blocking
+  DISPATCHER: [
+    'dashboard:view',
+    'trips:view',
+    'trips:manage',
+    'seats:block',
+    'buses:view',
+    'buses:manage',
+    'routes:view',
+    'locations:view'
+  ],
+  // Looks up customers' bookings and moderates their feedback; confirming or cancelling a
+  // booking moves money, so it is left to admins
+  SUPPORT: [
+    'dashboard:view',
+    'users:view',
+    'bookings:view',
+    'payments:view',
+    'trips:view',
+    'policies:view',
+    'feedback:view',
+    'feedback:manage'
+  ]
+}
+
+interface AdminRoutePermission {
+  pattern: RegExp
+  // Any method when omitted
+  methods?: string[]
+  permission: Permission
+}
+
+// First match wins, so more specific paths go before their parents.
+// Admin routes missing from this table are open to ADMIN only.
+const ADMIN_ROUTE_PERMISSIONS: AdminRoutePermission[] = [
+  { pattern: /^\/api\/admin\/stats(\/|$)/, permission: 'dashboard:view' },
+  { pattern: /^\/api\/admin\/users(\/|$)/, methods: ['GET'], permission: 'users:view' },
+  { pattern: /^\/api\/admin\/users(\/|$)/, permission: 'users:manage' },
+  { pattern: /^\/api\/admin\/bookings\/[^/]+\/balance(\/|$)/, permission: 'payments:manage' },
+  { pattern: /^\/api\/admin\/bookings(\/|$)/, methods: ['GET'], permission: 'bookings:view' },
+  { pattern: /^\/api\/admin\/bookings(\/|$)/, methods: ['DELETE'], permission: 'bookings:delete' },
+  { pattern: /^\/api\/admin\/bookings(\/|$)/, permission: 'bookings:manage' },
+  { pattern: /^\/api\/admin\/(payments|refunds)(\/|$)/, methods: ['GET'], permission: 'payments:view' },
+  { pattern: /^\/api\/admin\/(payments|refunds)(\/|$)/, permission: 'payments:manage' },
+  { pattern: /^\/api\/admin\/trips\/[^/]+\/block-seats(\/|$)/, permission: 'seats:block' },
+  { pattern: /^\/api\/admin\/seat-locks(\/|$)/, permission: 'seats:block' },
+  { pattern: /^\/api\/admin\/trips(\/|$)/, methods: ['GET'], permission: 'trips:view' },
+  { pattern: /^\/api\/admin\/trips(\/|$)/, permission: 'trips:manage' },
+  { pattern: /^\/api\/admin\/trip-schedules(\/|$)/, methods: ['GET'], permission: 'trips:view' },
+  { pattern: /^\/api\/admin\/trip-schedules(\/|$)/, permission: 'trips:manage' },
+  { pattern: /^\/api\/admin\/buses(\/|$)/, methods: ['GET'], permission: 'buses:view' },
+  { pattern: /^\/api\/admin\/buses(\/|$)/, permission: 'buses:manage' },
+  { pattern: /^\/api\/admin\/routes(\/|$)/, methods: ['GET'], permission: 'routes:view' },
+  { pattern: /^\/api\/admin\/routes(\/|$)/, permission: 'routes:manage' },
+  { pattern: /^\/api\/admin\/(cities|countries)(\/|$)/, methods: ['GET'], permission: 'locations:view' },
+  { pattern: /^\/api\/admin\/(cities|countries)(\/|$)/, permission: 'locations:manage' },
+  { pattern: /^\/api\/admin\/cancellation-policies(\/|$)/, methods: ['GET'], permission: 'policies:view' },
+  { pattern: /^\/api\/admin\/cancellation-policies(\/|$)/, permission: 'policies:manage' },
+  { pattern: /^\/api\/admin\/feedback(\/|$)/, methods: ['GET'], permission: 'feedback:view' },
+  { pattern: /^\/api\/admin\/feedback(\/|$)/, permission: 'feedback:manage' }
+]
+
+// Dashboard pages and the permission needed to open them; pages not listed are ADMIN only
+export const ADMIN_PAGE_PERMISSIONS: Record<string, Permission> = {
+  '/admin': 'dashboard:view',
+  '/admin/users': 'users:view',
+  '/admin/bookings': 'bookings:view',
+  '/admin/bookings/block': 'seats:block',
+  '/admin/payments': 'payments:view',
+  '/admin/trips': 'trips:view',
+  '/admin/trip-schedules': 'trips:view',
+  '/admin/buses': 'buses:view',
+  '/admin/routes': 'routes:view',
+  '/admin/cities': 'locations:view',
+  '/admin/countries': 'locations:view',
+  '/admin/reports': 'dashboard:view',
+  '/admin/feedback': 'feedback:view'
+}
+
+export function isStaffRole(role: string | null | undefined): role is StaffRole {
+  return !!role && (STAFF_ROLES as string[]).includes(role)
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isStaffRole(role) && ROLE_PERMISSIONS[role].includes(permission)
+}
+
+// The permission an admin API call needs, or null when it is reserved for ADMIN
+export function getAdminRoutePermission(pathname: string, method: string): Permission | null {
+  const rule = ADMIN_ROUTE_PERMISSIONS.find(item =>
+    item.pattern.test(pathname) && (!item.methods || item.methods.includes(method.toUpperCase()))
+  )
+
+  return rule?.permission ?? null
+}
+
+export function canAccessAdminRoute(role: string | null | undefined, pathname: string, method: string): boolean {
+  if (role === 'ADMIN') return true
+
+  const permission = getAdminRoutePermission(pathname, method)
+  return !!permission && hasPermission(role, permission)
+}
+
+// The most specific page wins and covers anything below it, e.g. /admin/trips/new.
+// The dashboard home only matches exactly, otherwise it would cover every page.
+export function canViewAdminPage(role: string | null | undefined, pathname: string): boolean {
+  if (role === 'ADMIN') return true
+
+  const page = Object.keys(ADMIN_PAGE_PERMISSIONS)
+    .sort((a, b) => b.length - a.length)
+    .find(path => pathname === path || (path !== '/admin' && pathname.startsWith(`${path}/`)))
+
+  return !!page && hasPermission(role, ADMIN_PAGE_PERMISSIONS[page])
+}
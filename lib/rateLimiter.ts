@@ -0,0 +1,83 @@
+// lib/rateLimiter.ts
+import { ApiError } from '@/lib/errorHandler'
+import { getClientInfo } from '@/lib/sessionService'
+
+// Types
+export interface RateLimitOptions {
+  // Requests allowed per window
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfterSeconds: number
+}
+
+interface RateLimitWindow {
+  count: number
+  resetAt: number
+}
+
+// Fixed windows kept in process memory on globalThis so hot reloads share them.
+// Each server instance counts on its own.
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitWindows?: Map<string, RateLimitWindow>
+}
+
+const windows = globalForRateLimit.rateLimitWindows ?? new Map<string, RateLimitWindow>()
+globalForRateLimit.rateLimitWindows = windows
+
+// Drop finished windows once the map grows, so idle keys do not pile up
+function pruneWindows(now: number) {
+  if (windows.size < 10000) return
+
+  for (const [key, window] of Array.from(windows.entries())) {
+    if (window.resetAt <= now) {
+      windows.delete(key)
+    }
+  }
+}
+
+// Count one request against a key
+export function hitRateLimit(key: string, options: RateLimitOptions): RateLimitResult {
+  const now = Date.now()
+  pruneWindows(now)
+
+  let window = windows.get(key)
+  if (!window || window.resetAt <= now) {
+    window = { count: 0, resetAt: now + options.windowMs }
+    windows.set(key, window)
+  }
+
+  window.count++
+
+  return {
+    allowed: window.count <= options.limit,
+    remaining: Math.max(0, options.limit - window.count),
+    retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000)
+  }
+}
+
+export function resetRateLimit(key: string) {
+  windows.delete(key)
+}
+
+// Count a request and throw a 429 ApiError once the limit is exceeded; asyncHandler turns it
+// into the response with a Retry-After header
+export function enforceRateLimit(key: string, options: RateLimitOptions, message?: string) {
+  const result = hitRateLimit(key, options)
+
+  if (!result.allowed) {
+    throw ApiError.rateLimit(message, result.retryAfterSeconds)
+  }
+
+  return result
+}
+
+// Rate limit a route per client IP; `name` keeps the counters of different routes apart
+export function enforceIpRateLimit(request: Request, name: string, options: RateLimitOptions) {
+  const ip = getClientInfo(request.headers).ipAddress || 'unknown'
+  return enforceRateLimit(`${name}:ip:${ip}`, options)
+}
@@ -0,0 +1,150 @@
+// lib/ratingService.ts
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/errorHandler'
+
+export const MIN_RATING = 1
+export const MAX_RATING = 5
+export const MAX_FEEDBACK_LENGTH = 2000
+
+// Types
+export interface RatingSummary {
+  // Null until the first rating
+  average: number | null
+  count: number
+}
+
+export interface ModerateFeedbackInput {
+  hidden: boolean
+  reason?: string | null
+}
+
+const EMPTY_SUMMARY: RatingSummary = { average: null, count: 0 }
+
+// The booking a user wants to rate or comment on, provided it is theirs and its trip is over.
+// Throws 404, 403 or a validation error otherwise.
+export async function getReviewableBooking(bookingId: string, userId: string) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { trip: { select: { id: true, routeId: true, status: true } } }
+  })
+
+  if (!booking) {
+    throw ApiError.notFound('Booking')
+  }
+
+  if (booking.userId !== userId) {
+    throw ApiError.forbidden('You can only review your own bookings')
+  }
+
+  // Only travellers who actually had a seat can review; unpaid and cancelled bookings cannot
+  if (booking.status !== 'confirmed' && booking.status !== 'completed') {
+    throw ApiError.validation('Only confirmed or completed bookings can be reviewed')
+  }
+
+  if (booking.trip.status !== 'completed') {
+    throw ApiError.validation('You can review a trip once it is completed')
+  }
+
+  return booking
+}
+
+export async function rateBooking(bookingId: string, userId: string, rating: number) {
+  const booking = await getReviewableBooking(bookingId, userId)
+
+  try {
+    return await prisma.rating.create({
+      data: {
+        bookingId: booking.id,
+        userId,
+        tripId: booking.tripId,
+        rating
+      }
+    })
+  } catch (error: any) {
+    // The unique booking id is what enforces one rating per booking
+    if (error?.code === 'P2002') {
+      throw ApiError.conflict('You have already rated this trip')
+    }
+    throw error
+  }
+}
+
+export async function leaveFeedback(bookingId: string, userId: string, message: string) {
+  const booking = await getReviewableBooking(bookingId, userId)
+
+  return prisma.feedback.create({
+    data: {
+      bookingId: booking.id,
+      userId,
+      tripId: booking.tripId,
+      message: message.trim()
+    }
+  })
+}
+
+// Average rating per route. Upcoming trips have no ratings of their own yet, so trips are
+// shown with what travellers thought of earlier trips on the same route.
+export async function getRouteRatingSummaries(routeIds: string[]): Promise<Record<string, RatingSummary>> {
+  if (routeIds.length === 0) return {}
+
+  const rows = await prisma.$queryRaw<Array<{ route_id: string; average: number | null; count: bigint }>>`
+    SELECT t.route_id, AVG(r.rating) AS average, COUNT(*) AS count
+    FROM ratings r
+    JOIN trips t ON t.id = r.trip_id
+    WHERE t.route_id IN (${Prisma.join(Array.from(new Set(routeIds)))})
+    GROUP BY t.route_id
+  `
+
+  return rows.reduce((acc, row) => {
+    acc[row.route_id] = {
+      average: row.average === null ? null : Math.round(Number(row.average) * 10) / 10,
+      count: Number(row.count)
+    }
+    return acc
+  }, {} as Record<string, RatingSummary>)
+}
+
+export async function getRouteRatingSummary(routeId: string): Promise<RatingSummary> {
+  const summaries = await getRouteRatingSummaries([routeId])
+  return summaries[routeId] ?? EMPTY_SUMMARY
+}
+
+export const ratingSummaryFor = (summaries: Record<string, RatingSummary>, routeId: string) =>
+  summaries[routeId] ?? EMPTY_SUMMARY
+
+// Recent feedback on a route that moderators have not hidden, for public display
+export async function listPublicFeedback(routeId: string, limit: number = 5) {
+  const feedback = await prisma.feedback.findMany({
+    where: { hidden: false, trip: { routeId } },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    include: {
+      user: { select: { name: true } },
+      booking: { select: { rating: { select: { rating: true } } } }
+    }
+  })
+
+  return feedback.map(item => ({
+    id: item.id,
+    message: item.message,
+    authorName: item.user.name,
+    rating: item.booking.rating?.rating ?? null,
+    createdAt: item.createdAt
+  }))
+}
+
+export async function moderateFeedback(feedbackId: string, moderatorId: string | null, { hidden, reason }: ModerateFeedbackInput) {
+  const feedback = await prisma.feedback.findUnique({ where: { id: feedbackId } })
+
+  if (!feedback) {
+    throw ApiError.notFound('Feedback')
+  }
+
+  return prisma.feedback.update({
+    where: { id: feedbackId },
+    data: hidden
+      ? { hidden: true, hiddenAt: new Date(), hiddenBy: moderatorId, hiddenReason: reason || null }
+      : { hidden: false, hiddenAt: null, hiddenBy: null, hiddenReason: null }
+  })
+}
@@ -0,0 +1,268 @@
+// lib/refundService.ts
+import { Prisma, Refund } from '@prisma/client'
+import { Decimal } from '@prisma/client/runtime/library'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/errorHandler'
+import { getPaymentProviderForPayment, PaymentRefundResult } from '@/lib/paymentProvider'
+import { getCancellationPolicy, evaluateCancellation, CancellationEvaluation } from '@/lib/cancellationPolicy'
+
+// Types
+interface AmountWithStatus {
+  amount: Decimal
+  status: string
+}
+
+export interface BillBalance {
+  totalPaid: number
+  totalRefunded: number
+  netPaid: number
+  remainingBalance: number
+}
+
+export interface CancellationRefundResult extends CancellationEvaluation {
+  refunds: Refund[]
+}
+
+const toNumber = (value: Decimal | number) => parseFloat(value.toString())
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+// Money actually held for a bill: successful payments minus completed refunds
+export function getBillBalance(bill: {
+  amount: Decimal
+  payments: AmountWithStatus[]
+  refunds?: AmountWithStatus[]
+}): BillBalance {
+  const totalPaid = bill.payments
+    .filter(payment => payment.status === 'successful')
+    .reduce((sum, payment) => sum + toNumber(payment.amount), 0)
+
+  const totalRefunded = (bill.refunds ?? [])
+    .filter(refund => refund.status === 'completed')
+    .reduce((sum, refund) => sum + toNumber(refund.amount), 0)
+
+  const netPaid = roundMoney(totalPaid - totalRefunded)
+
+  return {
+    totalPaid: roundMoney(totalPaid),
+    totalRefunded: roundMoney(totalRefunded),
+    netPaid,
+    remainingBalance: Math.max(0, roundMoney(toNumber(bill.amount) - totalPaid))
+  }
+}
+
+const isOpenRefund = (refund: { status: string }) =>
+  refund.status === 'pending' || refund.status === 'processing' || refund.status === 'completed'
+
+async function findCancellableBooking(client: Prisma.TransactionClient, bookingId: string) {
+  return client.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      trip: { select: { departureTime: true, status: true, routeId: true } },
+      bill: {
+        include: {
+          payments: {
+            where: { status: 'successful' },
+            orderBy: { createdAt: 'desc' },
+            include: { refunds: true }
+          },
+          refunds: true
+        }
+      }
+    }
+  })
+}
+
+type CancellableBooking = NonNullable<Awaited<ReturnType<typeof findCancellableBooking>>>
+
+// Evaluate the cancellation policy of the booking's route against what is still refundable
+async function evaluateBookingCancellation(
+  client: Prisma.TransactionClient,
+  booking: CancellableBooking,
+  now: Date
+): Promise<CancellationEvaluation> {
+  let paidAmount = 0
+
+  if (booking.bill) {
+    // Refunds already requested or paid out reduce what can still be refunded
+    const openRefunds = booking.bill.refunds
+      .filter(isOpenRefund)
+      .reduce((sum, refund) => sum + toNumber(refund.amount), 0)
+
+    paidAmount = Math.max(0, getBillBalance(booking.bill).totalPaid - openRefunds)
+  }
+
+  const policy = await getCancellationPolicy(client, booking.trip.routeId)
+  return evaluateCancellation(policy, booking.trip, paidAmount, now)
+}
+
+// What cancelling the booking now would cost, without changing anything
+export async function previewCancellation(
+  client: Prisma.TransactionClient,
+  bookingId: string,
+  now: Date = new Date()
+): Promise<CancellationEvaluation | null> {
+  const booking = await findCancellableBooking(client, bookingId)
+  if (!booking) {
+    return null
+  }
+
+  return evaluateBookingCancellation(client, booking, now)
+}
+
+// Mark a booking cancelled unless it already is, so only one of several concurrent
+// cancellations goes on to queue refunds. Call it inside the cancelling transaction.
+export async function claimCancellation(tx: Prisma.TransactionClient, bookingId: string): Promise<void> {
+  const { count } = await tx.booking.updateMany({
+    where: { id: bookingId, status: { not: 'cancelled' } },
+    data: { status: 'cancelled' }
+  })
+
+  if (count === 0) {
+    throw ApiError.conflict('Booking is already cancelled')
+  }
+}
+
+// Create pending refunds for a booking that is being cancelled.
+// The refundable amount is spread over the successful payments, most recent first.
+export async function requestCancellationRefunds(
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+  reason?: string | null,
+  now: Date = new Date()
+): Promise<CancellationRefundResult | null> {
+  const booking = await findCancellableBooking(tx, bookingId)
+  if (!booking) {
+    return null
+  }
+
+  const evaluation = await evaluateBookingCancellation(tx, booking, now)
+  const refunds: Refund[] = []
+  let remaining = evaluation.refundableAmount
+
+  for (const payment of booking.bill?.payments ?? []) {
+    if (remaining <= 0) break
+
+    const alreadyRefunded = payment.refunds
+      .filter(isOpenRefund)
+      .reduce((sum, refund) => sum + toNumber(refund.amount), 0)
+    const available = roundMoney(toNumber(payment.amount) - alreadyRefunded)
+    const amount = roundMoney(Math.min(available, remaining))
+
+    if (amount <= 0) continue
+
+    refunds.push(await tx.refund.create({
+      data: {
+        paymentId: payment.id,
+        billId: payment.billId,
+        amount,
+        method: payment.method,
+        reason: reason || 'Booking cancelled',
+        status: 'pending'
+      }
+    }))
+    remaining = roundMoney(remaining - amount)
+  }
+
+  return { ...evaluation, refunds }
+}
+
+// Pay out a pending refund through the provider of its payment
+export async function approveRefund(refundId: string, adminId: string | null): Promise<Refund> {
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId },
+    include: { payment: true }
+  })
+
+  if (!refund) {
+    throw ApiError.notFound('Refund')
+  }
+
+  if (refund.status !== 'pending') {
+    throw ApiError.validation('Only pending refunds can be approved')
+  }
+
+  // Claim the refund before paying it out so concurrent approvals cannot pay it twice
+  const { count } = await prisma.refund.updateMany({
+    where: { id: refundId, status: 'pending' },
+    data: { status: 'processing', processedBy: adminId }
+  })
+
+  if (count === 0) {
+    throw ApiError.validation('Only pending refunds can be approved')
+  }
+
+  const provider = getPaymentProviderForPayment(refund.payment)
+  let result: PaymentRefundResult
+  try {
+    result = await provider.refund(refund.payment.transactionId ?? refund.payment.id, refund.amount)
+  } catch (error) {
+    result = { success: false, failureReason: error instanceof Error ? error.message : 'Refund failed' }
+  }
+
+  if (!result.success) {
+    return prisma.refund.update({
+      where: { id: refundId },
+      data: {
+        status: 'failed',
+        failureReason: result.failureReason || 'Refund failed',
+        processedBy: adminId,
+        processedAt: new Date()
+      }
+    })
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const completed = await tx.refund.update({
+      where: { id: refundId },
+      data: {
+        status: 'completed',
+        providerRefundId: result.refundId,
+        processedBy: adminId,
+        processedAt: new Date()
+      }
+    })
+
+    // A bill whose payments have all been returned is marked refunded
+    const bill = await tx.bill.findUnique({
+      where: { id: refund.billId },
+      include: { payments: true, refunds: true }
+    })
+
+    if (bill) {
+      const balance = getBillBalance(bill)
+      if (balance.totalPaid > 0 && balance.netPaid <= 0) {
+        await tx.bill.update({
+          where: { id: bill.id },
+          data: { status: 'refunded' }
+        })
+      }
+    }
+
+    return completed
+  })
+}
+
+// Decline a pending refund
+export async function rejectRefund(refundId: string, adminId: string | null, reason?: string | null): Promise<Refund> {
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId }
+  })
+
+  if (!refund) {
+    throw ApiError.notFound('Refund')
+  }
+
+  if (refund.status !== 'pending') {
+    throw ApiError.validation('Only pending refunds can be rejected')
+  }
+
+  return prisma.refund.update({
+    where: { id: refundId },
+    data: {
+      status: 'rejected',
+      failureReason: reason || null,
+      processedBy: adminId,
+      processedAt: new Date()
+    }
+  })
+}
@@ -0,0 +1,363 @@
+// lib/routeStopService.ts
+import { Prisma, BookingStatus } from '@prisma/client'
+import { Decimal } from '@prisma/client/runtime/library'
+import { ApiError } from '@/lib/errorHandler'
+
+export const MAX_ROUTE_STOPS = 20
+
+// Bookings that hold their seats for their segment
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ['pending', 'confirmed', 'completed']
+
+// Types
+export interface RouteStopInput {
+  cityId: string
+  offsetMinutes: number
+  fareShare?: number | null
+}
+
+// Stops are addressed by their order on the trip: 0 is the departure city
+export interface Segment {
+  boardingStop: number
+  alightingStop: number
+}
+
+export interface TripSegment extends Segment {
+  // Part of the full fare this segment costs, between 0 and 1
+  fareFraction: Decimal
+}
+
+interface StopRecord {
+  stopOrder: number
+  fareShare: Decimal | number
+}
+
+interface SegmentRecord {
+  boardingStop: number | null
+  alightingStop: number | null
+}
+
+type Db = Prisma.TransactionClient
+
+// Validate the intermediate stops sent for a route; returns true or an error message
+export function validateRouteStops(
+  value: any,
+  route: { departureCityId: string, arrivalCityId: string }
+): true | string {
+  if (!Array.isArray(value)) return 'Stops must be an array'
+  if (value.length > MAX_ROUTE_STOPS) return `A route can have at most ${MAX_ROUTE_STOPS} stops`
+
+  const cities = new Set<string>([route.departureCityId, route.arrivalCityId])
+  let previousOffset = 0
+  let previousShare = 0
+
+  for (let index = 0; index < value.length; index++) {
+    const stop = value[index]
+    const label = `Stop ${index + 1}`
+
+    if (!stop || typeof stop.cityId !== 'string' || !stop.cityId) {
+      return `${label} needs a city`
+    }
+    if (cities.has(stop.cityId)) {
+      return `${label} repeats a city already on the route`
+    }
+    cities.add(stop.cityId)
+
+    if (!Number.isInteger(stop.offsetMinutes) || stop.offsetMinutes <= previousOffset) {
+      return `${label} must be scheduled after the previous stop`
+    }
+    previousOffset = stop.offsetMinutes
+
+    if (stop.fareShare !== undefined && stop.fareShare !== null) {
+      if (typeof stop.fareShare !== 'number' || stop.fareShare <= previousShare || stop.fareShare >= 100) {
+        return `${label} fare share must be between the previous stop's and 100`
+      }
+      previousShare = stop.fareShare
+    }
+  }
+
+  return true
+}
+
+export async function replaceRouteStops(tx: Db, routeId: string, stops: RouteStopInput[]) {
+  await tx.routeStop.deleteMany({ where: { routeId } })
+
+  if (stops.length > 0) {
+    await tx.routeStop.createMany({
+      data: stops.map((stop, index) => ({
+        routeId,
+        cityId: stop.cityId,
+        stopOrder: index + 1,
+        offsetMinutes: stop.offsetMinutes,
+        fareShare: stop.fareShare ?? null
+      }))
+    })
+  }
+
+  return tx.routeStop.findMany({
+    where: { routeId },
+    orderBy: { stopOrder: 'asc' },
+    include: { city: true }
+  })
+}
+
+// Copy the route's stops onto a trip, resolving times and fare shares against its schedule.
+// Replaces any stops the trip already had.
+export async function createTripStops(
+  tx: Db,
+  trip: { id: string, routeId: string, departureTime: Date, arrivalTime: Date }
+) {
+  const route = await tx.route.findUnique({
+    where: { id: trip.routeId },
+    include: { stops: { orderBy: { stopOrder: 'asc' } } }
+  })
+
+  if (!route) {
+    throw ApiError.notFound('Route')
+  }
+
+  const stopTimes = validateTripStopTimes(route.stops, trip.departureTime, trip.arrivalTime)
+  if (stopTimes !== true) {
+    throw ApiError.validation(stopTimes)
+  }
+
+  const totalMinutes = Math.round((trip.arrivalTime.getTime() - trip.departureTime.getTime()) / 60000)
+
+  const at = (offsetMinutes: number) => new Date(trip.departureTime.getTime() + offsetMinutes * 60000)
+
+  await tx.tripStop.deleteMany({ where: { tripId: trip.id } })
+  await tx.tripStop.createMany({
+    data: [
+      { tripId: trip.id, cityId: route.departureCityId, stopOrder: 0, offsetMinutes: 0, scheduledAt: trip.departureTime, fareShare: 0 },
+      ...route.stops.map(stop => ({
+        tripId: trip.id,
+        cityId: stop.cityId,
+        stopOrder: stop.stopOrder,
+        offsetMinutes: stop.offsetMinutes,
+        scheduledAt: at(stop.offsetMinutes),
+        fareShare: stop.fareShare ?? new Decimal(stop.offsetMinutes).div(totalMinutes).mul(100).toDecimalPlaces(2)
+      })),
+      {
+        tripId: trip.id,
+        cityId: route.arrivalCityId,
+        stopOrder: route.stops.length + 1,
+        offsetMinutes: totalMinutes,
+        scheduledAt: trip.arrivalTime,
+        fareShare: 100
+      }
+    ]
+  })
+}
+
+// Move a trip's stops along with a new schedule. The stops themselves are kept, since
+// bookings refer to them by order; the route's current stops only apply to new trips.
+export async function retimeTripStops(
+  tx: Db,
+  trip: { id: string, routeId: string, departureTime: Date, arrivalTime: Date }
+) {
+  const stops = await tx.tripStop.findMany({
+    where: { tripId: trip.id },
+    orderBy: { stopOrder: 'asc' }
+  })
+
+  if (stops.length < 2) {
+    return createTripStops(tx, trip)
+  }
+
+  const totalMinutes = Math.round((trip.arrivalTime.getTime() - trip.departureTime.getTime()) / 60000)
+  const arrival = stops[stops.length - 1]
+
+  for (const stop of stops) {
+    const offsetMinutes = stop.id === arrival.id ? totalMinutes : stop.offsetMinutes
+
+    await tx.tripStop.update({
+      where: { id: stop.id },
+      data: {
+        offsetMinutes,
+        scheduledAt: new Date(trip.departureTime.getTime() + offsetMinutes * 60000)
+      }
+    })
+  }
+}
+
+// Stops are stored for every trip; older rows without them count as a direct trip
+export const lastStopOf = (stops: StopRecord[]) => Math.max(stops.length - 1, 1)
+
+// The segment a booking asks for; the whole trip when no stops are given
+export function resolveSegment(
+  stops: StopRecord[],
+  boardingStop?: number | null,
+  alightingStop?: number | null
+): TripSegment {
+  const lastStop = lastStopOf(stops)
+  const from = boardingStop ?? 0
+  const to = alightingStop ?? lastStop
+
+  if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || to > lastStop || from >= to) {
+    throw ApiError.validation('Choose a boarding stop that comes before the alighting stop')
+  }
+
+  const shareAt = (order: number) => {
+    const stop = stops.find(item => item.stopOrder === order)
+    if (stop) return new Decimal(stop.fareShare)
+    return new Decimal(order === 0 ? 0 : 100)
+  }
+
+  return {
+    boardingStop: from,
+    alightingStop: to,
+    fareFraction: shareAt(to).sub(shareAt(from)).div(100)
+  }
+}
+
+export function segmentOf(record: SegmentRecord, lastStop: number): Segment {
+  return {
+    boardingStop: record.boardingStop ?? 0,
+    alightingStop: record.alightingStop ?? lastStop
+  }
+}
+
+export const segmentsOverlap = (a: Segment, b: Segment) =>
+  a.boardingStop < b.alightingStop && b.boardingStop < a.alightingStop
+
+export const isWholeTrip = (segment: Segment, lastStop: number) =>
+  segment.boardingStop === 0 && segment.alightingStop === lastStop
+
+// Whole-trip bookings and locks store no stops, so they survive a change of the trip's route
+export function storedSegment(segment: Segment, lastStop: number): SegmentRecord {
+  if (isWholeTrip(segment, lastStop)) {
+    return { boardingStop: null, alightingStop: null }
+  }
+
+  return { boardingStop: segment.boardingStop, alightingStop: segment.alightingStop }
+}
+
+// Check that a trip's schedule leaves room for every stop on its route; returns true or an error message
+export function validateTripStopTimes(
+  stops: { offsetMinutes: number }[],
+  departureTime: Date,
+  arrivalTime: Date
+): true | string {
+  const totalMinutes = (arrivalTime.getTime() - departureTime.getTime()) / 60000
+  const lastOffset = stops.reduce((max, stop) => Math.max(max, stop.offsetMinutes), 0)
+
+  if (stops.length > 0 && lastOffset >= totalMinutes) {
+    return 'The trip must arrive after the route\'s last stop is reached'
+  }
+
+  return true
+}
+
+export async function getTripStops(db: Db, tripId: string) {
+  return db.tripStop.findMany({
+    where: { tripId },
+    orderBy: { stopOrder: 'asc' },
+    include: { city: true }
+  })
+}
+
+// Booked segments per seat on a trip, from the bookings that still hold them
+async function bookedSegmentsBySeat(db: Db, tripId: string, lastStop: number, seatIds?: string[]) {
+  const details = await db.bookingDetail.findMany({
+    where: {
+      ...(seatIds ? { seatId: { in: seatIds } } : {}),
+      booking: { tripId, status: { in: ACTIVE_BOOKING_STATUSES } }
+    },
+    select: {
+      seatId: true,
+      booking: { select: { boardingStop: true, alightingStop: true } }
+    }
+  })
+
+  return details.reduce((acc, detail) => {
+    const segments = acc.get(detail.seatId) ?? []
+    segments.push(segmentOf(detail.booking, lastStop))
+    acc.set(detail.seatId, segments)
+    return acc
+  }, new Map<string, Segment[]>())
+}
+
+// Seat sales run at this level so the overlap check made after lockTripSeats sees bookings
+// committed while the transaction waited for the locks
+export const SEAT_SALE_TRANSACTION_OPTIONS = {
+  isolationLevel: Prisma.TransactionIsolationLevel.ReadCommitted
+}
+
+// Lock the trip's seat rows, or only the given seat numbers, until the transaction ends. A seat
+// sold for one segment stays available, so nothing else stops two overlapping sales of it:
+// every transaction that books or locks seats takes these locks before checking for overlaps.
+export async function lockTripSeats(tx: Db, tripId: string, seatNumbers?: string[]) {
+  if (seatNumbers && seatNumbers.length === 0) return
+
+  await tx.$queryRaw`
+    SELECT id FROM seats
+    WHERE trip_id = ${tripId}
+    ${seatNumbers ? Prisma.sql`AND seat_number IN (${Prisma.join(seatNumbers)})` : Prisma.empty}
+    ORDER BY id
+    FOR UPDATE
+  `
+}
+
+// Seats already sold for any part of the segment
+export async function findSeatsTakenOnSegment(db: Db, tripId: string, segment: Segment, lastStop: number) {
+  const segmentsBySeat = await bookedSegmentsBySeat(db, tripId, lastStop)
+  const taken = new Set<string>()
+
+  for (const [seatId, segments] of Array.from(segmentsBySeat.entries())) {
+    if (segments.some(booked => segmentsOverlap(booked, segment))) {
+      taken.add(seatId)
+    }
+  }
+
+  return taken
+}
+
+// A seat only shows as booked once every segment of the trip is sold; partly sold seats stay
+// available for the remaining segments. Blocked seats and seats held by a lock are left alone.
+export async function syncSeatStatuses(tx: Db, tripId: string, seatIds?: string[]) {
+  const lastStop = lastStopOf(await tx.tripStop.findMany({
+    where: { tripId },
+    select: { stopOrder: true, fareShare: true }
+  }))
+
+  const seats = await tx.seat.findMany({
+    where: {
+      tripId,
+      ...(seatIds ? { id: { in: seatIds } } : {}),
+      lockId: null,
+      status: { not: 'blocked' }
+    },
+    select: { id: true }
+  })
+
+  if (seats.length === 0) return
+
+  const segmentsBySeat = await bookedSegmentsBySeat(tx, tripId, lastStop, seats.map(seat => seat.id))
+  const booked: string[] = []
+  const available: string[] = []
+
+  for (const seat of seats) {
+    const segments = (segmentsBySeat.get(seat.id) ?? [])
+      .sort((a, b) => a.boardingStop - b.boardingStop)
+
+    // Walk the sold segments in order and see whether they reach the last stop without a gap
+    let coveredUntil = 0
+    for (const segment of segments) {
+      if (segment.boardingStop > coveredUntil) break
+      coveredUntil = Math.max(coveredUntil, segment.alightingStop)
+    }
+
+    if (coveredUntil >= lastStop) {
+      booked.push(seat.id)
+    } else {
+      available.push(seat.id)
+    }
+  }
+
+  if (booked.length > 0) {
+    await tx.seat.updateMany({ where: { id: { in: booked } }, data: { status: 'booked' } })
+  }
+
+  if (available.length > 0) {
+    await tx.seat.updateMany({ where: { id: { in: available } }, data: { status: 'available' } })
+  }
+}
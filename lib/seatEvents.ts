@@ -0,0 +1,74 @@
+// lib/seatEvents.ts
+import { EventEmitter } from 'events'
+import prisma from '@/lib/prisma'
+
+// Types
+export interface SeatUpdate {
+  id: string
+  seatNumber: string
+  status: string | null
+}
+
+export interface SeatUpdateEvent {
+  tripId: string
+  seats: SeatUpdate[]
+  emittedAt: string
+}
+
+type SeatUpdateListener = (event: SeatUpdateEvent) => void
+
+// In-process event bus, kept on globalThis so hot reloads share one emitter.
+// Subscribers only see changes made by the same server instance.
+const globalForSeatEvents = globalThis as unknown as {
+  seatEvents?: EventEmitter
+}
+
+const seatEvents = globalForSeatEvents.seatEvents ?? new EventEmitter()
+seatEvents.setMaxListeners(0)
+globalForSeatEvents.seatEvents = seatEvents
+
+const channel = (tripId: string) => `trip:${tripId}`
+
+export function subscribeToSeatUpdates(tripId: string, listener: SeatUpdateListener) {
+  seatEvents.on(channel(tripId), listener)
+  return () => {
+    seatEvents.off(channel(tripId), listener)
+  }
+}
+
+// Read the current state of the given seats (or the whole trip) and push it to subscribers.
+// Call after the transaction that changed the seats has committed.
+export async function publishSeatChanges(tripId: string, seatIds?: string[]) {
+  if (seatEvents.listenerCount(channel(tripId)) === 0) {
+    return
+  }
+
+  if (seatIds && seatIds.length === 0) {
+    return
+  }
+
+  try {
+    const seats = await prisma.seat.findMany({
+      where: {
+        tripId,
+        ...(seatIds ? { id: { in: seatIds } } : {})
+      },
+      select: {
+        id: true,
+        seatNumber: true,
+        status: true
+      }
+    })
+
+    const event: SeatUpdateEvent = {
+      tripId,
+      seats,
+      emittedAt: new Date().toISOString()
+    }
+
+    seatEvents.emit(channel(tripId), event)
+  } catch (error) {
+    // Live updates are best effort and must never fail the request that triggered them
+    console.error(`Failed to publish seat changes for trip ${tripId}:`, error)
+  }
+}
@@ -0,0 +1,183 @@
+// lib/seatLayout.ts
+// Shared by the API and the admin/passenger pages, so it must stay free of server-only imports
+
+export type SeatLayoutCellType = 'seat' | 'aisle' | 'gap' | 'driver' | 'door'
+
+export const SEAT_LAYOUT_CELL_TYPES: SeatLayoutCellType[] = ['seat', 'aisle', 'gap', 'driver', 'door']
+
+export const DEFAULT_SEAT_CLASS = 'standard'
+
+// Classes offered by the layout editor; any lowercase identifier is accepted by the API
+export const SEAT_CLASSES = ['standard', 'premium', 'front_row', 'vip']
+
+// Limits
+const MAX_ROWS = 30
+const MAX_COLUMNS = 10
+
+// Types
+export interface SeatLayoutCell {
+  row: number
+  column: number
+  type: SeatLayoutCellType
+  label?: string
+  seatClass?: string
+}
+
+// Stored layout: grid size, aisle columns and per-cell overrides
+export interface SeatLayoutConfig {
+  rows: number
+  columns: number
+  aisleColumns: number[]
+  cells: SeatLayoutCell[]
+}
+
+// Fully resolved grid: every position has a cell and every seat has a label and class
+export interface SeatLayoutGrid {
+  rows: number
+  columns: number
+  cells: SeatLayoutCell[]
+}
+
+export interface LayoutSeat {
+  seatNumber: string
+  row: number
+  column: number
+  seatClass: string
+}
+
+// Spreadsheet-style row labels: A..Z, then AA, AB, ...
+const rowLetter = (row: number): string => {
+  const letter = String.fromCharCode(65 + (row % 26))
+  return row < 26 ? letter : rowLetter(Math.floor(row / 26) - 1) + letter
+}
+
+// Four seats per row with a centre aisle, matching the legacy A1..A4 numbering
+export function defaultSeatLayout(capacity: number): SeatLayoutConfig {
+  const seatsPerRow = 4
+  const rows = Math.max(1, Math.ceil(capacity / seatsPerRow))
+  const lastRowSeats = capacity - (rows - 1) * seatsPerRow
+  const seatColumns = [0, 1, 3, 4]
+
+  // Unused positions in a partially filled last row become gaps
+  const cells: SeatLayoutCell[] = seatColumns
+    .slice(Math.max(0, lastRowSeats))
+    .map(column => ({ row: rows - 1, column, type: 'gap' as SeatLayoutCellType }))
+
+  return {
+    rows,
+    columns: 5,
+    aisleColumns: [2],
+    cells
+  }
+}
+
+// Expand a stored layout into a complete grid with generated seat labels
+export function resolveSeatLayout(config: SeatLayoutConfig): SeatLayoutGrid {
+  const overrides = new Map(config.cells.map(cell => [`${cell.row}:${cell.column}`, cell]))
+  const cells: SeatLayoutCell[] = []
+
+  for (let row = 0; row < config.rows; row++) {
+    let seatIndex = 0
+
+    for (let column = 0; column < config.columns; column++) {
+      const override = overrides.get(`${row}:${column}`)
+      const type = override?.type ?? (config.aisleColumns.includes(column) ? 'aisle' : 'seat')
+
+      if (type === 'seat') {
+        seatIndex++
+        cells.push({
+          row,
+          column,
+          type,
+          label: override?.label?.trim() || `${rowLetter(row)}${seatIndex}`,
+          seatClass: override?.seatClass || DEFAULT_SEAT_CLASS
+        })
+      } else {
+        cells.push({ row, column, type })
+      }
+    }
+  }
+
+  return {
+    rows: config.rows,
+    columns: config.columns,
+    cells
+  }
+}
+
+// Seats to create for a trip, in row/column order
+export function layoutSeats(grid: SeatLayoutGrid): LayoutSeat[] {
+  return grid.cells
+    .filter(cell => cell.type === 'seat')
+    .map(cell => ({
+      seatNumber: cell.label as string,
+      row: cell.row,
+      column: cell.column,
+      seatClass: cell.seatClass || DEFAULT_SEAT_CLASS
+    }))
+}
+
+// Validate a layout sent by a client; returns true or an error message
+export function validateSeatLayout(value: any): true | string {
+  if (!value || typeof value !== 'object') return 'Layout must be an object'
+
+  const { rows, columns, aisleColumns, cells } = value
+
+  if (!Number.isInteger(rows) || rows < 1 || rows > MAX_ROWS) {
+    return `rows must be an integer between 1 and ${MAX_ROWS}`
+  }
+  if (!Number.isInteger(columns) || columns < 1 || columns > MAX_COLUMNS) {
+    return `columns must be an integer between 1 and ${MAX_COLUMNS}`
+  }
+  if (!Array.isArray(aisleColumns) || !aisleColumns.every((c: any) => Number.isInteger(c) && c >= 0 && c < columns)) {
+    return 'aisleColumns must be an array of column indexes inside the grid'
+  }
+  if (!Array.isArray(cells)) return 'cells must be an array'
+
+  const positions = new Set<string>()
+  for (const cell of cells) {
+    if (!Number.isInteger(cell?.row) || cell.row < 0 || cell.row >= rows ||
+        !Number.isInteger(cell?.column) || cell.column < 0 || cell.column >= columns) {
+      return 'Every cell must be inside the grid'
+    }
+    if (!SEAT_LAYOUT_CELL_TYPES.includes(cell.type)) {
+      return `Cell type must be one of: ${SEAT_LAYOUT_CELL_TYPES.join(', ')}`
+    }
+    if (cell.label !== undefined && (typeof cell.label !== 'string' || cell.label.trim().length > 10)) {
+      return 'Seat labels must be strings of at most 10 characters'
+    }
+    if (cell.seatClass !== undefined && (typeof cell.seatClass !== 'string' || !/^[a-z_]{1,30}$/.test(cell.seatClass))) {
+      return 'Seat classes must be lowercase identifiers'
+    }
+    const key = `${cell.row}:${cell.column}`
+    if (positions.has(key)) return `Cell ${key} is defined more than once`
+    positions.add(key)
+  }
+
+  const seats = layoutSeats(resolveSeatLayout(value as SeatLayoutConfig))
+  if (seats.length === 0) return 'Layout must contain at least one seat'
+  if (seats.length > 100) return 'Layout cannot contain more than 100 seats'
+
+  const labels = new Set<string>()
+  for (const seat of seats) {
+    if (labels.has(seat.seatNumber)) return `Seat label ${seat.seatNumber} is used more than once`
+    labels.add(seat.seatNumber)
+  }
+
+  return true
+}
+
+// Read a layout stored as JSON columns back into a config
+export function toSeatLayoutConfig(layout: {
+  rows: number
+  columns: number
+  aisleColumns: unknown
+  cells: unknown
+}): SeatLayoutConfig {
+  return {
+    rows: layout.rows,
+    columns: layout.columns,
+    aisleColumns: Array.isArray(layout.aisleColumns) ? (layout.aisleColumns as number[]) : [],
+    cells: Array.isArray(layout.cells) ? (layout.cells as unknown as SeatLayoutCell[]) : []
+  }
+}
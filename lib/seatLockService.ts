@@ -0,0 +1,188 @@
+// lib/seatLockService.ts
+import { Prisma, Seat } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/errorHandler'
+import { publishSeatChanges } from '@/lib/seatEvents'
+
+// Default interval for the in-process sweeper (1 minute)
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 1000
+
+// Types
+export interface ReleasedSeatLock {
+  lockId: string
+  tripId: string
+  userId: string
+  seatIds: string[]
+  seats: string[]
+  expiredAt: Date
+}
+
+// Seats taken over from a lock, with the segment they were locked for
+export interface ConsumedSeatLock {
+  seats: Seat[]
+  boardingStop: number | null
+  alightingStop: number | null
+}
+
+export interface SeatLockSweepReport {
+  releasedLocks: number
+  releasedSeats: number
+  locks: ReleasedSeatLock[]
+  ranAt: Date
+}
+
+interface SweepOptions {
+  tripId?: string
+  now?: Date
+}
+
+// Release a single lock: free its still-reserved seats and delete the lock
+export async function releaseSeatLock(
+  tx: Prisma.TransactionClient,
+  lockId: string
+): Promise<ReleasedSeatLock | null> {
+  const seatLock = await tx.seatLock.findUnique({
+    where: { id: lockId },
+    include: {
+      seats: {
+        select: { id: true, seatNumber: true }
+      }
+    }
+  })
+
+  if (!seatLock) {
+    return null
+  }
+
+  // Only seats that are still reserved by this lock go back to available
+  await tx.seat.updateMany({
+    where: {
+      lockId,
+      status: 'reserved'
+    },
+    data: { status: 'available', lockId: null }
+  })
+
+  await tx.seatLock.delete({
+    where: { id: lockId }
+  })
+
+  return {
+    lockId,
+    tripId: seatLock.tripId,
+    userId: seatLock.userId,
+    seatIds: seatLock.seats.map(seat => seat.id),
+    seats: seatLock.seats.map(seat => seat.seatNumber),
+    expiredAt: seatLock.expiresAt
+  }
+}
+
+// Convert a live lock into booked seats; throws if the lock is missing, foreign or expired
+export async function consumeSeatLock(
+  tx: Prisma.TransactionClient,
+  lockId: string,
+  userId: string,
+  tripId: string
+): Promise<ConsumedSeatLock> {
+  const seatLock = await tx.seatLock.findUnique({
+    where: { id: lockId },
+    include: { seats: true }
+  })
+
+  if (!seatLock || seatLock.tripId !== tripId) {
+    throw ApiError.notFound('Seat lock')
+  }
+
+  if (seatLock.userId !== userId) {
+    throw ApiError.forbidden('You can only use your own seat locks')
+  }
+
+  if (seatLock.expiresAt <= new Date()) {
+    throw ApiError.validation('Seat lock has expired. Please select your seats again.')
+  }
+
+  const seats = seatLock.seats.filter(seat => seat.status === 'reserved')
+  if (seats.length === 0) {
+    throw ApiError.validation('Seat lock no longer holds any seats')
+  }
+
+  // Detach the seats from the lock; the caller books them
+  await tx.seat.updateMany({
+    where: { lockId },
+    data: { lockId: null }
+  })
+
+  await tx.seatLock.delete({
+    where: { id: lockId }
+  })
+
+  return {
+    seats,
+    boardingStop: seatLock.boardingStop,
+    alightingStop: seatLock.alightingStop
+  }
+}
+
+// Release every lock whose expiry has passed, optionally scoped to one trip
+export async function releaseExpiredSeatLocks(options: SweepOptions = {}): Promise<SeatLockSweepReport> {
+  const now = options.now ?? new Date()
+
+  const expiredLocks = await prisma.seatLock.findMany({
+    where: {
+      expiresAt: { lte: now },
+      ...(options.tripId ? { tripId: options.tripId } : {})
+    },
+    select: { id: true }
+  })
+
+  const locks: ReleasedSeatLock[] = []
+
+  for (const { id } of expiredLocks) {
+    // Each lock is released in its own transaction so one failure does not block the rest
+    try {
+      const released = await prisma.$transaction(tx => releaseSeatLock(tx, id))
+      if (released) {
+        locks.push(released)
+        await publishSeatChanges(released.tripId, released.seatIds)
+      }
+    } catch (error) {
+      console.error(`Failed to release expired seat lock ${id}:`, error)
+    }
+  }
+
+  return {
+    releasedLocks: locks.length,
+    releasedSeats: locks.reduce((sum, lock) => sum + lock.seats.length, 0),
+    locks,
+    ranAt: now
+  }
+}
+
+// In-process sweeper, kept on globalThis so hot reloads do not start duplicates
+const globalForSweeper = globalThis as unknown as {
+  seatLockSweeper?: ReturnType<typeof setInterval>
+}
+
+export function startSeatLockSweeper(intervalMs: number = DEFAULT_SWEEP_INTERVAL_MS) {
+  if (globalForSweeper.seatLockSweeper) {
+    return
+  }
+
+  globalForSweeper.seatLockSweeper = setInterval(async () => {
+    try {
+      const report = await releaseExpiredSeatLocks()
+      if (report.releasedLocks > 0) {
+        console.log(`Released ${report.releasedLocks} expired seat locks (${report.releasedSeats} seats)`)
+      }
+    } catch (error) {
+      console.error('Seat lock sweep failed:', error)
+    }
+  }, intervalMs)
+}
+
+export function stopSeatLockSweeper() {
+  if (globalForSweeper.seatLockSweeper) {
+    clearInterval(globalForSweeper.seatLockSweeper)
+    globalForSweeper.seatLockSweeper = undefined
+  }
+}
@@ -0,0 +1,112 @@
+// lib/seatPricing.ts
+import { Decimal } from '@prisma/client/runtime/library'
+import { DEFAULT_SEAT_CLASS } from '@/lib/seatLayout'
+
+// Types
+// A class is priced either with an absolute price or with a multiplier of the trip price
+export interface SeatClassPriceInput {
+  seatClass: string
+  price?: number | null
+  multiplier?: number | null
+}
+
+interface SeatClassPriceRecord {
+  seatClass: string
+  price: Decimal | null
+  multiplier: Decimal | null
+}
+
+interface PricedSeat {
+  seatClass: string
+}
+
+// Price of one seat: an absolute class price wins, then a multiplier, then the trip price
+export function seatPrice(
+  basePrice: Decimal | number | string,
+  seatClass: string,
+  classPrices: SeatClassPriceRecord[]
+): Decimal {
+  const base = new Decimal(basePrice)
+  const classPrice = classPrices.find(entry => entry.seatClass === seatClass)
+
+  if (classPrice?.price !== null && classPrice?.price !== undefined) {
+    return new Decimal(classPrice.price)
+  }
+
+  if (classPrice?.multiplier !== null && classPrice?.multiplier !== undefined) {
+    return base.mul(classPrice.multiplier).toDecimalPlaces(2)
+  }
+
+  return base
+}
+
+// Attach a price to each seat and sum them up. Segment bookings pay their fraction of the full fare.
+export function priceSeats<T extends PricedSeat>(
+  basePrice: Decimal | number | string,
+  seats: T[],
+  classPrices: SeatClassPriceRecord[],
+  fareFraction: Decimal | number = 1
+): { seats: (T & { price: Decimal })[]; totalPrice: Decimal } {
+  const pricedSeats = seats.map(seat => ({
+    ...seat,
+    price: seatPrice(basePrice, seat.seatClass || DEFAULT_SEAT_CLASS, classPrices)
+      .mul(fareFraction)
+      .toDecimalPlaces(2)
+  }))
+
+  const totalPrice = pricedSeats.reduce((sum, seat) => sum.add(seat.price), new Decimal(0))
+
+  return { seats: pricedSeats, totalPrice }
+}
+
+// Validate class prices sent by a client; returns true or an error message
+export function validateSeatClassPrices(value: any): true | string {
+  if (!Array.isArray(value)) return 'Seat class prices must be an array'
+
+  const classes = new Set<string>()
+  for (const entry of value) {
+    if (!entry || typeof entry.seatClass !== 'string' || !/^[a-z_]{1,30}$/.test(entry.seatClass)) {
+      return 'Seat classes must be lowercase identifiers'
+    }
+    if (classes.has(entry.seatClass)) {
+      return `Seat class ${entry.seatClass} is priced more than once`
+    }
+    classes.add(entry.seatClass)
+
+    const hasPrice = entry.price !== undefined && entry.price !== null
+    const hasMultiplier = entry.multiplier !== undefined && entry.multiplier !== null
+
+    if (hasPrice === hasMultiplier) {
+      return `Seat class ${entry.seatClass} needs either a price or a multiplier`
+    }
+    if (hasPrice && (typeof entry.price !== 'number' || entry.price < 0)) {
+      return `Price for seat class ${entry.seatClass} must be a non-negative number`
+    }
+    if (hasMultiplier && (typeof entry.multiplier !== 'number' || entry.multiplier <= 0 || entry.multiplier > 10)) {
+      return `Multiplier for seat class ${entry.seatClass} must be greater than 0 and at most 10`
+    }
+  }
+
+  return true
+}
+
+// Parse the JSON-encoded `seatClassPrices` field of the admin trip forms
+export function parseSeatClassPrices(raw: FormDataEntryValue | null): SeatClassPriceInput[] | undefined | string {
+  if (raw === null || raw === '') return undefined
+
+  let value: any
+  try {
+    value = JSON.parse(raw as string)
+  } catch {
+    return 'Seat class prices must be valid JSON'
+  }
+
+  const result = validateSeatClassPrices(value)
+  if (result !== true) return result
+
+  return value.map((entry: SeatClassPriceInput) => ({
+    seatClass: entry.seatClass,
+    price: entry.price ?? null,
+    multiplier: entry.multiplier ?? null
+  }))
+}
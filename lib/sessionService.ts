@@ -0,0 +1,157 @@
+// lib/sessionService.ts
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/errorHandler'
+import { generateRefreshToken, revokeRefreshTokenFamily, isAccessTokenDenied } from '@/lib/tokenService'
+
+// Types
+export interface ClientInfo {
+  userAgent: string | null
+  ipAddress: string | null
+}
+
+export interface SessionSummary {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: Date
+  lastUsedAt: Date
+  current: boolean
+}
+
+// Reverse proxies in front of the app (TRUSTED_PROXY_COUNT, default 1); each one appends the
+// address it received the request from to X-Forwarded-For
+const trustedProxyCount = () => {
+  const count = parseInt(process.env.TRUSTED_PROXY_COUNT ?? '1')
+  return isNaN(count) || count < 0 ? 0 : count
+}
+
+// The client address as recorded by the outermost trusted proxy. Anything left of it in
+// X-Forwarded-For was sent by the client itself, so it is never used; without trusted
+// proxies, or when the request did not pass all of them, the address is unknown.
+export function getClientIp(headers: Headers): string | null {
+  const hops = trustedProxyCount()
+  if (hops === 0) return null
+
+  const forwarded = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean)
+
+  return forwarded.length >= hops ? forwarded[forwarded.length - hops] : null
+}
+
+// Device details of a request
+export function getClientInfo(headers: Headers): ClientInfo {
+  const ipAddress = getClientIp(headers)
+  const userAgent = headers.get('user-agent')
+
+  return {
+    userAgent: userAgent ? userAgent.slice(0, 500) : null,
+    ipAddress: ipAddress ? ipAddress.slice(0, 45) : null
+  }
+}
+
+// Record a new signed-in device and issue its first refresh token
+export async function startSession(userId: string, client: ClientInfo) {
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress
+    }
+  })
+
+  const refreshToken = await generateRefreshToken(userId, session.id)
+
+  return { session, refreshToken }
+}
+
+// Sessions that can still refresh, most recently used first
+export async function listActiveSessions(userId: string, currentSessionId?: string | null): Promise<SessionSummary[]> {
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      refreshTokens: {
+        some: { revokedAt: null, expiresAt: { gt: new Date() } }
+      }
+    },
+    orderBy: { lastUsedAt: 'desc' }
+  })
+
+  return sessions.map(session => ({
+    id: session.id,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    current: session.id === currentSessionId
+  }))
+}
+
+// Whether a session was signed out; its access tokens stop working with it
+export async function isSessionRevoked(sessionId: string): Promise<boolean> {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true }
+  })
+
+  return !session || session.revokedAt !== null
+}
+
+// Whether a user's role differs from the one an access token was issued with; a token of a
+// deleted user counts as changed
+export async function hasRoleChanged(userId: string, role: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true }
+  })
+
+  return !user || user.role !== role
+}
+
+// Whether an access token stopped being valid: signed out on its own or with its session, or
+// carrying a role its user no longer has. What the middleware asks the token status route.
+export async function isAccessTokenRevoked(claims: {
+  jti: string
+  userId?: string | null
+  role?: string | null
+  sessionId?: string | null
+}): Promise<boolean> {
+  const { jti, userId, role, sessionId } = claims
+
+  return await isAccessTokenDenied(jti) ||
+    (!!sessionId && await isSessionRevoked(sessionId)) ||
+    (!!userId && !!role && await hasRoleChanged(userId, role))
+}
+
+// Sign one device out
+export async function revokeSession(userId: string, sessionId: string) {
+  const session = await prisma.session.findFirst({
+    where: { id: sessionId, userId }
+  })
+
+  if (!session) {
+    throw ApiError.notFound('Session')
+  }
+
+  await revokeRefreshTokenFamily(session.id, 'logout')
+}
+
+// Sign every device out, optionally keeping the one making the request
+export async function revokeAllSessions(userId: string, exceptSessionId?: string | null) {
+  const sessions = await prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } })
+    },
+    select: { id: true }
+  })
+
+  for (const session of sessions) {
+    await revokeRefreshTokenFamily(session.id, 'logout')
+  }
+
+  return sessions.length
+}
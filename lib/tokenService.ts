@@ -1,26 +1,162 @@
 // lib/tokenService.ts
-import jwt from 'jsonwebtoken'
+import crypto from 'crypto'
 import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/errorHandler'
+import { signRefreshToken, verifyRefreshToken } from '@/lib/jwtService'
 
-export async function generateRefreshToken(userId: string) {
-  const expiresIn = 60 * 60 * 24 * 7 // 7 days
+// Why a refresh token stopped being valid
+export type RefreshTokenRevocationReason = 'rotated' | 'reuse_detected' | 'logout'
 
-  const refreshToken = jwt.sign(
-    { userId },
-    process.env.JWT_REFRESH_SECRET || 'your-refresh-secret',
-    { expiresIn }
-  )
+export interface RotatedRefreshToken {
+  userId: string
+  familyId: string
+  refreshToken: string
+}
 
-  const expiresAt = new Date(Date.now() + expiresIn * 1000)
+// Only a hash is stored, so a leaked table cannot be replayed
+export function hashRefreshToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+async function issueRefreshToken(userId: string, familyId: string) {
+  const { token: refreshToken, expiresAt } = await signRefreshToken({
+    userId,
+    familyId,
+    jti: crypto.randomUUID()
+  })
 
   // Save token to DB
-  await prisma.refreshToken.create({
+  const record = await prisma.refreshToken.create({
     data: {
-      token: refreshToken,
+      token: hashRefreshToken(refreshToken),
       userId,
+      familyId,
       expiresAt,
     },
   })
 
+  return { refreshToken, record }
+}
+
+// Issue the first refresh token of a session; the session id is the token family
+export async function generateRefreshToken(userId: string, sessionId: string) {
+  const { refreshToken } = await issueRefreshToken(userId, sessionId)
   return refreshToken
 }
+
+// Revoke every still-valid token of a family and end its session
+export async function revokeRefreshTokenFamily(familyId: string, reason: RefreshTokenRevocationReason) {
+  const now = new Date()
+
+  const [result] = await prisma.$transaction([
+    prisma.refreshToken.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: now, revokedReason: reason }
+    }),
+    prisma.session.updateMany({
+      where: { id: familyId, revokedAt: null },
+      data: { revokedAt: now }
+    })
+  ])
+
+  return result.count
+}
+
+// Sign out the session a refresh token belongs to. Unknown tokens are ignored so logout
+// always succeeds; returns whether a session was ended.
+export async function revokeRefreshToken(refreshToken: string): Promise<boolean> {
+  const storedToken = await prisma.refreshToken.findUnique({
+    where: { token: hashRefreshToken(refreshToken) }
+  })
+
+  if (!storedToken) {
+    return false
+  }
+
+  return (await revokeRefreshTokenFamily(storedToken.familyId, 'logout')) > 0
+}
+
+// Deny an access token until it expires; expired entries are purged on the way
+export async function denyAccessToken(jti: string, expiresAt: Date) {
+  await prisma.revokedAccessToken.deleteMany({
+    where: { expiresAt: { lt: new Date() } }
+  })
+
+  await prisma.revokedAccessToken.upsert({
+    where: { jti },
+    create: { jti, expiresAt },
+    update: {}
+  })
+}
+
+export async function isAccessTokenDenied(jti: string): Promise<boolean> {
+  const entry = await prisma.revokedAccessToken.findUnique({ where: { jti } })
+  return !!entry && entry.expiresAt > new Date()
+}
+
+// Exchange a refresh token for a new one of the same family. Presenting a token that was
+// already rotated means it was copied, so the whole family is revoked.
+export async function rotateRefreshToken(
+  refreshToken: string,
+  client: { userAgent?: string | null; ipAddress?: string | null } = {}
+): Promise<RotatedRefreshToken> {
+  try {
+    await verifyRefreshToken(refreshToken)
+  } catch {
+    throw ApiError.unauthorized('Invalid or expired refresh token')
+  }
+
+  const storedToken = await prisma.refreshToken.findUnique({
+    where: { token: hashRefreshToken(refreshToken) },
+    include: { session: true }
+  })
+
+  if (!storedToken) {
+    throw ApiError.unauthorized('Invalid or expired refresh token')
+  }
+
+  if (storedToken.revokedAt) {
+    if (storedToken.revokedReason === 'rotated') {
+      await revokeRefreshTokenFamily(storedToken.familyId, 'reuse_detected')
+      console.warn(`Refresh token reuse detected for user ${storedToken.userId}, family ${storedToken.familyId} revoked`)
+    }
+    throw ApiError.unauthorized('Refresh token has been revoked')
+  }
+
+  if (storedToken.expiresAt < new Date()) {
+    throw ApiError.unauthorized('Invalid or expired refresh token')
+  }
+
+  if (storedToken.session.revokedAt) {
+    throw ApiError.unauthorized('Session has been signed out')
+  }
+
+  // Claim the old token first so two concurrent refreshes cannot both succeed
+  const claimed = await prisma.refreshToken.updateMany({
+    where: { id: storedToken.id, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: 'rotated' }
+  })
+
+  if (claimed.count === 0) {
+    await revokeRefreshTokenFamily(storedToken.familyId, 'reuse_detected')
+    throw ApiError.unauthorized('Refresh token has been revoked')
+  }
+
+  const { refreshToken: newRefreshToken, record } = await issueRefreshToken(storedToken.userId, storedToken.familyId)
+
+  await prisma.refreshToken.update({
+    where: { id: storedToken.id },
+    data: { replacedById: record.id }
+  })
+
+  await prisma.session.update({
+    where: { id: storedToken.familyId },
+    data: { lastUsedAt: new Date(), ...client }
+  })
+
+  return {
+    userId: storedToken.userId,
+    familyId: storedToken.familyId,
+    refreshToken: newRefreshToken
+  }
+}
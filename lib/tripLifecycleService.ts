@@ -0,0 +1,247 @@
+// lib/tripLifecycleService.ts
+import { Prisma, TripStatus } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { publishSeatChanges } from '@/lib/seatEvents'
+import { syncSeatStatuses } from '@/lib/routeStopService'
+import { refreshBusStatus } from '@/lib/tripService'
+import { manualPaymentProvider } from '@/lib/paymentProvider'
+
+// Default interval for the in-process lifecycle runner (1 minute)
+const DEFAULT_LIFECYCLE_INTERVAL_MS = 60 * 1000
+
+// Open payments through these providers involve no gateway and can be failed on expiry
+const OFFLINE_PAYMENT_PROVIDERS = [manualPaymentProvider.name]
+
+const isGatewayPayment = (provider: string | null) =>
+  provider !== null && !OFFLINE_PAYMENT_PROVIDERS.includes(provider)
+
+// Types
+export interface TripTransition {
+  tripId: string
+  busId: string
+  from: TripStatus
+  to: TripStatus
+  // Confirmed bookings marked completed when the trip arrived
+  completedBookings: number
+}
+
+export interface ExpiredBooking {
+  bookingId: string
+  tripId: string
+  seatIds: string[]
+}
+
+export interface TripLifecycleReport {
+  startedTrips: number
+  completedTrips: number
+  completedBookings: number
+  expiredBookings: number
+  transitions: TripTransition[]
+  expired: ExpiredBooking[]
+  ranAt: Date
+}
+
+interface LifecycleOptions {
+  tripId?: string
+  now?: Date
+}
+
+// Cancel a pending booking nobody paid for once its trip stops taking bookings. Bookings with a
+// payment still open at the gateway are left for its webhook to settle, since the customer may
+// already have been charged; open cash payments are failed with the booking. Returns null when
+// the booking was paid, is awaiting the gateway or changed in the meantime.
+export async function expireUnpaidBooking(
+  tx: Prisma.TransactionClient,
+  bookingId: string
+): Promise<ExpiredBooking | null> {
+  const booking = await tx.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      details: { select: { seatId: true } },
+      bill: {
+        select: {
+          id: true,
+          status: true,
+          payments: {
+            where: { status: 'pending' },
+            select: { provider: true }
+          }
+        }
+      }
+    }
+  })
+
+  if (!booking || booking.status !== 'pending') return null
+  if (booking.bill && booking.bill.status !== 'unpaid') return null
+  if (booking.bill?.payments.some(payment => isGatewayPayment(payment.provider))) return null
+
+  await tx.booking.update({
+    where: { id: bookingId },
+    data: { status: 'cancelled' }
+  })
+
+  if (booking.bill) {
+    await tx.bill.update({
+      where: { id: booking.bill.id },
+      data: { status: 'cancelled' }
+    })
+
+    await tx.payment.updateMany({
+      where: { billId: booking.bill.id, status: 'pending' },
+      data: { status: 'failed' }
+    })
+  }
+
+  const seatIds = booking.details.map(detail => detail.seatId)
+  await syncSeatStatuses(tx, booking.tripId, seatIds)
+
+  return { bookingId, tripId: booking.tripId, seatIds }
+}
+
+// Move a trip to in_progress or completed and its bus with it. Completing a trip completes its
+// confirmed bookings. Returns null when the trip is no longer in the expected status.
+export async function transitionTrip(
+  tx: Prisma.TransactionClient,
+  tripId: string,
+  from: TripStatus,
+  to: 'in_progress' | 'completed'
+): Promise<TripTransition | null> {
+  // Guarded on the current status so an admin edit or a parallel run wins cleanly
+  const { count } = await tx.trip.updateMany({
+    where: { id: tripId, status: from },
+    data: { status: to }
+  })
+
+  if (count === 0) return null
+
+  const trip = await tx.trip.findUniqueOrThrow({
+    where: { id: tripId },
+    select: { busId: true }
+  })
+
+  let completedBookings = 0
+  if (to === 'completed') {
+    const result = await tx.booking.updateMany({
+      where: { tripId, status: 'confirmed' },
+      data: { status: 'completed' }
+    })
+    completedBookings = result.count
+  }
+
+  await refreshBusStatus(tx, trip.busId)
+
+  return { tripId, busId: trip.busId, from, to, completedBookings }
+}
+
+// Apply every transition that is due: expire unpaid bookings past the booking cut-off, start
+// trips at departure and complete them at arrival. A trip whose whole window passed while the
+// runner was down goes straight to completed.
+export async function runTripLifecycle(options: LifecycleOptions = {}): Promise<TripLifecycleReport> {
+  const now = options.now ?? new Date()
+  const tripFilter = options.tripId ? { id: options.tripId } : {}
+
+  const staleBookings = await prisma.booking.findMany({
+    where: {
+      status: 'pending',
+      trip: { ...tripFilter, lastBookingTime: { lte: now } },
+      OR: [{ bill: null }, { bill: { status: 'unpaid' } }],
+      // Open gateway payments are settled by their webhook first
+      NOT: {
+        bill: {
+          payments: {
+            some: { status: 'pending', provider: { notIn: OFFLINE_PAYMENT_PROVIDERS } }
+          }
+        }
+      }
+    },
+    select: { id: true }
+  })
+
+  const expired: ExpiredBooking[] = []
+
+  for (const { id } of staleBookings) {
+    // Each booking and trip gets its own transaction so one failure does not block the rest
+    try {
+      const booking = await prisma.$transaction(tx => expireUnpaidBooking(tx, id))
+      if (booking) {
+        expired.push(booking)
+        await publishSeatChanges(booking.tripId, booking.seatIds)
+      }
+    } catch (error) {
+      console.error(`Failed to expire unpaid booking ${id}:`, error)
+    }
+  }
+
+  const [departed, arrived] = await Promise.all([
+    prisma.trip.findMany({
+      where: { ...tripFilter, status: 'scheduled', departureTime: { lte: now }, arrivalTime: { gt: now } },
+      select: { id: true, status: true },
+      orderBy: { departureTime: 'asc' }
+    }),
+    prisma.trip.findMany({
+      where: { ...tripFilter, status: { in: ['scheduled', 'in_progress'] }, arrivalTime: { lte: now } },
+      select: { id: true, status: true },
+      orderBy: { arrivalTime: 'asc' }
+    })
+  ])
+
+  const due = [
+    ...departed.map(trip => ({ id: trip.id, from: trip.status as TripStatus, to: 'in_progress' as const })),
+    ...arrived.map(trip => ({ id: trip.id, from: trip.status as TripStatus, to: 'completed' as const }))
+  ]
+
+  const transitions: TripTransition[] = []
+
+  for (const trip of due) {
+    try {
+      const transition = await prisma.$transaction(tx => transitionTrip(tx, trip.id, trip.from, trip.to))
+      if (transition) {
+        transitions.push(transition)
+      }
+    } catch (error) {
+      console.error(`Failed to move trip ${trip.id} to ${trip.to}:`, error)
+    }
+  }
+
+  return {
+    startedTrips: transitions.filter(transition => transition.to === 'in_progress').length,
+    completedTrips: transitions.filter(transition => transition.to === 'completed').length,
+    completedBookings: transitions.reduce((sum, transition) => sum + transition.completedBookings, 0),
+    expiredBookings: expired.length,
+    transitions,
+    expired,
+    ranAt: now
+  }
+}
+
+// In-process runner, kept on globalThis so hot reloads do not start duplicates
+const globalForLifecycle = globalThis as unknown as {
+  tripLifecycleRunner?: ReturnType<typeof setInterval>
+}
+
+export function startTripLifecycleRunner(intervalMs: number = DEFAULT_LIFECYCLE_INTERVAL_MS) {
+  if (globalForLifecycle.tripLifecycleRunner) {
+    return
+  }
+
+  globalForLifecycle.tripLifecycleRunner = setInterval(async () => {
+    try {
+      const report = await runTripLifecycle()
+      if (report.transitions.length > 0 || report.expiredBookings > 0) {
+        console.log(
+          `Trip lifecycle: ${report.startedTrips} started, ${report.completedTrips} completed ` +
+          `(${report.completedBookings} bookings), ${report.expiredBookings} unpaid bookings cancelled`
+        )
+      }
+    } catch (error) {
+      console.error('Trip lifecycle run failed:', error)
+    }
+  }, intervalMs)
+}
+
+export function stopTripLifecycleRunner() {
+  if (globalForLifecycle.tripLifecycleRunner) {
+    clearInterval(globalForLifecycle.tripLifecycleRunner)
+    globalForLifecycle.tripLifecycleRunner = undefined
+  }
+}
@@ -0,0 +1,447 @@
+// lib/tripScheduleService.ts
+import { Prisma, TripSchedule } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { ValidationSchema } from '@/lib/validation'
+import { validateSeatClassPrices, SeatClassPriceInput } from '@/lib/seatPricing'
+import { createTripStops, validateTripStopTimes } from '@/lib/routeStopService'
+import { STAFF_BUS_STATUSES, busSeatGrid, findConflictingTrip, refreshBusStatus } from '@/lib/tripService'
+
+export const DEFAULT_SCHEDULE_TIMEZONE = 'Asia/Damascus'
+export const MAX_HORIZON_DAYS = 90
+// Default interval for the in-process generator (1 hour)
+const DEFAULT_GENERATE_INTERVAL_MS = 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export const TRIP_SCHEDULE_INCLUDE = {
+  route: {
+    include: {
+      departureCity: true,
+      arrivalCity: true
+    }
+  },
+  bus: {
+    select: {
+      id: true,
+      plateNumber: true,
+      model: true,
+      capacity: true,
+      status: true
+    }
+  },
+  exceptions: {
+    orderBy: { date: 'asc' }
+  },
+  _count: {
+    select: { trips: true }
+  }
+} satisfies Prisma.TripScheduleInclude
+
+// Types
+export interface ScheduleOccurrence {
+  // Calendar date in the schedule's time zone, YYYY-MM-DD
+  date: string
+  departureTime: Date
+  arrivalTime: Date
+  lastBookingTime: Date
+}
+
+export type ScheduleConflictReason = 'bus_busy' | 'bus_unavailable' | 'route_stops'
+
+export interface ScheduleConflict {
+  scheduleId: string
+  date: string
+  departureTime: Date
+  reason: ScheduleConflictReason
+  message: string
+  conflictingTripId?: string
+}
+
+export interface GeneratedTrip {
+  scheduleId: string
+  tripId: string | null
+  departureTime: Date
+  arrivalTime: Date
+}
+
+export interface ScheduleGenerationReport {
+  schedules: number
+  created: number
+  // Occurrences already materialized by an earlier run
+  existing: number
+  // Occurrences falling on a holiday or schedule exception
+  skipped: number
+  trips: GeneratedTrip[]
+  conflicts: ScheduleConflict[]
+  dryRun: boolean
+  ranAt: Date
+}
+
+interface GenerateOptions {
+  scheduleId?: string
+  now?: Date
+  // Report what would be created without writing anything
+  dryRun?: boolean
+}
+
+const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const isValidDate = (value: string) => DATE_PATTERN.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime())
+
+// Fields shared by the create and update forms
+export const TRIP_SCHEDULE_SCHEMA: ValidationSchema = {
+  routeId: { required: true, type: 'string' },
+  busId: { required: true, type: 'string' },
+  departureTime: {
+    required: true,
+    type: 'string',
+    custom: value => TIME_OF_DAY_PATTERN.test(value) || 'departureTime must be a time of day as HH:mm'
+  },
+  timezone: {
+    required: false,
+    type: 'string',
+    custom: value => isValidTimeZone(value) || 'timezone must be an IANA time zone such as Asia/Damascus'
+  },
+  weekdays: {
+    required: true,
+    type: 'array',
+    custom: (value: any[]) => {
+      if (value.length === 0) return 'Choose at least one weekday'
+      if (!value.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+        return 'Weekdays must be numbers from 0 (Sunday) to 6 (Saturday)'
+      }
+      if (new Set(value).size !== value.length) return 'Weekdays must not repeat'
+      return true
+    }
+  },
+  durationMinutes: { required: true, type: 'number', min: 1, max: 48 * 60 },
+  price: { required: true, type: 'number', min: 0 },
+  seatClassPrices: { required: false, type: 'array', custom: validateSeatClassPrices },
+  bookingCutoffMinutes: { required: false, type: 'number', min: 0, max: 7 * 24 * 60 },
+  startDate: { required: true, type: 'string', custom: value => isValidDate(value) || 'startDate must be a date as YYYY-MM-DD' },
+  endDate: { required: false, type: 'string', custom: value => isValidDate(value) || 'endDate must be a date as YYYY-MM-DD' },
+  horizonDays: { required: false, type: 'number', min: 1, max: MAX_HORIZON_DAYS },
+  titleAr: { required: false, type: 'string', maxLength: 191 },
+  titleEn: { required: false, type: 'string', maxLength: 191 },
+  descriptionAr: { required: false, type: 'string', maxLength: 191 },
+  descriptionEn: { required: false, type: 'string', maxLength: 191 },
+  latitude: { required: true, type: 'number', min: -90, max: 90 },
+  longitude: { required: true, type: 'number', min: -180, max: 180 },
+  isActive: { required: false, type: 'boolean' }
+}
+
+// Cross-field checks the schema cannot express; returns true or an error message
+export function validateScheduleDates(body: { startDate: string, endDate?: string | null }): true | string {
+  if (body.endDate && body.endDate < body.startDate) {
+    return 'endDate must not be before startDate'
+  }
+
+  return true
+}
+
+// Map a validated request body onto the schedule columns
+export function toTripScheduleData(body: any): Prisma.TripScheduleUncheckedCreateInput {
+  return {
+    routeId: body.routeId,
+    busId: body.busId,
+    departureTime: body.departureTime,
+    timezone: body.timezone || DEFAULT_SCHEDULE_TIMEZONE,
+    weekdays: [...body.weekdays].sort((a, b) => a - b),
+    durationMinutes: body.durationMinutes,
+    price: body.price,
+    seatClassPrices: body.seatClassPrices?.length
+      ? body.seatClassPrices.map((entry: SeatClassPriceInput) => ({
+        seatClass: entry.seatClass,
+        price: entry.price ?? null,
+        multiplier: entry.multiplier ?? null
+      }))
+      : Prisma.DbNull,
+    bookingCutoffMinutes: body.bookingCutoffMinutes ?? 0,
+    startDate: new Date(`${body.startDate}T00:00:00Z`),
+    endDate: body.endDate ? new Date(`${body.endDate}T00:00:00Z`) : null,
+    horizonDays: body.horizonDays ?? 14,
+    titleAr: body.titleAr || null,
+    titleEn: body.titleEn || null,
+    descriptionAr: body.descriptionAr || null,
+    descriptionEn: body.descriptionEn || null,
+    latitude: body.latitude,
+    longitude: body.longitude,
+    isActive: body.isActive ?? true
+  }
+}
+
+// Date columns come back as UTC midnight
+export const toDateString = (date: Date) => date.toISOString().slice(0, 10)
+
+// Wall clock of an instant in a time zone, as if it were UTC
+function zonedWallClock(instant: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(new Date(instant))
+
+  const part = (type: string) => Number(parts.find(item => item.type === type)?.value)
+  return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'))
+}
+
+// Calendar date of an instant in a time zone, YYYY-MM-DD
+export function zonedDate(instant: Date, timeZone: string) {
+  return toDateString(new Date(zonedWallClock(instant.getTime(), timeZone)))
+}
+
+// The instant a wall-clock time on a date happens in a time zone
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number)
+  const wallClock = new Date(`${date}T00:00:00Z`).getTime() + (hours * 60 + minutes) * 60000
+
+  // Guess with the offset at the wall-clock time, then correct once in case DST changes in between
+  let offset = zonedWallClock(wallClock, timeZone) - wallClock
+  const corrected = zonedWallClock(wallClock - offset, timeZone) - (wallClock - offset)
+  if (corrected !== offset) offset = corrected
+
+  return new Date(wallClock - offset)
+}
+
+// Departures of a schedule between two local dates (inclusive), minus the excluded dates
+export function scheduleOccurrences(
+  schedule: Pick<TripSchedule, 'departureTime' | 'timezone' | 'weekdays' | 'durationMinutes' | 'bookingCutoffMinutes' | 'startDate' | 'endDate'>,
+  fromDate: string,
+  toDate: string,
+  excludedDates: Set<string> = new Set()
+): { occurrences: ScheduleOccurrence[], skipped: string[] } {
+  const weekdays = Array.isArray(schedule.weekdays) ? (schedule.weekdays as number[]) : []
+  const first = [fromDate, toDateString(schedule.startDate)].sort()[1]
+  const last = schedule.endDate ? [toDate, toDateString(schedule.endDate)].sort()[0] : toDate
+
+  const occurrences: ScheduleOccurrence[] = []
+  const skipped: string[] = []
+
+  for (let day = new Date(`${first}T00:00:00Z`); toDateString(day) <= last; day = new Date(day.getTime() + DAY_MS)) {
+    const date = toDateString(day)
+    if (!weekdays.includes(day.getUTCDay())) continue
+
+    if (excludedDates.has(date)) {
+      skipped.push(date)
+      continue
+    }
+
+    const departureTime = zonedTimeToUtc(date, schedule.departureTime, schedule.timezone)
+    occurrences.push({
+      date,
+      departureTime,
+      arrivalTime: new Date(departureTime.getTime() + schedule.durationMinutes * 60000),
+      lastBookingTime: new Date(departureTime.getTime() - schedule.bookingCutoffMinutes * 60000)
+    })
+  }
+
+  return { occurrences, skipped }
+}
+
+// Materialize the trips of every active schedule (or one) up to its horizon. Runs are idempotent:
+// departures that already have a trip are left alone, and overlapping bus bookings are reported
+// as conflicts instead of being created.
+export async function generateScheduledTrips(options: GenerateOptions = {}): Promise<ScheduleGenerationReport> {
+  const now = options.now ?? new Date()
+  const dryRun = options.dryRun ?? false
+
+  const [schedules, holidays] = await Promise.all([
+    prisma.tripSchedule.findMany({
+      where: {
+        isActive: true,
+        ...(options.scheduleId ? { id: options.scheduleId } : {})
+      },
+      include: {
+        bus: { include: { seatLayout: true } },
+        route: { include: { stops: true } },
+        exceptions: true
+      }
+    }),
+    prisma.tripScheduleException.findMany({
+      where: { scheduleId: null }
+    })
+  ])
+
+  const report: ScheduleGenerationReport = {
+    schedules: schedules.length,
+    created: 0,
+    existing: 0,
+    skipped: 0,
+    trips: [],
+    conflicts: [],
+    dryRun,
+    ranAt: now
+  }
+
+  for (const schedule of schedules) {
+    const excludedDates = new Set([...holidays, ...schedule.exceptions].map(exception => toDateString(exception.date)))
+    const { occurrences, skipped } = scheduleOccurrences(
+      schedule,
+      zonedDate(now, schedule.timezone),
+      zonedDate(new Date(now.getTime() + schedule.horizonDays * DAY_MS), schedule.timezone),
+      excludedDates
+    )
+    report.skipped += skipped.length
+
+    const upcoming = occurrences.filter(occurrence => occurrence.departureTime > now)
+    const existingTrips = await prisma.trip.findMany({
+      where: {
+        scheduleId: schedule.id,
+        departureTime: { in: upcoming.map(occurrence => occurrence.departureTime) }
+      },
+      select: { departureTime: true }
+    })
+    const existingDepartures = new Set(existingTrips.map(trip => trip.departureTime.getTime()))
+
+    const seatClassPrices = Array.isArray(schedule.seatClassPrices)
+      ? (schedule.seatClassPrices as unknown as SeatClassPriceInput[])
+      : []
+
+    for (const occurrence of upcoming) {
+      if (existingDepartures.has(occurrence.departureTime.getTime())) {
+        report.existing++
+        continue
+      }
+
+      const conflict = (reason: ScheduleConflictReason, message: string, conflictingTripId?: string) => {
+        report.conflicts.push({
+          scheduleId: schedule.id,
+          date: occurrence.date,
+          departureTime: occurrence.departureTime,
+          reason,
+          message,
+          ...(conflictingTripId && { conflictingTripId })
+        })
+      }
+
+      // Buses taken out of service by staff get no new trips
+      if (schedule.bus.status && STAFF_BUS_STATUSES.includes(schedule.bus.status)) {
+        conflict('bus_unavailable', `Bus ${schedule.bus.plateNumber} is ${schedule.bus.status}`)
+        continue
+      }
+
+      const stopTimes = validateTripStopTimes(schedule.route.stops, occurrence.departureTime, occurrence.arrivalTime)
+      if (stopTimes !== true) {
+        conflict('route_stops', stopTimes)
+        continue
+      }
+
+      const busyWith = await findConflictingTrip(prisma, schedule.busId, occurrence.departureTime, occurrence.arrivalTime)
+      if (busyWith) {
+        conflict('bus_busy', `Bus ${schedule.bus.plateNumber} is already scheduled for another trip`, busyWith.id)
+        continue
+      }
+
+      if (dryRun) {
+        report.trips.push({ scheduleId: schedule.id, tripId: null, departureTime: occurrence.departureTime, arrivalTime: occurrence.arrivalTime })
+        continue
+      }
+
+      try {
+        const trip = await prisma.$transaction(async (tx) => {
+          const { seatGrid, seats } = busSeatGrid(schedule.bus)
+
+          const newTrip = await tx.trip.create({
+            data: {
+              scheduleId: schedule.id,
+              routeId: schedule.routeId,
+              busId: schedule.busId,
+              titleAr: schedule.titleAr,
+              titleEn: schedule.titleEn,
+              descriptionAr: schedule.descriptionAr,
+              descriptionEn: schedule.descriptionEn,
+              latitude: schedule.latitude,
+              longitude: schedule.longitude,
+              seatLayout: seatGrid as unknown as Prisma.InputJsonValue,
+              departureTime: occurrence.departureTime,
+              arrivalTime: occurrence.arrivalTime,
+              lastBookingTime: occurrence.lastBookingTime,
+              price: schedule.price,
+              status: 'scheduled',
+              seats: {
+                create: seats.map(seat => ({
+                  seatNumber: seat.seatNumber,
+                  seatClass: seat.seatClass,
+                  status: 'available'
+                }))
+              },
+              seatClassPrices: seatClassPrices.length > 0 ? { create: seatClassPrices } : undefined
+            }
+          })
+
+          await createTripStops(tx, newTrip)
+          await refreshBusStatus(tx, newTrip.busId)
+
+          return newTrip
+        })
+
+        report.created++
+        report.trips.push({ scheduleId: schedule.id, tripId: trip.id, departureTime: trip.departureTime, arrivalTime: trip.arrivalTime })
+      } catch (error: any) {
+        // A concurrent run created this departure first
+        if (error?.code === 'P2002') {
+          report.existing++
+          continue
+        }
+        throw error
+      }
+    }
+
+    if (!dryRun) {
+      await prisma.tripSchedule.update({
+        where: { id: schedule.id },
+        data: { lastGeneratedAt: now }
+      })
+    }
+  }
+
+  return report
+}
+
+// In-process generator, kept on globalThis so hot reloads do not start duplicates
+const globalForGenerator = globalThis as unknown as {
+  tripScheduleGenerator?: ReturnType<typeof setInterval>
+}
+
+export function startTripScheduleGenerator(intervalMs: number = DEFAULT_GENERATE_INTERVAL_MS) {
+  if (globalForGenerator.tripScheduleGenerator) {
+    return
+  }
+
+  const run = async () => {
+    try {
+      const report = await generateScheduledTrips()
+      if (report.created > 0) {
+        console.log(`Generated ${report.created} scheduled trips`)
+      }
+      for (const conflict of report.conflicts) {
+        console.warn(`Trip schedule ${conflict.scheduleId} on ${conflict.date}: ${conflict.message}`)
+      }
+    } catch (error) {
+      console.error('Trip schedule generation failed:', error)
+    }
+  }
+
+  globalForGenerator.tripScheduleGenerator = setInterval(run, intervalMs)
+  run()
+}
+
+export function stopTripScheduleGenerator() {
+  if (globalForGenerator.tripScheduleGenerator) {
+    clearInterval(globalForGenerator.tripScheduleGenerator)
+    globalForGenerator.tripScheduleGenerator = undefined
+  }
+}
@@ -0,0 +1,67 @@
+// lib/tripService.ts
+import { Prisma, TripStatus, BusStatus, BusSeatLayout } from '@prisma/client'
+import { defaultSeatLayout, layoutSeats, resolveSeatLayout, toSeatLayoutConfig } from '@/lib/seatLayout'
+
+// Trips that still occupy their bus
+export const BUS_OCCUPYING_TRIP_STATUSES: TripStatus[] = ['scheduled', 'in_progress']
+// Buses that can take another trip; overlaps are caught by findConflictingTrip
+export const SCHEDULABLE_BUS_STATUSES: BusStatus[] = ['active', 'passenger_filling']
+// Set by staff; trips never move a bus out of these
+export const STAFF_BUS_STATUSES: BusStatus[] = ['maintenance', 'inactive']
+
+// Another trip on the bus whose time range touches the given one, or null when the bus is free
+export async function findConflictingTrip(
+  db: Prisma.TransactionClient,
+  busId: string,
+  departureTime: Date,
+  arrivalTime: Date,
+  excludeTripId?: string
+) {
+  return db.trip.findFirst({
+    where: {
+      ...(excludeTripId ? { id: { not: excludeTripId } } : {}),
+      busId,
+      status: { in: BUS_OCCUPYING_TRIP_STATUSES },
+      departureTime: { lte: arrivalTime },
+      arrivalTime: { gte: departureTime }
+    },
+    select: { id: true, departureTime: true, arrivalTime: true }
+  })
+}
+
+// Seats come from the bus layout; the resolved grid is kept on the trip for rendering
+export function busSeatGrid(bus: { capacity: number, seatLayout: BusSeatLayout | null }) {
+  const seatGrid = resolveSeatLayout(
+    bus.seatLayout ? toSeatLayoutConfig(bus.seatLayout) : defaultSeatLayout(bus.capacity)
+  )
+
+  return { seatGrid, seats: layoutSeats(seatGrid) }
+}
+
+// Bring a bus status in line with its trips: on the road while a trip is in progress, filling
+// while it has an upcoming trip, otherwise free. Returns the status, or null for an unknown bus.
+export async function refreshBusStatus(db: Prisma.TransactionClient, busId: string): Promise<BusStatus | null> {
+  const bus = await db.bus.findUnique({
+    where: { id: busId },
+    select: { status: true }
+  })
+
+  if (!bus) return null
+  if (bus.status && STAFF_BUS_STATUSES.includes(bus.status)) return bus.status
+
+  const [inProgress, upcoming] = await Promise.all([
+    db.trip.count({ where: { busId, status: 'in_progress' } }),
+    db.trip.count({ where: { busId, status: 'scheduled' } })
+  ])
+
+  const status: BusStatus = inProgress > 0 ? 'in_trip' : upcoming > 0 ? 'passenger_filling' : 'active'
+
+  if (status !== bus.status) {
+    await db.bus.update({
+      where: { id: busId },
+      data: { status }
+    })
+  }
+
+  return status
+}
@@ -0,0 +1,406 @@
+// lib/twoFactorService.ts
+// TOTP (RFC 6238) second factor with single-use backup codes
+import crypto from 'crypto'
+import { Prisma, User } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/errorHandler'
+import { enforceRateLimit, resetRateLimit } from '@/lib/rateLimiter'
+import { isAccessTokenRevoked } from '@/lib/sessionService'
+import {
+  getBearerToken,
+  signTwoFactorChallenge,
+  verifyAccessToken,
+  verifyTwoFactorChallenge,
+  TwoFactorChallengeClaims
+} from '@/lib/jwtService'
+
+export const BACKUP_CODE_COUNT = 10
+const TOTP_STEP_SECONDS = 30
+const TOTP_DIGITS = 6
+// Steps accepted on either side of the current one, for clock drift
+const TOTP_WINDOW = 1
+const SECRET_BYTES = 20
+// Code guesses per user, shared by login and account settings
+const VERIFY_RATE_LIMIT = { limit: 5, windowMs: 5 * 60 * 1000 }
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+// Types
+export interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: Date | null
+  // Mandatory for the role; such accounts cannot turn it off
+  required: boolean
+  backupCodesRemaining: number
+}
+
+export interface TwoFactorSetup {
+  // Base32, for typing into an authenticator app by hand
+  secret: string
+  // What the enrolment QR code encodes
+  otpauthUri: string
+}
+
+export interface SecondFactorInput {
+  code?: string | null
+  backupCode?: string | null
+}
+
+export interface LoginChallenge {
+  twoFactorRequired: true
+  twoFactorStage: TwoFactorChallengeClaims['stage']
+  challengeToken: string
+  expiresAt: Date
+}
+
+const issuer = () => process.env.TWO_FACTOR_ISSUER || 'Kzdora'
+
+// Secrets are stored encrypted; a database dump alone must not be enough to generate codes
+const encryptionKey = () =>
+  crypto
+    .createHash('sha256')
+    .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key')
+    .digest()
+
+export const isTwoFactorRequired = (user: Pick<User, 'role'>) => user.role === 'ADMIN'
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte
+    bits += 8
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+function base32Decode(input: string): Buffer {
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Invalid base32 secret')
+    }
+
+    value = (value << 5) | index
+    bits += 5
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+
+  return ['v1', iv, cipher.getAuthTag(), encrypted].map(part =>
+    typeof part === 'string' ? part : part.toString('base64url')
+  ).join(':')
+}
+
+function decryptSecret(stored: string): string {
+  const [version, iv, tag, encrypted] = stored.split(':')
+
+  if (version !== 'v1' || !iv || !tag || !encrypted) {
+    throw new Error('Unsupported two-factor secret format')
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), Buffer.from(iv, 'base64url'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'))
+
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64url')), decipher.final()]).toString('utf8')
+}
+
+function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+// The time step the code belongs to, or null when it matches none inside the window
+function matchTotp(secret: string, code: string, now: Date): number | null {
+  const normalized = String(code).replace(/\s/g, '')
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) return null
+
+  const currentStep = Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS)
+
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const candidate = Buffer.from(generateTotp(secret, currentStep + offset))
+    if (crypto.timingSafeEqual(candidate, Buffer.from(normalized))) {
+      return currentStep + offset
+    }
+  }
+
+  return null
+}
+
+// Backup codes are random enough that a keyed hash is all the protection they need
+const normalizeBackupCode = (code: string) => code.replace(/[\s-]/g, '').toLowerCase()
+
+function hashBackupCode(code: string): string {
+  return crypto.createHmac('sha256', encryptionKey()).update(normalizeBackupCode(code)).digest('hex')
+}
+
+function generateBackupCode(): string {
+  const raw = crypto.randomBytes(5).toString('hex')
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`
+}
+
+// Replace every backup code of the user; returns the new ones in plain text, shown once
+async function replaceBackupCodes(client: Prisma.TransactionClient, userId: string): Promise<string[]> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, generateBackupCode)
+
+  await client.twoFactorBackupCode.deleteMany({ where: { userId } })
+  await client.twoFactorBackupCode.createMany({
+    data: codes.map(code => ({ userId, codeHash: hashBackupCode(code) }))
+  })
+
+  return codes
+}
+
+async function findUser(userId: string) {
+  const user = await prisma.user.findUnique({ where: { id: userId } })
+
+  if (!user) {
+    throw ApiError.notFound('User')
+  }
+
+  return user
+}
+
+// Accept a TOTP code once per time step; a code seen before counts as wrong
+async function consumeTotp(user: User, code: string, now: Date): Promise<boolean> {
+  if (!user.twoFactorSecret) return false
+
+  const step = matchTotp(decryptSecret(user.twoFactorSecret), code, now)
+  if (step === null) return false
+
+  const updated = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }]
+    },
+    data: { twoFactorLastStep: step }
+  })
+
+  return updated.count === 1
+}
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const user = await findUser(userId)
+
+  const backupCodesRemaining = user.twoFactorEnabled
+    ? await prisma.twoFactorBackupCode.count({ where: { userId, usedAt: null } })
+    : 0
+
+  return {
+    enabled: user.twoFactorEnabled,
+    enabledAt: user.twoFactorEnabledAt,
+    required: isTwoFactorRequired(user),
+    backupCodesRemaining
+  }
+}
+
+// Create a new secret for the user to add to their authenticator app. It only becomes
+// active once confirmTwoFactorEnrollment saw a code generated from it.
+export async function beginTwoFactorEnrollment(userId: string): Promise<TwoFactorSetup> {
+  const user = await findUser(userId)
+
+  if (user.twoFactorEnabled) {
+    throw ApiError.conflict('Two-factor authentication is already enabled')
+  }
+
+  const secret = base32Encode(crypto.randomBytes(SECRET_BYTES))
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorSecret: encryptSecret(secret), twoFactorLastStep: null }
+  })
+
+  const label = encodeURIComponent(`${issuer()}:${user.email || user.phone || user.name}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: issuer(),
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  })
+
+  return { secret, otpauthUri: `otpauth://totp/${label}?${params.toString()}` }
+}
+
+// Turn 2FA on with the first code from the app; returns the backup codes
+export async function confirmTwoFactorEnrollment(userId: string, code: string): Promise<string[]> {
+  const user = await findUser(userId)
+
+  if (user.twoFactorEnabled) {
+    throw ApiError.conflict('Two-factor authentication is already enabled')
+  }
+
+  if (!user.twoFactorSecret) {
+    throw ApiError.validation('Start the two-factor setup first')
+  }
+
+  enforceRateLimit(`two-factor:${userId}`, VERIFY_RATE_LIMIT, 'Too many two-factor attempts, please try again later')
+
+  if (!(await consumeTotp(user, code, new Date()))) {
+    throw ApiError.validation('Invalid authentication code')
+  }
+
+  resetRateLimit(`two-factor:${userId}`)
+
+  return prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: { twoFactorEnabled: true, twoFactorEnabledAt: new Date() }
+    })
+
+    return replaceBackupCodes(tx, userId)
+  })
+}
+
+// Check a code from the authenticator app or, failing that, a backup code, which is used up.
+// Throws a validation ApiError on a wrong code and 429 after too many of them.
+export async function verifySecondFactor(
+  userId: string,
+  { code, backupCode }: SecondFactorInput
+): Promise<'totp' | 'backup_code'> {
+  const user = await findUser(userId)
+
+  if (!user.twoFactorEnabled) {
+    throw ApiError.validation('Two-factor authentication is not enabled')
+  }
+
+  if (!code && !backupCode) {
+    throw ApiError.validation('An authentication code or backup code is required')
+  }
+
+  enforceRateLimit(`two-factor:${userId}`, VERIFY_RATE_LIMIT, 'Too many two-factor attempts, please try again later')
+
+  if (code) {
+    if (!(await consumeTotp(user, code, new Date()))) {
+      throw ApiError.validation('Invalid authentication code')
+    }
+
+    resetRateLimit(`two-factor:${userId}`)
+    return 'totp'
+  }
+
+  // Conditional update so the same backup code cannot be redeemed twice concurrently
+  const used = await prisma.twoFactorBackupCode.updateMany({
+    where: { userId, codeHash: hashBackupCode(backupCode!), usedAt: null },
+    data: { usedAt: new Date() }
+  })
+
+  if (used.count === 0) {
+    throw ApiError.validation('Invalid or already used backup code')
+  }
+
+  resetRateLimit(`two-factor:${userId}`)
+  console.warn(`User ${userId} signed in with a two-factor backup code`)
+
+  return 'backup_code'
+}
+
+export async function regenerateBackupCodes(userId: string): Promise<string[]> {
+  return prisma.$transaction(tx => replaceBackupCodes(tx, userId))
+}
+
+// Remove the secret and backup codes; used by the user themselves or by an admin resetting
+// a lost authenticator
+export async function disableTwoFactor(userId: string) {
+  await prisma.$transaction([
+    prisma.twoFactorBackupCode.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastStep: null
+      }
+    })
+  ])
+}
+
+// Setup and enable are called signed in, or with an `enroll` challenge by an admin whose
+// login is waiting for the enrolment. Throws 401 when neither is valid.
+export async function authenticateEnrollment(
+  headers: Headers,
+  challengeToken?: string | null
+): Promise<{ userId: string; fromChallenge: boolean }> {
+  if (challengeToken) {
+    const challenge = await verifyTwoFactorChallenge(challengeToken)
+
+    if (challenge.stage !== 'enroll') {
+      throw ApiError.unauthorized('Invalid or expired token')
+    }
+
+    return { userId: challenge.userId, fromChallenge: true }
+  }
+
+  const token = getBearerToken(headers)
+
+  if (!token) {
+    throw ApiError.unauthorized('Authentication required')
+  }
+
+  // These routes are outside the middleware, so the token gets the same checks here
+  const { userId, role, sessionId, jti } = await verifyAccessToken(token)
+
+  if (await isAccessTokenRevoked({ jti, userId, role, sessionId })) {
+    throw ApiError.unauthorized('Invalid or expired token')
+  }
+
+  return { userId, fromChallenge: false }
+}
+
+// What a sign-in answers instead of tokens when a second factor is due: a code for enrolled
+// accounts, the enrolment itself for admins that have not set it up yet. Null when neither.
+export async function createLoginChallenge(
+  user: Pick<User, 'id' | 'role' | 'twoFactorEnabled'>
+): Promise<LoginChallenge | null> {
+  let stage: TwoFactorChallengeClaims['stage']
+
+  if (user.twoFactorEnabled) {
+    stage = 'verify'
+  } else if (isTwoFactorRequired(user)) {
+    stage = 'enroll'
+  } else {
+    return null
+  }
+
+  const { token, expiresAt } = await signTwoFactorChallenge({ userId: user.id, stage })
+
+  return {
+    twoFactorRequired: true,
+    twoFactorStage: stage,
+    challengeToken: token,
+    expiresAt
+  }
+}
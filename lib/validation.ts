@@ -234,7 +234,7 @@ export const ValidationSchemas = {
     email: { required: true, email: true },
     password: { required: true, minLength: 6, maxLength: 100 },
     phone: { required: false, pattern: /^\+?[\d\s\-\(\)]+$/ },
-    role: { required: false, enum: ['USER', 'ADMIN'] as string[] }
+    role: { required: false, enum: ['USER', 'ADMIN', 'CASHIER', 'DISPATCHER', 'SUPPORT'] as string[] }
   },
 
   // City validation
@@ -1,25 +1,99 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
-import { jwtVerify } from 'jose'
 import  { ErrorMessages, StatusCodes, SuccessMessages  ,ApiResponseBuilder} from './lib/apiResponse'
+import { getBearerToken, verifyAccessToken, internalApiSecret, internalApiOrigin, hasJobSecret } from './lib/jwtService'
+import { canAccessAdminRoute } from './lib/permissions'
+
+// How long a "not revoked" answer is trusted before the denylist is asked again
+const DENYLIST_CACHE_TTL_MS = 30 * 1000
+const denylistCache = new Map<string, { revoked: boolean, checkedAt: number }>()
+
+// Admin routes a scheduled job may call with the job secret instead of an access token
+const JOB_ROUTES = ['/api/admin/seat-locks/release-expired']
+
+interface TokenClaims {
+  jti: string
+  userId: string
+  role: string
+  sessionId: string | null
+}
+
+// Logged-out access tokens are kept in the database, which the edge runtime cannot reach,
+// so the check goes through an internal route. Tokens of a signed-out session, or carrying a
+// role the user no longer has, count as revoked too. Admin routes skip the cached "not revoked"
+// answer so a demoted user loses access at once. Fails closed: a token that cannot be checked
+// is treated as revoked.
+async function isAccessTokenRevoked(claims: TokenClaims, skipCache: boolean): Promise<boolean> {
+  const { jti, userId, role, sessionId } = claims
+  const cached = denylistCache.get(jti)
+  if (cached && (cached.revoked || (!skipCache && Date.now() - cached.checkedAt < DENYLIST_CACHE_TTL_MS))) {
+    return cached.revoked
+  }
+
+  try {
+    const secret = internalApiSecret()
+    const origin = internalApiOrigin()
+    if (!secret || !origin) {
+      throw new Error('INTERNAL_API_SECRET and INTERNAL_API_ORIGIN must be configured')
+    }
+
+    const url = new URL('/api/auth/token-status', origin)
+    url.searchParams.set('jti', jti)
+    url.searchParams.set('userId', userId)
+    url.searchParams.set('role', role)
+    if (sessionId) {
+      url.searchParams.set('sessionId', sessionId)
+    }
+
+    const response = await fetch(url, {
+      headers: { 'x-internal-secret': secret },
+      cache: 'no-store'
+    })
+
+    if (!response.ok) {
+      throw new Error(`Token status check failed with ${response.status}`)
+    }
+
+    const { data } = await response.json()
+    const revoked = data.revoked === true
+
+    if (denylistCache.size > 1000) {
+      denylistCache.clear()
+    }
+    denylistCache.set(jti, { revoked, checkedAt: Date.now() })
+
+    return revoked
+  } catch (error) {
+    console.error('Access token denylist check failed:', error)
+    return true
+  }
+}
 
 export async function middleware(request: NextRequest) {
-  const authHeader = request.headers.get('Authorization')
+  if (JOB_ROUTES.includes(request.nextUrl.pathname) && hasJobSecret(request.headers)) {
+    return NextResponse.next()
+  }
+
+  const token = getBearerToken(request.headers)
 
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+  if (!token) {
     return NextResponse.json({ error: 'Authentication required ' }, { status: StatusCodes.UNAUTHORIZED })
   }
 
-  const token = authHeader.split(' ')[1]
-
   try {
-    const secret = new TextEncoder().encode(process.env.JWT_SECRET || 'your-secret-key')
-    const { payload } = await jwtVerify(token, secret)
-    const userId = payload.userId as string
-    const role = payload.role as string
+    const { userId, role, sessionId, jti } = await verifyAccessToken(token)
+
+    const isAdminRoute = request.nextUrl.pathname.startsWith('/api/admin')
 
-    // Check for admin routes and role
-    if (request.nextUrl.pathname.startsWith('/api/admin') && role !== 'ADMIN') {
+    if (await isAccessTokenRevoked({ jti, userId, role, sessionId }, isAdminRoute)) {
+      return ApiResponseBuilder.unauthorized(ErrorMessages.INVALID_TOKEN)
+    }
+
+    // Admin routes are open to staff roles holding the permission the route needs
+    if (
+      isAdminRoute &&
+      !canAccessAdminRoute(role, request.nextUrl.pathname, request.method)
+    ) {
       return NextResponse.json({ error: 'Admin access required' }, { status: StatusCodes.FORBIDDEN })
     }
 
@@ -28,6 +102,9 @@ export async function middleware(request: NextRequest) {
     const requestHeaders = new Headers(request.headers)
     requestHeaders.set('userId', userId)
     requestHeaders.set('userRole', role)
+    if (sessionId) {
+      requestHeaders.set('sessionId', sessionId)
+    }
 
     return NextResponse.next({
       request: {
@@ -52,7 +129,12 @@ export const config = {
     '/api/cities/:path*',
     '/api/routes/:path*',
     // '/api/trips/:path*',
+    '/api/trips/Getmytrips',
     '/api/admin/:path*',
-    '/api/admin/'
+    '/api/admin/',
+    '/api/auth/sessions/:path*',
+    '/api/auth/identities/:path*',
+    '/api/auth/two-factor',
+    '/api/auth/two-factor/backup-codes'
   ]
 }
@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Enables instrumentation.ts (background jobs such as the seat lock sweeper)
+    instrumentationHook: true
+  }
   // other config
 }
 
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `bookings` ADD COLUMN `lock_expires_at` TIMESTAMP(0) NULL;
+
+-- CreateIndex
+CREATE INDEX `lock_expires_at_idx` ON `bookings`(`lock_expires_at`);
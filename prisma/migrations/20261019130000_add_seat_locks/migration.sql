@@ -0,0 +1,53 @@
+-- Free seats held by placeholder lock bookings (zero-price pending bookings without a bill)
+UPDATE `seats` s
+    JOIN `booking_details` d ON d.`seat_id` = s.`id`
+    JOIN `bookings` b ON b.`id` = d.`booking_id`
+SET s.`status` = 'available'
+WHERE s.`status` = 'reserved'
+    AND b.`status` = 'pending'
+    AND (b.`lock_expires_at` IS NOT NULL OR (b.`total_price` = 0 AND NOT EXISTS (SELECT 1 FROM `bills` WHERE `bills`.`booking_id` = b.`id`)));
+
+-- Remove the placeholder lock bookings
+DELETE d FROM `booking_details` d
+    JOIN `bookings` b ON b.`id` = d.`booking_id`
+WHERE b.`status` = 'pending'
+    AND (b.`lock_expires_at` IS NOT NULL OR (b.`total_price` = 0 AND NOT EXISTS (SELECT 1 FROM `bills` WHERE `bills`.`booking_id` = b.`id`)));
+
+DELETE b FROM `bookings` b
+WHERE b.`status` = 'pending'
+    AND (b.`lock_expires_at` IS NOT NULL OR (b.`total_price` = 0 AND NOT EXISTS (SELECT 1 FROM `bills` WHERE `bills`.`booking_id` = b.`id`)));
+
+-- DropIndex
+DROP INDEX `lock_expires_at_idx` ON `bookings`;
+
+-- AlterTable
+ALTER TABLE `bookings` DROP COLUMN `lock_expires_at`;
+
+-- AlterTable
+ALTER TABLE `seats` ADD COLUMN `lock_id` VARCHAR(36) NULL;
+
+-- CreateTable
+CREATE TABLE `seat_locks` (
+    `id` VARCHAR(36) NOT NULL,
+    `user_id` VARCHAR(36) NOT NULL,
+    `trip_id` VARCHAR(36) NOT NULL,
+    `expires_at` TIMESTAMP(0) NOT NULL,
+    `created_at` TIMESTAMP(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `trip_id`(`trip_id`),
+    INDEX `user_id`(`user_id`),
+    INDEX `expires_at_idx`(`expires_at`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `lock_id` ON `seats`(`lock_id`);
+
+-- AddForeignKey
+ALTER TABLE `seats` ADD CONSTRAINT `seats_ibfk_2` FOREIGN KEY (`lock_id`) REFERENCES `seat_locks`(`id`) ON DELETE SET NULL ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `seat_locks` ADD CONSTRAINT `seat_locks_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE RESTRICT ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `seat_locks` ADD CONSTRAINT `seat_locks_ibfk_2` FOREIGN KEY (`trip_id`) REFERENCES `trips`(`id`) ON DELETE RESTRICT ON UPDATE RESTRICT;
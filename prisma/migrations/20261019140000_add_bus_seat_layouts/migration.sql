@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE `bus_seat_layouts` (
+    `id` VARCHAR(36) NOT NULL,
+    `bus_id` VARCHAR(36) NOT NULL,
+    `rows` INTEGER NOT NULL,
+    `columns` INTEGER NOT NULL,
+    `aisle_columns` JSON NOT NULL,
+    `cells` JSON NOT NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `bus_seat_layouts_bus_id_key`(`bus_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `trips` ADD COLUMN `seat_layout` JSON NULL;
+
+-- AlterTable
+ALTER TABLE `seats` ADD COLUMN `seat_class` VARCHAR(30) NOT NULL DEFAULT 'standard';
+
+-- AddForeignKey
+ALTER TABLE `bus_seat_layouts` ADD CONSTRAINT `bus_seat_layouts_ibfk_1` FOREIGN KEY (`bus_id`) REFERENCES `buses`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
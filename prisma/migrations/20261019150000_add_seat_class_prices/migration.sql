@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE `trip_seat_class_prices` (
+    `id` VARCHAR(36) NOT NULL,
+    `trip_id` VARCHAR(36) NOT NULL,
+    `seat_class` VARCHAR(30) NOT NULL,
+    `price` DECIMAL(10, 2) NULL,
+    `multiplier` DECIMAL(5, 2) NULL,
+
+    UNIQUE INDEX `trip_seat_class_idx`(`trip_id`, `seat_class`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `booking_details` ADD COLUMN `seat_class` VARCHAR(30) NOT NULL DEFAULT 'standard';
+
+-- AddForeignKey
+ALTER TABLE `trip_seat_class_prices` ADD CONSTRAINT `trip_seat_class_prices_ibfk_1` FOREIGN KEY (`trip_id`) REFERENCES `trips`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `payments` ADD COLUMN `provider` VARCHAR(30) NULL;
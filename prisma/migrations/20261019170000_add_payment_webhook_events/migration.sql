@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE `payment_webhook_events` (
+    `id` VARCHAR(36) NOT NULL,
+    `provider` VARCHAR(30) NOT NULL,
+    `event_id` VARCHAR(100) NOT NULL,
+    `type` VARCHAR(50) NOT NULL,
+    `transaction_id` VARCHAR(191) NULL,
+    `payment_id` VARCHAR(36) NULL,
+    `status` ENUM('received', 'processed', 'ignored', 'failed') NOT NULL DEFAULT 'received',
+    `error` VARCHAR(500) NULL,
+    `payload` JSON NOT NULL,
+    `occurred_at` DATETIME(3) NOT NULL,
+    `received_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `processed_at` DATETIME(3) NULL,
+
+    UNIQUE INDEX `provider_event_idx`(`provider`, `event_id`),
+    INDEX `transaction_id`(`transaction_id`),
+    INDEX `payment_id`(`payment_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `payment_webhook_events` ADD CONSTRAINT `payment_webhook_events_ibfk_1` FOREIGN KEY (`payment_id`) REFERENCES `payments`(`id`) ON DELETE SET NULL ON UPDATE RESTRICT;
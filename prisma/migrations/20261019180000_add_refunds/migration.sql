@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE `bills` MODIFY `status` ENUM('unpaid', 'paid', 'cancelled', 'refunded') NOT NULL DEFAULT 'unpaid';
+
+-- CreateTable
+CREATE TABLE `refunds` (
+    `id` VARCHAR(36) NOT NULL,
+    `payment_id` VARCHAR(36) NOT NULL,
+    `bill_id` VARCHAR(36) NOT NULL,
+    `amount` DECIMAL(10, 2) NOT NULL,
+    `reason` VARCHAR(500) NULL,
+    `method` ENUM('cash', 'online_payment') NOT NULL,
+    `status` ENUM('pending', 'completed', 'rejected', 'failed') NOT NULL DEFAULT 'pending',
+    `provider_refund_id` VARCHAR(191) NULL,
+    `failure_reason` VARCHAR(500) NULL,
+    `processed_by` VARCHAR(36) NULL,
+    `processed_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `payment_id`(`payment_id`),
+    INDEX `bill_id`(`bill_id`),
+    INDEX `status_idx`(`status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `refunds` ADD CONSTRAINT `refunds_ibfk_1` FOREIGN KEY (`payment_id`) REFERENCES `payments`(`id`) ON DELETE RESTRICT ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `refunds` ADD CONSTRAINT `refunds_ibfk_2` FOREIGN KEY (`bill_id`) REFERENCES `bills`(`id`) ON DELETE RESTRICT ON UPDATE RESTRICT;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE `cancellation_policies` (
+    `id` VARCHAR(36) NOT NULL,
+    `route_id` VARCHAR(36) NULL,
+    `name` VARCHAR(100) NOT NULL,
+    `tiers` JSON NOT NULL,
+    `cutoff_hours` INTEGER NULL,
+    `is_active` BOOLEAN NOT NULL DEFAULT true,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `route_id`(`route_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `cancellation_policies` ADD CONSTRAINT `cancellation_policies_ibfk_1` FOREIGN KEY (`route_id`) REFERENCES `routes`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE `routes` ADD COLUMN `cash_deposit_percentage` DECIMAL(5, 2) NULL,
+    ADD COLUMN `balance_due_hours` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `trips` ADD COLUMN `cash_deposit_percentage` DECIMAL(5, 2) NULL,
+    ADD COLUMN `balance_due_hours` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `bills` MODIFY `status` ENUM('unpaid', 'partially_paid', 'paid', 'cancelled', 'refunded') NOT NULL DEFAULT 'unpaid',
+    ADD COLUMN `deposit_amount` DECIMAL(10, 2) NULL,
+    ADD COLUMN `balance_due_at` DATETIME(3) NULL;
+
+-- AlterTable
+ALTER TABLE `payments` ADD COLUMN `kind` ENUM('full', 'deposit', 'balance') NOT NULL DEFAULT 'full',
+    ADD COLUMN `collected_by` VARCHAR(36) NULL;
+
+-- Confirmed cash deposits used to leave their bill unpaid
+UPDATE `bills` b SET b.`status` = 'partially_paid'
+WHERE b.`status` = 'unpaid'
+  AND EXISTS (SELECT 1 FROM `payments` p WHERE p.`bill_id` = b.`id` AND p.`status` = 'successful');
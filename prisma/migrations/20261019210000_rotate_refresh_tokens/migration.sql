@@ -0,0 +1,12 @@
+-- Stored refresh tokens were kept in plain text and are now looked up by hash,
+-- so existing sessions cannot be matched any more; users sign in again once.
+DELETE FROM `refresh_tokens`;
+
+-- AlterTable
+ALTER TABLE `refresh_tokens` ADD COLUMN `family_id` VARCHAR(36) NOT NULL,
+    ADD COLUMN `revoked_at` TIMESTAMP(0) NULL,
+    ADD COLUMN `revoked_reason` VARCHAR(30) NULL,
+    ADD COLUMN `replaced_by_id` VARCHAR(36) NULL;
+
+-- CreateIndex
+CREATE INDEX `family_id` ON `refresh_tokens`(`family_id`);
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `sessions` (
+    `id` VARCHAR(36) NOT NULL,
+    `user_id` VARCHAR(36) NOT NULL,
+    `user_agent` VARCHAR(500) NULL,
+    `ip_address` VARCHAR(45) NULL,
+    `created_at` TIMESTAMP(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `last_used_at` TIMESTAMP(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `revoked_at` TIMESTAMP(0) NULL,
+
+    INDEX `user_id`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- Token families issued before sessions existed become sessions without device details
+INSERT INTO `sessions` (`id`, `user_id`, `created_at`, `last_used_at`)
+SELECT `family_id`, MIN(`user_id`), MIN(`created_at`), MAX(`created_at`)
+FROM `refresh_tokens`
+GROUP BY `family_id`;
+
+-- AddForeignKey
+ALTER TABLE `sessions` ADD CONSTRAINT `sessions_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `refresh_tokens` ADD CONSTRAINT `refresh_tokens_ibfk_2` FOREIGN KEY (`family_id`) REFERENCES `sessions`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE `revoked_access_tokens` (
+    `jti` VARCHAR(36) NOT NULL,
+    `expires_at` TIMESTAMP(0) NOT NULL,
+    `created_at` TIMESTAMP(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `expires_at`(`expires_at`),
+    PRIMARY KEY (`jti`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
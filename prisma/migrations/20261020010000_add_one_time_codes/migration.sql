@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE `one_time_codes` (
+    `id` VARCHAR(36) NOT NULL,
+    `user_id` VARCHAR(36) NULL,
+    `target` VARCHAR(255) NOT NULL,
+    `purpose` ENUM('verify-email', 'reset-password', 'phone') NOT NULL,
+    `code_hash` VARCHAR(64) NOT NULL,
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `max_attempts` INTEGER NOT NULL,
+    `expires_at` TIMESTAMP(0) NOT NULL,
+    `consumed_at` TIMESTAMP(0) NULL,
+    `created_at` TIMESTAMP(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `target_purpose`(`target`, `purpose`),
+    INDEX `user_id`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `one_time_codes` ADD CONSTRAINT `one_time_codes_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
+
+-- Codes were derived from this token; pending ones have to be requested again
+DROP INDEX `users_verificationToken_key` ON `users`;
+ALTER TABLE `users` DROP COLUMN `verificationToken`;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE `users` MODIFY `email` VARCHAR(191) NULL,
+    ADD COLUMN `phoneVerified` BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE `users` MODIFY `password` VARCHAR(191) NULL;
+
+-- Google and phone accounts were stored with an empty password
+UPDATE `users` SET `password` = NULL WHERE `password` = '';
+
+-- CreateTable
+CREATE TABLE `auth_identities` (
+    `id` VARCHAR(36) NOT NULL,
+    `user_id` VARCHAR(36) NOT NULL,
+    `provider` ENUM('password', 'google', 'phone') NOT NULL,
+    `provider_user_id` VARCHAR(255) NOT NULL,
+    `linked_at` TIMESTAMP(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+    `last_used_at` TIMESTAMP(0) NULL,
+
+    UNIQUE INDEX `provider_user`(`provider`, `provider_user_id`),
+    UNIQUE INDEX `user_provider`(`user_id`, `provider`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `auth_identities` ADD CONSTRAINT `auth_identities_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
+
+-- Backfill password and verified phone identities. Google accounts get theirs on their next
+-- Google sign-in, since the Firebase uid was never stored.
+INSERT INTO `auth_identities` (`id`, `user_id`, `provider`, `provider_user_id`, `linked_at`)
+SELECT UUID(), `id`, 'password', `id`, `created_at`
+FROM `users`
+WHERE `password` IS NOT NULL;
+
+INSERT INTO `auth_identities` (`id`, `user_id`, `provider`, `provider_user_id`, `linked_at`)
+SELECT UUID(), u.`id`, 'phone', u.`phone`, u.`created_at`
+FROM `users` u
+WHERE u.`phoneVerified` = true
+  AND u.`phone` IS NOT NULL
+  AND u.`id` = (
+    SELECT MIN(o.`id`) FROM `users` o WHERE o.`phone` = u.`phone` AND o.`phoneVerified` = true
+  );
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `users` MODIFY `role` ENUM('USER', 'ADMIN', 'CASHIER', 'DISPATCHER', 'SUPPORT') NOT NULL DEFAULT 'USER';
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `two_factor_enabled` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `two_factor_secret` VARCHAR(255) NULL,
+    ADD COLUMN `two_factor_enabled_at` DATETIME(3) NULL,
+    ADD COLUMN `two_factor_last_step` INTEGER NULL;
+
+-- CreateTable
+CREATE TABLE `two_factor_backup_codes` (
+    `id` VARCHAR(36) NOT NULL,
+    `user_id` VARCHAR(36) NOT NULL,
+    `code_hash` VARCHAR(64) NOT NULL,
+    `used_at` TIMESTAMP(0) NULL,
+    `created_at` TIMESTAMP(0) NOT NULL DEFAULT CURRENT_TIMESTAMP(0),
+
+    INDEX `user_id`(`user_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `two_factor_backup_codes` ADD CONSTRAINT `two_factor_backup_codes_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
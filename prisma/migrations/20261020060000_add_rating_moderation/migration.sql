@@ -0,0 +1,10 @@
+-- One rating per booking. The unique index is created first because the foreign key
+-- still needs an index on booking_id while the old one is dropped.
+CREATE UNIQUE INDEX `ratings_booking_id_key` ON `ratings`(`booking_id`);
+DROP INDEX `booking_id` ON `ratings`;
+
+-- AlterTable
+ALTER TABLE `feedbacks` ADD COLUMN `hidden` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `hidden_at` DATETIME(3) NULL,
+    ADD COLUMN `hidden_by` VARCHAR(36) NULL,
+    ADD COLUMN `hidden_reason` VARCHAR(500) NULL;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE `ads` ADD COLUMN `title` VARCHAR(150) NULL,
+    ADD COLUMN `is_active` BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN `starts_at` DATETIME(3) NULL,
+    ADD COLUMN `ends_at` DATETIME(3) NULL,
+    ADD COLUMN `impressions` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `clicks` INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX `ads_schedule_idx` ON `ads`(`is_active`, `starts_at`, `ends_at`);
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE `route_stops` (
+    `id` VARCHAR(36) NOT NULL,
+    `route_id` VARCHAR(36) NOT NULL,
+    `city_id` VARCHAR(36) NOT NULL,
+    `stop_order` INTEGER NOT NULL,
+    `offset_minutes` INTEGER NOT NULL,
+    `fare_share` DECIMAL(5, 2) NULL,
+
+    UNIQUE INDEX `route_stop_order_idx`(`route_id`, `stop_order`),
+    INDEX `city_id`(`city_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `trip_stops` (
+    `id` VARCHAR(36) NOT NULL,
+    `trip_id` VARCHAR(36) NOT NULL,
+    `city_id` VARCHAR(36) NOT NULL,
+    `stop_order` INTEGER NOT NULL,
+    `offset_minutes` INTEGER NOT NULL,
+    `scheduled_at` DATETIME(0) NOT NULL,
+    `fare_share` DECIMAL(5, 2) NOT NULL,
+
+    UNIQUE INDEX `trip_stop_order_idx`(`trip_id`, `stop_order`),
+    INDEX `city_id`(`city_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `bookings` ADD COLUMN `boarding_stop` INTEGER NULL,
+    ADD COLUMN `alighting_stop` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `seat_locks` ADD COLUMN `boarding_stop` INTEGER NULL,
+    ADD COLUMN `alighting_stop` INTEGER NULL;
+
+-- AddForeignKey
+ALTER TABLE `route_stops` ADD CONSTRAINT `route_stops_ibfk_1` FOREIGN KEY (`route_id`) REFERENCES `routes`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `route_stops` ADD CONSTRAINT `route_stops_ibfk_2` FOREIGN KEY (`city_id`) REFERENCES `cities`(`id`) ON DELETE RESTRICT ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `trip_stops` ADD CONSTRAINT `trip_stops_ibfk_1` FOREIGN KEY (`trip_id`) REFERENCES `trips`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `trip_stops` ADD CONSTRAINT `trip_stops_ibfk_2` FOREIGN KEY (`city_id`) REFERENCES `cities`(`id`) ON DELETE RESTRICT ON UPDATE RESTRICT;
+
+-- Existing trips run straight from departure to arrival
+INSERT INTO `trip_stops` (`id`, `trip_id`, `city_id`, `stop_order`, `offset_minutes`, `scheduled_at`, `fare_share`)
+SELECT UUID(), `t`.`id`, `r`.`departure_city_id`, 0, 0, `t`.`departure_time`, 0
+FROM `trips` `t` JOIN `routes` `r` ON `r`.`id` = `t`.`route_id`;
+
+INSERT INTO `trip_stops` (`id`, `trip_id`, `city_id`, `stop_order`, `offset_minutes`, `scheduled_at`, `fare_share`)
+SELECT UUID(), `t`.`id`, `r`.`arrival_city_id`, 1, TIMESTAMPDIFF(MINUTE, `t`.`departure_time`, `t`.`arrival_time`), `t`.`arrival_time`, 100
+FROM `trips` `t` JOIN `routes` `r` ON `r`.`id` = `t`.`route_id`;
@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE `trip_schedules` (
+    `id` VARCHAR(36) NOT NULL,
+    `route_id` VARCHAR(36) NOT NULL,
+    `bus_id` VARCHAR(36) NOT NULL,
+    `departure_time` VARCHAR(5) NOT NULL,
+    `timezone` VARCHAR(64) NOT NULL DEFAULT 'Asia/Damascus',
+    `weekdays` JSON NOT NULL,
+    `duration_minutes` INTEGER NOT NULL,
+    `price` DECIMAL(10, 2) NOT NULL,
+    `seat_class_prices` JSON NULL,
+    `booking_cutoff_minutes` INTEGER NOT NULL DEFAULT 0,
+    `start_date` DATE NOT NULL,
+    `end_date` DATE NULL,
+    `horizon_days` INTEGER NOT NULL DEFAULT 14,
+    `titleAr` VARCHAR(191) NULL,
+    `titleEn` VARCHAR(191) NULL,
+    `descriptionAr` VARCHAR(191) NULL,
+    `descriptionEn` VARCHAR(191) NULL,
+    `latitude` DECIMAL(10, 7) NOT NULL,
+    `longitude` DECIMAL(10, 7) NOT NULL,
+    `is_active` BOOLEAN NOT NULL DEFAULT true,
+    `last_generated_at` DATETIME(3) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updated_at` DATETIME(3) NOT NULL,
+
+    INDEX `route_id`(`route_id`),
+    INDEX `bus_id`(`bus_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `trip_schedule_exceptions` (
+    `id` VARCHAR(36) NOT NULL,
+    `schedule_id` VARCHAR(36) NULL,
+    `date` DATE NOT NULL,
+    `reason` VARCHAR(255) NULL,
+    `created_at` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `schedule_id`(`schedule_id`),
+    INDEX `date_idx`(`date`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `trips` ADD COLUMN `schedule_id` VARCHAR(36) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `schedule_departure_idx` ON `trips`(`schedule_id`, `departure_time`);
+
+-- AddForeignKey
+ALTER TABLE `trips` ADD CONSTRAINT `trips_ibfk_3` FOREIGN KEY (`schedule_id`) REFERENCES `trip_schedules`(`id`) ON DELETE SET NULL ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `trip_schedules` ADD CONSTRAINT `trip_schedules_ibfk_1` FOREIGN KEY (`route_id`) REFERENCES `routes`(`id`) ON DELETE RESTRICT ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `trip_schedules` ADD CONSTRAINT `trip_schedules_ibfk_2` FOREIGN KEY (`bus_id`) REFERENCES `buses`(`id`) ON DELETE RESTRICT ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `trip_schedule_exceptions` ADD CONSTRAINT `trip_schedule_exceptions_ibfk_1` FOREIGN KEY (`schedule_id`) REFERENCES `trip_schedules`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `refunds` MODIFY `status` ENUM('pending', 'processing', 'completed', 'rejected', 'failed') NOT NULL DEFAULT 'pending';
@@ -0,0 +1,11 @@
+-- DropForeignKey
+ALTER TABLE `seat_locks` DROP FOREIGN KEY `seat_locks_ibfk_1`;
+
+-- DropForeignKey
+ALTER TABLE `seat_locks` DROP FOREIGN KEY `seat_locks_ibfk_2`;
+
+-- AddForeignKey
+ALTER TABLE `seat_locks` ADD CONSTRAINT `seat_locks_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
+
+-- AddForeignKey
+ALTER TABLE `seat_locks` ADD CONSTRAINT `seat_locks_ibfk_2` FOREIGN KEY (`trip_id`) REFERENCES `trips`(`id`) ON DELETE CASCADE ON UPDATE RESTRICT;
@@ -861,6 +861,24 @@ await Promise.all(
      console.log('ℹ️ Sample user already exists')
    }
 
+   // Every seeded user signs in with a password, which sign-in methods record as an identity;
+   // without one Google sign-in would treat the account as an unlinked legacy Google account
+   console.log('🔑 Seeding password sign-in methods...')
+   const passwordUsers = await prisma.user.findMany({
+     where: {
+       password: { not: null },
+       identities: { none: { provider: 'password' } }
+     },
+     select: { id: true }
+   })
+
+   for (const user of passwordUsers) {
+     await prisma.authIdentity.create({
+       data: { userId: user.id, provider: 'password', providerUserId: user.id }
+     })
+   }
+   console.log(`✅ ${passwordUsers.length} password sign-in methods created`)
+
    console.log('🎉 Database seeding completed successfully!')
 }
 
@@ -50,6 +50,9 @@ export const ar = {
   },
   
   brand: 'احزم حقائبك',
+  ads: {
+    label: 'إعلان'
+  },
   bookings: {
     title: 'الحجوزات الخاصة بي',
     noResults : 'لا يوجد نتيجة',
@@ -88,7 +91,27 @@ export const ar = {
       title: 'إلغاء الحجز',
       message: 'هل أنت متأكد من إلغاء الحجز ؟ لا يمكن التراجع عن هذا الإجراء',
       confirm: 'تأكيد',
-      cancel: 'إلغاء'
+      cancel: 'إلغاء',
+      policy: {
+        loading: 'جاري التحقق من سياسة الإلغاء...',
+        paidAmount: 'المبلغ المدفوع',
+        refundPercentage: 'نسبة الاسترداد',
+        fee: 'رسوم الإلغاء',
+        refundable: 'المبلغ المسترد',
+        notAllowed: 'لم يعد بالإمكان إلغاء هذا الحجز',
+        loadFailed: 'تعذر تحميل سياسة الإلغاء'
+      }
+    },
+    rateTrip: {
+      button: 'قيّم الرحلة',
+      yourRating: 'تقييمك',
+      title: 'كيف كانت رحلتك؟',
+      feedbackPlaceholder: 'أخبرنا المزيد عن رحلتك (اختياري)',
+      submit: 'إرسال',
+      submitting: 'جاري الإرسال...',
+      cancel: 'إلغاء',
+      ratingRequired: 'الرجاء اختيار تقييم',
+      failed: 'تعذر حفظ تقييمك'
     },
 
     ConfirmDialog :{
@@ -158,6 +181,8 @@ export const ar = {
         soldOut: 'نفذت التذاكر',
         hours: 'ساعات',
         date : 'تاريخ',
+        noRatings: 'لا توجد تقييمات بعد',
+        ratings: 'تقييمات',
       },
       noResults: {
         title: 'لا توجد رحلات',
@@ -171,6 +196,14 @@ export const ar = {
           booked: 'محجوز',
           blocked: 'مقفل'
         },
+        layout: {
+          driver: 'السائق',
+          door: 'الباب'
+        },
+        stops: {
+          boarding: 'الصعود من',
+          alighting: 'النزول في'
+        },
         selectedSeats: 'المقاعد المحجوزة',
         totalPrice: 'السعر الإجمالي',
         button: {
@@ -208,6 +241,67 @@ export const ar = {
         title: "الوجهات الشائعة"
       }
     },
+    profile: {
+      title: 'حسابي',
+      details: {
+        title: 'بيانات الحساب',
+        name: 'الاسم',
+        email: 'البريد الإلكتروني',
+        phone: 'الهاتف',
+        noPhone: 'لا يوجد هاتف'
+      },
+      sessions: {
+        title: 'الأجهزة المسجلة',
+        description: 'الأجهزة التي تم تسجيل الدخول منها إلى حسابك حالياً.',
+        current: 'هذا الجهاز',
+        unknownDevice: 'جهاز غير معروف',
+        unknownIp: 'عنوان IP غير معروف',
+        signedIn: 'تاريخ تسجيل الدخول',
+        lastActive: 'آخر نشاط',
+        revoke: 'تسجيل الخروج',
+        revokeSuccess: 'تم تسجيل خروج الجهاز',
+        revokeError: 'فشل تسجيل خروج الجهاز',
+        loadFailed: 'فشل تحميل الأجهزة',
+        empty: 'لا توجد أجهزة نشطة',
+        signOutAll: 'تسجيل الخروج من كل الأجهزة',
+        confirmSignOutAll: {
+          title: 'تسجيل الخروج من كل الأجهزة',
+          message: 'سيتم تسجيل خروجك من جميع الأجهزة بما فيها هذا الجهاز.'
+        },
+        signOutAllError: 'فشل تسجيل الخروج من جميع الأجهزة'
+      },
+      signInMethods: {
+        title: 'طرق تسجيل الدخول',
+        description: 'الطرق التي يمكنك بها تسجيل الدخول إلى هذا الحساب. يجب أن تبقى طريقة واحدة على الأقل مرتبطة.',
+        providers: {
+          password: 'البريد الإلكتروني وكلمة المرور',
+          google: 'جوجل',
+          phone: 'رقم الهاتف'
+        },
+        linkedAt: 'تاريخ الربط',
+        notLinked: 'غير مرتبط',
+        link: 'ربط',
+        unlink: 'إزالة',
+        lastMethod: 'لا يمكنك إزالة طريقة تسجيل الدخول الوحيدة',
+        passwordPlaceholder: 'كلمة المرور الجديدة',
+        setPassword: 'تعيين كلمة المرور',
+        linkSuccess: 'تم ربط طريقة تسجيل الدخول',
+        linkError: 'فشل ربط طريقة تسجيل الدخول',
+        unlinkSuccess: 'تمت إزالة طريقة تسجيل الدخول',
+        unlinkError: 'فشل إزالة طريقة تسجيل الدخول'
+      },
+      twoFactor: {
+        title: 'التحقق بخطوتين',
+        description: 'اطلب رمزاً من تطبيق المصادقة في كل مرة تسجل فيها الدخول.',
+        enabledSince: 'مفعل منذ',
+        backupCodesRemaining: 'رموز الاسترداد المتبقية',
+        setUp: 'إعداد',
+        codePlaceholder: 'الرمز من التطبيق',
+        regenerate: 'رموز استرداد جديدة',
+        disable: 'إيقاف',
+        actionError: 'فشل تحديث التحقق بخطوتين'
+      }
+    },
     footer: {
       description: "شريكك الموثوق للسفر المريح والموثوق به بالحافلات عبر المملكة.",
       quickLinks: "روابط سريعة",
@@ -315,6 +409,37 @@ export const ar = {
 
         },
       },
+      twoFactor: {
+        title: 'التحقق بخطوتين',
+        subtitle: 'أدخل الرمز المكون من 6 أرقام من تطبيق المصادقة',
+        backupCodeSubtitle: 'أدخل أحد رموز الاسترداد التي حفظتها عند إعداد التحقق بخطوتين',
+        codePlaceholder: 'رمز من 6 أرقام',
+        backupCodePlaceholder: 'رمز الاسترداد',
+        verify: 'تحقق',
+        verifying: 'جاري التحقق...',
+        useBackupCode: 'فقدت هاتفك؟ استخدم رمز استرداد',
+        useApp: 'استخدم تطبيق المصادقة بدلاً من ذلك',
+        errors: {
+          invalidCode: 'رمز غير صحيح'
+        },
+        enroll: {
+          title: 'إعداد التحقق بخطوتين',
+          required: 'يتطلب حسابك التحقق بخطوتين قبل المتابعة.',
+          instructions: 'أضف هذا المفتاح إلى تطبيق مصادقة مثل Google Authenticator، ثم أدخل الرمز الذي يظهره.',
+          secretLabel: 'مفتاح الإعداد',
+          openApp: 'فتح في تطبيق المصادقة',
+          codePlaceholder: 'رمز من 6 أرقام',
+          enable: 'تفعيل',
+          enabling: 'جاري التفعيل...',
+          backupCodesTitle: 'احفظ رموز الاسترداد',
+          backupCodesHint: 'كل رمز يتيح لك تسجيل الدخول مرة واحدة إذا فقدت الوصول إلى تطبيق المصادقة. لن يتم عرضها مرة أخرى.',
+          savedCodes: 'لقد حفظت هذه الرموز',
+          errors: {
+            setupFailed: 'فشل بدء إعداد التحقق بخطوتين',
+            invalidCode: 'رمز غير صحيح'
+          }
+        }
+      },
       register: {
 
         title: 'إنشاء حساب جديد',
@@ -357,13 +482,16 @@ export const ar = {
         users: 'المستخدمين',
         bookings: 'الحجوزات',
         trips: 'الرحلات',
+        tripSchedules: 'جداول الرحلات',
         buses: 'الحافلات',
         routes: 'المسارات',
         cities: 'المدن',
         countries: 'البلدان',
         reports: 'التقارير',
         settings: 'الإعدادات',
-        payments: 'عمليات الدفع'
+        payments: 'عمليات الدفع',
+        feedback: 'آراء المسافرين',
+        ads: 'الإعلانات'
       },
       home: {
         title: 'واجهة لوحة التحكم',
@@ -392,6 +520,183 @@ export const ar = {
           monthly: 'شهري'
         }
       },
+      tripSchedules: {
+        title: 'جداول الرحلات',
+        add: 'جدول جديد',
+        edit: 'تعديل',
+        empty: 'لا توجد جداول رحلات بعد',
+        weekdays: ['الأحد', 'الإثنين', 'الثلاثاء', 'الأربعاء', 'الخميس', 'الجمعة', 'السبت'],
+        status: {
+          active: 'مفعل',
+          inactive: 'متوقف'
+        },
+        table: {
+          route: 'المسار',
+          bus: 'الحافلة',
+          departs: 'الانطلاق',
+          validity: 'الصلاحية',
+          trips: 'الرحلات',
+          status: 'الحالة',
+          actions: 'الإجراءات',
+          noEnd: 'بدون تاريخ انتهاء',
+          neverGenerated: 'لم يتم التوليد بعد'
+        },
+        form: {
+          createTitle: 'جدول رحلات جديد',
+          editTitle: 'تعديل جدول الرحلات',
+          route: 'المسار',
+          selectRoute: 'اختر المسار',
+          bus: 'الحافلة',
+          selectBus: 'اختر الحافلة',
+          weekdays: 'أيام التشغيل',
+          departureTime: 'وقت الانطلاق',
+          durationMinutes: 'المدة (بالدقائق)',
+          timezone: 'المنطقة الزمنية',
+          startDate: 'من',
+          endDate: 'حتى',
+          horizonDays: 'توليد الرحلات لعدد أيام قادمة',
+          price: 'السعر',
+          bookingCutoffMinutes: 'إغلاق الحجز (دقائق قبل الانطلاق)',
+          titleAr: 'العنوان (عربي)',
+          titleEn: 'العنوان (إنجليزي)',
+          descriptionAr: 'الوصف (عربي)',
+          descriptionEn: 'الوصف (إنجليزي)',
+          latitude: 'خط العرض',
+          longitude: 'خط الطول',
+          isActive: 'مفعل',
+          hint: 'تطبق التعديلات على الرحلات التي تولد من الآن؛ الرحلات المولدة سابقا تحتفظ بتفاصيلها.',
+          save: 'حفظ',
+          saving: 'جاري الحفظ...',
+          cancel: 'إلغاء'
+        },
+        generate: {
+          run: 'توليد الآن',
+          preview: 'معاينة',
+          summary: 'تم توليد {count} رحلة',
+          previewSummary: 'سيتم توليد {count} رحلة',
+          existing: 'مولدة سابقا',
+          skipped: 'متجاوزة بسبب الاستثناءات',
+          conflicts: '{count} تعارض'
+        },
+        conflictReasons: {
+          bus_busy: 'الحافلة محجوزة لرحلة أخرى',
+          bus_unavailable: 'الحافلة غير متاحة',
+          route_stops: 'أوقات المحطات غير متوافقة'
+        },
+        exceptions: {
+          title: 'العطل والاستثناءات',
+          hint: 'لا يتم توليد رحلات في هذه التواريخ. الرحلات المولدة قبل إضافة التاريخ يجب إلغاؤها يدويا.',
+          allSchedules: 'كل الجداول',
+          reason: 'السبب (اختياري)',
+          add: 'إضافة تاريخ',
+          empty: 'لا توجد عطل أو استثناءات قادمة',
+          existingTrips: 'تمت إضافة التاريخ. توجد {count} رحلة مولدة سابقا لهذا التاريخ ويجب إلغاؤها يدويا.'
+        },
+        delete: {
+          title: 'حذف الجدول',
+          message: 'هل أنت متأكد من حذف هذا الجدول؟ الرحلات المولدة منه ستبقى.',
+          confirm: 'حذف'
+        },
+        success: {
+          created: 'تم إنشاء الجدول بنجاح',
+          updated: 'تم تحديث الجدول بنجاح',
+          deleted: 'تم حذف الجدول بنجاح',
+          exceptionAdded: 'تمت إضافة التاريخ'
+        },
+        errors: {
+          loadFailed: 'فشل تحميل جداول الرحلات',
+          saveFailed: 'فشل حفظ الجدول',
+          deleteFailed: 'فشل حذف الجدول',
+          generateFailed: 'فشل توليد الرحلات',
+          exceptionFailed: 'فشل تحديث العطل والاستثناءات',
+          weekdaysRequired: 'اختر يوما واحدا على الأقل'
+        }
+      },
+      ads: {
+        title: 'الإعلانات',
+        add: 'إعلان جديد',
+        edit: 'تعديل',
+        empty: 'لا توجد إعلانات بعد',
+        previous: 'السابق',
+        next: 'التالي',
+        filters: {
+          all: 'كل الإعلانات'
+        },
+        status: {
+          active: 'قيد العرض',
+          scheduled: 'مجدول',
+          expired: 'منتهي',
+          inactive: 'متوقف'
+        },
+        table: {
+          ad: 'الإعلان',
+          schedule: 'الجدولة',
+          status: 'الحالة',
+          impressions: 'مرات الظهور',
+          clicks: 'النقرات',
+          actions: 'الإجراءات'
+        },
+        schedule: {
+          now: 'من الآن',
+          noEnd: 'بدون تاريخ انتهاء'
+        },
+        form: {
+          createTitle: 'إعلان جديد',
+          editTitle: 'تعديل الإعلان',
+          image: 'الصورة',
+          title: 'العنوان',
+          url: 'الرابط',
+          description: 'الوصف',
+          trip: 'الرحلة المروّج لها',
+          noTrip: 'لا يوجد',
+          startsAt: 'يبدأ',
+          endsAt: 'ينتهي',
+          scheduleHint: 'اترك التاريخ فارغًا ليبدأ الإعلان فورًا أو ليستمر دون نهاية.',
+          isActive: 'مفعّل',
+          save: 'حفظ',
+          saving: 'جاري الحفظ...',
+          cancel: 'إلغاء'
+        },
+        delete: {
+          title: 'حذف الإعلان',
+          message: 'هل أنت متأكد من حذف هذا الإعلان؟ ستُحذف أيضًا أعداد الظهور والنقرات.',
+          confirm: 'حذف'
+        },
+        success: {
+          created: 'تم إنشاء الإعلان بنجاح',
+          updated: 'تم تحديث الإعلان بنجاح',
+          deleted: 'تم حذف الإعلان بنجاح'
+        },
+        errors: {
+          loadFailed: 'فشل تحميل الإعلانات',
+          saveFailed: 'فشل حفظ الإعلان',
+          deleteFailed: 'فشل حذف الإعلان',
+          imageRequired: 'الرجاء اختيار صورة'
+        }
+      },
+      feedback: {
+        title: 'آراء المسافرين',
+        filters: {
+          all: 'كل الآراء',
+          visible: 'ظاهرة',
+          hidden: 'مخفية'
+        },
+        empty: 'لا توجد آراء بعد',
+        hiddenBadge: 'مخفي',
+        hide: 'إخفاء',
+        show: 'إظهار مجددًا',
+        hideTitle: 'إخفاء الرأي',
+        hideMessage: 'لن يظهر الرأي المخفي في صفحات الرحلات، ويمكنك إظهاره لاحقًا.',
+        reasonPlaceholder: 'السبب (اختياري)',
+        reason: 'السبب',
+        cancel: 'إلغاء',
+        previous: 'السابق',
+        next: 'التالي',
+        hiddenSuccess: 'تم إخفاء الرأي',
+        shownSuccess: 'أصبح الرأي ظاهرًا مجددًا',
+        loadError: 'فشل تحميل الآراء',
+        updateError: 'فشل تحديث الرأي'
+      },
       users: {
         title: 'إدارة المستخدمين',
         search: {
@@ -408,7 +713,34 @@ export const ar = {
         },
         status: {
           verified: 'تم التحقق',
-          pending: 'قيد الانتظار'
+          pending: 'قيد الانتظار',
+          locked: 'مقفل حتى'
+        },
+        twoFactor: {
+          enabled: 'التحقق بخطوتين مفعل',
+          notEnrolled: 'التحقق بخطوتين غير مفعل',
+          reset: 'إعادة تعيين التحقق بخطوتين',
+          confirmTitle: 'إعادة تعيين التحقق بخطوتين',
+          confirmMessage: 'سيؤدي ذلك إلى إزالة تطبيق المصادقة ورموز الاسترداد الخاصة بالمستخدم وتسجيل خروجه من جميع الأجهزة. سيتعين على المديرين إعداد التحقق بخطوتين مرة أخرى عند تسجيل الدخول التالي.',
+          resetSuccess: 'تمت إعادة تعيين التحقق بخطوتين',
+          resetError: 'فشل إعادة تعيين التحقق بخطوتين'
+        },
+        role: {
+          change: 'تغيير الدور',
+          names: {
+            USER: 'مستخدم',
+            CASHIER: 'أمين صندوق',
+            DISPATCHER: 'منسق رحلات',
+            SUPPORT: 'دعم العملاء',
+            ADMIN: 'مدير'
+          },
+          success: 'تم تحديث دور المستخدم، سيحتاج إلى تسجيل الدخول مرة أخرى',
+          error: 'فشل تحديث دور المستخدم'
+        },
+        unlock: {
+          button: 'فتح الحساب',
+          success: 'تم فتح حساب المستخدم بنجاح',
+          error: 'فشل فتح حساب المستخدم'
         },
         delete: {
           title: 'حذف المستخدم',
@@ -417,6 +749,15 @@ export const ar = {
           cancel: 'إلغاء',
           success: 'تم حذف المستخدم بنجاح',
           error: 'فشل حذف المستخدم'
+        },
+        signOut: {
+          button: 'تسجيل الخروج من كل الأجهزة',
+          title: 'تسجيل الخروج من كل الأجهزة',
+          message: 'سيتم تسجيل خروج هذا المستخدم من جميع الأجهزة وسيحتاج إلى تسجيل الدخول مرة أخرى.',
+          confirm: 'تسجيل الخروج',
+          cancel: 'إلغاء',
+          success: 'تم تسجيل خروج المستخدم من جميع الأجهزة',
+          error: 'فشل تسجيل خروج المستخدم'
         }
       },
       trips: {
@@ -482,12 +823,16 @@ export const ar = {
             lastbookingTime: 'اخر موعد للحجز',
             price: 'السعر',
             status: 'الحالة',
-            primaryImage: 'الصورة الرئيسية'
+            primaryImage: 'الصورة الرئيسية',
+            seatClassPrices: 'تسعير فئات المقاعد',
+            cashDepositPercentage: 'العربون النقدي (%)',
+            balanceDueHours: 'موعد سداد المتبقي (ساعات قبل المغادرة)'
           },
           placeholders: {
             selectRoute: 'اختر المسار',
             selectBus: 'اختر الحافلة',
-            busCapacity: 'السعة'
+            busCapacity: 'السعة',
+            inheritFromRoute: 'افتراضي المسار'
           },
           buttons: {
             create: 'إنشاء الرحلة',
@@ -514,6 +859,14 @@ export const ar = {
               cancelled: 'ملغي',
             }
           },
+          seatClassPrices: {
+            hint: 'المقاعد التي ليس لفئتها سعر تستخدم سعر الرحلة.',
+            modes: {
+              base: 'سعر الرحلة',
+              multiplier: 'مضاعف',
+              price: 'سعر ثابت'
+            }
+          },
         }
       },
 
@@ -532,6 +885,7 @@ export const ar = {
           to: 'إلى',
           distance: 'المسافة (كم)',
           activeTrips: 'الرحلات النشطة',
+          stops: 'المحطات',
           createdAt: 'تاريخ الإنشاء',
           updatedAt: 'تاريخ التحديث',
           actions: 'إجراءات'
@@ -575,6 +929,23 @@ export const ar = {
             created: 'تم إنشاء المسار بنجاح',
             updated: 'تم تحديث المسار بنجاح'
           }
+        },
+        stops: {
+          title: 'محطات المسار',
+          description: 'المحطات بين المغادرة والوصول. ترثها الرحلات الجديدة على هذا المسار، وتحتفظ الرحلات الحالية بمحطاتها.',
+          city: 'المدينة',
+          offset: 'الدقائق بعد المغادرة',
+          fareShare: 'حصة الأجرة (%)',
+          fareShareHint: 'اتركها فارغة لتقسيم الأجرة حسب مدة السفر',
+          selectCity: 'اختر المدينة',
+          add: 'إضافة محطة',
+          remove: 'إزالة',
+          empty: 'يتجه هذا المسار مباشرة من المغادرة إلى الوصول.',
+          save: 'حفظ المحطات',
+          saving: 'جاري الحفظ...',
+          cancel: 'إلغاء',
+          success: 'تم حفظ محطات المسار',
+          error: 'فشل حفظ محطات المسار'
         }
       },
       cities: {
@@ -744,6 +1115,36 @@ export const ar = {
             created: 'تم إنشاء الحافلة بنجاح',
             updated: 'تم تحديث الحافلة بنجاح'
           },
+          layout: {
+            title: 'مخطط المقاعد',
+            rows: 'الصفوف',
+            columns: 'الأعمدة',
+            aisleColumns: 'أعمدة الممر',
+            tool: 'نوع الخانة',
+            seatClass: 'فئة المقعد',
+            hint: 'انقر على خانة لتطبيق النوع المحدد. انقر مرتين على مقعد لإعادة تسميته.',
+            labelPrompt: 'رقم المقعد (اتركه فارغاً للترقيم التلقائي)',
+            seatCount: 'المقاعد',
+            capacityFromLayout: 'السعة محددة بواسطة مخطط المقاعد',
+            save: 'حفظ المخطط',
+            saving: 'جاري الحفظ...',
+            saved: 'تم حفظ مخطط المقاعد',
+            saveFailed: 'فشل في حفظ مخطط المقاعد',
+            loadFailed: 'فشل في تحميل مخطط المقاعد',
+            types: {
+              seat: 'مقعد',
+              aisle: 'ممر',
+              gap: 'فراغ',
+              driver: 'السائق',
+              door: 'الباب'
+            },
+            classes: {
+              standard: 'عادي',
+              premium: 'مميز',
+              front_row: 'الصف الأمامي',
+              vip: 'كبار الشخصيات'
+            }
+          },
           status: {
             active:  'مفعل',
             maintenance: 'صيانة',
@@ -802,6 +1203,22 @@ export const ar = {
         toastMsg:{  
           success: 'تم تأكيد الحجز بنجاح',
         },
+        billStatus: {
+          paid: 'مدفوعة',
+          partially_paid: 'تم دفع العربون',
+          unpaid: 'غير مدفوعة',
+          cancelled: 'ملغاة',
+          refunded: 'مستردة'
+        },
+        balanceDue: 'موعد سداد المتبقي',
+        collectBalance: {
+          title: 'تحصيل المبلغ المتبقي نقداً',
+          message: 'تسجيل أن المبلغ المتبقي من هذا الحجز دُفع نقداً؟ سيتم تعليم الفاتورة كمدفوعة.',
+          confirm: 'تحصيل',
+          cancel: 'إلغاء',
+          success: 'تم تحصيل المبلغ المتبقي بنجاح',
+          error: 'فشل تحصيل المبلغ المتبقي'
+        },
         blockSeats: {
           title: 'حظر مقاعد',
           selectTrip: 'اختر الرحلة',
@@ -833,7 +1250,11 @@ export const ar = {
         labels: {
           name: 'الاسم',
           email: 'البريد الإلكتروني',
-          phone: 'رقم الهاتف'
+          phone: 'رقم الهاتف',
+          seats: 'المقاعد',
+          seatClass: 'الفئة',
+          price: 'السعر',
+          total: 'الإجمالي'
         },
         buttons: {
           close: 'إغلاق'
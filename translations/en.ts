@@ -28,6 +28,9 @@ export const en = {
     }
   },
   brand: 'kzdora',
+  ads: {
+    label: 'Ad'
+  },
   bookings: {
     title: 'My Bookings',
     status: {
@@ -62,7 +65,27 @@ export const en = {
       title: 'Cancel Booking',
       message: 'Are you sure you want to cancel booking ? This action cannot be undone.',
       confirm: 'Confirm',
-      cancel: 'Cancel'
+      cancel: 'Cancel',
+      policy: {
+        loading: 'Checking the cancellation policy...',
+        paidAmount: 'Amount paid',
+        refundPercentage: 'Refund',
+        fee: 'Cancellation fee',
+        refundable: 'You will get back',
+        notAllowed: 'This booking can no longer be cancelled',
+        loadFailed: 'Could not load the cancellation policy'
+      }
+    },
+    rateTrip: {
+      button: 'Rate trip',
+      yourRating: 'Your rating',
+      title: 'How was your trip?',
+      feedbackPlaceholder: 'Tell us more about your trip (optional)',
+      submit: 'Submit',
+      submitting: 'Submitting...',
+      cancel: 'Cancel',
+      ratingRequired: 'Please choose a rating',
+      failed: 'Could not save your rating'
     },
     ConfirmDialog:{
       title: 'Complete Your Booking',
@@ -123,6 +146,8 @@ export const en = {
       soldOut: 'Sold Out',
       hours: 'hours',
       date : 'date',
+      noRatings: 'No ratings yet',
+      ratings: 'ratings',
     },
     noResults: {
       title: 'No Trips Found',
@@ -143,6 +168,14 @@ export const en = {
         booked: 'Booked',
         blocked: 'Blocked'
       },
+      layout: {
+        driver: 'Driver',
+        door: 'Door'
+      },
+      stops: {
+        boarding: 'Boarding at',
+        alighting: 'Getting off at'
+      },
       selectedSeats: 'Selected Seats',
       totalPrice: 'Total Price',
       button: {
@@ -181,6 +214,67 @@ export const en = {
       title: "Popular Routes"
     }
   },
+  profile: {
+    title: 'My Account',
+    details: {
+      title: 'Account Details',
+      name: 'Name',
+      email: 'Email',
+      phone: 'Phone',
+      noPhone: 'No phone'
+    },
+    sessions: {
+      title: 'Signed-in Devices',
+      description: 'Devices that are currently signed in to your account.',
+      current: 'This device',
+      unknownDevice: 'Unknown device',
+      unknownIp: 'Unknown IP',
+      signedIn: 'Signed in',
+      lastActive: 'Last active',
+      revoke: 'Sign out',
+      revokeSuccess: 'Device signed out',
+      revokeError: 'Failed to sign out device',
+      loadFailed: 'Failed to load devices',
+      empty: 'No active devices',
+      signOutAll: 'Log out everywhere',
+      confirmSignOutAll: {
+        title: 'Log Out Everywhere',
+        message: 'You will be signed out of all devices, including this one.'
+      },
+      signOutAllError: 'Failed to sign out of all devices'
+    },
+    signInMethods: {
+      title: 'Sign-in Methods',
+      description: 'Ways you can sign in to this account. At least one has to stay linked.',
+      providers: {
+        password: 'Email and password',
+        google: 'Google',
+        phone: 'Phone number'
+      },
+      linkedAt: 'Linked',
+      notLinked: 'Not linked',
+      link: 'Link',
+      unlink: 'Remove',
+      lastMethod: 'You cannot remove your only sign-in method',
+      passwordPlaceholder: 'New password',
+      setPassword: 'Set password',
+      linkSuccess: 'Sign-in method linked',
+      linkError: 'Failed to link sign-in method',
+      unlinkSuccess: 'Sign-in method removed',
+      unlinkError: 'Failed to remove sign-in method'
+    },
+    twoFactor: {
+      title: 'Two-factor Authentication',
+      description: 'Ask for a code from an authenticator app whenever you sign in.',
+      enabledSince: 'On since',
+      backupCodesRemaining: 'Backup codes left',
+      setUp: 'Set up',
+      codePlaceholder: 'Code from your app',
+      regenerate: 'New backup codes',
+      disable: 'Turn off',
+      actionError: 'Failed to update two-factor authentication'
+    }
+  },
   footer: {
     description: "Your trusted partner for comfortable and reliable bus travel across the country.",
     quickLinks: "Quick Links",
@@ -290,6 +384,37 @@ export const en = {
         resend: "New verification code sent successfully"
       },
     },
+    twoFactor: {
+      title: 'Two-factor authentication',
+      subtitle: 'Enter the 6-digit code from your authenticator app',
+      backupCodeSubtitle: 'Enter one of the backup codes you saved when setting up two-factor',
+      codePlaceholder: '6-digit code',
+      backupCodePlaceholder: 'Backup code',
+      verify: 'Verify',
+      verifying: 'Verifying...',
+      useBackupCode: 'Lost your phone? Use a backup code',
+      useApp: 'Use your authenticator app instead',
+      errors: {
+        invalidCode: 'Invalid code'
+      },
+      enroll: {
+        title: 'Set up two-factor authentication',
+        required: 'Your account requires two-factor authentication before you can continue.',
+        instructions: 'Add this key to an authenticator app such as Google Authenticator, then enter the code it shows.',
+        secretLabel: 'Setup key',
+        openApp: 'Open in authenticator app',
+        codePlaceholder: '6-digit code',
+        enable: 'Turn on',
+        enabling: 'Turning on...',
+        backupCodesTitle: 'Save your backup codes',
+        backupCodesHint: 'Each code signs you in once if you lose access to your authenticator app. They will not be shown again.',
+        savedCodes: 'I have saved these codes',
+        errors: {
+          setupFailed: 'Failed to start two-factor setup',
+          invalidCode: 'Invalid code'
+        }
+      }
+    },
     register: {
 
       title: 'Create your account',
@@ -332,13 +457,16 @@ export const en = {
           users: 'Users',
           bookings: 'Bookings',
           trips: 'Trips',
+          tripSchedules: 'Trip schedules',
           buses: 'Buses',
           routes: 'Routes',
           cities: 'Cities',
           countries: 'Countries',
           reports: 'Reports',
           settings: 'Settings',
-          payments: 'Payments'
+          payments: 'Payments',
+          feedback: 'Feedback',
+          ads: 'Ads'
         },
         home: {
           title: 'Dashboard Overview',
@@ -368,6 +496,183 @@ export const en = {
             monthly: 'Monthly'
           }
         }, 
+        tripSchedules: {
+          title: 'Trip schedules',
+          add: 'New schedule',
+          edit: 'Edit',
+          empty: 'No trip schedules yet',
+          weekdays: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+          status: {
+            active: 'Active',
+            inactive: 'Paused'
+          },
+          table: {
+            route: 'Route',
+            bus: 'Bus',
+            departs: 'Departs',
+            validity: 'Valid',
+            trips: 'Trips',
+            status: 'Status',
+            actions: 'Actions',
+            noEnd: 'No end date',
+            neverGenerated: 'Not generated yet'
+          },
+          form: {
+            createTitle: 'New trip schedule',
+            editTitle: 'Edit trip schedule',
+            route: 'Route',
+            selectRoute: 'Select a route',
+            bus: 'Bus',
+            selectBus: 'Select a bus',
+            weekdays: 'Runs on',
+            departureTime: 'Departure time',
+            durationMinutes: 'Duration (minutes)',
+            timezone: 'Time zone',
+            startDate: 'From',
+            endDate: 'Until',
+            horizonDays: 'Generate days ahead',
+            price: 'Price',
+            bookingCutoffMinutes: 'Booking closes (minutes before departure)',
+            titleAr: 'Title (Arabic)',
+            titleEn: 'Title (English)',
+            descriptionAr: 'Description (Arabic)',
+            descriptionEn: 'Description (English)',
+            latitude: 'Latitude',
+            longitude: 'Longitude',
+            isActive: 'Active',
+            hint: 'Changes apply to trips generated from now on; trips already generated keep their details.',
+            save: 'Save',
+            saving: 'Saving...',
+            cancel: 'Cancel'
+          },
+          generate: {
+            run: 'Generate now',
+            preview: 'Preview',
+            summary: '{count} trips generated',
+            previewSummary: '{count} trips would be generated',
+            existing: 'Already generated',
+            skipped: 'Skipped for exceptions',
+            conflicts: '{count} conflicts'
+          },
+          conflictReasons: {
+            bus_busy: 'Bus already booked',
+            bus_unavailable: 'Bus unavailable',
+            route_stops: 'Stop times do not fit'
+          },
+          exceptions: {
+            title: 'Holidays and exceptions',
+            hint: 'No trips are generated on these dates. Trips generated before a date was added must be cancelled by hand.',
+            allSchedules: 'All schedules',
+            reason: 'Reason (optional)',
+            add: 'Add date',
+            empty: 'No upcoming holidays or exceptions',
+            existingTrips: 'Date added. {count} trips were already generated for it and must be cancelled by hand.'
+          },
+          delete: {
+            title: 'Delete schedule',
+            message: 'Are you sure you want to delete this schedule? Trips it already generated are kept.',
+            confirm: 'Delete'
+          },
+          success: {
+            created: 'Schedule created successfully',
+            updated: 'Schedule updated successfully',
+            deleted: 'Schedule deleted successfully',
+            exceptionAdded: 'Date added'
+          },
+          errors: {
+            loadFailed: 'Failed to load trip schedules',
+            saveFailed: 'Failed to save the schedule',
+            deleteFailed: 'Failed to delete the schedule',
+            generateFailed: 'Failed to generate trips',
+            exceptionFailed: 'Failed to update holidays and exceptions',
+            weekdaysRequired: 'Choose at least one weekday'
+          }
+        },
+        ads: {
+          title: 'Advertisements',
+          add: 'New ad',
+          edit: 'Edit',
+          empty: 'No ads yet',
+          previous: 'Previous',
+          next: 'Next',
+          filters: {
+            all: 'All ads'
+          },
+          status: {
+            active: 'Running',
+            scheduled: 'Scheduled',
+            expired: 'Ended',
+            inactive: 'Switched off'
+          },
+          table: {
+            ad: 'Ad',
+            schedule: 'Schedule',
+            status: 'Status',
+            impressions: 'Impressions',
+            clicks: 'Clicks',
+            actions: 'Actions'
+          },
+          schedule: {
+            now: 'From now',
+            noEnd: 'No end date'
+          },
+          form: {
+            createTitle: 'New ad',
+            editTitle: 'Edit ad',
+            image: 'Image',
+            title: 'Title',
+            url: 'Link',
+            description: 'Description',
+            trip: 'Promoted trip',
+            noTrip: 'None',
+            startsAt: 'Starts',
+            endsAt: 'Ends',
+            scheduleHint: 'Leave a date empty to start right away or run without an end.',
+            isActive: 'Active',
+            save: 'Save',
+            saving: 'Saving...',
+            cancel: 'Cancel'
+          },
+          delete: {
+            title: 'Delete ad',
+            message: 'Are you sure you want to delete this ad? Its impression and click counts are lost too.',
+            confirm: 'Delete'
+          },
+          success: {
+            created: 'Ad created successfully',
+            updated: 'Ad updated successfully',
+            deleted: 'Ad deleted successfully'
+          },
+          errors: {
+            loadFailed: 'Failed to load ads',
+            saveFailed: 'Failed to save the ad',
+            deleteFailed: 'Failed to delete the ad',
+            imageRequired: 'Please choose an image'
+          }
+        },
+        feedback: {
+          title: 'Trip Feedback',
+          filters: {
+            all: 'All feedback',
+            visible: 'Visible',
+            hidden: 'Hidden'
+          },
+          empty: 'No feedback yet',
+          hiddenBadge: 'Hidden',
+          hide: 'Hide',
+          show: 'Show again',
+          hideTitle: 'Hide feedback',
+          hideMessage: 'Hidden feedback no longer appears on trip pages. You can show it again later.',
+          reasonPlaceholder: 'Reason (optional)',
+          reason: 'Reason',
+          cancel: 'Cancel',
+          previous: 'Previous',
+          next: 'Next',
+          hiddenSuccess: 'Feedback hidden',
+          shownSuccess: 'Feedback is visible again',
+          loadError: 'Failed to load feedback',
+          updateError: 'Failed to update feedback'
+        },
         users: {
           title: 'Users Management',
           search: {
@@ -384,7 +689,34 @@ export const en = {
           },
           status: {
             verified: 'Verified',
-            pending: 'Pending'
+            pending: 'Pending',
+            locked: 'Locked until'
+          },
+          twoFactor: {
+            enabled: '2FA on',
+            notEnrolled: '2FA not set up',
+            reset: 'Reset two-factor',
+            confirmTitle: 'Reset Two-Factor Authentication',
+            confirmMessage: 'This removes the user\'s authenticator and backup codes and signs them out everywhere. Admins will have to set up two-factor again at their next login.',
+            resetSuccess: 'Two-factor authentication reset',
+            resetError: 'Failed to reset two-factor authentication'
+          },
+          role: {
+            change: 'Change role',
+            names: {
+              USER: 'User',
+              CASHIER: 'Cashier',
+              DISPATCHER: 'Dispatcher',
+              SUPPORT: 'Support',
+              ADMIN: 'Admin'
+            },
+            success: 'User role updated, they will need to sign in again',
+            error: 'Failed to update user role'
+          },
+          unlock: {
+            button: 'Unlock account',
+            success: 'User unlocked successfully',
+            error: 'Failed to unlock user'
           },
           delete: {
             title: 'Delete User',
@@ -393,6 +725,15 @@ export const en = {
             cancel: 'Cancel',
             success: 'User deleted successfully',
             error: 'Failed to delete user'
+          },
+          signOut: {
+            button: 'Sign out everywhere',
+            title: 'Sign Out Everywhere',
+            message: 'This user will be signed out of all devices and will need to log in again.',
+            confirm: 'Sign Out',
+            cancel: 'Cancel',
+            success: 'User signed out of all devices',
+            error: 'Failed to sign out user'
           }
         },
         trips: {
@@ -458,12 +799,16 @@ export const en = {
               lastbookingTime: 'Last Booking Time',
               price: 'Price',
               status: 'Status',
-              primaryImage: 'Primary Image'
+              primaryImage: 'Primary Image',
+              seatClassPrices: 'Seat Class Pricing',
+              cashDepositPercentage: 'Cash Deposit (%)',
+              balanceDueHours: 'Balance Due (hours before departure)'
             },
             placeholders: {
               selectRoute: 'Select a route',
               selectBus: 'Select a bus',
-              busCapacity: 'Capacity'
+              busCapacity: 'Capacity',
+              inheritFromRoute: 'Route default'
             },
             buttons: {
               create: 'Create Trip',
@@ -490,6 +835,14 @@ export const en = {
                 cancelled: 'cancelled',
               }
             },
+            seatClassPrices: {
+              hint: 'Seats without a class price use the trip price.',
+              modes: {
+                base: 'Trip price',
+                multiplier: 'Multiplier',
+                price: 'Fixed price'
+              }
+            },
 
           }
         },
@@ -508,6 +861,7 @@ export const en = {
             to: 'To',
             distance: 'Distance (km)',
             activeTrips: 'Active Trips',
+            stops: 'Stops',
             createdAt: 'Created At',
             updatedAt: 'Updated At',
             actions: 'Actions'
@@ -551,6 +905,23 @@ export const en = {
               created: 'Route created successfully',
               updated: 'Route updated successfully'
             }
+          },
+          stops: {
+            title: 'Route Stops',
+            description: 'Stops between departure and arrival. New trips on this route inherit them; existing trips keep theirs.',
+            city: 'City',
+            offset: 'Minutes after departure',
+            fareShare: 'Fare share (%)',
+            fareShareHint: 'Leave empty to split the fare by travel time',
+            selectCity: 'Select city',
+            add: 'Add Stop',
+            remove: 'Remove',
+            empty: 'This route goes straight from departure to arrival.',
+            save: 'Save Stops',
+            saving: 'Saving...',
+            cancel: 'Cancel',
+            success: 'Route stops saved',
+            error: 'Failed to save route stops'
           }
         },
         cities: {
@@ -720,6 +1091,36 @@ export const en = {
               created: 'Bus created successfully',
               updated: 'Bus updated successfully'
             },
+            layout: {
+              title: 'Seat Layout',
+              rows: 'Rows',
+              columns: 'Columns',
+              aisleColumns: 'Aisle columns',
+              tool: 'Cell type',
+              seatClass: 'Seat class',
+              hint: 'Click a cell to apply the selected type. Double-click a seat to rename it.',
+              labelPrompt: 'Seat label (leave empty for automatic numbering)',
+              seatCount: 'Seats',
+              capacityFromLayout: 'Capacity is set by the seat layout',
+              save: 'Save Layout',
+              saving: 'Saving...',
+              saved: 'Seat layout saved',
+              saveFailed: 'Failed to save seat layout',
+              loadFailed: 'Failed to load seat layout',
+              types: {
+                seat: 'Seat',
+                aisle: 'Aisle',
+                gap: 'Gap',
+                driver: 'Driver',
+                door: 'Door'
+              },
+              classes: {
+                standard: 'Standard',
+                premium: 'Premium',
+                front_row: 'Front row',
+                vip: 'VIP'
+              }
+            },
             status: {
               active:  'Active',
               maintenance: 'Maintenance',
@@ -804,13 +1205,33 @@ export const en = {
           toastMsg:{  
             success: 'Booking confirmed successfully',
           },
+          billStatus: {
+            paid: 'Paid',
+            partially_paid: 'Deposit Paid',
+            unpaid: 'Unpaid',
+            cancelled: 'Cancelled',
+            refunded: 'Refunded'
+          },
+          balanceDue: 'Balance due',
+          collectBalance: {
+            title: 'Collect Cash Balance',
+            message: 'Record that the remaining balance of this booking was paid in cash? The bill will be marked as paid.',
+            confirm: 'Collect',
+            cancel: 'Cancel',
+            success: 'Balance collected successfully',
+            error: 'Failed to collect balance'
+          },
         },
         bookingDetails: {
           title: 'Customer Information',
           labels: {
             name: 'Name',
             email: 'Email',
-            phone: 'Phone'
+            phone: 'Phone',
+            seats: 'Seats',
+            seatClass: 'Class',
+            price: 'Price',
+            total: 'Total'
           },
           buttons: {
             close: 'Close'
@@ -6,6 +6,11 @@ export interface Trip {
   arrivalTime: string
   price: number
   availableSeats: number
+  // Average of earlier trips on the same route
+  rating?: {
+    average: number | null
+    count: number
+  }
 }
 
 export interface Seat {
@@ -44,8 +44,8 @@ export interface Translations {
       bookNow: string
       soldOut: string
       hours: string
-      
-      
+      noRatings: string
+      ratings: string
     }
     noResults: {
       title: string
@@ -28,8 +28,10 @@ export const getValidToken = async (): Promise<string | null> => {
 
       if (!res.ok) throw new Error('Token refresh failed')
 
-      const data = await res.json()
+      // Refresh tokens rotate: the old one is revoked, so keep the new one
+      const { data } = await res.json()
       localStorage.setItem('token', data.token)
+      localStorage.setItem('refreshToken', data.refreshToken)
       return data.token
     } catch (err) {
       console.error('Failed to refresh token', err)
@@ -49,4 +51,28 @@ export const getValidToken = async (): Promise<string | null> => {
 //   } catch {
 //     return true
 //   }
-// }
\ No newline at end of file
+// }
+// A login that still waits for its second factor, kept for the current tab only
+export interface TwoFactorChallenge {
+  challengeToken: string
+  twoFactorStage: 'verify' | 'enroll'
+}
+
+const TWO_FACTOR_CHALLENGE_KEY = 'twoFactorChallenge'
+
+export const storeTwoFactorChallenge = ({ challengeToken, twoFactorStage }: TwoFactorChallenge) => {
+  sessionStorage.setItem(TWO_FACTOR_CHALLENGE_KEY, JSON.stringify({ challengeToken, twoFactorStage }))
+}
+
+export const readTwoFactorChallenge = (): TwoFactorChallenge | null => {
+  try {
+    const stored = sessionStorage.getItem(TWO_FACTOR_CHALLENGE_KEY)
+    return stored ? JSON.parse(stored) : null
+  } catch {
+    return null
+  }
+}
+
+export const clearTwoFactorChallenge = () => {
+  sessionStorage.removeItem(TWO_FACTOR_CHALLENGE_KEY)
+}
@@ -8,10 +8,8 @@ const transporter = nodemailer.createTransport({
   }
 })
 
-export const sendVerificationEmail = async (email: string, token: string) => {
-  // Generate a 6-digit verification code from the token
-  const verificationCode = token.substring(0, 6).toUpperCase()
-
+// The code comes from lib/otpService, which also enforces its expiry
+export const sendVerificationEmail = async (email: string, verificationCode: string, expiresInMinutes: number) => {
   const mailOptions = {
     from: process.env.EMAIL_USER,
     to: email,
@@ -21,7 +19,7 @@ export const sendVerificationEmail = async (email: string, token: string) => {
       <p>Your verification code is:</p>
       <h2 style="color: #4CAF50; font-size: 32px; letter-spacing: 3px; padding: 10px; background: #f5f5f5; display: inline-block;">${verificationCode}</h2>
       <p>Enter this code to verify your email address.</p>
-      <p>This code will expire in 24 hours.</p>
+      <p>This code will expire in ${expiresInMinutes} minutes.</p>
     `
   }
 